@@ -1,24 +1,50 @@
 import React from 'react'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { StaffPermission, STAFF_ROLE_LABELS } from './lib/supabase'
 import { LoginForm } from './components/LoginForm'
+import { SetPasswordForm } from './components/SetPasswordForm'
+import { ChangePasswordForm } from './components/ChangePasswordForm'
+import { MfaForm } from './components/MfaForm'
+import { AccountSecurity } from './components/AccountSecurity'
 import { PublicSite } from './components/PublicSite'
-import { Layout } from './components/Layout'
+import { Layout, NavItem } from './components/Layout'
 import { UserManagement } from './components/UserManagement'
 import { VacancyManagement } from './components/VacancyManagement'
 import { ApplicationManagement } from './components/ApplicationManagement'
 import { QuestionBankManagement } from './components/QuestionBankManagement'
+import { ScorecardManagement } from './components/ScorecardManagement'
+import { NotificationTemplateManagement } from './components/NotificationTemplateManagement'
 import { EvaluationManagement } from './components/EvaluationManagement'
+import { TalentPool } from './components/TalentPool'
 import { ManagerApplications } from './components/ManagerApplications'
 import { RHDashboard } from './components/RHDashboard'
+import { PermissionMatrix } from './components/PermissionMatrix'
+import { Users, Building2, FileText, Award, BarChart3, Mail, Bookmark, ClipboardCheck, Shield, KeyRound } from 'lucide-react'
+
+// Staff views with the permission each one needs; drives both the navigation and the routing
+const STAFF_VIEWS: Array<NavItem & { permission: StaffPermission; element: React.ReactNode }> = [
+  { view: 'dashboard', label: 'Dashboard', icon: BarChart3, permission: 'dashboard.view', element: <RHDashboard /> },
+  { view: 'users', label: 'Gestión de Usuarios', icon: Users, permission: 'staff.view', element: <UserManagement /> },
+  { view: 'permissions', label: 'Roles y Permisos', icon: KeyRound, permission: 'staff.view', element: <PermissionMatrix /> },
+  { view: 'vacancies', label: 'Gestión de Vacantes', icon: Building2, permission: 'vacancy.view', element: <VacancyManagement /> },
+  { view: 'applications', label: 'Aplicaciones', icon: FileText, permission: 'application.view', element: <ApplicationManagement /> },
+  { view: 'evaluation', label: 'Evaluación Final', icon: Award, permission: 'evaluation.view', element: <EvaluationManagement /> },
+  { view: 'talent-pool', label: 'Bolsa de Talento', icon: Bookmark, permission: 'talent_pool.view', element: <TalentPool /> },
+  { view: 'question-banks', label: 'Bancos de Preguntas', icon: Shield, permission: 'question_bank.view', element: <QuestionBankManagement /> },
+  { view: 'scorecards', label: 'Scorecards', icon: ClipboardCheck, permission: 'scorecard.manage', element: <ScorecardManagement /> },
+  { view: 'notification-templates', label: 'Plantillas de Notificación', icon: Mail, permission: 'notification_template.manage', element: <NotificationTemplateManagement /> },
+  { view: 'manager-applications', label: 'Mis Aplicaciones', icon: FileText, permission: 'manager.interview', element: <ManagerApplications /> }
+]
 
 function AppContent() {
-  const { user, profile, loading } = useAuth()
+  const { user, profile, mfa, loading, can } = useAuth()
   const [currentView, setCurrentView] = React.useState('default')
   const [showPublicSite, setShowPublicSite] = React.useState(false)
 
   React.useEffect(() => {
     const handleHashChange = () => {
-      const hash = window.location.hash.slice(1)
+      // Query parameters (e.g. #set-password?token=...) are read by the view itself
+      const hash = window.location.hash.slice(1).split('?')[0]
       if (hash === 'public') {
         setShowPublicSite(true)
       } else if (hash === 'login') {
@@ -36,6 +62,11 @@ function AppContent() {
     return () => window.removeEventListener('hashchange', handleHashChange)
   }, [])
 
+  // Invitation and password reset links work with or without a session
+  if (currentView === 'set-password') {
+    return <SetPasswordForm />
+  }
+
   // Show public site by default or when explicitly requested
   if (showPublicSite || (!user && currentView !== 'login')) {
     return <PublicSite />
@@ -56,23 +87,24 @@ function AppContent() {
     return <LoginForm />
   }
 
+  if (profile.must_change_password) {
+    return <ChangePasswordForm />
+  }
+
+  // Second factor: mandatory for RH roles, asked for whoever registered an authenticator
+  if (mfa?.currentLevel !== 'aal2' && (profile.mfa_required || mfa?.nextLevel === 'aal2')) {
+    return <MfaForm />
+  }
+
+  const views = STAFF_VIEWS.filter(item => can(item.permission))
+  const activeView = views.find(item => item.view === currentView) || views[0]
+
   return (
-    <Layout>
-      {profile.role === 'RH' ? (
-        <>
-          {currentView === 'dashboard' && <RHDashboard />}
-          {currentView === 'users' && <UserManagement />}
-          {currentView === 'vacancies' && <VacancyManagement />}
-          {currentView === 'applications' && <ApplicationManagement />}
-          {currentView === 'evaluation' && <EvaluationManagement />}
-          {currentView === 'question-banks' && <QuestionBankManagement />}
-          {currentView === 'default' && <RHDashboard />}
-        </>
-      ) : profile.role === 'MANAGER' ? (
-        <>
-          {currentView === 'manager-applications' && <ManagerApplications />}
-          {currentView === 'default' && <ManagerApplications />}
-        </>
+    <Layout navItems={views} currentView={currentView === 'security' ? 'security' : activeView?.view}>
+      {currentView === 'security' ? (
+        <AccountSecurity />
+      ) : activeView ? (
+        activeView.element
       ) : (
         <div className="text-center py-12">
           <h2 className="text-2xl font-bold text-gray-900">
@@ -94,7 +126,7 @@ function AppContent() {
               </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Rol</dt>
-                <dd className="mt-1 text-sm text-gray-900">{profile.role}</dd>
+                <dd className="mt-1 text-sm text-gray-900">{STAFF_ROLE_LABELS[profile.role] || profile.role}</dd>
               </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">Estado</dt>
@@ -104,6 +136,9 @@ function AppContent() {
               </div>
             </dl>
           </div>
+          <p className="mt-4 text-sm text-gray-500">
+            Tu rol todavía no tiene permisos asignados. Contacta a un administrador de RH.
+          </p>
         </div>
       )}
     </Layout>
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  listMySessions,
+  revokeMySession,
+  listTotpFactors,
+  unenrollTotpFactor,
+  StaffSession
+} from '../lib/supabase'
+import { TotpEnrollment } from './MfaForm'
+import { ShieldCheck, ShieldOff, Monitor, LogOut } from 'lucide-react'
+
+// Second factor and open sessions of the signed-in user
+export function AccountSecurity() {
+  const { profile, mfa, refreshProfile } = useAuth()
+  const [sessions, setSessions] = useState<StaffSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [enrolling, setEnrolling] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const mfaEnabled = mfa?.nextLevel === 'aal2'
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true)
+      setSessions(await listMySessions())
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const handleRevoke = async (session?: StaffSession) => {
+    const question = session
+      ? '¿Cerrar esta sesión? El dispositivo tendrá que iniciar sesión de nuevo.'
+      : '¿Cerrar todas tus sesiones excepto esta?'
+    if (!confirm(question)) {
+      return
+    }
+
+    try {
+      setError('')
+      const result = await revokeMySession(session?.id)
+      setNotice(result.revoked === 1 ? 'Se cerró 1 sesión.' : `Se cerraron ${result.revoked} sesiones.`)
+      loadSessions()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleDisableMfa = async () => {
+    if (!confirm('¿Desactivar la verificación en dos pasos? Tu cuenta quedará protegida solo con la contraseña.')) {
+      return
+    }
+
+    try {
+      setError('')
+      for (const factor of await listTotpFactors()) {
+        await unenrollTotpFactor(factor.id)
+      }
+      setNotice('Verificación en dos pasos desactivada.')
+      await refreshProfile()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleEnrolled = async () => {
+    setEnrolling(false)
+    setNotice('Verificación en dos pasos activada.')
+    await refreshProfile()
+    loadSessions()
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Mi seguridad</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Verificación en dos pasos y dispositivos con sesión abierta.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {notice}
+        </div>
+      )}
+
+      {/* Second factor */}
+      <div className="mt-6 bg-white shadow sm:rounded-md p-6">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            {mfaEnabled ? (
+              <ShieldCheck className="h-6 w-6 text-green-600" />
+            ) : (
+              <ShieldOff className="h-6 w-6 text-gray-400" />
+            )}
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Verificación en dos pasos</h2>
+              <p className="text-sm text-gray-500">
+                {mfaEnabled
+                  ? 'Activa: al iniciar sesión se pide un código de tu app de autenticación.'
+                  : 'Inactiva: añade un código de tu app de autenticación al iniciar sesión.'}
+                {profile?.mfa_required && ' Obligatoria para tu rol.'}
+              </p>
+            </div>
+          </div>
+          {mfaEnabled ? (
+            !profile?.mfa_required && (
+              <button
+                onClick={handleDisableMfa}
+                className="px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50"
+              >
+                Desactivar
+              </button>
+            )
+          ) : !enrolling && (
+            <button
+              onClick={() => setEnrolling(true)}
+              className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700"
+            >
+              Activar
+            </button>
+          )}
+        </div>
+
+        {enrolling && (
+          <div className="mt-6 max-w-md">
+            <TotpEnrollment onEnrolled={handleEnrolled} />
+            <button
+              onClick={() => setEnrolling(false)}
+              className="mt-3 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Cancelar
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Sessions */}
+      <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
+        <div className="px-6 py-4 flex items-center justify-between border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Mis sesiones</h2>
+          {sessions.some(session => !session.current) && (
+            <button
+              onClick={() => handleRevoke()}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Cerrar las demás sesiones
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => (
+              <li key={session.id} className="px-6 py-4 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <Monitor className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  <div className="ml-4 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate" title={session.user_agent ?? undefined}>
+                      {session.user_agent || 'Dispositivo desconocido'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ip || 'IP desconocida'} • Inicio: {new Date(session.created_at).toLocaleString()} •
+                      Última actividad: {new Date(session.last_active_at).toLocaleString()}
+                      {session.aal === 'aal2' && ' • Verificada en dos pasos'}
+                    </p>
+                  </div>
+                </div>
+                {session.current ? (
+                  <span className="ml-4 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    Esta sesión
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    className="ml-4 text-red-600 hover:text-red-900 text-sm font-medium"
+                  >
+                    Cerrar sesión
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
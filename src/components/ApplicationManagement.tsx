@@ -3,11 +3,13 @@ import { useAuth } from '../contexts/AuthContext'
 import { 
   listApplicationsForRH,
   getApplicationDetails,
-  transitionToRHInterview,
+  scheduleRHInterview,
+  openSelfBooking,
   startRHInterview,
   saveRHInterviewDraft,
   finalizeRHInterview,
   getRHInterview,
+  rejectApplication,
   Application,
   ApplicationsResponse,
   RHInterview,
@@ -28,11 +30,18 @@ import {
   Save,
   Send,
   Plus,
-  Trash2
+  Trash2,
+  ThumbsDown,
+  List,
+  CalendarDays
 } from 'lucide-react'
+import { DocumentViewerModal } from './DocumentViewerModal'
+import { RejectApplicationModal } from './RejectApplicationModal'
+import { InterviewCalendar, FreeSlotSelect } from './InterviewCalendar'
+import { AppointmentHistory } from './AppointmentHistory'
 
 export function ApplicationManagement() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
   const [applications, setApplications] = useState<ApplicationsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -40,20 +49,23 @@ export function ApplicationManagement() {
   const [showScheduleModal, setShowScheduleModal] = useState(false)
   const [showInterviewModal, setShowInterviewModal] = useState(false)
   const [currentInterview, setCurrentInterview] = useState<RHInterview | null>(null)
+  const [documentsApplication, setDocumentsApplication] = useState<Application | null>(null)
+  const [rejectingApplication, setRejectingApplication] = useState<Application | null>(null)
   const [filters, setFilters] = useState({
     status: '',
     search: ''
   })
   const [currentPage, setCurrentPage] = useState(1)
+  const [view, setView] = useState<'list' | 'calendar'>('list')
 
-  // Only allow RH users
-  if (profile?.role !== 'RH') {
+  // Only allow users whose role holds application.view
+  if (!can('application.view')) {
     return (
       <div className="text-center py-12">
         <XCircle className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol RH pueden gestionar aplicaciones.
+          Tu rol no tiene permiso para ver las aplicaciones.
         </p>
       </div>
     )
@@ -79,17 +91,39 @@ export function ApplicationManagement() {
     loadApplications()
   }, [currentPage, filters])
 
-  const handleScheduleInterview = async (applicationId: string, at: string, location: string) => {
-    try {
-      await transitionToRHInterview(applicationId, at, location)
-      setShowScheduleModal(false)
-      setSelectedApplication(null)
-      loadApplications()
-    } catch (err: any) {
-      setError(err.message)
+  // Errors (e.g. schedule conflicts) are shown inside the modal
+  const handleScheduleInterview = async (
+    applicationId: string,
+    at: string | null,
+    location: string | null,
+    slotId?: string
+  ) => {
+    const result = await scheduleRHInterview(applicationId, at, location, slotId)
+    setShowScheduleModal(false)
+    setSelectedApplication(null)
+    loadApplications()
+    if (result.outside_availability) {
+      alert('La entrevista quedó agendada fuera del horario de disponibilidad del entrevistador.')
     }
   }
 
+  const handleInviteSelfBooking = async (applicationId: string) => {
+    const result = await openSelfBooking(applicationId, 'RH')
+    setShowScheduleModal(false)
+    setSelectedApplication(null)
+    loadApplications()
+    alert(result.available_slots > 0
+      ? `Se invitó al candidato a elegir su horario (${result.available_slots} horarios disponibles).`
+      : 'Se invitó al candidato, pero no hay horarios publicados disponibles. Publica horarios desde el calendario.')
+  }
+
+  const handleReject = async (reasonCode: string, note: string) => {
+    if (!rejectingApplication) return
+    await rejectApplication(rejectingApplication.id, reasonCode, note)
+    setRejectingApplication(null)
+    loadApplications()
+  }
+
   const handleStartInterview = async (application: Application) => {
     try {
       const interviewData = await startRHInterview(application.id)
@@ -143,6 +177,10 @@ export function ApplicationManagement() {
         return 'bg-green-100 text-green-800'
       case 'Rechazado':
         return 'bg-red-100 text-red-800'
+      case 'BolsaDeTalento':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'Retirado':
+        return 'bg-gray-200 text-gray-700'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -162,6 +200,10 @@ export function ApplicationManagement() {
         return 'Aceptado'
       case 'Rechazado':
         return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
       default:
         return status
     }
@@ -182,161 +224,191 @@ export function ApplicationManagement() {
             Administra las aplicaciones y realiza entrevistas de RH.
           </p>
         </div>
-      </div>
-
-      {/* Filters */}
-      <div className="mt-6 bg-white p-4 rounded-lg shadow">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Buscar</label>
-            <div className="mt-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-              <input
-                type="text"
-                value={filters.search}
-                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
-                className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                placeholder="Folio, candidato o puesto..."
-              />
-            </div>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Estado</label>
-            <select
-              value={filters.status}
-              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              onClick={() => setView('list')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium border border-gray-300 rounded-l-md ${view === 'list' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <List className="h-4 w-4 mr-2" />
+              Lista
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium border border-gray-300 rounded-r-md ${view === 'calendar' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
             >
-              <option value="">Todos</option>
-              <option value="RevisionDeDocumentos">Revisión de Documentos</option>
-              <option value="EntrevistaConRH">Entrevista con RH</option>
-              <option value="EntrevistaConManager">Entrevista con Manager</option>
-              <option value="Evaluando">Evaluando</option>
-              <option value="Aceptado">Aceptado</option>
-              <option value="Rechazado">Rechazado</option>
-            </select>
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendario
+            </button>
           </div>
         </div>
       </div>
 
-      {error && (
-        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
-          {error}
-        </div>
-      )}
-
-      {/* Applications table */}
-      <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
-        {loading ? (
-          <div className="p-8 text-center">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
-            <p className="mt-2 text-sm text-gray-500">Cargando aplicaciones...</p>
+      {view === 'calendar' && <InterviewCalendar />}
+
+      {view === 'list' && (
+        <>
+          {/* Filters */}
+          <div className="mt-6 bg-white p-4 rounded-lg shadow">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Buscar</label>
+                <div className="mt-1 relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={filters.search}
+                    onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                    className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="Folio, candidato o puesto..."
+                  />
+                </div>
+              </div>
+          
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Estado</label>
+                <select
+                  value={filters.status}
+                  onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Todos</option>
+                  <option value="RevisionDeDocumentos">Revisión de Documentos</option>
+                  <option value="EntrevistaConRH">Entrevista con RH</option>
+                  <option value="EntrevistaConManager">Entrevista con Manager</option>
+                  <option value="Evaluando">Evaluando</option>
+                  <option value="Aceptado">Aceptado</option>
+                  <option value="Rechazado">Rechazado</option>
+                  <option value="BolsaDeTalento">Bolsa de Talento</option>
+                  <option value="Retirado">Retirado</option>
+                </select>
+              </div>
+            </div>
           </div>
-        ) : (
-          <ul className="divide-y divide-gray-200">
-            {filteredApplications.map((application) => (
-              <li key={application.id} className="px-6 py-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <User className="h-8 w-8 text-gray-600" />
-                    </div>
-                    <div className="ml-4">
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {/* Applications table */}
+          <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+                <p className="mt-2 text-sm text-gray-500">Cargando aplicaciones...</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {filteredApplications.map((application) => (
+                  <li key={application.id} className="px-6 py-4">
+                    <div className="flex items-center justify-between">
                       <div className="flex items-center">
-                        <p className="text-sm font-medium text-gray-900">
-                          {application.candidate?.full_name}
-                        </p>
-                        <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
-                          {getStatusLabel(application.status)}
-                        </span>
+                        <div className="flex-shrink-0">
+                          <User className="h-8 w-8 text-gray-600" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="flex items-center">
+                            <p className="text-sm font-medium text-gray-900">
+                              {application.candidate?.full_name}
+                            </p>
+                            <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
+                              {getStatusLabel(application.status)}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            Folio: {application.folio} • {application.vacancy?.position}
+                          </p>
+                          <div className="flex items-center mt-1 text-xs text-gray-500">
+                            <span>Aplicó: {new Date(application.created_at).toLocaleDateString()}</span>
+                            {application.scheduled_rh_at && (
+                              <span className="ml-4 flex items-center">
+                                <Calendar className="h-3 w-3 mr-1" />
+                                RH: {new Date(application.scheduled_rh_at).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                      <p className="text-sm text-gray-500">
-                        Folio: {application.folio} • {application.vacancy?.position}
-                      </p>
-                      <div className="flex items-center mt-1 text-xs text-gray-500">
-                        <span>Aplicó: {new Date(application.created_at).toLocaleDateString()}</span>
-                        {application.scheduled_rh_at && (
-                          <span className="ml-4 flex items-center">
-                            <Calendar className="h-3 w-3 mr-1" />
-                            RH: {new Date(application.scheduled_rh_at).toLocaleDateString()}
-                          </span>
+                      <div className="flex items-center space-x-2">
+                        {can('interview.schedule') && ['RevisionDeDocumentos', 'EntrevistaConRH'].includes(application.status) && (
+                          <button
+                            onClick={() => {
+                              setSelectedApplication(application)
+                              setShowScheduleModal(true)
+                            }}
+                            className="text-blue-600 hover:text-blue-900"
+                            title={application.scheduled_rh_at ? 'Reagendar entrevista RH' : 'Agendar entrevista RH'}
+                          >
+                            <Calendar className="h-4 w-4" />
+                          </button>
+                        )}
+                        {can('interview.conduct') && application.status === 'EntrevistaConRH' && application.scheduled_rh_at && (
+                          <button
+                            onClick={() => handleStartInterview(application)}
+                            className="text-green-600 hover:text-green-900"
+                            title="Iniciar entrevista"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setDocumentsApplication(application)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          title={application.status === 'RevisionDeDocumentos' ? 'Revisar documentos' : 'Ver documentos'}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleViewInterview(application)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Ver detalles"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </button>
+                        {can('application.manage') && !['Aceptado', 'Rechazado', 'Retirado'].includes(application.status) && (
+                          <button
+                            onClick={() => setRejectingApplication(application)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Rechazar"
+                          >
+                            <ThumbsDown className="h-4 w-4" />
+                          </button>
                         )}
                       </div>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    {application.status === 'RevisionDeDocumentos' && (
-                      <button
-                        onClick={() => {
-                          setSelectedApplication(application)
-                          setShowScheduleModal(true)
-                        }}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="Agendar entrevista RH"
-                      >
-                        <Calendar className="h-4 w-4" />
-                      </button>
-                    )}
-                    {application.status === 'EntrevistaConRH' && !application.scheduled_rh_at && (
-                      <button
-                        onClick={() => {
-                          setSelectedApplication(application)
-                          setShowScheduleModal(true)
-                        }}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="Agendar entrevista RH"
-                      >
-                        <Calendar className="h-4 w-4" />
-                      </button>
-                    )}
-                    {application.status === 'EntrevistaConRH' && application.scheduled_rh_at && (
-                      <button
-                        onClick={() => handleStartInterview(application)}
-                        className="text-green-600 hover:text-green-900"
-                        title="Iniciar entrevista"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
-                    )}
-                    <button
-                      onClick={() => handleViewInterview(application)}
-                      className="text-gray-600 hover:text-gray-900"
-                      title="Ver detalles"
-                    >
-                      <Eye className="h-4 w-4" />
-                    </button>
-                  </div>
-                </div>
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
-
-      {/* Pagination */}
-      {applications && applications.total_pages > 1 && (
-        <div className="mt-6 flex items-center justify-between">
-          <div className="text-sm text-gray-700">
-            Mostrando {((currentPage - 1) * 20) + 1} a {Math.min(currentPage * 20, applications.total)} de {applications.total} aplicaciones
-          </div>
-          <div className="flex space-x-2">
-            <button
-              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-              disabled={currentPage === 1}
-              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
-            >
-              Anterior
-            </button>
-            <button
-              onClick={() => setCurrentPage(Math.min(applications.total_pages, currentPage + 1))}
-              disabled={currentPage === applications.total_pages}
-              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
-            >
-              Siguiente
-            </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        </div>
+
+          {/* Pagination */}
+          {applications && applications.total_pages > 1 && (
+            <div className="mt-6 flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                Mostrando {((currentPage - 1) * 20) + 1} a {Math.min(currentPage * 20, applications.total)} de {applications.total} aplicaciones
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Anterior
+                </button>
+                <button
+                  onClick={() => setCurrentPage(Math.min(applications.total_pages, currentPage + 1))}
+                  disabled={currentPage === applications.total_pages}
+                  className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Siguiente
+                </button>
+              </div>
+            </div>
+          )}
+        </>
       )}
 
       {/* Schedule Interview Modal */}
@@ -348,6 +420,28 @@ export function ApplicationManagement() {
             setSelectedApplication(null)
           }}
           onSubmit={handleScheduleInterview}
+          onInviteSelfBooking={handleInviteSelfBooking}
+        />
+      )}
+
+      {/* Documents Modal */}
+      {documentsApplication && (
+        <DocumentViewerModal
+          applicationId={documentsApplication.id}
+          title={documentsApplication.candidate?.full_name || documentsApplication.folio}
+          subtitle={`Folio: ${documentsApplication.folio} • ${documentsApplication.vacancy?.position || ''}`}
+          canReview
+          onClose={() => setDocumentsApplication(null)}
+        />
+      )}
+
+      {/* Reject Modal */}
+      {rejectingApplication && (
+        <RejectApplicationModal
+          title={rejectingApplication.candidate?.full_name || rejectingApplication.folio}
+          subtitle={`Folio: ${rejectingApplication.folio} • ${rejectingApplication.vacancy?.position || ''}`}
+          onClose={() => setRejectingApplication(null)}
+          onConfirm={handleReject}
         />
       )}
 
@@ -381,25 +475,49 @@ export function ApplicationManagement() {
 function ScheduleInterviewModal({ 
   application, 
   onClose, 
-  onSubmit 
+  onSubmit,
+  onInviteSelfBooking
 }: { 
   application: Application
   onClose: () => void
-  onSubmit: (applicationId: string, at: string, location: string) => void 
+  onSubmit: (applicationId: string, at: string | null, location: string | null, slotId?: string) => Promise<void>
+  onInviteSelfBooking: (applicationId: string) => Promise<void>
 }) {
   const [formData, setFormData] = useState({
+    slotId: '',
     date: '',
     time: '',
     location: ''
   })
   const [loading, setLoading] = useState(false)
+  const [inviting, setInviting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleInvite = async () => {
+    setInviting(true)
+    setError('')
+    try {
+      await onInviteSelfBooking(application.id)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setInviting(false)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
+    setError('')
     try {
-      const at = new Date(`${formData.date}T${formData.time}`).toISOString()
-      await onSubmit(application.id, at, formData.location)
+      if (formData.slotId) {
+        await onSubmit(application.id, null, formData.location || null, formData.slotId)
+      } else {
+        const at = new Date(`${formData.date}T${formData.time}`).toISOString()
+        await onSubmit(application.id, at, formData.location)
+      }
+    } catch (err: any) {
+      setError(err.message)
     } finally {
       setLoading(false)
     }
@@ -408,7 +526,9 @@ function ScheduleInterviewModal({
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-        <h3 className="text-lg font-medium text-gray-900 mb-4">Agendar Entrevista RH</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          {application.scheduled_rh_at ? 'Reagendar' : 'Agendar'} Entrevista RH
+        </h3>
         
         <div className="mb-4 p-3 bg-gray-50 rounded">
           <p className="text-sm text-gray-700">
@@ -420,36 +540,79 @@ function ScheduleInterviewModal({
           <p className="text-sm text-gray-700">
             <strong>Puesto:</strong> {application.vacancy?.position}
           </p>
+          {application.scheduled_rh_at && (
+            <p className="text-sm text-gray-700">
+              <strong>Actual:</strong> {new Date(application.scheduled_rh_at).toLocaleString()} • {application.scheduled_rh_location}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4 p-3 border border-indigo-200 bg-indigo-50 rounded flex items-center justify-between">
+          <p className="text-xs text-indigo-800 mr-3">
+            El candidato puede elegir uno de los horarios publicados desde la consulta de estatus.
+          </p>
+          <button
+            type="button"
+            onClick={handleInvite}
+            disabled={inviting || loading}
+            className="px-3 py-1 text-xs font-medium text-indigo-700 bg-white border border-indigo-300 rounded-md hover:bg-indigo-100 disabled:opacity-50 whitespace-nowrap"
+          >
+            {inviting ? 'Invitando...' : 'Invitar a elegir'}
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <AppointmentHistory applicationId={application.id} kind="RH" canRecordOutcome />
         </div>
         
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Fecha</label>
-            <input
-              type="date"
-              required
-              value={formData.date}
-              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
+          <FreeSlotSelect
+            kind="RH"
+            value={formData.slotId}
+            onChange={(slot) => setFormData({
+              ...formData,
+              slotId: slot?.id || '',
+              location: slot?.location || formData.location
+            })}
+          />
+
+          {!formData.slotId && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Fecha</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Hora</label>
-            <input
-              type="time"
-              required
-              value={formData.time}
-              onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Hora</label>
+                <input
+                  type="time"
+                  required
+                  value={formData.time}
+                  onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-700">Lugar</label>
             <input
               type="text"
-              required
+              required={!formData.slotId}
               value={formData.location}
               onChange={(e) => setFormData({ ...formData, location: e.target.value })}
               placeholder="Oficina Central, Sala de Juntas, etc."
@@ -494,20 +657,27 @@ function InterviewModal({
   onFinalize: () => Promise<void>
 }) {
   const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [points, setPoints] = useState<Record<string, number | null>>({})
   const [extraQuestions, setExtraQuestions] = useState<ExtraQuestion[]>([])
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
 
   const isFinalized = !!interview.finished_at
+  const scoredQuestions = interview.question_bank_versions.questions.filter(q => q.max_points)
+  const scoreMax = scoredQuestions.reduce((sum, q) => sum + (q.max_points || 0), 0)
+  const scoreTotal = scoredQuestions.reduce((sum, q) => sum + (points[q.id] || 0), 0)
 
   // Initialize answers from existing interview
   useEffect(() => {
     if (interview.answers) {
       const answerMap: Record<string, string> = {}
+      const pointsMap: Record<string, number | null> = {}
       interview.answers.forEach(answer => {
         answerMap[answer.question_id] = answer.answer_text
+        pointsMap[answer.question_id] = answer.points ?? null
       })
       setAnswers(answerMap)
+      setPoints(pointsMap)
     }
     if (interview.extra_questions) {
       setExtraQuestions(interview.extra_questions)
@@ -518,14 +688,21 @@ function InterviewModal({
     setAnswers(prev => ({ ...prev, [questionId]: value }))
   }
 
+  const handlePointsChange = (questionId: string, value: string) => {
+    setPoints(prev => ({ ...prev, [questionId]: value === '' ? null : parseInt(value) }))
+  }
+
+  const buildAnswers = (): InterviewAnswer[] =>
+    Array.from(new Set([...Object.keys(answers), ...Object.keys(points)])).map(question_id => ({
+      question_id,
+      answer_text: answers[question_id] || '',
+      points: points[question_id] ?? null
+    }))
+
   const handleSaveDraft = async () => {
     setSaving(true)
     try {
-      const answerArray: InterviewAnswer[] = Object.entries(answers).map(([question_id, answer_text]) => ({
-        question_id,
-        answer_text
-      }))
-      await onSave(answerArray, extraQuestions)
+      await onSave(buildAnswers(), extraQuestions)
     } finally {
       setSaving(false)
     }
@@ -541,13 +718,15 @@ function InterviewModal({
       return
     }
 
+    const missingPoints = scoredQuestions.filter(q => points[q.id] === null || points[q.id] === undefined)
+    if (missingPoints.length > 0) {
+      alert(`Falta calificar las siguientes preguntas:\n${missingPoints.map(q => `- ${q.text}`).join('\n')}`)
+      return
+    }
+
     setLoading(true)
     try {
-      const answerArray: InterviewAnswer[] = Object.entries(answers).map(([question_id, answer_text]) => ({
-        question_id,
-        answer_text
-      }))
-      await onSave(answerArray, extraQuestions)
+      await onSave(buildAnswers(), extraQuestions)
       await onFinalize()
     } finally {
       setLoading(false)
@@ -607,6 +786,11 @@ function InterviewModal({
             <div>
               <strong>Iniciada:</strong> {new Date(interview.started_at).toLocaleString()}
             </div>
+            {scoreMax > 0 && (
+              <div>
+                <strong>Puntaje:</strong> {scoreTotal} / {scoreMax} ({Math.round(scoreTotal * 100 / scoreMax)}%)
+              </div>
+            )}
           </div>
         </div>
 
@@ -630,6 +814,27 @@ function InterviewModal({
                     className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
                     placeholder="Escriba la respuesta del candidato..."
                   />
+                  {question.max_points && (
+                    <div className="mt-2 flex items-start space-x-3">
+                      <div className="w-28 flex-shrink-0">
+                        <label className="block text-xs font-medium text-gray-500">
+                          Puntos (0-{question.max_points})
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max={question.max_points}
+                          value={points[question.id] ?? ''}
+                          onChange={(e) => handlePointsChange(question.id, e.target.value)}
+                          disabled={isFinalized}
+                          className="mt-1 w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
+                        />
+                      </div>
+                      {question.rubric && (
+                        <p className="text-xs text-gray-500 whitespace-pre-line pt-5">{question.rubric}</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
           </div>
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react'
+import {
+  getInterviewAppointments,
+  setInterviewOutcome,
+  InterviewAppointment,
+  INTERVIEW_OUTCOME_LABELS
+} from '../lib/supabase'
+import { CheckCircle, UserX, History } from 'lucide-react'
+
+function getOutcomeColor(outcome: InterviewAppointment['outcome']) {
+  switch (outcome) {
+    case 'ATTENDED':
+      return 'bg-green-100 text-green-800'
+    case 'NO_SHOW':
+      return 'bg-red-100 text-red-800'
+    case 'RESCHEDULED_BY_CANDIDATE':
+    case 'CANCELLED_BY_CANDIDATE':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'RESCHEDULED_BY_STAFF':
+      return 'bg-gray-100 text-gray-800'
+    default:
+      return 'bg-blue-100 text-blue-800'
+  }
+}
+
+// Appointment history of an application; pending past appointments can be closed as attended or no-show
+export function AppointmentHistory({
+  applicationId,
+  kind,
+  canRecordOutcome = false
+}: {
+  applicationId: string
+  kind?: 'RH' | 'MANAGER'
+  canRecordOutcome?: boolean
+}) {
+  const [appointments, setAppointments] = useState<InterviewAppointment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadAppointments()
+  }, [applicationId])
+
+  const loadAppointments = async () => {
+    try {
+      setLoading(true)
+      const data = await getInterviewAppointments(applicationId)
+      setAppointments(kind ? data.filter(appointment => appointment.kind === kind) : data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOutcome = async (appointment: InterviewAppointment, outcome: 'ATTENDED' | 'NO_SHOW') => {
+    try {
+      setSaving(true)
+      setError('')
+      await setInterviewOutcome(applicationId, appointment.kind, outcome)
+      await loadAppointments()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-xs text-gray-500">Cargando historial de citas...</p>
+  }
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+        <History className="h-4 w-4 mr-1 text-gray-500" />
+        Historial de citas
+      </h4>
+
+      {error && (
+        <div className="mb-2 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-xs">
+          {error}
+        </div>
+      )}
+
+      {appointments.length === 0 && (
+        <p className="text-xs text-gray-500">Sin citas registradas.</p>
+      )}
+
+      <ul className="space-y-2 max-h-48 overflow-y-auto">
+        {appointments.map((appointment) => {
+          const isPast = new Date(appointment.scheduled_at) <= new Date()
+          return (
+            <li key={appointment.id} className="p-2 border border-gray-200 rounded text-xs">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">
+                  {!kind && `${appointment.kind === 'RH' ? 'RH' : 'Manager'} • `}
+                  {new Date(appointment.scheduled_at).toLocaleString()}
+                </span>
+                <span className={`inline-flex px-2 py-0.5 rounded-full font-semibold ${getOutcomeColor(appointment.outcome)}`}>
+                  {appointment.outcome ? INTERVIEW_OUTCOME_LABELS[appointment.outcome] : 'Pendiente'}
+                </span>
+              </div>
+              <p className="text-gray-500 mt-0.5">
+                {appointment.location}
+                {appointment.interviewer_name && ` • ${appointment.interviewer_name}`}
+                {appointment.booked_by === 'CANDIDATE' && ' • Reservada por el candidato'}
+              </p>
+              {canRecordOutcome && !appointment.outcome && isPast && (
+                <div className="mt-2 flex space-x-2">
+                  <button
+                    onClick={() => handleOutcome(appointment, 'ATTENDED')}
+                    disabled={saving}
+                    className="inline-flex items-center px-2 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded hover:bg-green-100 disabled:opacity-50"
+                  >
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Asistió
+                  </button>
+                  <button
+                    onClick={() => handleOutcome(appointment, 'NO_SHOW')}
+                    disabled={saving}
+                    className="inline-flex items-center px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded hover:bg-red-100 disabled:opacity-50"
+                  >
+                    <UserX className="h-3 w-3 mr-1" />
+                    No se presentó
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
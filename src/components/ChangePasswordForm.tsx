@@ -0,0 +1,119 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useAuth } from '../contexts/AuthContext'
+import { changeStaffPassword } from '../lib/supabase'
+import { getPasswordError } from './SetPasswordForm'
+import { KeyRound, LogOut } from 'lucide-react'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+
+// Shown instead of the app until a user flagged with must_change_password picks a new password
+export function ChangePasswordForm() {
+  const { profile, signOut, refreshProfile } = useAuth()
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const passwordError = getPasswordError(password, confirmPassword)
+    if (passwordError) {
+      setError(passwordError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await changeStaffPassword(currentPassword, password)
+      await refreshProfile()
+    } catch (err: any) {
+      setError(err.message || 'Error al cambiar la contraseña')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-md w-full"
+      >
+        <div className="bg-white rounded-3xl shadow-xl border border-gray-200/50 p-8">
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-secondary-500 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg">
+              <KeyRound className="h-8 w-8 text-white" />
+            </div>
+            <h1 className="text-h2 font-bold text-gray-900 mb-2">
+              Cambia tu contraseña
+            </h1>
+            <p className="text-body text-gray-600">
+              {profile?.full_name}, antes de continuar elige una contraseña personal.
+            </p>
+          </div>
+
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+              >
+                {error}
+              </motion.div>
+            )}
+
+            <Input
+              label="Contraseña actual"
+              type="password"
+              required
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+
+            <Input
+              label="Nueva contraseña"
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              helper="Mínimo 10 caracteres, con letras y números"
+            />
+
+            <Input
+              label="Confirmar contraseña"
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+
+            <Button
+              type="submit"
+              loading={saving}
+              size="lg"
+              className="w-full shadow-lg"
+            >
+              Guardar contraseña
+            </Button>
+
+            <button
+              type="button"
+              onClick={signOut}
+              className="w-full flex items-center justify-center text-sm text-gray-600 hover:text-gray-900"
+            >
+              <LogOut className="w-4 h-4 mr-1" />
+              Cerrar sesión
+            </button>
+          </form>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react'
+import {
+  listApplicationDocuments,
+  getDocumentSignedUrl,
+  reviewApplicationDocument,
+  ApplicationDocument,
+  DocumentSignedUrl,
+  DocumentReviewStatus,
+  DOC_TYPE_LABELS,
+  DOC_REVIEW_STATUS_LABELS
+} from '../lib/supabase'
+import {
+  FileText,
+  XCircle,
+  CheckCircle,
+  Download,
+  Clock
+} from 'lucide-react'
+
+const getReviewStatusColor = (status: DocumentReviewStatus) => {
+  switch (status) {
+    case 'APROBADO':
+      return 'bg-green-100 text-green-800'
+    case 'RECHAZADO':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-yellow-100 text-yellow-800'
+  }
+}
+
+// Document Viewer Modal Component
+export function DocumentViewerModal({
+  applicationId,
+  title,
+  subtitle,
+  canReview = false,
+  onClose
+}: {
+  applicationId: string
+  title: string
+  subtitle?: string
+  canReview?: boolean
+  onClose: () => void
+}) {
+  const [documents, setDocuments] = useState<ApplicationDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [selectedDocument, setSelectedDocument] = useState<ApplicationDocument | null>(null)
+  const [file, setFile] = useState<DocumentSignedUrl | null>(null)
+  const [fileLoading, setFileLoading] = useState(false)
+  const [rejectReason, setRejectReason] = useState('')
+  const [reviewing, setReviewing] = useState(false)
+
+  const loadDocuments = async (selectFirst: boolean) => {
+    try {
+      setLoading(true)
+      const data = await listApplicationDocuments(applicationId)
+      setDocuments(data)
+      if (selectFirst && data.length > 0) {
+        openDocument(data[0])
+      } else if (selectedDocument) {
+        setSelectedDocument(data.find(document => document.id === selectedDocument.id) || null)
+      }
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadDocuments(true)
+  }, [applicationId])
+
+  const openDocument = async (document: ApplicationDocument) => {
+    setSelectedDocument(document)
+    setFile(null)
+    setError('')
+    setRejectReason('')
+    try {
+      setFileLoading(true)
+      // Signed URLs are short-lived, so request one every time a version is opened
+      const data = await getDocumentSignedUrl(document.id)
+      setFile(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setFileLoading(false)
+    }
+  }
+
+  // Group versions by document type and phase (versions arrive newest first)
+  const groupedDocuments = documents.reduce((groups, document) => {
+    const key = `${document.phase}:${document.doc}`
+    if (!groups[key]) {
+      groups[key] = []
+    }
+    groups[key].push(document)
+    return groups
+  }, {} as Record<string, ApplicationDocument[]>)
+
+  const isLatestVersion = (document: ApplicationDocument) =>
+    !documents.some(other => other.doc === document.doc && other.version > document.version)
+
+  const handleReview = async (status: 'APROBADO' | 'RECHAZADO') => {
+    if (!selectedDocument) return
+
+    if (status === 'RECHAZADO' && !rejectReason.trim()) {
+      setError('Indique el motivo del rechazo')
+      return
+    }
+
+    try {
+      setReviewing(true)
+      setError('')
+      await reviewApplicationDocument(selectedDocument.id, status, rejectReason.trim() || undefined)
+      setRejectReason('')
+      await loadDocuments(false)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-6xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Documentos - {title}</h3>
+            {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading && documents.length === 0 ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            <p className="mt-2 text-sm text-gray-500">Cargando documentos...</p>
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="p-8 text-center">
+            <FileText className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">Esta aplicación no tiene documentos.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Documents and version history */}
+            <div className="md:col-span-1 max-h-[70vh] overflow-y-auto space-y-4">
+              {Object.entries(groupedDocuments).map(([key, versions]) => (
+                <div key={key} className="border border-gray-200 rounded-lg">
+                  <div className="px-3 py-2 bg-gray-50 border-b border-gray-200">
+                    <p className="text-sm font-medium text-gray-900">
+                      {DOC_TYPE_LABELS[versions[0].doc] || versions[0].doc}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {versions[0].phase === 'NECESARIO' ? 'Documento de postulación' : 'Documento posterior'}
+                    </p>
+                  </div>
+                  <ul className="divide-y divide-gray-100">
+                    {versions.map((version, index) => (
+                      <li key={version.id}>
+                        <button
+                          onClick={() => openDocument(version)}
+                          className={`w-full text-left px-3 py-2 text-sm hover:bg-indigo-50 ${
+                            selectedDocument?.id === version.id ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">Versión {version.version}</span>
+                            <span className="flex items-center space-x-1">
+                              {index === 0 && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                                  Actual
+                                </span>
+                              )}
+                              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getReviewStatusColor(version.review_status)}`}>
+                                {DOC_REVIEW_STATUS_LABELS[version.review_status]}
+                              </span>
+                            </span>
+                          </div>
+                          <div className="flex items-center text-xs text-gray-500 mt-1">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {new Date(version.uploaded_at).toLocaleString()}
+                          </div>
+                          <p className="text-xs text-gray-400 truncate">{version.filename}</p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            {/* Viewer */}
+            <div className="md:col-span-2 border border-gray-200 rounded-lg flex flex-col min-h-[70vh]">
+              {selectedDocument && (
+                <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+                  <p className="text-sm font-medium text-gray-900">
+                    {DOC_TYPE_LABELS[selectedDocument.doc] || selectedDocument.doc} • v{selectedDocument.version}
+                  </p>
+                  {file && (
+                    <a
+                      href={file.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+                    >
+                      <Download className="h-4 w-4 mr-1" />
+                      Abrir
+                    </a>
+                  )}
+                </div>
+              )}
+              {selectedDocument && (selectedDocument.review_status !== 'PENDIENTE' || (canReview && isLatestVersion(selectedDocument))) && (
+                <div className="px-4 py-3 border-b border-gray-200 space-y-2">
+                  {selectedDocument.review_status !== 'PENDIENTE' && (
+                    <p className="text-sm text-gray-700">
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${getReviewStatusColor(selectedDocument.review_status)}`}>
+                        {DOC_REVIEW_STATUS_LABELS[selectedDocument.review_status]}
+                      </span>
+                      {selectedDocument.reviewed_by_name && `por ${selectedDocument.reviewed_by_name}`}
+                      {selectedDocument.reviewed_at && ` el ${new Date(selectedDocument.reviewed_at).toLocaleString()}`}
+                      {selectedDocument.review_reason && (
+                        <span className="block text-xs text-red-700 mt-1">Motivo: {selectedDocument.review_reason}</span>
+                      )}
+                    </p>
+                  )}
+                  {canReview && isLatestVersion(selectedDocument) && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder="Motivo del rechazo (ilegible, vencido, no corresponde...)"
+                        className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      />
+                      <button
+                        onClick={() => handleReview('RECHAZADO')}
+                        disabled={reviewing}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Rechazar
+                      </button>
+                      <button
+                        onClick={() => handleReview('APROBADO')}
+                        disabled={reviewing}
+                        className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Aprobar
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex-1 flex items-center justify-center bg-gray-50">
+                {fileLoading ? (
+                  <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+                ) : file ? (
+                  file.mimetype === 'application/pdf' ? (
+                    <iframe
+                      src={file.url}
+                      title={file.filename}
+                      className="w-full h-full min-h-[65vh]"
+                    />
+                  ) : file.mimetype.startsWith('image/') ? (
+                    <img
+                      src={file.url}
+                      alt={file.filename}
+                      className="max-w-full max-h-[65vh] object-contain"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Vista previa no disponible. Use "Abrir" para descargar el archivo.
+                    </p>
+                  )
+                ) : (
+                  <p className="text-sm text-gray-500">Seleccione un documento para visualizarlo.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
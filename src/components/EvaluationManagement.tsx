@@ -8,11 +8,15 @@ import {
   saveEvaluationSummary,
   finalizeAccept,
   finalizeReject,
+  finalizeTalentPool,
   Application,
   ApplicationsResponse,
   EvaluationContext,
-  EvaluationScore
+  EvaluationScore,
+  PANEL_ROLE_LABELS
 } from '../lib/supabase'
+import { RejectApplicationModal } from './RejectApplicationModal'
+import { AppointmentHistory } from './AppointmentHistory'
 import { 
   Search, 
   User,
@@ -24,11 +28,13 @@ import {
   Save,
   Send,
   ThumbsUp,
-  ThumbsDown
+  ThumbsDown,
+  Bookmark,
+  History
 } from 'lucide-react'
 
 export function EvaluationManagement() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
   const [applications, setApplications] = useState<ApplicationsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -41,14 +47,14 @@ export function EvaluationManagement() {
   })
   const [currentPage, setCurrentPage] = useState(1)
 
-  // Only allow RH users
-  if (profile?.role !== 'RH') {
+  // Only allow users whose role holds evaluation.view
+  if (!can('evaluation.view')) {
     return (
       <div className="text-center py-12">
         <XCircle className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol RH pueden realizar evaluaciones finales.
+          Tu rol no tiene permiso para ver las evaluaciones finales.
         </p>
       </div>
     )
@@ -108,6 +114,10 @@ export function EvaluationManagement() {
         return 'bg-green-100 text-green-800'
       case 'Rechazado':
         return 'bg-red-100 text-red-800'
+      case 'BolsaDeTalento':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'Retirado':
+        return 'bg-gray-200 text-gray-700'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -127,18 +137,22 @@ export function EvaluationManagement() {
         return 'Aceptado'
       case 'Rechazado':
         return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
       default:
         return status
     }
   }
 
   const canStartEvaluation = (app: Application) => {
-    return app.has_rh_interview && app.rh_interview_finished && 
+    return can('evaluation.manage') && app.has_rh_interview && app.rh_interview_finished &&
            app.has_manager_interview && app.status === 'EntrevistaConManager'
   }
 
   const canViewEvaluation = (app: Application) => {
-    return app.status === 'Evaluando' || app.status === 'Aceptado' || app.status === 'Rechazado'
+    return ['Evaluando', 'Aceptado', 'Rechazado', 'BolsaDeTalento'].includes(app.status)
   }
 
   const filteredApplications = applications?.items.filter(app => 
@@ -153,7 +167,7 @@ export function EvaluationManagement() {
         <div className="sm:flex-auto">
           <h1 className="text-2xl font-semibold text-gray-900">Evaluación Final</h1>
           <p className="mt-2 text-sm text-gray-700">
-            Realiza la evaluación final de candidatos con los 16 criterios y decide: Aceptar o Rechazar.
+            Realiza la evaluación final de candidatos con los 16 criterios y decide: Aceptar, Rechazar o enviar a la Bolsa de Talento.
           </p>
         </div>
       </div>
@@ -187,6 +201,8 @@ export function EvaluationManagement() {
               <option value="Evaluando">Evaluando</option>
               <option value="Aceptado">Aceptado</option>
               <option value="Rechazado">Rechazado</option>
+              <option value="BolsaDeTalento">Bolsa de Talento</option>
+              <option value="Retirado">Retirado</option>
             </select>
           </div>
         </div>
@@ -225,7 +241,7 @@ export function EvaluationManagement() {
                         {application.has_manager_interview && (
                           <Star className="ml-2 h-4 w-4 text-yellow-500" title="Manager evaluó" />
                         )}
-                        {(application.status === 'Aceptado' || application.status === 'Rechazado') && (
+                        {['Aceptado', 'Rechazado', 'BolsaDeTalento'].includes(application.status) && (
                           <Award className="ml-2 h-4 w-4 text-purple-500" title="Evaluación finalizada" />
                         )}
                       </div>
@@ -326,6 +342,7 @@ function EvaluationModal({
   onClose: () => void
   onSave: () => Promise<void>
 }) {
+  const { can } = useAuth()
   const [scores, setScores] = useState<Record<number, number>>({})
   const [summary, setSummary] = useState({
     factors_for: '',
@@ -335,8 +352,12 @@ function EvaluationModal({
   })
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
+  const [showRejectModal, setShowRejectModal] = useState(false)
+  const [showPoolModal, setShowPoolModal] = useState(false)
 
-  const isFinalized = context.application.status === 'Aceptado' || context.application.status === 'Rechazado'
+  const isFinalized = context.application.status !== 'Evaluando'
+  const managerRatings = context.interview_manager.ratings || []
+  const managerRatingsWeight = managerRatings.reduce((sum, rating) => sum + rating.weight, 0)
 
   // Initialize scores and summary from context
   useEffect(() => {
@@ -395,7 +416,7 @@ function EvaluationModal({
     }
   }
 
-  const handleFinalize = async (accept: boolean) => {
+  const handleFinalize = async (outcome: 'accept' | 'reject' | 'pool') => {
     // Validate all scores are set
     const missingScores = context.criteria.filter(c => !scores[c.id])
     if (missingScores.length > 0) {
@@ -415,11 +436,15 @@ function EvaluationModal({
       await handleSaveScores()
       await handleSaveSummary()
       
-      // Finalize
-      if (accept) {
+      // Finalize (rejections need a reason and pooling an optional note, asked in separate modals)
+      if (outcome === 'accept') {
         await finalizeAccept(application.id)
+      } else if (outcome === 'reject') {
+        setShowRejectModal(true)
+        return
       } else {
-        await finalizeReject(application.id)
+        setShowPoolModal(true)
+        return
       }
       
       await onSave()
@@ -429,6 +454,25 @@ function EvaluationModal({
     }
   }
 
+  const handleReject = async (reasonCode: string, note: string) => {
+    await finalizeReject(application.id, reasonCode, note)
+    await onSave()
+    onClose()
+  }
+
+  const handlePool = async (note: string) => {
+    await finalizeTalentPool(application.id, note)
+    await onSave()
+    onClose()
+  }
+
+  const finalizedBadges: Record<string, { className: string; icon: typeof CheckCircle; label: string }> = {
+    Aceptado: { className: 'bg-green-100 text-green-800', icon: CheckCircle, label: 'Aceptado' },
+    Rechazado: { className: 'bg-red-100 text-red-800', icon: XCircle, label: 'Rechazado' },
+    BolsaDeTalento: { className: 'bg-indigo-100 text-indigo-800', icon: Bookmark, label: 'Bolsa de Talento' }
+  }
+  const finalizedBadge = finalizedBadges[context.application.status]
+
   const formacionCriteria = context.criteria.filter(c => c.grp === 'FORMACION_Y_EXPERIENCIA').sort((a, b) => a.ord - b.ord)
   const socialCriteria = context.criteria.filter(c => c.grp === 'AREA_SOCIAL').sort((a, b) => a.ord - b.ord)
 
@@ -440,21 +484,10 @@ function EvaluationModal({
             Evaluación Final - {context.application.candidate.full_name}
           </h3>
           <div className="flex items-center space-x-2">
-            {isFinalized && (
-              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                context.application.status === 'Aceptado' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-              }`}>
-                {context.application.status === 'Aceptado' ? (
-                  <>
-                    <CheckCircle className="h-3 w-3 mr-1" />
-                    Aceptado
-                  </>
-                ) : (
-                  <>
-                    <XCircle className="h-3 w-3 mr-1" />
-                    Rechazado
-                  </>
-                )}
+            {finalizedBadge && (
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${finalizedBadge.className}`}>
+                <finalizedBadge.icon className="h-3 w-3 mr-1" />
+                {finalizedBadge.label}
               </span>
             )}
             <button
@@ -476,24 +509,162 @@ function EvaluationModal({
                 <p><strong>Puesto:</strong> {context.application.vacancy.position}</p>
                 <p><strong>Email:</strong> {context.application.candidate.email}</p>
                 <p><strong>Teléfono:</strong> {context.application.candidate.phone}</p>
+                {context.application.rerouted_from_folio && (
+                  <p><strong>Reubicado desde:</strong> {context.application.rerouted_from_folio}</p>
+                )}
+                {context.application.pool_note && (
+                  <p><strong>Nota de Bolsa de Talento:</strong> {context.application.pool_note}</p>
+                )}
               </div>
             </div>
 
+            {/* RH Interview Score */}
+            {context.interview_rh?.score_max ? (
+              <div className="bg-indigo-50 rounded-lg p-4">
+                <h4 className="text-md font-semibold text-gray-900 mb-3">Entrevista RH</h4>
+                <div className="text-sm">
+                  <p>
+                    <strong>Puntaje:</strong> {context.interview_rh.score_total ?? 0}/{context.interview_rh.score_max}
+                    {' '}({Math.round((context.interview_rh.score_total ?? 0) * 100 / context.interview_rh.score_max)}%)
+                  </p>
+                  {!context.interview_rh.finished_at && (
+                    <p className="text-xs text-gray-500 mt-1">Entrevista sin finalizar</p>
+                  )}
+                </div>
+              </div>
+            ) : null}
+
             {/* Manager Score */}
             {context.interview_manager.exists && (
               <div className="bg-blue-50 rounded-lg p-4">
                 <h4 className="text-md font-semibold text-gray-900 mb-3">Evaluación Manager</h4>
                 <div className="text-sm">
-                  <p><strong>Calificación:</strong> {context.interview_manager.score}/100</p>
+                  <p>
+                    <strong>Calificación:</strong> {context.interview_manager.score}/100
+                    {context.panel_scores.length > 1 && (
+                      <span className="text-xs text-gray-500 ml-2">
+                        (promedio de {context.panel_scores.length} entrevistadores)
+                      </span>
+                    )}
+                  </p>
+                  {context.panel_scores.length > 1 && (
+                    <ul className="mt-2 space-y-1">
+                      {context.panel_scores.map((panelScore) => (
+                        <li key={panelScore.staff_id} className="flex items-center justify-between text-gray-700">
+                          <span>
+                            {panelScore.full_name}
+                            <span className="text-xs text-gray-500 ml-2">
+                              {panelScore.panel_role ? PANEL_ROLE_LABELS[panelScore.panel_role] : 'RH'}
+                            </span>
+                          </span>
+                          <span>{panelScore.score}/100</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {managerRatings.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      {managerRatings.map((rating) => (
+                        <div key={rating.competency_id} className="border-b border-blue-200 pb-2">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-gray-800">{rating.name}</span>
+                            <span className="text-gray-600">
+                              {rating.rating}/5
+                              <span className="text-xs text-gray-500 ml-2">
+                                (peso {Math.round(rating.weight * 100 / managerRatingsWeight)}%)
+                              </span>
+                            </span>
+                          </div>
+                          <p className="text-gray-700 mt-1 whitespace-pre-line">{rating.comment}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {context.interview_manager.notes && (
                     <div className="mt-2">
                       <strong>Observaciones:</strong>
-                      <p className="text-gray-700 mt-1">{context.interview_manager.notes}</p>
+                      <p className="text-gray-700 mt-1 whitespace-pre-line">{context.interview_manager.notes}</p>
                     </div>
                   )}
                 </div>
               </div>
             )}
+
+            {/* Guided Manager Interview */}
+            {context.guided_interview && (
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <h4 className="text-md font-semibold text-gray-900 mb-3">Entrevista Técnica (Manager)</h4>
+                <div className="max-h-64 overflow-y-auto space-y-3 text-sm">
+                  {context.guided_interview.questions.map((question) => {
+                    const answer = context.guided_interview!.answers.find(a => a.question_id === question.id)
+                    return (
+                      <div key={question.id} className="border-b border-yellow-200 pb-2">
+                        <p className="font-medium text-gray-800">
+                          {question.ord}. {question.text}
+                          {question.is_required && <span className="text-red-500 ml-1">*</span>}
+                        </p>
+                        <p className="text-gray-700 mt-1">{answer?.answer_text || 'Sin respuesta'}</p>
+                      </div>
+                    )
+                  })}
+                  {context.guided_interview.extra_questions.map((extra, index) => (
+                    <div key={index} className="border-b border-yellow-200 pb-2">
+                      <p className="font-medium text-gray-800">{extra.text}</p>
+                      <p className="text-gray-700 mt-1">{extra.answer_text}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Interview appointments */}
+            <div className="bg-gray-50 rounded-lg p-4">
+              <AppointmentHistory applicationId={application.id} />
+            </div>
+
+            {/* Evaluation history carried over from the talent pool */}
+            {context.carried_evaluations.length > 0 && (
+              <div className="bg-indigo-50 rounded-lg p-4">
+                <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+                  <History className="h-4 w-4 mr-2" />
+                  Evaluaciones Anteriores
+                </h4>
+                <div className="space-y-3">
+                  {context.carried_evaluations.map((carried) => (
+                    <div key={carried.source_folio} className="bg-white rounded-md border p-3 text-sm">
+                      <p className="font-medium text-gray-900">{carried.source_position}</p>
+                      <p className="text-xs text-gray-500">
+                        Folio {carried.source_folio} • {new Date(carried.carried_at).toLocaleDateString()}
+                      </p>
+                      <div className="mt-2 space-y-1">
+                        {carried.evaluation_total !== null && (
+                          <p><strong>Evaluación RH:</strong> {carried.evaluation_total}/80</p>
+                        )}
+                        {carried.interview_manager && (
+                          <p><strong>Calificación Manager:</strong> {carried.interview_manager.score}/100</p>
+                        )}
+                        {carried.summary?.conclusion && (
+                          <p className="text-gray-700"><strong>Conclusión:</strong> {carried.summary.conclusion}</p>
+                        )}
+                      </div>
+                      {carried.scores.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="text-xs text-indigo-600 cursor-pointer">Ver calificaciones</summary>
+                          <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                            {carried.scores.map((score) => (
+                              <li key={`${score.grp}-${score.criterion}`} className="flex justify-between">
+                                <span>{score.criterion}</span>
+                                <span className="font-medium">{score.score}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Middle Column - Evaluation Criteria */}
@@ -562,7 +733,7 @@ function EvaluationModal({
                 </div>
               </div>
 
-              {!isFinalized && (
+              {!isFinalized && can('evaluation.manage') && (
                 <div className="mt-4 pt-4 border-t">
                   <button
                     onClick={handleSaveScores}
@@ -639,7 +810,7 @@ function EvaluationModal({
                   />
                 </div>
 
-                {!isFinalized && (
+                {!isFinalized && can('evaluation.manage') && (
                   <button
                     onClick={handleSaveSummary}
                     disabled={saving}
@@ -662,10 +833,18 @@ function EvaluationModal({
           >
             {isFinalized ? 'Cerrar' : 'Cancelar'}
           </button>
-          {!isFinalized && (
+          {!isFinalized && can('evaluation.finalize') && (
             <>
               <button
-                onClick={() => handleFinalize(false)}
+                onClick={() => handleFinalize('pool')}
+                disabled={loading}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+              >
+                <Bookmark className="h-4 w-4 mr-2" />
+                {loading ? 'Procesando...' : 'Bolsa de Talento'}
+              </button>
+              <button
+                onClick={() => handleFinalize('reject')}
                 disabled={loading}
                 className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
               >
@@ -673,7 +852,7 @@ function EvaluationModal({
                 {loading ? 'Procesando...' : 'Rechazar Candidato'}
               </button>
               <button
-                onClick={() => handleFinalize(true)}
+                onClick={() => handleFinalize('accept')}
                 disabled={loading}
                 className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
               >
@@ -684,6 +863,114 @@ function EvaluationModal({
           )}
         </div>
       </div>
+
+      {showRejectModal && (
+        <RejectApplicationModal
+          title={context.application.candidate.full_name}
+          subtitle={application.folio}
+          onClose={() => setShowRejectModal(false)}
+          onConfirm={handleReject}
+        />
+      )}
+
+      {showPoolModal && (
+        <TalentPoolModal
+          candidateName={context.application.candidate.full_name}
+          folio={application.folio}
+          onClose={() => setShowPoolModal(false)}
+          onConfirm={handlePool}
+        />
+      )}
+    </div>
+  )
+}
+
+// Talent Pool Modal Component
+function TalentPoolModal({
+  candidateName,
+  folio,
+  onClose,
+  onConfirm
+}: {
+  candidateName: string
+  folio: string
+  onClose: () => void
+  onConfirm: (note: string) => Promise<void>
+}) {
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setLoading(true)
+      setError('')
+      await onConfirm(note.trim())
+    } catch (err: any) {
+      setError(err.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Bolsa de Talento - {candidateName}</h3>
+            <p className="text-sm text-gray-500">{folio}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            El candidato no será contratado para esta vacante, pero quedará disponible para reubicarlo en otra vacante activa.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nota (opcional)</label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              placeholder="Perfil, vacantes sugeridas, disponibilidad..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Bookmark className="h-4 w-4 mr-2" />
+              {loading ? 'Procesando...' : 'Enviar a Bolsa de Talento'}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,659 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  listInterviewCalendar,
+  getStaffAvailability,
+  setStaffAvailability,
+  publishInterviewSlots,
+  deleteInterviewSlot,
+  rotateIcsFeed,
+  AvailabilityWindow,
+  InterviewCalendar as InterviewCalendarData,
+  InterviewSlot,
+  STAFF_ROLE_LABELS
+} from '../lib/supabase'
+import {
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  XCircle,
+  Plus,
+  Trash2,
+  Save,
+  Send,
+  Rss,
+  Copy
+} from 'lucide-react'
+
+const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado']
+
+// Monday 00:00 of the week containing the date
+function startOfWeek(date: Date) {
+  const start = new Date(date)
+  start.setHours(0, 0, 0, 0)
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+function toDateInput(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Free slots overlapping a booked interview of the same person cannot be booked
+function isBookable(slot: InterviewSlot, slots: InterviewSlot[]) {
+  return !slot.booked && new Date(slot.starts_at) > new Date() && !slots.some(other =>
+    other.booked &&
+    other.staff_id === slot.staff_id &&
+    new Date(other.starts_at) < new Date(slot.ends_at) &&
+    new Date(other.ends_at) > new Date(slot.starts_at)
+  )
+}
+
+// Week view of booked interviews and free slots
+export function InterviewCalendar() {
+  const { profile, can } = useAuth()
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()))
+  const [calendar, setCalendar] = useState<InterviewCalendarData | null>(null)
+  const [staffId, setStaffId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [showAvailability, setShowAvailability] = useState(false)
+  const [showIcsFeed, setShowIcsFeed] = useState(false)
+
+  const isRH = can('interview.schedule')
+  const calendarOwnerId = isRH ? staffId : profile?.id || ''
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+
+  const loadCalendar = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      const data = await listInterviewCalendar(
+        weekStart.toISOString(),
+        addDays(weekStart, 7).toISOString(),
+        staffId || undefined
+      )
+      setCalendar(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCalendar()
+  }, [weekStart, staffId])
+
+  const handleDeleteSlot = async (slot: InterviewSlot) => {
+    if (!confirm(`¿Eliminar el horario libre de las ${formatTime(slot.starts_at)}?`)) return
+
+    try {
+      await deleteInterviewSlot(slot.id)
+      loadCalendar()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const slotsForDay = (day: Date) => {
+    const next = addDays(day, 1)
+    return (calendar?.slots || []).filter(slot => {
+      const startsAt = new Date(slot.starts_at)
+      return startsAt >= day && startsAt < next
+    })
+  }
+
+  const bookedCount = calendar?.slots.filter(slot => slot.booked).length || 0
+
+  return (
+    <div className="mt-6 bg-white shadow sm:rounded-md p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="p-2 text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Semana anterior"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setWeekStart(startOfWeek(new Date()))}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Hoy
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="p-2 text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Semana siguiente"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <span className="ml-2 text-sm font-medium text-gray-900">
+            {weekStart.toLocaleDateString()} - {addDays(weekStart, 6).toLocaleDateString()}
+          </span>
+          <span className="text-sm text-gray-500">
+            ({bookedCount} entrevista{bookedCount === 1 ? '' : 's'})
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {isRH && (
+            <select
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Todos los calendarios</option>
+              {calendar?.staff.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.full_name} ({STAFF_ROLE_LABELS[member.role] || member.role})
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setShowAvailability(true)}
+            disabled={!calendarOwnerId}
+            title={calendarOwnerId ? undefined : 'Seleccione un calendario'}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50"
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            Disponibilidad
+          </button>
+          <button
+            onClick={() => setShowIcsFeed(true)}
+            title="Suscribir mi calendario externo a mis entrevistas"
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            <Rss className="h-4 w-4 mr-2" />
+            Feed ICS
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {loading && !calendar ? (
+        <div className="p-8 text-center">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          <p className="mt-2 text-sm text-gray-500">Cargando calendario...</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {days.map((day) => {
+            const isToday = day.toDateString() === new Date().toDateString()
+            return (
+              <div key={day.toISOString()} className="border border-gray-200 rounded-md min-h-[8rem]">
+                <div className={`px-2 py-1 text-xs font-medium border-b border-gray-200 ${isToday ? 'bg-indigo-50 text-indigo-700' : 'bg-gray-50 text-gray-700'}`}>
+                  {WEEKDAY_LABELS[day.getDay()]} {day.getDate()}
+                </div>
+                <div className="p-1 space-y-1">
+                  {slotsForDay(day).map((slot) => slot.booked ? (
+                    <div
+                      key={slot.id}
+                      className={`p-1.5 rounded text-xs ${slot.kind === 'RH' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}
+                      title={`${slot.application?.vacancy_position || ''} • ${slot.location}`}
+                    >
+                      <p className="font-medium">
+                        {formatTime(slot.starts_at)} - {formatTime(slot.ends_at)}
+                      </p>
+                      <p className="truncate">{slot.application?.candidate_name}</p>
+                      <p className="truncate opacity-75">{slot.application?.folio}</p>
+                      {isRH && !staffId && (
+                        <p className="truncate opacity-75">{slot.staff_name}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div
+                      key={slot.id}
+                      className="flex items-center justify-between p-1.5 rounded text-xs border border-dashed border-gray-300 text-gray-500"
+                    >
+                      <span>
+                        {formatTime(slot.starts_at)} libre
+                        {isRH && !staffId && <span className="block truncate">{slot.staff_name}</span>}
+                      </span>
+                      <button
+                        onClick={() => handleDeleteSlot(slot)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Eliminar horario libre"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="mt-3 flex items-center space-x-4 text-xs text-gray-500">
+        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 rounded bg-blue-100" /> Entrevista RH</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 rounded bg-purple-100" /> Entrevista Manager</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 rounded border border-dashed border-gray-300" /> Horario libre</span>
+      </div>
+
+      {showAvailability && calendarOwnerId && (
+        <AvailabilityModal
+          staffId={calendarOwnerId}
+          staffName={calendar?.staff.find(member => member.id === calendarOwnerId)?.full_name || profile?.full_name || ''}
+          onClose={() => setShowAvailability(false)}
+          onPublished={loadCalendar}
+        />
+      )}
+
+      {showIcsFeed && (
+        <IcsFeedModal onClose={() => setShowIcsFeed(false)} />
+      )}
+    </div>
+  )
+}
+
+// ICS Feed Modal Component
+function IcsFeedModal({ onClose }: { onClose: () => void }) {
+  const [feedUrl, setFeedUrl] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true)
+      setError('')
+      setCopied(false)
+      const result = await rotateIcsFeed()
+      setFeedUrl(result.url)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(feedUrl)
+    setCopied(true)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Feed ICS de mis entrevistas</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Suscribe Google Calendar, Outlook o Apple Calendar a este enlace para ver las entrevistas
+          agendadas en tu calendario. Los cambios de horario se actualizan en el mismo evento.
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {feedUrl ? (
+          <div className="space-y-2">
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-xs font-mono"
+              />
+              <button
+                onClick={handleCopy}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-md hover:bg-indigo-200"
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                {copied ? 'Copiado' : 'Copiar'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Guarda este enlace: no se vuelve a mostrar. Cualquier persona con el enlace puede ver tus entrevistas.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 mb-4">
+            Generar un enlace nuevo desactiva el anterior.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cerrar
+          </button>
+          {!feedUrl && (
+            <button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {generating ? 'Generando...' : 'Generar enlace'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Availability Modal Component
+function AvailabilityModal({
+  staffId,
+  staffName,
+  onClose,
+  onPublished
+}: {
+  staffId: string
+  staffName: string
+  onClose: () => void
+  onPublished: () => void
+}) {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([])
+  const [publishRange, setPublishRange] = useState(() => {
+    const start = startOfWeek(new Date())
+    return { from: toDateInput(start), to: toDateInput(addDays(start, 13)) }
+  })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    getStaffAvailability(staffId)
+      .then(setWindows)
+      .catch((err: any) => setError(err.message))
+      .finally(() => setLoading(false))
+  }, [staffId])
+
+  const addWindow = () => {
+    setWindows(prev => [...prev, {
+      weekday: 1,
+      start_time: '09:00',
+      end_time: '13:00',
+      slot_minutes: 60,
+      location: prev[prev.length - 1]?.location || ''
+    }])
+  }
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows(prev => {
+      const updated = [...prev]
+      updated[index] = { ...updated[index], ...changes }
+      return updated
+    })
+  }
+
+  const removeWindow = (index: number) => {
+    setWindows(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      setMessage('')
+      await setStaffAvailability(staffId, windows)
+      setMessage('Disponibilidad guardada')
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePublish = async () => {
+    try {
+      setPublishing(true)
+      setError('')
+      setMessage('')
+      const result = await publishInterviewSlots(staffId, publishRange.from, publishRange.to)
+      setMessage(`${result.created} horarios publicados (${result.skipped} omitidos por estar ocupados o en el pasado)`)
+      onPublished()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Disponibilidad - {staffName}</h3>
+            <p className="text-sm text-gray-500">
+              Horario semanal en el que se pueden agendar entrevistas
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            {message}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {windows.length === 0 && (
+              <p className="text-sm text-gray-500">Sin horarios de disponibilidad.</p>
+            )}
+            {windows.map((availabilityWindow, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-3">
+                  <label className="block text-xs font-medium text-gray-700">Día</label>
+                  <select
+                    value={availabilityWindow.weekday}
+                    onChange={(e) => updateWindow(index, { weekday: Number(e.target.value) })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    {[1, 2, 3, 4, 5, 6, 0].map((weekday) => (
+                      <option key={weekday} value={weekday}>{WEEKDAY_LABELS[weekday]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-700">Desde</label>
+                  <input
+                    type="time"
+                    value={availabilityWindow.start_time}
+                    onChange={(e) => updateWindow(index, { start_time: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs font-medium text-gray-700">Hasta</label>
+                  <input
+                    type="time"
+                    value={availabilityWindow.end_time}
+                    onChange={(e) => updateWindow(index, { end_time: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div className="col-span-1">
+                  <label className="block text-xs font-medium text-gray-700">Min.</label>
+                  <input
+                    type="number"
+                    min={15}
+                    max={240}
+                    step={15}
+                    value={availabilityWindow.slot_minutes}
+                    onChange={(e) => updateWindow(index, { slot_minutes: Number(e.target.value) })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div className="col-span-3">
+                  <label className="block text-xs font-medium text-gray-700">Lugar</label>
+                  <input
+                    type="text"
+                    value={availabilityWindow.location}
+                    onChange={(e) => updateWindow(index, { location: e.target.value })}
+                    placeholder="Sala de Juntas"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div className="col-span-1 pb-2">
+                  <button
+                    onClick={() => removeWindow(index)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Quitar"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-between pt-2">
+              <button
+                onClick={addWindow}
+                className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-indigo-600 bg-indigo-100 hover:bg-indigo-200"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Agregar horario
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Guardando...' : 'Guardar Disponibilidad'}
+              </button>
+            </div>
+
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Publicar horarios libres</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Crea horarios reservables a partir de la disponibilidad guardada. Los horarios ocupados o pasados se omiten.
+              </p>
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Desde</label>
+                  <input
+                    type="date"
+                    value={publishRange.from}
+                    onChange={(e) => setPublishRange({ ...publishRange, from: e.target.value })}
+                    className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Hasta</label>
+                  <input
+                    type="date"
+                    value={publishRange.to}
+                    onChange={(e) => setPublishRange({ ...publishRange, to: e.target.value })}
+                    className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <button
+                  onClick={handlePublish}
+                  disabled={publishing || !publishRange.from || !publishRange.to}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {publishing ? 'Publicando...' : 'Publicar'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Free slot picker for the schedule modals
+export function FreeSlotSelect({
+  kind,
+  value,
+  onChange
+}: {
+  kind: 'RH' | 'MANAGER'
+  value: string
+  onChange: (slot: InterviewSlot | null) => void
+}) {
+  const [slots, setSlots] = useState<InterviewSlot[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const from = new Date()
+    listInterviewCalendar(from.toISOString(), addDays(from, 21).toISOString())
+      .then(data => setSlots(data.slots.filter(slot => slot.kind === kind && isBookable(slot, data.slots))))
+      .catch(() => setSlots([]))
+      .finally(() => setLoading(false))
+  }, [kind])
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Horario disponible</label>
+      <select
+        value={value}
+        disabled={loading}
+        onChange={(e) => onChange(slots.find(slot => slot.id === e.target.value) || null)}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      >
+        <option value="">
+          {loading ? 'Cargando horarios...' : slots.length === 0 ? 'Sin horarios publicados - capture fecha y hora' : 'Otro horario (capturar fecha y hora)'}
+        </option>
+        {slots.map((slot) => (
+          <option key={slot.id} value={slot.id}>
+            {new Date(slot.starts_at).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+            {kind === 'RH' ? ` • ${slot.staff_name}` : ''}
+            {slot.location ? ` • ${slot.location}` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -1,13 +1,22 @@
 import React from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { LogOut, Users, User, Shield, Building2, FileText, Award, BarChart3 } from 'lucide-react'
+import { STAFF_ROLE_LABELS } from '../lib/supabase'
+import { LogOut, User, Shield, Lock, LucideIcon } from 'lucide-react'
+
+export interface NavItem {
+  view: string
+  label: string
+  icon: LucideIcon
+}
 
 interface LayoutProps {
   children: React.ReactNode
+  navItems?: NavItem[]
+  currentView?: string
 }
 
-export function Layout({ children }: LayoutProps) {
-  const { profile, signOut } = useAuth()
+export function Layout({ children, navItems = [], currentView }: LayoutProps) {
+  const { profile, signOut, can } = useAuth()
 
   const handleSignOut = async () => {
     try {
@@ -35,18 +44,29 @@ export function Layout({ children }: LayoutProps) {
               {/* User info */}
               <div className="flex items-center space-x-3">
                 <div className="flex items-center space-x-2">
-                  {profile?.role === 'RH' ? (
-                    <Shield className="h-4 w-4 text-indigo-600" />
-                  ) : (
+                  {can('manager.interview') ? (
                     <User className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <Shield className="h-4 w-4 text-indigo-600" />
                   )}
                   <div className="text-sm">
                     <p className="font-medium text-gray-900">{profile?.full_name}</p>
-                    <p className="text-gray-500">{profile?.role}</p>
+                    <p className="text-gray-500">{profile && (STAFF_ROLE_LABELS[profile.role] || profile.role)}</p>
                   </div>
                 </div>
               </div>
 
+              {/* Own MFA and sessions, available to every role */}
+              <a
+                href="#security"
+                className={`inline-flex items-center px-3 py-2 text-sm leading-4 font-medium rounded-md transition-colors ${
+                  currentView === 'security' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Mi seguridad
+              </a>
+
               {/* Sign out button */}
               <button
                 onClick={handleSignOut}
@@ -60,70 +80,25 @@ export function Layout({ children }: LayoutProps) {
         </div>
       </header>
 
-      {/* Navigation */}
-      {profile?.role === 'RH' && (
-        <nav className="bg-white shadow-sm">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="flex space-x-8">
-              <a
-                href="#dashboard"
-                className="border-indigo-500 text-indigo-600 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <BarChart3 className="h-4 w-4 mr-2" />
-                Dashboard
-              </a>
-              <a
-                href="#users"
-                className="border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <Users className="h-4 w-4 mr-2" />
-                Gestión de Usuarios
-              </a>
-              <a
-                href="#vacancies"
-                className="border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <Building2 className="h-4 w-4 mr-2" />
-                Gestión de Vacantes
-              </a>
-              <a
-                href="#applications"
-                className="border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <FileText className="h-4 w-4 mr-2" />
-                Aplicaciones
-              </a>
-              <a
-                href="#evaluation"
-                className="border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <Award className="h-4 w-4 mr-2" />
-                Evaluación Final
-              </a>
-              <a
-                href="#question-banks"
-                className="border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <Shield className="h-4 w-4 mr-2" />
-                Bancos de Preguntas
-              </a>
-            </div>
-          </div>
-        </nav>
-      )}
-
-      {/* Navigation for Manager */}
-      {profile?.role === 'MANAGER' && (
+      {/* Navigation: only the views the role matrix allows */}
+      {navItems.length > 0 && (
         <nav className="bg-white shadow-sm">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="flex space-x-8">
-              <a
-                href="#manager-applications"
-                className="border-indigo-500 text-indigo-600 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-              >
-                <FileText className="h-4 w-4 mr-2" />
-                Mis Aplicaciones
-              </a>
+            <div className="flex space-x-8 overflow-x-auto">
+              {navItems.map(({ view, label, icon: Icon }) => (
+                <a
+                  key={view}
+                  href={`#${view}`}
+                  className={`${
+                    view === currentView
+                      ? 'border-indigo-500 text-indigo-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium whitespace-nowrap`}
+                >
+                  <Icon className="h-4 w-4 mr-2" />
+                  {label}
+                </a>
+              ))}
             </div>
           </div>
         </nav>
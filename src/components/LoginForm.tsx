@@ -1,7 +1,7 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { signIn } from '../lib/supabase'
-import { LogIn, Eye, EyeOff, Building2, Shield } from 'lucide-react'
+import { signIn, requestStaffPasswordReset } from '../lib/supabase'
+import { LogIn, Eye, EyeOff, Building2, Shield, Mail, ArrowLeft } from 'lucide-react'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
 
@@ -11,6 +11,29 @@ export function LoginForm() {
   const [showPassword, setShowPassword] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [mode, setMode] = useState<'login' | 'forgot'>('login')
+  const [resetSent, setResetSent] = useState(false)
+
+  const switchMode = (nextMode: 'login' | 'forgot') => {
+    setMode(nextMode)
+    setError('')
+    setResetSent(false)
+  }
+
+  const handleForgotSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      await requestStaffPasswordReset(email)
+      setResetSent(true)
+    } catch (err: any) {
+      setError(err.message || 'Error al solicitar el enlace')
+    } finally {
+      setLoading(false)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -41,71 +64,145 @@ export function LoginForm() {
               <Building2 className="h-8 w-8 text-white" />
             </div>
             <h1 className="text-h2 font-bold text-gray-900 mb-2">
-              Acceso Staff
+              {mode === 'login' ? 'Acceso Staff' : 'Restablecer contraseña'}
             </h1>
             <p className="text-body text-gray-600">
-              Ingresa con tu cuenta de usuario interno
+              {mode === 'login'
+                ? 'Ingresa con tu cuenta de usuario interno'
+                : 'Te enviaremos un enlace para elegir una nueva contraseña'}
             </p>
           </div>
 
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            {error && (
-              <motion.div
-                initial={{ opacity: 0, y: -10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+          {mode === 'forgot' ? (
+            <form className="space-y-6" onSubmit={handleForgotSubmit}>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+                >
+                  {error}
+                </motion.div>
+              )}
+
+              {resetSent ? (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-success-50 border border-success-200 text-success-700 px-4 py-3 rounded-xl"
+                >
+                  Si el correo pertenece a un usuario activo, recibirás un enlace válido durante 1 hora.
+                  Revisa también tu carpeta de spam.
+                </motion.div>
+              ) : (
+                <>
+                  <Input
+                    label="Correo electrónico"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="usuario@binnibus.com"
+                  />
+
+                  <Button
+                    type="submit"
+                    loading={loading}
+                    size="lg"
+                    className="w-full shadow-lg"
+                  >
+                    <Mail className="w-4 h-4 mr-2" />
+                    Enviar enlace
+                  </Button>
+                </>
+              )}
+
+              <button
+                type="button"
+                onClick={() => switchMode('login')}
+                className="w-full flex items-center justify-center text-sm text-gray-600 hover:text-gray-900"
+              >
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Volver a iniciar sesión
+              </button>
+            </form>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+                >
+                  {error}
+                </motion.div>
+              )}
+
+              <Input
+                label="Correo electrónico"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="usuario@binnibus.com"
+              />
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Contraseña
+                  <span className="text-error-500 ml-1">*</span>
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="flex h-12 w-full rounded-xl border border-gray-200 bg-white px-4 py-3 pr-12 text-base placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                    placeholder="••••••••"
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-4 flex items-center hover:text-gray-600 transition-colors duration-150"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4 text-gray-400" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                loading={loading}
+                size="lg"
+                className="w-full shadow-lg"
               >
-                {error}
-              </motion.div>
-            )}
-
-            <Input
-              label="Correo electrónico"
-              type="email"
-              required
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="usuario@binnibus.com"
-            />
-
-            <div className="space-y-2">
-              <label className="block text-sm font-medium text-gray-700">
-                Contraseña
-                <span className="text-error-500 ml-1">*</span>
-              </label>
-              <div className="relative">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="flex h-12 w-full rounded-xl border border-gray-200 bg-white px-4 py-3 pr-12 text-base placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
-                  placeholder="••••••••"
-                />
+                <LogIn className="w-4 h-4 mr-2" />
+                Iniciar Sesión
+              </Button>
+
+              <div className="text-center text-sm space-y-1">
                 <button
                   type="button"
-                  className="absolute inset-y-0 right-0 pr-4 flex items-center hover:text-gray-600 transition-colors duration-150"
-                  onClick={() => setShowPassword(!showPassword)}
+                  onClick={() => switchMode('forgot')}
+                  className="text-primary-600 hover:text-primary-700 font-medium"
                 >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4 text-gray-400" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-gray-400" />
-                  )}
+                  ¿Olvidaste tu contraseña?
                 </button>
+                <p className="text-xs text-gray-500">
+                  ¿Te invitaron? Abre el enlace del correo de invitación para{' '}
+                  <a href="#set-password" className="text-primary-600 hover:text-primary-700">
+                    elegir tu contraseña
+                  </a>
+                  .
+                </p>
               </div>
-            </div>
-
-            <Button
-              type="submit"
-              loading={loading}
-              size="lg"
-              className="w-full shadow-lg"
-            >
-              <LogIn className="w-4 h-4 mr-2" />
-              Iniciar Sesión
-            </Button>
-          </form>
+            </form>
+          )}
 
           <div className="mt-8 text-center">
             <div className="flex items-center justify-center space-x-2 text-xs text-gray-500 bg-gray-50 rounded-xl p-3">
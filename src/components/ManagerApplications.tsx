@@ -3,11 +3,21 @@ import { useAuth } from '../contexts/AuthContext'
 import { 
   listManagerApplications,
   getManagerInterviewContext,
-  transitionToManagerInterview,
+  setManagerSchedule,
+  openSelfBooking,
   saveManagerResult,
+  saveManagerScorecard,
+  startManagerInterview,
+  saveManagerInterviewDraft,
+  rejectApplication,
   ManagerApplication,
   ManagerApplicationsResponse,
-  ManagerInterviewContext
+  ManagerInterviewContext,
+  ScorecardCompetency,
+  GuidedManagerInterview,
+  InterviewAnswer,
+  ExtraQuestion,
+  PANEL_ROLE_LABELS
 } from '../lib/supabase'
 import { 
   Search, 
@@ -20,11 +30,22 @@ import {
   Eye,
   Edit,
   Save,
-  Star
+  Star,
+  ThumbsDown,
+  List,
+  CalendarDays,
+  Plus,
+  Trash2,
+  ClipboardList,
+  Users
 } from 'lucide-react'
+import { DocumentViewerModal } from './DocumentViewerModal'
+import { RejectApplicationModal } from './RejectApplicationModal'
+import { InterviewCalendar, FreeSlotSelect } from './InterviewCalendar'
+import { AppointmentHistory } from './AppointmentHistory'
 
 export function ManagerApplications() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
   const [applications, setApplications] = useState<ManagerApplicationsResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -32,20 +53,23 @@ export function ManagerApplications() {
   const [interviewContext, setInterviewContext] = useState<ManagerInterviewContext | null>(null)
   const [showScheduleModal, setShowScheduleModal] = useState(false)
   const [showInterviewModal, setShowInterviewModal] = useState(false)
+  const [documentsApplication, setDocumentsApplication] = useState<ManagerApplication | null>(null)
+  const [rejectingApplication, setRejectingApplication] = useState<ManagerApplication | null>(null)
   const [filters, setFilters] = useState({
     status: '',
     search: ''
   })
   const [currentPage, setCurrentPage] = useState(1)
+  const [view, setView] = useState<'list' | 'calendar'>('list')
 
-  // Only allow Manager users
-  if (profile?.role !== 'MANAGER') {
+  // Only allow users whose role holds manager.interview
+  if (!can('manager.interview')) {
     return (
       <div className="text-center py-12">
         <XCircle className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol Manager pueden ver sus aplicaciones.
+          Tu rol no tiene permiso para entrevistar como manager.
         </p>
       </div>
     )
@@ -71,17 +95,44 @@ export function ManagerApplications() {
     loadApplications()
   }, [currentPage, filters])
 
-  const handleScheduleInterview = async (applicationId: string, at: string, location: string) => {
-    try {
-      await transitionToManagerInterview(applicationId, at, location)
-      setShowScheduleModal(false)
-      setSelectedApplication(null)
-      loadApplications()
-    } catch (err: any) {
-      setError(err.message)
+  // Errors (e.g. schedule conflicts) are shown inside the modal
+  const handleScheduleInterview = async (
+    applicationId: string,
+    at: string | null,
+    location: string | null,
+    slotId?: string
+  ) => {
+    const result = await setManagerSchedule(applicationId, at, location, slotId)
+    setShowScheduleModal(false)
+    setSelectedApplication(null)
+    loadApplications()
+    if (result.outside_availability) {
+      alert('La entrevista quedó agendada fuera de tu horario de disponibilidad.')
     }
   }
 
+  const handleInviteSelfBooking = async (applicationId: string) => {
+    const result = await openSelfBooking(applicationId, 'MANAGER')
+    setShowScheduleModal(false)
+    setSelectedApplication(null)
+    loadApplications()
+    alert(result.available_slots > 0
+      ? `Se invitó al candidato a elegir su horario (${result.available_slots} horarios disponibles).`
+      : 'Se invitó al candidato, pero no tienes horarios publicados disponibles. Publica horarios desde el calendario.')
+  }
+
+  const handleReject = async (reasonCode: string, note: string) => {
+    if (!rejectingApplication) return
+    await rejectApplication(rejectingApplication.id, reasonCode, note)
+    setRejectingApplication(null)
+    loadApplications()
+  }
+
+  // Evaluando belongs to RH, so managers can only reject before it; observers never reject
+  const canReject = (application: ManagerApplication) =>
+    application.panel_role !== 'OBSERVER' &&
+    ['RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager'].includes(application.status)
+
   const handleViewInterview = async (application: ManagerApplication) => {
     try {
       const context = await getManagerInterviewContext(application.id)
@@ -107,6 +158,10 @@ export function ManagerApplications() {
         return 'bg-green-100 text-green-800'
       case 'Rechazado':
         return 'bg-red-100 text-red-800'
+      case 'BolsaDeTalento':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'Retirado':
+        return 'bg-gray-200 text-gray-700'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -126,13 +181,17 @@ export function ManagerApplications() {
         return 'Aceptado'
       case 'Rechazado':
         return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
       default:
         return status
     }
   }
 
   const canScheduleInterview = (app: ManagerApplication) => {
-    return app.has_rh_interview && app.rh_interview_finished && 
+    return app.panel_role !== 'OBSERVER' && app.has_rh_interview && app.rh_interview_finished &&
            (app.status === 'EntrevistaConRH' || app.status === 'EntrevistaConManager')
   }
 
@@ -155,144 +214,189 @@ export function ManagerApplications() {
             Gestiona las aplicaciones para tus vacantes asignadas.
           </p>
         </div>
-      </div>
-
-      {/* Filters */}
-      <div className="mt-6 bg-white p-4 rounded-lg shadow">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Buscar</label>
-            <div className="mt-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-              <input
-                type="text"
-                value={filters.search}
-                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
-                className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                placeholder="Folio, candidato o puesto..."
-              />
-            </div>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Estado</label>
-            <select
-              value={filters.status}
-              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              onClick={() => setView('list')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium border border-gray-300 rounded-l-md ${view === 'list' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              <List className="h-4 w-4 mr-2" />
+              Lista
+            </button>
+            <button
+              onClick={() => setView('calendar')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium border border-gray-300 rounded-r-md ${view === 'calendar' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
             >
-              <option value="">Todos</option>
-              <option value="EntrevistaConRH">Entrevista con RH</option>
-              <option value="EntrevistaConManager">Entrevista con Manager</option>
-              <option value="Evaluando">Evaluando</option>
-              <option value="Aceptado">Aceptado</option>
-              <option value="Rechazado">Rechazado</option>
-            </select>
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendario
+            </button>
           </div>
         </div>
       </div>
 
-      {error && (
-        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
-          {error}
-        </div>
-      )}
+      {view === 'calendar' && <InterviewCalendar />}
 
-      {/* Applications table */}
-      <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
-        {loading ? (
-          <div className="p-8 text-center">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
-            <p className="mt-2 text-sm text-gray-500">Cargando aplicaciones...</p>
+      {view === 'list' && (
+        <>
+          {/* Filters */}
+          <div className="mt-6 bg-white p-4 rounded-lg shadow">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Buscar</label>
+                <div className="mt-1 relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={filters.search}
+                    onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                    className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    placeholder="Folio, candidato o puesto..."
+                  />
+                </div>
+              </div>
+          
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Estado</label>
+                <select
+                  value={filters.status}
+                  onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Todos</option>
+                  <option value="EntrevistaConRH">Entrevista con RH</option>
+                  <option value="EntrevistaConManager">Entrevista con Manager</option>
+                  <option value="Evaluando">Evaluando</option>
+                  <option value="Aceptado">Aceptado</option>
+                  <option value="Rechazado">Rechazado</option>
+                  <option value="BolsaDeTalento">Bolsa de Talento</option>
+                  <option value="Retirado">Retirado</option>
+                </select>
+              </div>
+            </div>
           </div>
-        ) : (
-          <ul className="divide-y divide-gray-200">
-            {filteredApplications.map((application) => (
-              <li key={application.id} className="px-6 py-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <User className="h-8 w-8 text-gray-600" />
-                    </div>
-                    <div className="ml-4">
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {/* Applications table */}
+          <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
+            {loading ? (
+              <div className="p-8 text-center">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+                <p className="mt-2 text-sm text-gray-500">Cargando aplicaciones...</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {filteredApplications.map((application) => (
+                  <li key={application.id} className="px-6 py-4">
+                    <div className="flex items-center justify-between">
                       <div className="flex items-center">
-                        <p className="text-sm font-medium text-gray-900">
-                          {application.candidate.full_name}
-                        </p>
-                        <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
-                          {getStatusLabel(application.status)}
-                        </span>
-                        {application.has_manager_interview && (
-                          <Star className="ml-2 h-4 w-4 text-yellow-500" title="Entrevista completada" />
-                        )}
+                        <div className="flex-shrink-0">
+                          <User className="h-8 w-8 text-gray-600" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="flex items-center">
+                            <p className="text-sm font-medium text-gray-900">
+                              {application.candidate.full_name}
+                            </p>
+                            <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(application.status)}`}>
+                              {getStatusLabel(application.status)}
+                            </span>
+                            {application.my_score_submitted && (
+                              <Star className="ml-2 h-4 w-4 text-yellow-500" title="Ya enviaste tu calificación" />
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            Folio: {application.folio} • {application.vacancy.position}
+                            {application.panel_role && application.panel_role !== 'PRIMARY' && (
+                              ` • ${PANEL_ROLE_LABELS[application.panel_role]}`
+                            )}
+                          </p>
+                          <div className="flex items-center mt-1 text-xs text-gray-500">
+                            <span>Aplicó: {new Date(application.created_at).toLocaleDateString()}</span>
+                            {application.scheduled_manager_at && (
+                              <span className="ml-4 flex items-center">
+                                <Calendar className="h-3 w-3 mr-1" />
+                                Manager: {new Date(application.scheduled_manager_at).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                      <p className="text-sm text-gray-500">
-                        Folio: {application.folio} • {application.vacancy.position}
-                      </p>
-                      <div className="flex items-center mt-1 text-xs text-gray-500">
-                        <span>Aplicó: {new Date(application.created_at).toLocaleDateString()}</span>
-                        {application.scheduled_manager_at && (
-                          <span className="ml-4 flex items-center">
-                            <Calendar className="h-3 w-3 mr-1" />
-                            Manager: {new Date(application.scheduled_manager_at).toLocaleDateString()}
-                          </span>
+                      <div className="flex items-center space-x-2">
+                        {canScheduleInterview(application) && (
+                          <button
+                            onClick={() => {
+                              setSelectedApplication(application)
+                              setShowScheduleModal(true)
+                            }}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Agendar entrevista"
+                          >
+                            <Calendar className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setDocumentsApplication(application)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          title="Ver documentos"
+                        >
+                          <FileText className="h-4 w-4" />
+                        </button>
+                        {canViewInterview(application) && (
+                          <button
+                            onClick={() => handleViewInterview(application)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Ver contexto y realizar entrevista"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </button>
+                        )}
+                        {canReject(application) && (
+                          <button
+                            onClick={() => setRejectingApplication(application)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Rechazar"
+                          >
+                            <ThumbsDown className="h-4 w-4" />
+                          </button>
                         )}
                       </div>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    {canScheduleInterview(application) && (
-                      <button
-                        onClick={() => {
-                          setSelectedApplication(application)
-                          setShowScheduleModal(true)
-                        }}
-                        className="text-blue-600 hover:text-blue-900"
-                        title="Agendar entrevista"
-                      >
-                        <Calendar className="h-4 w-4" />
-                      </button>
-                    )}
-                    {canViewInterview(application) && (
-                      <button
-                        onClick={() => handleViewInterview(application)}
-                        className="text-gray-600 hover:text-gray-900"
-                        title="Ver contexto y realizar entrevista"
-                      >
-                        <Eye className="h-4 w-4" />
-                      </button>
-                    )}
-                  </div>
-                </div>
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
-
-      {/* Pagination */}
-      {applications && applications.total_pages > 1 && (
-        <div className="mt-6 flex items-center justify-between">
-          <div className="text-sm text-gray-700">
-            Mostrando {((currentPage - 1) * 20) + 1} a {Math.min(currentPage * 20, applications.total)} de {applications.total} aplicaciones
-          </div>
-          <div className="flex space-x-2">
-            <button
-              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
-              disabled={currentPage === 1}
-              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
-            >
-              Anterior
-            </button>
-            <button
-              onClick={() => setCurrentPage(Math.min(applications.total_pages, currentPage + 1))}
-              disabled={currentPage === applications.total_pages}
-              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
-            >
-              Siguiente
-            </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
-        </div>
+
+          {/* Pagination */}
+          {applications && applications.total_pages > 1 && (
+            <div className="mt-6 flex items-center justify-between">
+              <div className="text-sm text-gray-700">
+                Mostrando {((currentPage - 1) * 20) + 1} a {Math.min(currentPage * 20, applications.total)} de {applications.total} aplicaciones
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Anterior
+                </button>
+                <button
+                  onClick={() => setCurrentPage(Math.min(applications.total_pages, currentPage + 1))}
+                  disabled={currentPage === applications.total_pages}
+                  className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Siguiente
+                </button>
+              </div>
+            </div>
+          )}
+        </>
       )}
 
       {/* Schedule Interview Modal */}
@@ -304,6 +408,27 @@ export function ManagerApplications() {
             setSelectedApplication(null)
           }}
           onSubmit={handleScheduleInterview}
+          onInviteSelfBooking={handleInviteSelfBooking}
+        />
+      )}
+
+      {/* Documents Modal */}
+      {documentsApplication && (
+        <DocumentViewerModal
+          applicationId={documentsApplication.id}
+          title={documentsApplication.candidate.full_name}
+          subtitle={`Folio: ${documentsApplication.folio} • ${documentsApplication.vacancy.position}`}
+          onClose={() => setDocumentsApplication(null)}
+        />
+      )}
+
+      {/* Reject Modal */}
+      {rejectingApplication && (
+        <RejectApplicationModal
+          title={rejectingApplication.candidate.full_name}
+          subtitle={`Folio: ${rejectingApplication.folio} • ${rejectingApplication.vacancy.position}`}
+          onClose={() => setRejectingApplication(null)}
+          onConfirm={handleReject}
         />
       )}
 
@@ -317,8 +442,12 @@ export function ManagerApplications() {
             setSelectedApplication(null)
             setInterviewContext(null)
           }}
-          onSave={async (score, notes) => {
-            await saveManagerResult(selectedApplication.id, score, notes)
+          onSave={async (score, notes, ratings) => {
+            if (ratings) {
+              await saveManagerScorecard(selectedApplication.id, ratings, notes)
+            } else {
+              await saveManagerResult(selectedApplication.id, score, notes)
+            }
             loadApplications()
           }}
         />
@@ -331,13 +460,16 @@ export function ManagerApplications() {
 function ScheduleManagerInterviewModal({ 
   application, 
   onClose, 
-  onSubmit 
+  onSubmit,
+  onInviteSelfBooking
 }: { 
   application: ManagerApplication
   onClose: () => void
-  onSubmit: (applicationId: string, at: string, location: string) => void 
+  onSubmit: (applicationId: string, at: string | null, location: string | null, slotId?: string) => Promise<void>
+  onInviteSelfBooking: (applicationId: string) => Promise<void>
 }) {
   const [formData, setFormData] = useState({
+    slotId: '',
     date: application.scheduled_manager_at ? 
       new Date(application.scheduled_manager_at).toISOString().split('T')[0] : '',
     time: application.scheduled_manager_at ? 
@@ -345,13 +477,34 @@ function ScheduleManagerInterviewModal({
     location: application.scheduled_manager_location || ''
   })
   const [loading, setLoading] = useState(false)
+  const [inviting, setInviting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleInvite = async () => {
+    setInviting(true)
+    setError('')
+    try {
+      await onInviteSelfBooking(application.id)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setInviting(false)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
+    setError('')
     try {
-      const at = new Date(`${formData.date}T${formData.time}`).toISOString()
-      await onSubmit(application.id, at, formData.location)
+      if (formData.slotId) {
+        await onSubmit(application.id, null, formData.location || null, formData.slotId)
+      } else {
+        const at = new Date(`${formData.date}T${formData.time}`).toISOString()
+        await onSubmit(application.id, at, formData.location)
+      }
+    } catch (err: any) {
+      setError(err.message)
     } finally {
       setLoading(false)
     }
@@ -375,35 +528,73 @@ function ScheduleManagerInterviewModal({
             <strong>Puesto:</strong> {application.vacancy.position}
           </p>
         </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4 p-3 border border-indigo-200 bg-indigo-50 rounded flex items-center justify-between">
+          <p className="text-xs text-indigo-800 mr-3">
+            El candidato puede elegir uno de tus horarios publicados desde la consulta de estatus.
+          </p>
+          <button
+            type="button"
+            onClick={handleInvite}
+            disabled={inviting || loading}
+            className="px-3 py-1 text-xs font-medium text-indigo-700 bg-white border border-indigo-300 rounded-md hover:bg-indigo-100 disabled:opacity-50 whitespace-nowrap"
+          >
+            {inviting ? 'Invitando...' : 'Invitar a elegir'}
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <AppointmentHistory applicationId={application.id} kind="MANAGER" canRecordOutcome />
+        </div>
         
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Fecha</label>
-            <input
-              type="date"
-              required
-              value={formData.date}
-              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
+          <FreeSlotSelect
+            kind="MANAGER"
+            value={formData.slotId}
+            onChange={(slot) => setFormData({
+              ...formData,
+              slotId: slot?.id || '',
+              location: slot?.location || formData.location
+            })}
+          />
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Hora</label>
-            <input
-              type="time"
-              required
-              value={formData.time}
-              onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-            />
-          </div>
+          {!formData.slotId && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Fecha</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Hora</label>
+                <input
+                  type="time"
+                  required
+                  value={formData.time}
+                  onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </>
+          )}
 
           <div>
             <label className="block text-sm font-medium text-gray-700">Lugar</label>
             <input
               type="text"
-              required
+              required={!formData.slotId}
               value={formData.location}
               onChange={(e) => setFormData({ ...formData, location: e.target.value })}
               placeholder="Oficina, Depósito, etc."
@@ -433,6 +624,8 @@ function ScheduleManagerInterviewModal({
   )
 }
 
+type ScorecardInput = { competency_id: string; rating: number; comment: string }
+
 // Manager Interview Modal Component
 function ManagerInterviewModal({ 
   application, 
@@ -443,21 +636,122 @@ function ManagerInterviewModal({
   application: ManagerApplication
   context: ManagerInterviewContext
   onClose: () => void
-  onSave: (score: number, notes: string) => Promise<void>
+  onSave: (score: number, notes: string, ratings?: ScorecardInput[]) => Promise<void>
 }) {
   const [score, setScore] = useState(context.interview_manager.score || 0)
   const [notes, setNotes] = useState(context.interview_manager.notes || '')
+  const [ratings, setRatings] = useState<Record<string, ScorecardInput>>(() =>
+    Object.fromEntries(
+      (context.interview_manager.ratings || []).map(rating => [
+        rating.competency_id,
+        { competency_id: rating.competency_id, rating: rating.rating, comment: rating.comment }
+      ])
+    )
+  )
+  const [guided, setGuided] = useState<GuidedManagerInterview | null>(context.guided_interview)
+  const [guidedAnswers, setGuidedAnswers] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (context.guided_interview?.answers || []).map(answer => [answer.question_id, answer.answer_text])
+    )
+  )
+  const [extraQuestions, setExtraQuestions] = useState<ExtraQuestion[]>(context.guided_interview?.extra_questions || [])
+  const [guidedError, setGuidedError] = useState('')
+  const [savingDraft, setSavingDraft] = useState(false)
   const [loading, setLoading] = useState(false)
 
+  // Observers follow the interview but neither answer the guided questions nor score
+  const isObserver = context.panel_role === 'OBSERVER'
+  const usesScorecard = context.scorecard.length > 0
+  const totalWeight = context.scorecard.reduce((sum, competency) => sum + competency.weight, 0)
+  const isRated = (competency: ScorecardCompetency) => {
+    const rating = ratings[competency.id]
+    return !!rating && rating.rating >= 1 && rating.rating <= 5 && rating.comment.trim() !== ''
+  }
+  const compositeScore = context.scorecard.every(isRated)
+    ? Math.round(
+        context.scorecard.reduce(
+          (sum, competency) => sum + competency.weight * (ratings[competency.id].rating - 1),
+          0
+        ) * 25 / totalWeight
+      )
+    : null
+
+  const updateRating = (competencyId: string, changes: Partial<ScorecardInput>) => {
+    setRatings(prev => ({
+      ...prev,
+      [competencyId]: {
+        ...(prev[competencyId] || { competency_id: competencyId, rating: 0, comment: '' }),
+        ...changes
+      }
+    }))
+  }
+
+  const handleStartGuided = async () => {
+    try {
+      setGuidedError('')
+      const interview = await startManagerInterview(context.application.id)
+      setGuided(interview)
+      setGuidedAnswers(Object.fromEntries(interview.answers.map(answer => [answer.question_id, answer.answer_text])))
+      setExtraQuestions(interview.extra_questions)
+    } catch (err: any) {
+      setGuidedError(err.message)
+    }
+  }
+
+  const saveGuidedDraft = async () => {
+    const answerArray: InterviewAnswer[] = Object.entries(guidedAnswers).map(([question_id, answer_text]) => ({
+      question_id,
+      answer_text
+    }))
+    await saveManagerInterviewDraft(context.application.id, answerArray, extraQuestions)
+  }
+
+  const handleSaveDraft = async () => {
+    setSavingDraft(true)
+    try {
+      setGuidedError('')
+      await saveGuidedDraft()
+    } catch (err: any) {
+      setGuidedError(err.message)
+    } finally {
+      setSavingDraft(false)
+    }
+  }
+
+  const updateExtraQuestion = (index: number, field: keyof ExtraQuestion, value: string) => {
+    setExtraQuestions(prev => prev.map((extra, i) => i === index ? { ...extra, [field]: value } : extra))
+  }
+
   const handleSave = async () => {
-    if (score < 0 || score > 100) {
+    if (guided) {
+      const missingRequired = guided.questions.filter(q => q.is_required && !(guidedAnswers[q.id] || '').trim())
+      if (missingRequired.length > 0) {
+        alert(`Faltan respuestas para las siguientes preguntas obligatorias:\n${missingRequired.map(q => `- ${q.text}`).join('\n')}`)
+        return
+      }
+    }
+
+    if (usesScorecard) {
+      const pending = context.scorecard.filter(competency => !isRated(competency))
+      if (pending.length > 0) {
+        alert(`Califica y comenta todas las competencias: ${pending.map(competency => competency.name).join(', ')}`)
+        return
+      }
+    } else if (score < 0 || score > 100) {
       alert('La calificación debe estar entre 0 y 100')
       return
     }
 
     setLoading(true)
     try {
-      await onSave(score, notes)
+      if (guided) {
+        await saveGuidedDraft()
+      }
+      await onSave(
+        compositeScore ?? score,
+        notes,
+        usesScorecard ? context.scorecard.map(competency => ratings[competency.id]) : undefined
+      )
       onClose()
     } finally {
       setLoading(false)
@@ -561,48 +855,251 @@ function ManagerInterviewModal({
                 </div>
               </div>
             )}
+
+            {/* Guided Manager Interview */}
+            {(guided || context.has_question_bank) && (
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-md font-semibold text-gray-900 flex items-center">
+                    <ClipboardList className="h-4 w-4 mr-2 text-yellow-700" />
+                    Entrevista Técnica
+                  </h4>
+                  {guided && !isObserver && (
+                    <button
+                      onClick={handleSaveDraft}
+                      disabled={savingDraft}
+                      className="inline-flex items-center px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      {savingDraft ? 'Guardando...' : 'Guardar Borrador'}
+                    </button>
+                  )}
+                </div>
+
+                {guidedError && (
+                  <div className="mb-3 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                    {guidedError}
+                  </div>
+                )}
+
+                {!guided ? (
+                  <div className="text-sm text-gray-600">
+                    <p>Hay un banco de preguntas técnicas para este puesto.</p>
+                    {!isObserver && (
+                      <button
+                        onClick={handleStartGuided}
+                        className="mt-2 inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-yellow-600 border border-transparent rounded-md hover:bg-yellow-700"
+                      >
+                        <ClipboardList className="h-4 w-4 mr-2" />
+                        Iniciar Entrevista Guiada
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="max-h-96 overflow-y-auto space-y-3">
+                    {guided.questions
+                      .sort((a, b) => a.ord - b.ord)
+                      .map((question) => (
+                        <div key={question.id}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            {question.ord}. {question.text}
+                            {question.is_required && <span className="text-red-500 ml-1">*</span>}
+                          </label>
+                          <textarea
+                            rows={2}
+                            value={guidedAnswers[question.id] || ''}
+                            onChange={(e) => setGuidedAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                            disabled={isObserver}
+                            placeholder="Escriba la respuesta del candidato..."
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-yellow-500 focus:ring-yellow-500 sm:text-sm"
+                          />
+                        </div>
+                      ))}
+
+                    <div className="flex items-center justify-between pt-2">
+                      <h5 className="text-sm font-medium text-gray-700">Preguntas Adicionales</h5>
+                      {!isObserver && (
+                        <button
+                          onClick={() => setExtraQuestions(prev => [...prev, { text: '', answer_text: '' }])}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-yellow-700 bg-yellow-100 hover:bg-yellow-200"
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Agregar
+                        </button>
+                      )}
+                    </div>
+                    {extraQuestions.map((extra, index) => (
+                      <div key={index} className="space-y-1">
+                        <div className="flex items-center">
+                          <input
+                            type="text"
+                            value={extra.text}
+                            onChange={(e) => updateExtraQuestion(index, 'text', e.target.value)}
+                            disabled={isObserver}
+                            placeholder="Pregunta adicional..."
+                            className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-yellow-500 focus:ring-yellow-500 sm:text-sm"
+                          />
+                          {!isObserver && (
+                            <button
+                              onClick={() => setExtraQuestions(prev => prev.filter((_, i) => i !== index))}
+                              className="ml-2 text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                        <textarea
+                          rows={2}
+                          value={extra.answer_text}
+                          onChange={(e) => updateExtraQuestion(index, 'answer_text', e.target.value)}
+                          disabled={isObserver}
+                          placeholder="Respuesta..."
+                          className="w-full rounded-md border-gray-300 shadow-sm focus:border-yellow-500 focus:ring-yellow-500 sm:text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Right Column - Manager Interview */}
           <div className="space-y-6">
-            <div className="bg-green-50 rounded-lg p-4">
-              <h4 className="text-md font-semibold text-gray-900 mb-4">Mi Evaluación</h4>
+            {isObserver ? (
+              <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600">
+                Participas en el panel como observador: puedes consultar la entrevista, pero no calificar.
+              </div>
+            ) : (
+              <div className="bg-green-50 rounded-lg p-4">
+                <h4 className="text-md font-semibold text-gray-900 mb-4">Mi Evaluación</h4>
               
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Calificación (0-100)
-                  </label>
-                  <input
-                    type="number"
-                    min="0"
-                    max="100"
-                    value={score}
-                    onChange={(e) => setScore(parseInt(e.target.value) || 0)}
-                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 sm:text-sm"
-                  />
-                </div>
+                <div className="space-y-4">
+                  {usesScorecard ? (
+                    <div className="space-y-4">
+                      {context.scorecard.map((competency) => {
+                        const current = ratings[competency.id]
+                        return (
+                          <div key={competency.id} className="bg-white border border-green-200 rounded-md p-3">
+                            <div className="flex items-start justify-between">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {competency.name}
+                                  <span className="text-red-500 ml-1">*</span>
+                                </p>
+                                {competency.description && (
+                                  <p className="text-xs text-gray-500">{competency.description}</p>
+                                )}
+                              </div>
+                              <span className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                                Peso {Math.round(competency.weight * 100 / totalWeight)}%
+                              </span>
+                            </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Observaciones
-                  </label>
-                  <textarea
-                    rows={8}
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Escribe tus observaciones sobre el candidato..."
-                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 sm:text-sm"
-                  />
-                </div>
+                            <div className="mt-2 flex space-x-2">
+                              {competency.anchors.map((anchor, index) => (
+                                <button
+                                  key={index}
+                                  type="button"
+                                  title={anchor}
+                                  onClick={() => updateRating(competency.id, { rating: index + 1 })}
+                                  className={`w-9 h-9 rounded-md text-sm font-medium border ${
+                                    current?.rating === index + 1
+                                      ? 'bg-green-600 text-white border-green-600'
+                                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {index + 1}
+                                </button>
+                              ))}
+                            </div>
+                            {current?.rating > 0 && (
+                              <p className="mt-1 text-xs text-green-700">{competency.anchors[current.rating - 1]}</p>
+                            )}
+
+                            <textarea
+                              rows={2}
+                              value={current?.comment || ''}
+                              onChange={(e) => updateRating(competency.id, { comment: e.target.value })}
+                              placeholder="Comentario obligatorio..."
+                              className="mt-2 w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 sm:text-sm"
+                            />
+                          </div>
+                        )
+                      })}
 
-                {context.interview_manager.exists && context.interview_manager.created_at && (
-                  <div className="text-xs text-gray-500">
-                    <p>Última actualización: {new Date(context.interview_manager.created_at).toLocaleString()}</p>
+                      <div className="text-sm text-gray-700">
+                        <strong>Calificación compuesta:</strong>{' '}
+                        {compositeScore !== null ? `${compositeScore}/100` : 'Pendiente'}
+                      </div>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Calificación (0-100)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={score}
+                        onChange={(e) => setScore(parseInt(e.target.value) || 0)}
+                        className="w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 sm:text-sm"
+                      />
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {usesScorecard ? 'Observaciones generales' : 'Observaciones'}
+                    </label>
+                    <textarea
+                      rows={usesScorecard ? 4 : 8}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Escribe tus observaciones sobre el candidato..."
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-green-500 focus:ring-green-500 sm:text-sm"
+                    />
                   </div>
-                )}
+
+                  {context.interview_manager.exists && context.interview_manager.created_at && (
+                    <div className="text-xs text-gray-500">
+                      <p>Última actualización: {new Date(context.interview_manager.created_at).toLocaleString()}</p>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
+
+            {/* Interview Panel */}
+            {context.panel.length > 1 && (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+                  <Users className="h-4 w-4 mr-2 text-gray-600" />
+                  Panel de entrevista
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {context.panel.map((member) => (
+                    <li key={member.staff_id} className="flex items-center justify-between">
+                      <span className="text-gray-800">
+                        {member.full_name}
+                        <span className="text-xs text-gray-500 ml-2">{PANEL_ROLE_LABELS[member.role]}</span>
+                      </span>
+                      {member.role !== 'OBSERVER' && (
+                        <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${
+                          member.submitted ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {member.submitted ? 'Calificó' : 'Pendiente'}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-xs text-gray-500">
+                  RH recibe el promedio de las calificaciones del panel.
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
@@ -614,14 +1111,16 @@ function ManagerInterviewModal({
           >
             Cerrar
           </button>
-          <button
-            onClick={handleSave}
-            disabled={loading}
-            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
-          >
-            <Save className="h-4 w-4 mr-2" />
-            {loading ? 'Guardando...' : 'Guardar Evaluación'}
-          </button>
+          {!isObserver && (
+            <button
+              onClick={handleSave}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 border border-transparent rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {loading ? 'Guardando...' : 'Guardar Evaluación'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -643,6 +1142,10 @@ function getStatusLabel(status: string) {
       return 'Aceptado'
     case 'Rechazado':
       return 'Rechazado'
+    case 'BolsaDeTalento':
+      return 'Bolsa de Talento'
+    case 'Retirado':
+      return 'Retirado'
     default:
       return status
   }
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { useAuth } from '../contexts/AuthContext'
+import { enrollTotpFactor, listTotpFactors, verifyTotpFactor } from '../lib/supabase'
+import { ShieldCheck, LogOut } from 'lucide-react'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+
+// QR code and secret of a new authenticator, confirmed with its first code
+export function TotpEnrollment({ onEnrolled }: { onEnrolled: () => void | Promise<void> }) {
+  const [factor, setFactor] = useState<{ id: string; qr_code: string; secret: string } | null>(null)
+  const [code, setCode] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const startEnrollment = async () => {
+      try {
+        const data = await enrollTotpFactor()
+        setFactor({ id: data.id, qr_code: data.totp.qr_code, secret: data.totp.secret })
+      } catch (err: any) {
+        setError(err.message || 'No se pudo iniciar el registro del autenticador')
+      }
+    }
+
+    startEnrollment()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!factor) return
+
+    try {
+      setSaving(true)
+      setError('')
+      await verifyTotpFactor(factor.id, code.trim())
+      await onEnrolled()
+    } catch (err: any) {
+      setError(err.message || 'El código no es válido')
+      setCode('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmit}>
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+        >
+          {error}
+        </motion.div>
+      )}
+
+      {factor ? (
+        <>
+          <div className="text-sm text-gray-600 space-y-2">
+            <p>1. Escanea el código con tu app de autenticación (Google Authenticator, Microsoft Authenticator, 1Password...).</p>
+            <div className="flex justify-center">
+              <img src={factor.qr_code} alt="Código QR del autenticador" className="h-44 w-44" />
+            </div>
+            <p>
+              ¿No puedes escanearlo? Captura esta clave:{' '}
+              <span className="font-mono text-xs break-all text-gray-900">{factor.secret}</span>
+            </p>
+            <p>2. Escribe el código de 6 dígitos que muestra la app.</p>
+          </div>
+
+          <Input
+            label="Código de verificación"
+            required
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            placeholder="123456"
+          />
+
+          <Button
+            type="submit"
+            loading={saving}
+            disabled={code.length !== 6}
+            size="lg"
+            className="w-full shadow-lg"
+          >
+            Activar verificación en dos pasos
+          </Button>
+        </>
+      ) : !error && (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      )}
+    </form>
+  )
+}
+
+// Shown instead of the app until the session passes the second factor: enrollment when the
+// role requires MFA and the user has none yet, otherwise the code of the registered authenticator
+export function MfaForm() {
+  const { profile, mfa, signOut, refreshProfile } = useAuth()
+  const [factorId, setFactorId] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const enrolled = mfa?.nextLevel === 'aal2'
+
+  useEffect(() => {
+    if (!enrolled) return
+
+    const loadFactor = async () => {
+      try {
+        const factors = await listTotpFactors()
+        setFactorId(factors[0]?.id ?? null)
+      } catch (err: any) {
+        setError(err.message)
+      }
+    }
+
+    loadFactor()
+  }, [enrolled])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!factorId) return
+
+    try {
+      setSaving(true)
+      setError('')
+      await verifyTotpFactor(factorId, code.trim())
+      await refreshProfile()
+    } catch (err: any) {
+      setError(err.message || 'El código no es válido')
+      setCode('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-md w-full"
+      >
+        <div className="bg-white rounded-3xl shadow-xl border border-gray-200/50 p-8">
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-secondary-500 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg">
+              <ShieldCheck className="h-8 w-8 text-white" />
+            </div>
+            <h1 className="text-h2 font-bold text-gray-900 mb-2">
+              Verificación en dos pasos
+            </h1>
+            <p className="text-body text-gray-600">
+              {enrolled
+                ? 'Escribe el código de 6 dígitos de tu app de autenticación.'
+                : `${profile?.full_name}, tu rol requiere verificación en dos pasos. Registra un autenticador para continuar.`}
+            </p>
+          </div>
+
+          {enrolled ? (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+                >
+                  {error}
+                </motion.div>
+              )}
+
+              <Input
+                label="Código de verificación"
+                required
+                autoFocus
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="123456"
+              />
+
+              <Button
+                type="submit"
+                loading={saving}
+                disabled={code.length !== 6 || !factorId}
+                size="lg"
+                className="w-full shadow-lg"
+              >
+                Verificar
+              </Button>
+
+              <p className="text-xs text-center text-gray-500">
+                ¿Perdiste tu autenticador? Pide a un administrador que restablezca tu verificación en dos pasos.
+              </p>
+            </form>
+          ) : (
+            <TotpEnrollment onEnrolled={refreshProfile} />
+          )}
+
+          <button
+            type="button"
+            onClick={signOut}
+            className="mt-6 w-full flex items-center justify-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <LogOut className="w-4 h-4 mr-1" />
+            Cerrar sesión
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
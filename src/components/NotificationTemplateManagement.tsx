@@ -0,0 +1,508 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  listNotificationTemplates,
+  saveNotificationTemplate,
+  activateNotificationTemplate,
+  previewNotificationTemplate,
+  sendAfterDocsReminders,
+  NotificationEvent,
+  NotificationTemplate,
+  NotificationTemplateGroup,
+  NotificationPreview,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_PLACEHOLDERS
+} from '../lib/supabase'
+import {
+  Mail,
+  Edit,
+  Eye,
+  Clock,
+  CheckCircle,
+  XCircle,
+  Send
+} from 'lucide-react'
+
+const NOTIFICATION_EVENTS = Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]
+
+export function NotificationTemplateManagement() {
+  const { can } = useAuth()
+  const [templates, setTemplates] = useState<NotificationTemplateGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [editingEvent, setEditingEvent] = useState<NotificationEvent | null>(null)
+  const [historyEvent, setHistoryEvent] = useState<NotificationEvent | null>(null)
+  const [sendingReminders, setSendingReminders] = useState(false)
+
+  // Only allow users whose role holds notification_template.manage
+  if (!can('notification_template.manage')) {
+    return (
+      <div className="text-center py-12">
+        <XCircle className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Tu rol no tiene permiso para gestionar plantillas de notificación.
+        </p>
+      </div>
+    )
+  }
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true)
+      const data = await listNotificationTemplates()
+      setTemplates(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  const getVersions = (event: NotificationEvent) =>
+    templates.find(group => group.event === event)?.versions || []
+
+  const getActiveTemplate = (event: NotificationEvent) =>
+    getVersions(event).find(template => template.is_active)
+
+  const handleSendReminders = async () => {
+    try {
+      setSendingReminders(true)
+      setError('')
+      const queued = await sendAfterDocsReminders()
+      setMessage(queued === 1
+        ? 'Se programó 1 recordatorio de documentos.'
+        : `Se programaron ${queued} recordatorios de documentos.`)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSendingReminders(false)
+    }
+  }
+
+  const handleSaved = () => {
+    setEditingEvent(null)
+    loadTemplates()
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Plantillas de Notificación</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Edita los correos que reciben los candidatos en cada etapa del proceso.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            type="button"
+            onClick={handleSendReminders}
+            disabled={sendingReminders}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            {sendingReminders ? 'Enviando...' : 'Enviar Recordatorios de Documentos'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {message}
+        </div>
+      )}
+
+      {/* Templates Grid */}
+      <div className="mt-6">
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="bg-white rounded-lg shadow p-6 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/2 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {NOTIFICATION_EVENTS.map((event) => {
+              const activeTemplate = getActiveTemplate(event)
+
+              return (
+                <div key={event} className="bg-white rounded-lg shadow hover:shadow-md transition-shadow">
+                  <div className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-medium text-gray-900">{NOTIFICATION_EVENT_LABELS[event]}</h3>
+                      <Mail className="h-5 w-5 text-indigo-500" />
+                    </div>
+
+                    {activeTemplate ? (
+                      <div className="space-y-2">
+                        <p className="text-sm text-gray-600">
+                          <strong>Versión activa:</strong> {activeTemplate.version}
+                        </p>
+                        <p className="text-sm text-gray-600 truncate">
+                          <strong>Asunto:</strong> {activeTemplate.subject}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          <strong>Actualizado:</strong> {new Date(activeTemplate.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">No hay una versión activa</p>
+                    )}
+
+                    <div className="pt-4 flex space-x-2">
+                      <button
+                        onClick={() => setEditingEvent(event)}
+                        className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => setHistoryEvent(event)}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        <Clock className="h-4 w-4 mr-2" />
+                        Versiones
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Edit Modal */}
+      {editingEvent && (
+        <TemplateEditorModal
+          event={editingEvent}
+          template={getActiveTemplate(editingEvent)}
+          onClose={() => setEditingEvent(null)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {/* History Modal */}
+      {historyEvent && (
+        <TemplateHistoryModal
+          event={historyEvent}
+          versions={getVersions(historyEvent)}
+          onClose={() => setHistoryEvent(null)}
+          onActivated={loadTemplates}
+        />
+      )}
+    </div>
+  )
+}
+
+// Template Editor Modal Component
+function TemplateEditorModal({
+  event,
+  template,
+  onClose,
+  onSaved
+}: {
+  event: NotificationEvent
+  template?: NotificationTemplate
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [subject, setSubject] = useState(template?.subject || '')
+  const [body, setBody] = useState(template?.body || '')
+  const [activate, setActivate] = useState(true)
+  const [preview, setPreview] = useState<NotificationPreview | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const insertPlaceholder = (key: string) => {
+    setBody(current => `${current}{{${key}}}`)
+    setPreview(null)
+  }
+
+  const handlePreview = async () => {
+    try {
+      setError('')
+      const data = await previewNotificationTemplate(event, subject, body)
+      setPreview(data)
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!subject.trim() || !body.trim()) {
+      setError('El asunto y el mensaje son obligatorios')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveNotificationTemplate(event, subject, body, activate)
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-5xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              Editar plantilla - {NOTIFICATION_EVENT_LABELS[event]}
+            </h3>
+            {template && (
+              <p className="text-sm text-gray-500">
+                Basada en la versión {template.version}. Al guardar se crea una nueva versión.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSave}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Asunto</label>
+                <input
+                  type="text"
+                  value={subject}
+                  onChange={(e) => { setSubject(e.target.value); setPreview(null) }}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Mensaje</label>
+                <textarea
+                  value={body}
+                  onChange={(e) => { setBody(e.target.value); setPreview(null) }}
+                  rows={14}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm font-mono"
+                />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Variables disponibles</p>
+                <div className="flex flex-wrap gap-2">
+                  {NOTIFICATION_PLACEHOLDERS.map((placeholder) => (
+                    <button
+                      key={placeholder.key}
+                      type="button"
+                      onClick={() => insertPlaceholder(placeholder.key)}
+                      title={placeholder.label}
+                      className="inline-flex items-center px-2 py-1 rounded text-xs font-mono bg-gray-100 text-gray-700 hover:bg-indigo-100 hover:text-indigo-800"
+                    >
+                      {`{{${placeholder.key}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="border border-gray-200 rounded-lg flex flex-col">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+                <p className="text-sm font-medium text-gray-900">Vista previa con datos de ejemplo</p>
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  <Eye className="h-4 w-4 mr-1" />
+                  Actualizar
+                </button>
+              </div>
+              {preview ? (
+                <div className="p-4 space-y-3">
+                  <p className="text-sm text-gray-900">
+                    <strong>Asunto:</strong> {preview.subject}
+                  </p>
+                  <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans">{preview.body}</pre>
+                </div>
+              ) : (
+                <div className="flex-1 flex items-center justify-center p-8">
+                  <p className="text-sm text-gray-500">Presione "Actualizar" para ver el correo.</p>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6 flex items-center justify-between">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={activate}
+                onChange={(e) => setActivate(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+              />
+              Activar esta versión al guardar
+            </label>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? 'Guardando...' : 'Guardar Nueva Versión'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// Template History Modal Component
+function TemplateHistoryModal({
+  event,
+  versions,
+  onClose,
+  onActivated
+}: {
+  event: NotificationEvent
+  versions: NotificationTemplate[]
+  onClose: () => void
+  onActivated: () => void
+}) {
+  const [selectedId, setSelectedId] = useState(versions[0]?.id)
+  const selected = versions.find(version => version.id === selectedId) || null
+  const [activating, setActivating] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleActivate = async (template: NotificationTemplate) => {
+    try {
+      setActivating(true)
+      setError('')
+      await activateNotificationTemplate(template.id)
+      onActivated()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setActivating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-5xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Versiones - {NOTIFICATION_EVENT_LABELS[event]}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <ul className="md:col-span-1 border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-[60vh] overflow-y-auto">
+            {versions.map((version) => (
+              <li key={version.id}>
+                <button
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-3 py-2 text-sm hover:bg-indigo-50 ${
+                    selected?.id === version.id ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Versión {version.version}</span>
+                    {version.is_active && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Activa
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center text-xs text-gray-500 mt-1">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {new Date(version.created_at).toLocaleString()}
+                  </div>
+                  {version.created_by_name && (
+                    <p className="text-xs text-gray-400">{version.created_by_name}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-2 border border-gray-200 rounded-lg">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50">
+                  <p className="text-sm font-medium text-gray-900 truncate">{selected.subject}</p>
+                  {selected.is_active ? (
+                    <span className="inline-flex items-center text-sm text-green-700">
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Versión activa
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleActivate(selected)}
+                      disabled={activating}
+                      className="inline-flex items-center px-3 py-1 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {activating ? 'Activando...' : 'Activar esta versión'}
+                    </button>
+                  )}
+                </div>
+                <pre className="p-4 text-sm text-gray-700 whitespace-pre-wrap font-sans max-h-[55vh] overflow-y-auto">{selected.body}</pre>
+              </>
+            ) : (
+              <p className="p-8 text-center text-sm text-gray-500">No hay versiones registradas.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  listRolePermissions,
+  setRolePermission,
+  RolePermissionMatrix,
+  StaffPermission,
+  StaffRole,
+  STAFF_ROLE_LABELS
+} from '../lib/supabase'
+import { KeyRound, XCircle } from 'lucide-react'
+
+// Role x capability grid; only users holding permission.manage can change it
+export function PermissionMatrix() {
+  const { profile, can, refreshProfile } = useAuth()
+  const [matrix, setMatrix] = useState<RolePermissionMatrix | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState('')
+  const [error, setError] = useState('')
+
+  const canEdit = can('permission.manage')
+
+  // Only allow users whose role holds staff.view
+  if (!can('staff.view')) {
+    return (
+      <div className="text-center py-12">
+        <XCircle className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Tu rol no tiene permiso para ver los roles y permisos.
+        </p>
+      </div>
+    )
+  }
+
+  const loadMatrix = async () => {
+    try {
+      setLoading(true)
+      const data = await listRolePermissions()
+      setMatrix(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMatrix()
+  }, [])
+
+  const handleToggle = async (role: StaffRole, permission: StaffPermission, granted: boolean) => {
+    try {
+      setSaving(`${role}:${permission}`)
+      setError('')
+      await setRolePermission(role, permission, granted)
+      await loadMatrix()
+      if (role === profile?.role) {
+        await refreshProfile()
+      }
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving('')
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Roles y Permisos</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Qué puede hacer cada rol. Los cambios aplican de inmediato a todos los usuarios con ese rol.
+            {!canEdit && ' Solo lectura: tu rol no puede editar la matriz.'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 bg-white shadow overflow-x-auto sm:rounded-md">
+        {loading && !matrix ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            <p className="mt-2 text-sm text-gray-500">Cargando permisos...</p>
+          </div>
+        ) : matrix && (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <span className="inline-flex items-center">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Permiso
+                  </span>
+                </th>
+                {matrix.roles.map((role) => (
+                  <th key={role} className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {STAFF_ROLE_LABELS[role] || role}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {matrix.permissions.map((permission) => (
+                <tr key={permission.code}>
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900">{permission.label}</p>
+                    <p className="text-xs text-gray-500">
+                      <code>{permission.code}</code>
+                      {permission.description && ` • ${permission.description}`}
+                    </p>
+                  </td>
+                  {matrix.roles.map((role) => {
+                    const granted = permission.roles.includes(role)
+                    return (
+                      <td key={role} className="px-3 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={granted}
+                          disabled={!canEdit || saving !== ''}
+                          onChange={() => handleToggle(role, permission.code, !granted)}
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded disabled:opacity-50"
+                          title={`${STAFF_ROLE_LABELS[role] || role}: ${permission.code}`}
+                        />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
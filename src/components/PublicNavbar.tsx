@@ -79,6 +79,9 @@ export function PublicNavbar({ showSearch = false }: PublicNavbarProps) {
             <Button variant="ghost" size="sm" asChild>
               <Link to="/estatus">Consultar Estatus</Link>
             </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/portal">Mis Postulaciones</Link>
+            </Button>
             <Button variant="primary" size="sm" asChild>
               <Link to="/login">
                 <User className="w-4 h-4 mr-2" />
@@ -132,6 +135,13 @@ export function PublicNavbar({ showSearch = false }: PublicNavbarProps) {
             >
               Consultar Estatus
             </Link>
+            <Link 
+              to="/portal" 
+              className="block px-4 py-3 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-150"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Mis Postulaciones
+            </Link>
             <Link 
               to="/login" 
               className="block px-4 py-3 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-150"
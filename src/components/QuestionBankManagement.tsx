@@ -3,7 +3,20 @@ import { useAuth } from '../contexts/AuthContext'
 import { 
   getQuestionBanks,
   importQuestionBankCSV,
-  QuestionBank
+  importQuestionBankJSON,
+  exportQuestionBankVersion,
+  listQuestionBankKinds,
+  saveQuestionBankKind,
+  listQuestionBankVersions,
+  saveQuestionBankVersion,
+  activateQuestionBankVersion,
+  QuestionBank,
+  QuestionBankExport,
+  QuestionBankKind,
+  QuestionBankStage,
+  QuestionBankVersionDetail,
+  Question,
+  QuestionDraft
 } from '../lib/supabase'
 import { 
   Upload, 
@@ -12,37 +25,44 @@ import {
   CheckCircle,
   XCircle,
   Plus,
-  Eye
+  Eye,
+  Edit,
+  Clock,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  GitCompare
 } from 'lucide-react'
 
-const QUESTION_BANK_KINDS = [
-  { value: 'ADMINISTRATIVO', label: 'Administrativo' },
-  { value: 'OPERATIVO', label: 'Operativo' },
-  { value: 'OPERADOR_UNIDADES', label: 'Operador de Unidades' },
-  { value: 'GUARDIA_SEGURIDAD', label: 'Guardia de Seguridad' },
-  { value: 'AUX_LIMPIEZA_UNIDADES', label: 'Auxiliar de Limpieza de Unidades' },
-  { value: 'JEFE_PATIO', label: 'Jefe de Patio' },
-  { value: 'AUXILIAR_PATIO', label: 'Auxiliar de Patio' },
-  { value: 'TECNICOS', label: 'Técnicos (Mecánico/Hojalatería/Pintura/Eléctrico)' }
+const QUESTION_BANK_STAGES: { value: QuestionBankStage; label: string }[] = [
+  { value: 'RH', label: 'Entrevista RH' },
+  { value: 'MANAGER', label: 'Entrevista Manager' }
 ]
 
 export function QuestionBankManagement() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
+  const canManage = can('question_bank.manage')
   const [questionBanks, setQuestionBanks] = useState<QuestionBank[]>([])
+  const [kinds, setKinds] = useState<QuestionBankKind[]>([])
+  const [editingKind, setEditingKind] = useState<QuestionBankKind | 'new' | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [showImportModal, setShowImportModal] = useState(false)
+  const [showImportJSONModal, setShowImportJSONModal] = useState(false)
   const [showViewModal, setShowViewModal] = useState(false)
   const [selectedBank, setSelectedBank] = useState<QuestionBank | null>(null)
+  const [stage, setStage] = useState<QuestionBankStage>('RH')
+  const [editingBank, setEditingBank] = useState<QuestionBank | null>(null)
+  const [versionsBank, setVersionsBank] = useState<QuestionBank | null>(null)
 
-  // Only allow RH users
-  if (profile?.role !== 'RH') {
+  // Only allow users whose role holds question_bank.view
+  if (!can('question_bank.view')) {
     return (
       <div className="text-center py-12">
         <XCircle className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol RH pueden gestionar bancos de preguntas.
+          Tu rol no tiene permiso para ver los bancos de preguntas.
         </p>
       </div>
     )
@@ -51,8 +71,9 @@ export function QuestionBankManagement() {
   const loadQuestionBanks = async () => {
     try {
       setLoading(true)
-      const data = await getQuestionBanks()
-      setQuestionBanks(data)
+      const [banks, kindList] = await Promise.all([getQuestionBanks(), listQuestionBankKinds()])
+      setQuestionBanks(banks)
+      setKinds(kindList)
     } catch (err: any) {
       setError(err.message)
     } finally {
@@ -69,18 +90,27 @@ export function QuestionBankManagement() {
     loadQuestionBanks()
   }
 
+  const handleImportJSONSuccess = (importedStage: QuestionBankStage) => {
+    setShowImportJSONModal(false)
+    setStage(importedStage)
+    loadQuestionBanks()
+  }
+
+  const getKindLabel = (bank: QuestionBank) =>
+    kinds.find(kind => kind.code === bank.kind)?.label || bank.name
+
   const handleViewBank = (bank: QuestionBank) => {
     setSelectedBank(bank)
     setShowViewModal(true)
   }
 
   const downloadSampleCSV = () => {
-    const csvContent = `ord,text,is_required
-1,"¿Cuéntame sobre tu experiencia laboral previa?",true
-2,"¿Por qué te interesa trabajar en BinniBus?",true
-3,"¿Cómo manejas situaciones de estrés?",false
-4,"¿Tienes disponibilidad para trabajar en horarios rotativos?",true
-5,"¿Qué esperas de este puesto?",false`
+    const csvContent = `ord,text,is_required,max_points,rubric
+1,"¿Cuéntame sobre tu experiencia laboral previa?",true,10,"0: sin experiencia; 5: experiencia en otro giro; 10: experiencia directa en el puesto"
+2,"¿Por qué te interesa trabajar en BinniBus?",true,5,"0: sin motivo claro; 5: conoce la empresa y el puesto"
+3,"¿Cómo manejas situaciones de estrés?",false,5,"0: sin ejemplos; 5: ejemplo concreto con resultado"
+4,"¿Tienes disponibilidad para trabajar en horarios rotativos?",true,,
+5,"¿Qué esperas de este puesto?",false,,`
 
     const blob = new Blob([csvContent], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
@@ -97,7 +127,7 @@ export function QuestionBankManagement() {
         <div className="sm:flex-auto">
           <h1 className="text-2xl font-semibold text-gray-900">Bancos de Preguntas</h1>
           <p className="mt-2 text-sm text-gray-700">
-            Gestiona los bancos de preguntas para las entrevistas de RH.
+            Gestiona los bancos de preguntas para las entrevistas de RH y de manager.
           </p>
         </div>
         <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none space-x-3">
@@ -109,14 +139,34 @@ export function QuestionBankManagement() {
             <Download className="h-4 w-4 mr-2" />
             Descargar Ejemplo CSV
           </button>
-          <button
-            type="button"
-            onClick={() => setShowImportModal(true)}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Importar CSV
-          </button>
+          {canManage && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowImportModal(true)}
+                className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Importar CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowImportJSONModal(true)}
+                className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Importar JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditingKind('new')}
+                className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Nuevo Tipo
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -126,6 +176,25 @@ export function QuestionBankManagement() {
         </div>
       )}
 
+      {/* Stage Tabs */}
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {QUESTION_BANK_STAGES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setStage(option.value)}
+              className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm ${
+                stage === option.value
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
       {/* Question Banks Grid */}
       <div className="mt-6">
         {loading ? (
@@ -140,20 +209,38 @@ export function QuestionBankManagement() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {QUESTION_BANK_KINDS.map((kind) => {
-              const bank = questionBanks.find(b => b.kind === kind.value)
+            {kinds.map((kind) => {
+              const bank = questionBanks.find(b => b.kind === kind.code && b.stage === stage)
               const activeVersion = bank?.question_bank_versions?.[0]
               
               return (
-                <div key={kind.value} className="bg-white rounded-lg shadow hover:shadow-md transition-shadow">
+                <div key={kind.code} className={`bg-white rounded-lg shadow hover:shadow-md transition-shadow ${kind.is_active ? '' : 'opacity-60'}`}>
                   <div className="p-6">
                     <div className="flex items-center justify-between mb-4">
-                      <h3 className="text-lg font-medium text-gray-900">{kind.label}</h3>
-                      {bank ? (
-                        <CheckCircle className="h-5 w-5 text-green-500" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-gray-400" />
-                      )}
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">{kind.label}</h3>
+                        <p className="text-xs text-gray-500">
+                          {kind.code}
+                          {!kind.is_active && ' • Inactivo'}
+                          {stage === 'RH' && ` • ${kind.vacancies_count} vacante(s)`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {canManage && (
+                          <button
+                            onClick={() => setEditingKind(kind)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title="Editar tipo"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        {bank ? (
+                          <CheckCircle className="h-5 w-5 text-green-500" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-gray-400" />
+                        )}
+                      </div>
                     </div>
                     
                     {bank && activeVersion ? (
@@ -167,7 +254,7 @@ export function QuestionBankManagement() {
                         <p className="text-sm text-gray-600">
                           <strong>Creado:</strong> {new Date(activeVersion.created_at).toLocaleDateString()}
                         </p>
-                        <div className="pt-4">
+                        <div className="pt-4 flex flex-wrap gap-2">
                           <button
                             onClick={() => handleViewBank(bank)}
                             className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
@@ -175,19 +262,37 @@ export function QuestionBankManagement() {
                             <Eye className="h-4 w-4 mr-2" />
                             Ver Preguntas
                           </button>
+                          {canManage && (
+                            <button
+                              onClick={() => setEditingBank(bank)}
+                              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              <Edit className="h-4 w-4 mr-2" />
+                              Editar
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setVersionsBank(bank)}
+                            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            <Clock className="h-4 w-4 mr-2" />
+                            Versiones
+                          </button>
                         </div>
                       </div>
                     ) : (
                       <div className="text-center py-4">
                         <FileText className="mx-auto h-8 w-8 text-gray-400 mb-2" />
                         <p className="text-sm text-gray-500">No hay banco configurado</p>
-                        <button
-                          onClick={() => setShowImportModal(true)}
-                          className="mt-2 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
-                        >
-                          <Plus className="h-4 w-4 mr-2" />
-                          Crear Banco
-                        </button>
+                        {canManage && (
+                          <button
+                            onClick={() => setShowImportModal(true)}
+                            className="mt-2 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                          >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Crear Banco
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -201,35 +306,221 @@ export function QuestionBankManagement() {
       {/* Import Modal */}
       {showImportModal && (
         <ImportCSVModal
+          stage={stage}
+          kinds={kinds}
           onClose={() => setShowImportModal(false)}
           onSuccess={handleImportSuccess}
         />
       )}
 
+      {/* Import JSON Modal */}
+      {showImportJSONModal && (
+        <ImportJSONModal
+          kinds={kinds}
+          onClose={() => setShowImportJSONModal(false)}
+          onSuccess={handleImportJSONSuccess}
+        />
+      )}
+
       {/* View Bank Modal */}
       {showViewModal && selectedBank && (
         <ViewBankModal
           bank={selectedBank}
+          kindLabel={getKindLabel(selectedBank)}
           onClose={() => {
             setShowViewModal(false)
             setSelectedBank(null)
           }}
         />
       )}
+
+      {/* Editor Modal */}
+      {editingBank && (
+        <QuestionBankEditorModal
+          bank={editingBank}
+          kindLabel={getKindLabel(editingBank)}
+          onClose={() => setEditingBank(null)}
+          onSaved={() => {
+            setEditingBank(null)
+            loadQuestionBanks()
+          }}
+        />
+      )}
+
+      {/* Versions Modal */}
+      {versionsBank && (
+        <BankVersionsModal
+          bank={versionsBank}
+          kindLabel={getKindLabel(versionsBank)}
+          canActivate={canManage}
+          onClose={() => setVersionsBank(null)}
+          onActivated={loadQuestionBanks}
+        />
+      )}
+
+      {/* Kind Editor Modal */}
+      {editingKind && (
+        <KindEditorModal
+          kind={editingKind === 'new' ? undefined : editingKind}
+          onClose={() => setEditingKind(null)}
+          onSaved={() => {
+            setEditingKind(null)
+            loadQuestionBanks()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+// Kind Editor Modal Component
+function KindEditorModal({
+  kind,
+  onClose,
+  onSaved
+}: {
+  kind?: QuestionBankKind
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [form, setForm] = useState({
+    code: kind?.code || '',
+    label: kind?.label || '',
+    description: kind?.description || '',
+    is_active: kind?.is_active ?? true
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!/^[A-Z][A-Z0-9_]{1,62}$/.test(form.code)) {
+      setError('El código solo puede tener mayúsculas, números y guiones bajos (ej. SUPERVISOR_RUTA)')
+      return
+    }
+
+    if (!form.label.trim()) {
+      setError('El nombre es obligatorio')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveQuestionBankKind(form)
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            {kind ? 'Editar tipo de banco' : 'Nuevo tipo de banco'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Código</label>
+            <input
+              type="text"
+              value={form.code}
+              disabled={!!kind}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/\s+/g, '_') })}
+              placeholder="SUPERVISOR_RUTA"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
+            />
+            {!kind && (
+              <p className="mt-1 text-xs text-gray-500">No se puede cambiar después de crearlo</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nombre</label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Descripción</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+            />
+            Activo (los tipos inactivos no se ofrecen al importar)
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   )
 }
 
 // Import CSV Modal Component
 function ImportCSVModal({ 
+  stage,
+  kinds,
   onClose, 
   onSuccess 
 }: { 
+  stage: QuestionBankStage
+  kinds: QuestionBankKind[]
   onClose: () => void
   onSuccess: () => void 
 }) {
   const [formData, setFormData] = useState({
     kind: '',
+    stage,
     version: '',
     activate: true,
     csvFile: null as File | null
@@ -264,7 +555,8 @@ function ImportCSVModal({
         formData.kind,
         formData.csvFile,
         formData.version ? parseInt(formData.version) : undefined,
-        formData.activate
+        formData.activate,
+        formData.stage
       )
       onSuccess()
     } catch (err: any) {
@@ -295,14 +587,29 @@ function ImportCSVModal({
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
               <option value="">Seleccionar tipo...</option>
-              {QUESTION_BANK_KINDS.map((kind) => (
-                <option key={kind.value} value={kind.value}>
+              {kinds.filter(kind => kind.is_active).map((kind) => (
+                <option key={kind.code} value={kind.code}>
                   {kind.label}
                 </option>
               ))}
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Etapa *</label>
+            <select
+              value={formData.stage}
+              onChange={(e) => setFormData({ ...formData, stage: e.target.value as QuestionBankStage })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {QUESTION_BANK_STAGES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Versión (opcional)</label>
             <input
@@ -327,7 +634,7 @@ function ImportCSVModal({
               className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
             />
             <p className="mt-1 text-xs text-gray-500">
-              Formato: ord, text, is_required (true/false)
+              Formato: ord, text, is_required (true/false), max_points y rubric (opcionales)
             </p>
           </div>
 
@@ -365,12 +672,143 @@ function ImportCSVModal({
   )
 }
 
+// Import JSON Modal Component
+function ImportJSONModal({
+  kinds,
+  onClose,
+  onSuccess
+}: {
+  kinds: QuestionBankKind[]
+  onClose: () => void
+  onSuccess: (stage: QuestionBankStage) => void
+}) {
+  const [bank, setBank] = useState<QuestionBankExport | null>(null)
+  const [activate, setActivate] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setBank(null)
+    if (!file) return
+
+    try {
+      const parsed = JSON.parse(await file.text())
+      if (parsed?.format !== 'question_bank' || !parsed.kind || !Array.isArray(parsed.questions)) {
+        setError('El archivo no es una exportación de banco de preguntas')
+        return
+      }
+      setBank(parsed)
+      setError('')
+    } catch {
+      setError('El archivo no es un JSON válido')
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!bank) {
+      setError('Selecciona un archivo exportado')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      await importQuestionBankJSON(bank, activate)
+      onSuccess(bank.stage)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isNewKind = bank && !kinds.some(kind => kind.code === bank.kind)
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Importar Banco desde JSON</h3>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Archivo JSON *</label>
+            <input
+              type="file"
+              accept=".json"
+              onChange={handleFileChange}
+              className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Archivo exportado desde "Versiones" en otro ambiente
+            </p>
+          </div>
+
+          {bank && (
+            <div className="p-3 bg-gray-50 rounded-md text-sm text-gray-700 space-y-1">
+              <p><strong>Banco:</strong> {bank.name} ({bank.kind})</p>
+              <p><strong>Etapa:</strong> {QUESTION_BANK_STAGES.find(option => option.value === bank.stage)?.label || bank.stage}</p>
+              <p><strong>Versión de origen:</strong> {bank.version}</p>
+              <p><strong>Preguntas:</strong> {bank.questions.length}</p>
+              <p className="text-xs text-gray-500">Se importará como la siguiente versión del banco en este ambiente.</p>
+              {isNewKind && (
+                <p className="text-xs text-yellow-700">
+                  El tipo {bank.kind} no existe en este ambiente; se creará junto con el banco.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={activate}
+              onChange={(e) => setActivate(e.target.checked)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-900">
+              Activar esta versión automáticamente
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !bank}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {loading ? 'Importando...' : 'Importar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
 // View Bank Modal Component
 function ViewBankModal({ 
   bank, 
+  kindLabel,
   onClose 
 }: { 
   bank: QuestionBank
+  kindLabel: string
   onClose: () => void 
 }) {
   const activeVersion = bank.question_bank_versions?.[0]
@@ -381,7 +819,7 @@ function ViewBankModal({
       <div className="relative top-10 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-medium text-gray-900">
-            {QUESTION_BANK_KINDS.find(k => k.value === bank.kind)?.label}
+            {kindLabel}
           </h3>
           <button
             onClick={onClose}
@@ -420,8 +858,16 @@ function ViewBankModal({
                         <p className="text-sm font-medium text-gray-900">
                           {question.ord}. {question.text}
                         </p>
+                        {question.rubric && (
+                          <p className="text-xs text-gray-500 mt-1">{question.rubric}</p>
+                        )}
                       </div>
-                      <div className="ml-4">
+                      <div className="ml-4 flex flex-col items-end space-y-1">
+                        {question.max_points && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                            {question.max_points} pts
+                          </span>
+                        )}
                         {question.is_required ? (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
                             Obligatoria
@@ -455,4 +901,472 @@ function ViewBankModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Question Bank Editor Modal Component
+function QuestionBankEditorModal({
+  bank,
+  kindLabel,
+  onClose,
+  onSaved
+}: {
+  bank: QuestionBank
+  kindLabel: string
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const activeVersion = bank.question_bank_versions?.[0]
+  const [questions, setQuestions] = useState<QuestionDraft[]>(() =>
+    [...(activeVersion?.questions || [])]
+      .sort((a, b) => a.ord - b.ord)
+      .map(question => ({
+        text: question.text,
+        is_required: question.is_required,
+        max_points: question.max_points ?? null,
+        rubric: question.rubric ?? ''
+      }))
+  )
+  const [activate, setActivate] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
+    setQuestions(prev => prev.map((question, i) => i === index ? { ...question, ...changes } : question))
+  }
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions(prev => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const updated = [...prev]
+      ;[updated[index], updated[target]] = [updated[target], updated[index]]
+      return updated
+    })
+  }
+
+  const handleSave = async () => {
+    if (questions.length === 0) {
+      setError('El banco debe tener al menos una pregunta')
+      return
+    }
+    if (questions.some(question => !question.text.trim())) {
+      setError('Todas las preguntas deben tener texto')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveQuestionBankVersion(bank.id, questions, activate)
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              Editar banco - {kindLabel}
+            </h3>
+            {activeVersion && (
+              <p className="text-sm text-gray-500">
+                Basado en la versión {activeVersion.version}. Al guardar se crea una nueva versión; las entrevistas en curso conservan la suya.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {questions.map((question, index) => (
+            <div key={index} className="p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-start space-x-3">
+                <span className="pt-2 text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                <div className="flex-1 space-y-2">
+                  <textarea
+                    rows={2}
+                    value={question.text}
+                    onChange={(e) => updateQuestion(index, { text: e.target.value })}
+                    placeholder="Texto de la pregunta..."
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={question.is_required}
+                        onChange={(e) => updateQuestion(index, { is_required: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+                      />
+                      Obligatoria
+                    </label>
+                    <label className="flex items-center text-sm text-gray-700">
+                      Puntos
+                      <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={question.max_points ?? ''}
+                        onChange={(e) => updateQuestion(index, { max_points: e.target.value ? parseInt(e.target.value) : null })}
+                        placeholder="-"
+                        className="ml-2 w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                      />
+                    </label>
+                  </div>
+                  {question.max_points && (
+                    <input
+                      type="text"
+                      value={question.rubric || ''}
+                      onChange={(e) => updateQuestion(index, { rubric: e.target.value })}
+                      placeholder="Rúbrica (cómo asignar los puntos)..."
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  )}
+                </div>
+                <div className="flex flex-col space-y-1">
+                  <button
+                    onClick={() => moveQuestion(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Subir"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveQuestion(index, 1)}
+                    disabled={index === questions.length - 1}
+                    className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Bajar"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setQuestions(prev => prev.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-900"
+                    title="Eliminar"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setQuestions(prev => [...prev, { text: '', is_required: true, max_points: null, rubric: '' }])}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar Pregunta
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between pt-6 border-t border-gray-200 mt-4">
+          <label className="flex items-center text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={activate}
+              onChange={(e) => setActivate(e.target.checked)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded mr-2"
+            />
+            Activar la nueva versión
+          </label>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : 'Guardar Nueva Versión'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+type DiffRow = {
+  left?: Question
+  right?: Question
+  change: 'same' | 'added' | 'removed' | 'changed'
+}
+
+// Pairs questions of two versions by text; removed questions stay next to their previous neighbour
+function diffQuestions(left: Question[], right: Question[]): DiffRow[] {
+  const normalize = (text: string) => text.trim().toLowerCase()
+  const leftSorted = [...left].sort((a, b) => a.ord - b.ord)
+  const rightSorted = [...right].sort((a, b) => a.ord - b.ord)
+  const leftByText = new Map(leftSorted.map(question => [normalize(question.text), question]))
+
+  const rows: DiffRow[] = rightSorted.map(question => {
+    const match = leftByText.get(normalize(question.text))
+    if (!match) return { right: question, change: 'added' }
+    const changed = match.is_required !== question.is_required
+      || (match.max_points ?? null) !== (question.max_points ?? null)
+      || (match.rubric ?? '') !== (question.rubric ?? '')
+      || match.ord !== question.ord
+    return { left: match, right: question, change: changed ? 'changed' : 'same' }
+  })
+
+  const rightTexts = new Set(rightSorted.map(question => normalize(question.text)))
+  leftSorted.forEach((question, index) => {
+    if (rightTexts.has(normalize(question.text))) return
+    const previous = leftSorted[index - 1]
+    const position = previous ? rows.findIndex(row => row.left === previous) : -1
+    rows.splice(position + 1, 0, { left: question, change: 'removed' })
+  })
+
+  return rows
+}
+
+const DIFF_ROW_COLORS: Record<DiffRow['change'], string> = {
+  same: '',
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  changed: 'bg-yellow-50'
+}
+
+function DiffCell({ question }: { question?: Question }) {
+  if (!question) {
+    return <td className="px-3 py-2 text-sm text-gray-400 align-top">—</td>
+  }
+
+  return (
+    <td className="px-3 py-2 text-sm text-gray-800 align-top">
+      <p>
+        {question.ord}. {question.text}
+        {question.is_required && <span className="text-red-500 ml-1">*</span>}
+      </p>
+      {question.max_points && (
+        <p className="text-xs text-gray-500 mt-1">
+          {question.max_points} pts{question.rubric && ` • ${question.rubric}`}
+        </p>
+      )}
+    </td>
+  )
+}
+
+// Bank Versions Modal Component
+function BankVersionsModal({
+  bank,
+  kindLabel,
+  canActivate,
+  onClose,
+  onActivated
+}: {
+  bank: QuestionBank
+  kindLabel: string
+  canActivate: boolean
+  onClose: () => void
+  onActivated: () => void
+}) {
+  const [versions, setVersions] = useState<QuestionBankVersionDetail[]>([])
+  const [leftId, setLeftId] = useState('')
+  const [rightId, setRightId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [activating, setActivating] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadVersions = async () => {
+    try {
+      setLoading(true)
+      const data = await listQuestionBankVersions(bank.id)
+      setVersions(data)
+      setRightId(current => current || data[0]?.id || '')
+      setLeftId(current => current || data[1]?.id || data[0]?.id || '')
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+  }, [bank.id])
+
+  const left = versions.find(version => version.id === leftId)
+  const right = versions.find(version => version.id === rightId)
+  const active = versions.find(version => version.is_active)
+  const rows = left && right ? diffQuestions(left.questions, right.questions) : []
+
+  const handleActivate = async (version: QuestionBankVersionDetail) => {
+    try {
+      setActivating(true)
+      setError('')
+      await activateQuestionBankVersion(version.id)
+      await loadVersions()
+      onActivated()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setActivating(false)
+    }
+  }
+
+  const handleExport = async (version: QuestionBankVersionDetail, format: 'csv' | 'json') => {
+    try {
+      setError('')
+      await exportQuestionBankVersion(
+        version.id,
+        format,
+        `banco-${bank.kind.toLowerCase()}-${bank.stage.toLowerCase()}-v${version.version}`
+      )
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+    >
+      {versions.map((version) => (
+        <option key={version.id} value={version.id}>
+          Versión {version.version}{version.is_active ? ' (activa)' : ''}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-6xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Versiones - {kindLabel}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading && versions.length === 0 ? (
+          <p className="p-8 text-center text-sm text-gray-500">Cargando versiones...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <ul className="md:col-span-1 border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-[60vh] overflow-y-auto">
+              {versions.map((version) => (
+                <li key={version.id} className="px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">Versión {version.version}</span>
+                    {version.is_active && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Activa
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center text-xs text-gray-500 mt-1">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {new Date(version.created_at).toLocaleString()}
+                  </div>
+                  {version.created_by_name && (
+                    <p className="text-xs text-gray-400">{version.created_by_name}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {version.questions.length} preguntas • {version.interviews_count} entrevistas
+                    {version.in_progress_count > 0 && ` (${version.in_progress_count} en curso)`}
+                  </p>
+                  <div className="flex items-center space-x-3 mt-1">
+                    {canActivate && !version.is_active && (
+                      <button
+                        onClick={() => handleActivate(version)}
+                        disabled={activating}
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                      >
+                        {active && version.version < active.version ? 'Restaurar esta versión' : 'Activar esta versión'}
+                      </button>
+                    )}
+                    {(['csv', 'json'] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(version, format)}
+                        className="inline-flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+                        title={`Exportar ${format.toUpperCase()}`}
+                      >
+                        <Download className="h-3 w-3 mr-1" />
+                        {format.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="md:col-span-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center space-x-2 px-4 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+                <GitCompare className="h-4 w-4 text-gray-500" />
+                <span className="text-gray-700">Comparar</span>
+                {renderVersionSelect(leftId, setLeftId)}
+                <span className="text-gray-700">con</span>
+                {renderVersionSelect(rightId, setRightId)}
+              </div>
+              <div className="max-h-[55vh] overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="w-1/2 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Versión {left?.version}
+                      </th>
+                      <th className="w-1/2 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Versión {right?.version}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row, index) => (
+                      <tr key={index} className={DIFF_ROW_COLORS[row.change]}>
+                        <DiffCell question={row.left} />
+                        <DiffCell question={row.right} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex space-x-4 px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+                <span><span className="inline-block w-3 h-3 bg-green-100 mr-1 align-middle"></span>Agregada</span>
+                <span><span className="inline-block w-3 h-3 bg-red-100 mr-1 align-middle"></span>Eliminada</span>
+                <span><span className="inline-block w-3 h-3 bg-yellow-100 mr-1 align-middle"></span>Modificada</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
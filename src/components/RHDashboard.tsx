@@ -7,7 +7,10 @@ import {
   refreshDashboardViews,
   DashboardSummary,
   AdminApplicationsResponse,
-  getActiveManagers
+  getActiveManagers,
+  listRejectionReasons,
+  saveRejectionReason,
+  RejectionReason
 } from '../lib/supabase'
 import { 
   BarChart3,
@@ -23,11 +26,13 @@ import {
   Clock,
   CheckCircle,
   XCircle,
-  Eye
+  Eye,
+  Settings,
+  Plus
 } from 'lucide-react'
 
 export function RHDashboard() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
   const [summary, setSummary] = useState<DashboardSummary | null>(null)
   const [applications, setApplications] = useState<AdminApplicationsResponse | null>(null)
   const [loading, setLoading] = useState(true)
@@ -35,6 +40,7 @@ export function RHDashboard() {
   const [error, setError] = useState('')
   const [refreshing, setRefreshing] = useState(false)
   const [exporting, setExporting] = useState<string | null>(null)
+  const [showReasonsModal, setShowReasonsModal] = useState(false)
   
   // Filters
   const [filters, setFilters] = useState({
@@ -42,19 +48,20 @@ export function RHDashboard() {
     status: '',
     q: '',
     from: '',
-    to: ''
+    to: '',
+    min_rh_score: ''
   })
   const [currentPage, setCurrentPage] = useState(1)
   const [vacancies, setVacancies] = useState<any[]>([])
 
-  // Only allow RH users
-  if (profile?.role !== 'RH') {
+  // Only allow users whose role holds dashboard.view
+  if (!can('dashboard.view')) {
     return (
       <div className="text-center py-12">
         <XCircle className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol RH pueden ver el dashboard.
+          Tu rol no tiene permiso para ver el dashboard.
         </p>
       </div>
     )
@@ -85,7 +92,8 @@ export function RHDashboard() {
         status: filters.status || undefined,
         q: filters.q || undefined,
         from: filters.from || undefined,
-        to: filters.to || undefined
+        to: filters.to || undefined,
+        min_rh_score: filters.min_rh_score ? parseInt(filters.min_rh_score) : undefined
       })
       setApplications(data)
     } catch (err: any) {
@@ -168,6 +176,10 @@ export function RHDashboard() {
         return 'bg-green-100 text-green-800'
       case 'Rechazado':
         return 'bg-red-100 text-red-800'
+      case 'BolsaDeTalento':
+        return 'bg-indigo-100 text-indigo-800'
+      case 'Retirado':
+        return 'bg-gray-200 text-gray-700'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -187,6 +199,10 @@ export function RHDashboard() {
         return 'Aceptado'
       case 'Rechazado':
         return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
       default:
         return status
     }
@@ -411,6 +427,127 @@ export function RHDashboard() {
         </div>
       )}
 
+      {/* Rejections by Reason */}
+      {summary && (
+        <div className="mt-6 bg-white rounded-lg shadow p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Rechazos por Motivo</h3>
+            <button
+              onClick={() => setShowReasonsModal(true)}
+              className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Settings className="h-3 w-3 mr-1" />
+              Catálogo de Motivos
+            </button>
+          </div>
+          {summary.rejections_by_reason.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Puesto
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Motivo
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rechazados
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      % de Rechazos de la Vacante
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {summary.rejections_by_reason.map((row) => {
+                    const vacancyTotal = summary.rejections_by_reason
+                      .filter(other => other.vacancy_id === row.vacancy_id)
+                      .reduce((sum, other) => sum + other.rejected, 0)
+                    const share = vacancyTotal > 0 ? ((row.rejected / vacancyTotal) * 100).toFixed(1) : '0.0'
+                    return (
+                      <tr key={`${row.vacancy_id}:${row.reason_code}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {row.position}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {row.reason_label}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">
+                          {row.rejected}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {share}%
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Aún no hay rechazos registrados.</p>
+          )}
+        </div>
+      )}
+
+      {/* No-shows by Vacancy */}
+      {summary && summary.no_show_rate_by_vacancy.length > 0 && (
+        <div className="mt-6 bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Inasistencias a Entrevistas por Vacante</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Puesto
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Asistieron
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    No se presentaron
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tasa de Inasistencia
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cambios del Candidato
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Cambios del Personal
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {summary.no_show_rate_by_vacancy.map((vacancy) => (
+                  <tr key={vacancy.vacancy_id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {vacancy.position}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-green-600">
+                      {vacancy.attended}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">
+                      {vacancy.no_show}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {vacancy.no_show_rate.toFixed(1)}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {vacancy.changed_by_candidate}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {vacancy.changed_by_staff}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Applications List */}
       <div className="mt-6 bg-white rounded-lg shadow">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -464,8 +601,23 @@ export function RHDashboard() {
                 <option value="Evaluando">Evaluando</option>
                 <option value="Aceptado">Aceptado</option>
                 <option value="Rechazado">Rechazado</option>
+                <option value="BolsaDeTalento">Bolsa de Talento</option>
+                <option value="Retirado">Retirado</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Puntaje RH mínimo (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={filters.min_rh_score}
+                onChange={(e) => setFilters({ ...filters, min_rh_score: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="Sin filtro"
+              />
+            </div>
           </div>
         </div>
 
@@ -492,6 +644,9 @@ export function RHDashboard() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Estado
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Puntaje RH
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Manager
                   </th>
@@ -521,6 +676,11 @@ export function RHDashboard() {
                         {getStatusLabel(app.status)}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {app.rh_score_max
+                        ? `${app.rh_score_total ?? 0}/${app.rh_score_max} (${Math.round((app.rh_score_total ?? 0) * 100 / app.rh_score_max)}%)`
+                        : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {app.manager_full_name}
                     </td>
@@ -567,6 +727,165 @@ export function RHDashboard() {
           </div>
         )}
       </div>
+
+      {/* Rejection Reasons Modal */}
+      {showReasonsModal && (
+        <RejectionReasonsModal onClose={() => setShowReasonsModal(false)} />
+      )}
+    </div>
+  )
+}
+
+// Rejection Reasons Catalog Modal Component
+function RejectionReasonsModal({ onClose }: { onClose: () => void }) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [newReason, setNewReason] = useState({ code: '', label: '', description: '' })
+
+  const loadReasons = async () => {
+    try {
+      setLoading(true)
+      const data = await listRejectionReasons(true)
+      setReasons(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReasons()
+  }, [])
+
+  const handleToggle = async (reason: RejectionReason) => {
+    try {
+      setError('')
+      await saveRejectionReason({
+        code: reason.code,
+        label: reason.label,
+        description: reason.description,
+        ord: reason.ord,
+        is_active: !reason.is_active
+      })
+      await loadReasons()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!newReason.code.trim() || !newReason.label.trim()) {
+      setError('La clave y el nombre del motivo son obligatorios')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveRejectionReason({ ...newReason, is_active: true })
+      setNewReason({ code: '', label: '', description: '' })
+      await loadReasons()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Catálogo de Motivos de Rechazo</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {reasons.map((reason) => (
+              <li key={reason.code} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <p className={`text-sm font-medium ${reason.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                    {reason.label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {reason.code}{reason.description && ` • ${reason.description}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleToggle(reason)}
+                  className={`inline-flex items-center px-3 py-1 text-xs font-medium rounded ${
+                    reason.is_active
+                      ? 'text-red-700 bg-red-100 hover:bg-red-200'
+                      : 'text-green-700 bg-green-100 hover:bg-green-200'
+                  }`}
+                >
+                  {reason.is_active ? 'Desactivar' : 'Activar'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Clave</label>
+            <input
+              type="text"
+              value={newReason.code}
+              onChange={(e) => setNewReason({ ...newReason, code: e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, '_') })}
+              placeholder="SALARIO_NO_ACEPTADO"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nombre</label>
+            <input
+              type="text"
+              value={newReason.label}
+              onChange={(e) => setNewReason({ ...newReason, label: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Descripción</label>
+            <input
+              type="text"
+              value={newReason.description}
+              onChange={(e) => setNewReason({ ...newReason, description: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? 'Guardando...' : 'Agregar Motivo'}
+          </button>
+        </form>
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react'
+import { listRejectionReasons, RejectionReason } from '../lib/supabase'
+import { XCircle, ThumbsDown } from 'lucide-react'
+
+// Reject Application Modal Component
+export function RejectApplicationModal({
+  title,
+  subtitle,
+  onClose,
+  onConfirm
+}: {
+  title: string
+  subtitle?: string
+  onClose: () => void
+  onConfirm: (reasonCode: string, note: string) => Promise<void>
+}) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [reasonCode, setReasonCode] = useState('')
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    listRejectionReasons()
+      .then(setReasons)
+      .catch((err: any) => setError(err.message))
+  }, [])
+
+  const selectedReason = reasons.find(reason => reason.code === reasonCode)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!reasonCode) {
+      setError('Seleccione el motivo del rechazo')
+      return
+    }
+
+    if (reasonCode === 'OTRO' && !note.trim()) {
+      setError('Describa el motivo en la nota')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError('')
+      await onConfirm(reasonCode, note.trim())
+    } catch (err: any) {
+      setError(err.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Rechazar - {title}</h3>
+            {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Motivo *</label>
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Seleccione un motivo</option>
+              {reasons.map((reason) => (
+                <option key={reason.code} value={reason.code}>
+                  {reason.label}
+                </option>
+              ))}
+            </select>
+            {selectedReason?.description && (
+              <p className="mt-1 text-xs text-gray-500">{selectedReason.description}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Nota {reasonCode === 'OTRO' ? '*' : '(opcional)'}
+            </label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              placeholder="Detalles adicionales del rechazo..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              <ThumbsDown className="h-4 w-4 mr-2" />
+              {loading ? 'Procesando...' : 'Confirmar Rechazo'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  listScorecardCompetencies,
+  saveScorecardCompetency,
+  ScorecardCompetency
+} from '../lib/supabase'
+import {
+  ClipboardCheck,
+  Edit,
+  Plus,
+  XCircle
+} from 'lucide-react'
+
+type VacancyType = 'ADMINISTRATIVO' | 'OPERATIVO'
+
+const VACANCY_TYPES: VacancyType[] = ['ADMINISTRATIVO', 'OPERATIVO']
+
+export function ScorecardManagement() {
+  const { can } = useAuth()
+  const [competencies, setCompetencies] = useState<ScorecardCompetency[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [editing, setEditing] = useState<{ type: VacancyType; competency?: ScorecardCompetency } | null>(null)
+
+  // Only allow users whose role holds scorecard.manage
+  if (!can('scorecard.manage')) {
+    return (
+      <div className="text-center py-12">
+        <XCircle className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Tu rol no tiene permiso para configurar los scorecards.
+        </p>
+      </div>
+    )
+  }
+
+  const loadCompetencies = async () => {
+    try {
+      setLoading(true)
+      const data = await listScorecardCompetencies()
+      setCompetencies(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCompetencies()
+  }, [])
+
+  const handleSaved = () => {
+    setEditing(null)
+    loadCompetencies()
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Scorecards de Manager</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Competencias que el manager califica de 1 a 5 en su entrevista. La calificación final es el promedio ponderado por peso.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {VACANCY_TYPES.map((type) => {
+          const items = competencies.filter(competency => competency.vacancy_type === type)
+          const activeWeight = items
+            .filter(competency => competency.is_active)
+            .reduce((sum, competency) => sum + competency.weight, 0)
+
+          return (
+            <div key={type} className="bg-white rounded-lg shadow">
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                    <ClipboardCheck className="h-5 w-5 mr-2 text-indigo-500" />
+                    {type}
+                  </h3>
+                  <button
+                    onClick={() => setEditing({ type })}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Agregar
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="animate-pulse space-y-2">
+                    <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                    <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                  </div>
+                ) : items.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Sin competencias. El manager capturará una calificación única de 0 a 100.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {items.map((competency) => (
+                      <li key={competency.id} className="py-3 flex items-start justify-between">
+                        <div className={competency.is_active ? '' : 'opacity-50'}>
+                          <p className="text-sm font-medium text-gray-900">
+                            {competency.ord}. {competency.name}
+                            {!competency.is_active && (
+                              <span className="ml-2 inline-flex px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                                Inactiva
+                              </span>
+                            )}
+                          </p>
+                          {competency.description && (
+                            <p className="text-xs text-gray-500">{competency.description}</p>
+                          )}
+                          <p className="text-xs text-gray-500 mt-1">
+                            Peso {competency.weight}
+                            {competency.is_active && activeWeight > 0 && ` (${Math.round(competency.weight * 100 / activeWeight)}%)`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setEditing({ type, competency })}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          title="Editar"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {editing && (
+        <CompetencyEditorModal
+          vacancyType={editing.type}
+          competency={editing.competency}
+          nextOrd={competencies.filter(competency => competency.vacancy_type === editing.type).length + 1}
+          onClose={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  )
+}
+
+// Competency Editor Modal Component
+function CompetencyEditorModal({
+  vacancyType,
+  competency,
+  nextOrd,
+  onClose,
+  onSaved
+}: {
+  vacancyType: VacancyType
+  competency?: ScorecardCompetency
+  nextOrd: number
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [form, setForm] = useState({
+    name: competency?.name || '',
+    description: competency?.description || '',
+    weight: competency?.weight || 10,
+    ord: competency?.ord || nextOrd,
+    is_active: competency?.is_active ?? true
+  })
+  const [anchors, setAnchors] = useState<string[]>(competency?.anchors || ['', '', '', '', ''])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.name.trim()) {
+      setError('El nombre es obligatorio')
+      return
+    }
+
+    if (anchors.some(anchor => !anchor.trim())) {
+      setError('Describe las cinco calificaciones (1 a 5)')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveScorecardCompetency({
+        id: competency?.id,
+        vacancy_type: vacancyType,
+        ...form,
+        anchors
+      })
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            {competency ? 'Editar competencia' : 'Nueva competencia'} - {vacancyType}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nombre</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Descripción</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Peso (1-100)</label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={form.weight}
+                onChange={(e) => setForm({ ...form, weight: parseInt(e.target.value) || 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Orden</label>
+              <input
+                type="number"
+                min="1"
+                value={form.ord}
+                onChange={(e) => setForm({ ...form, ord: parseInt(e.target.value) || 0 })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Descripción de cada calificación</p>
+            <div className="space-y-2">
+              {anchors.map((anchor, index) => (
+                <div key={index} className="flex items-center">
+                  <span className="w-6 text-sm font-medium text-gray-600">{index + 1}</span>
+                  <input
+                    type="text"
+                    value={anchor}
+                    onChange={(e) => setAnchors(anchors.map((value, i) => i === index ? e.target.value : value))}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 mr-2"
+            />
+            Activa (las entrevistas ya guardadas conservan su calificación)
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
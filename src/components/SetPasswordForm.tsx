@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { checkStaffPasswordToken, setStaffPassword, StaffPasswordToken } from '../lib/supabase'
+import { KeyRound, CheckCircle, Eye, EyeOff } from 'lucide-react'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+
+// Reads the token from #set-password?token=...
+function getTokenFromHash(): string {
+  const query = window.location.hash.split('?')[1] || ''
+  return new URLSearchParams(query).get('token') || ''
+}
+
+// Same rule as the staff-password and auth-staff edge functions
+export function getPasswordError(password: string, confirmPassword: string): string {
+  if (password.length < 10 || !/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'La contraseña debe tener al menos 10 caracteres e incluir letras y números'
+  }
+  if (password !== confirmPassword) {
+    return 'Las contraseñas no coinciden'
+  }
+  return ''
+}
+
+// Page opened from an invitation or password reset email
+export function SetPasswordForm() {
+  const [token] = useState(getTokenFromHash)
+  const [link, setLink] = useState<StaffPasswordToken | null>(null)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [showPassword, setShowPassword] = useState(false)
+  const [checking, setChecking] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [done, setDone] = useState(false)
+  const [linkError, setLinkError] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!token) {
+      setLinkError('Abre el enlace completo que recibiste por correo o solicita uno nuevo.')
+      setChecking(false)
+      return
+    }
+
+    checkStaffPasswordToken(token)
+      .then(setLink)
+      .catch((err: any) => setLinkError(err.message))
+      .finally(() => setChecking(false))
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const passwordError = getPasswordError(password, confirmPassword)
+    if (passwordError) {
+      setError(passwordError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await setStaffPassword(token, password)
+      setDone(true)
+    } catch (err: any) {
+      setError(err.message || 'Error al guardar la contraseña')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 via-white to-gray-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+        className="max-w-md w-full"
+      >
+        <div className="bg-white rounded-3xl shadow-xl border border-gray-200/50 p-8">
+          <div className="text-center mb-8">
+            <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-secondary-500 rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-lg">
+              <KeyRound className="h-8 w-8 text-white" />
+            </div>
+            <h1 className="text-h2 font-bold text-gray-900 mb-2">
+              {link?.purpose === 'RESET' ? 'Nueva contraseña' : 'Activa tu cuenta'}
+            </h1>
+            {link && (
+              <p className="text-body text-gray-600">
+                {link.full_name} • {link.email}
+              </p>
+            )}
+          </div>
+
+          {checking ? (
+            <p className="text-center text-sm text-gray-500">Verificando enlace...</p>
+          ) : linkError ? (
+            <div className="space-y-6">
+              <div className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl">
+                {linkError}
+              </div>
+              <a href="#login" className="block text-center text-sm text-primary-600 hover:text-primary-700 font-medium">
+                Ir a iniciar sesión
+              </a>
+            </div>
+          ) : done ? (
+            <div className="space-y-6">
+              <div className="flex items-start bg-success-50 border border-success-200 text-success-700 px-4 py-3 rounded-xl">
+                <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                Tu contraseña quedó guardada. Ya puedes iniciar sesión.
+              </div>
+              <a href="#login" className="block text-center text-sm text-primary-600 hover:text-primary-700 font-medium">
+                Ir a iniciar sesión
+              </a>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl"
+                >
+                  {error}
+                </motion.div>
+              )}
+
+              <Input
+                label="Nueva contraseña"
+                type={showPassword ? 'text' : 'password'}
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                helper="Mínimo 10 caracteres, con letras y números"
+              />
+
+              <Input
+                label="Confirmar contraseña"
+                type={showPassword ? 'text' : 'password'}
+                required
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+              >
+                {showPassword ? <EyeOff className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                {showPassword ? 'Ocultar contraseñas' : 'Mostrar contraseñas'}
+              </button>
+
+              <Button
+                type="submit"
+                loading={saving}
+                size="lg"
+                className="w-full shadow-lg"
+              >
+                Guardar contraseña
+              </Button>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  )
+}
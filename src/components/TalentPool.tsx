@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  searchTalentPool,
+  rerouteApplication,
+  listVacanciesAdmin,
+  TalentPoolCandidate,
+  TalentPoolResponse,
+  Vacancy
+} from '../lib/supabase'
+import {
+  Search,
+  User,
+  XCircle,
+  Award,
+  Star,
+  FileText,
+  ArrowRightLeft,
+  CheckCircle
+} from 'lucide-react'
+import { DocumentViewerModal } from './DocumentViewerModal'
+
+export function TalentPool() {
+  const { can } = useAuth()
+  const [pool, setPool] = useState<TalentPoolResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [reroutingCandidate, setReroutingCandidate] = useState<TalentPoolCandidate | null>(null)
+  const [documentsCandidate, setDocumentsCandidate] = useState<TalentPoolCandidate | null>(null)
+  const [filters, setFilters] = useState({
+    vacancy_type: '' as '' | 'ADMINISTRATIVO' | 'OPERATIVO',
+    min_total: '',
+    max_total: '',
+    search: ''
+  })
+  const [currentPage, setCurrentPage] = useState(1)
+
+  // Only allow users whose role holds talent_pool.view
+  if (!can('talent_pool.view')) {
+    return (
+      <div className="text-center py-12">
+        <XCircle className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Tu rol no tiene permiso para consultar la bolsa de talento.
+        </p>
+      </div>
+    )
+  }
+
+  const loadPool = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      const data = await searchTalentPool({
+        page: currentPage,
+        page_size: 20,
+        vacancy_type: filters.vacancy_type || undefined,
+        min_total: filters.min_total ? parseInt(filters.min_total) : undefined,
+        max_total: filters.max_total ? parseInt(filters.max_total) : undefined,
+        q: filters.search.trim() || undefined
+      })
+      setPool(data)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPool()
+  }, [currentPage, filters])
+
+  const handleReroute = async (vacancyId: string, note: string) => {
+    if (!reroutingCandidate) return
+
+    const result = await rerouteApplication(reroutingCandidate.application_id, vacancyId, note)
+    setMessage(
+      `${reroutingCandidate.candidate_full_name} fue reubicado en ${result.vacancy_position} con el folio ${result.folio} ` +
+      `(${result.documents_copied} documentos copiados).`
+    )
+    setReroutingCandidate(null)
+    loadPool()
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Bolsa de Talento</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Candidatos evaluados que no fueron contratados y pueden reubicarse en otra vacante activa.
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="mt-6 bg-white p-4 rounded-lg shadow">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Buscar</label>
+            <div className="mt-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={filters.search}
+                onChange={(e) => {
+                  setFilters({ ...filters, search: e.target.value })
+                  setCurrentPage(1)
+                }}
+                className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="Folio o candidato..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Tipo de Vacante</label>
+            <select
+              value={filters.vacancy_type}
+              onChange={(e) => {
+                setFilters({ ...filters, vacancy_type: e.target.value as '' | 'ADMINISTRATIVO' | 'OPERATIVO' })
+                setCurrentPage(1)
+              }}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Todos</option>
+              <option value="ADMINISTRATIVO">Administrativo</option>
+              <option value="OPERATIVO">Operativo</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Evaluación mínima (/80)</label>
+            <input
+              type="number"
+              min={16}
+              max={80}
+              value={filters.min_total}
+              onChange={(e) => {
+                setFilters({ ...filters, min_total: e.target.value })
+                setCurrentPage(1)
+              }}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Evaluación máxima (/80)</label>
+            <input
+              type="number"
+              min={16}
+              max={80}
+              value={filters.max_total}
+              onChange={(e) => {
+                setFilters({ ...filters, max_total: e.target.value })
+                setCurrentPage(1)
+              }}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md flex items-center">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          {message}
+        </div>
+      )}
+
+      {/* Pool list */}
+      <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            <p className="mt-2 text-sm text-gray-500">Cargando bolsa de talento...</p>
+          </div>
+        ) : pool && pool.items.length === 0 ? (
+          <div className="p-8 text-center">
+            <Award className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">No hay candidatos en la bolsa de talento con estos filtros.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {pool?.items.map((candidate) => (
+              <li key={candidate.application_id} className="px-6 py-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className="flex-shrink-0">
+                      <User className="h-8 w-8 text-gray-600" />
+                    </div>
+                    <div className="ml-4">
+                      <div className="flex items-center">
+                        <p className="text-sm font-medium text-gray-900">
+                          {candidate.candidate_full_name}
+                        </p>
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          <Award className="h-3 w-3 mr-1" />
+                          {candidate.evaluation_total ?? '-'}/80
+                        </span>
+                        {candidate.manager_score !== null && (
+                          <span className="ml-2 inline-flex items-center text-xs text-gray-600">
+                            <Star className="h-3 w-3 mr-1 text-yellow-500" />
+                            Manager: {candidate.manager_score}/100
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Folio: {candidate.folio} • {candidate.vacancy_position} ({candidate.vacancy_type === 'ADMINISTRATIVO' ? 'Administrativo' : 'Operativo'})
+                      </p>
+                      <div className="flex items-center mt-1 text-xs text-gray-500">
+                        <span>{candidate.candidate_email} • {candidate.candidate_phone}</span>
+                        {candidate.pooled_at && (
+                          <span className="ml-4">En bolsa desde: {new Date(candidate.pooled_at).toLocaleDateString()}</span>
+                        )}
+                      </div>
+                      {candidate.pool_note && (
+                        <p className="mt-1 text-xs text-gray-600 italic">{candidate.pool_note}</p>
+                      )}
+                      {candidate.rerouted_to.length > 0 && (
+                        <div className="mt-1 text-xs text-indigo-700">
+                          Reubicado en: {candidate.rerouted_to.map(r => `${r.vacancy_position} (${r.folio})`).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setDocumentsCandidate(candidate)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                      title="Ver documentos"
+                    >
+                      <FileText className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMessage('')
+                        setReroutingCandidate(candidate)
+                      }}
+                      className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+                    >
+                      <ArrowRightLeft className="h-3 w-3 mr-1" />
+                      Reubicar
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pool && pool.total_pages > 1 && (
+        <div className="mt-6 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Mostrando {((currentPage - 1) * 20) + 1} a {Math.min(currentPage * 20, pool.total)} de {pool.total} candidatos
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+              disabled={currentPage === 1}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Anterior
+            </button>
+            <button
+              onClick={() => setCurrentPage(Math.min(pool.total_pages, currentPage + 1))}
+              disabled={currentPage === pool.total_pages}
+              className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Siguiente
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Documents Modal */}
+      {documentsCandidate && (
+        <DocumentViewerModal
+          applicationId={documentsCandidate.application_id}
+          title={documentsCandidate.candidate_full_name}
+          subtitle={`Folio: ${documentsCandidate.folio} • ${documentsCandidate.vacancy_position}`}
+          onClose={() => setDocumentsCandidate(null)}
+        />
+      )}
+
+      {/* Reroute Modal */}
+      {reroutingCandidate && (
+        <RerouteModal
+          candidate={reroutingCandidate}
+          onClose={() => setReroutingCandidate(null)}
+          onConfirm={handleReroute}
+        />
+      )}
+    </div>
+  )
+}
+
+// Reroute Modal Component
+function RerouteModal({
+  candidate,
+  onClose,
+  onConfirm
+}: {
+  candidate: TalentPoolCandidate
+  onClose: () => void
+  onConfirm: (vacancyId: string, note: string) => Promise<void>
+}) {
+  const [vacancies, setVacancies] = useState<Vacancy[]>([])
+  const [vacancyId, setVacancyId] = useState('')
+  const [note, setNote] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    listVacanciesAdmin({ is_active: true, page_size: 100 })
+      .then(data => setVacancies(data.items.filter(vacancy => vacancy.id !== candidate.vacancy_id)))
+      .catch((err: any) => setError(err.message))
+  }, [candidate])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!vacancyId) {
+      setError('Seleccione la vacante destino')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError('')
+      await onConfirm(vacancyId, note.trim())
+    } catch (err: any) {
+      setError(err.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Reubicar - {candidate.candidate_full_name}</h3>
+            <p className="text-sm text-gray-500">Folio: {candidate.folio} • {candidate.vacancy_position}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Se creará una nueva aplicación en Revisión de Documentos con los documentos y el historial de evaluación del candidato.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Vacante destino *</label>
+            <select
+              value={vacancyId}
+              onChange={(e) => setVacancyId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">Seleccione una vacante</option>
+              {vacancies.map((vacancy) => (
+                <option key={vacancy.id} value={vacancy.id}>
+                  {vacancy.position} ({vacancy.type === 'ADMINISTRATIVO' ? 'Administrativo' : 'Operativo'})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nota (opcional)</label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              placeholder="Motivo de la reubicación..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              {loading ? 'Procesando...' : 'Reubicar Candidato'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -5,8 +5,17 @@ import {
   createStaffUser, 
   updateStaffUser, 
   deleteStaffUser,
+  resendStaffInvite,
+  getStaffOffboardingSummary,
+  offboardStaffUser,
+  unlockStaffUser,
+  resetStaffMfa,
   StaffUser,
-  StaffUsersResponse 
+  StaffOffboardingSummary,
+  StaffUsersResponse,
+  StaffRole,
+  STAFF_ROLE_LABELS,
+  PANEL_ROLE_LABELS
 } from '../lib/supabase'
 import { 
   Plus, 
@@ -17,16 +26,23 @@ import {
   UserCheck,
   UserX,
   Shield,
+  Mail,
+  UserMinus,
+  Unlock,
+  ShieldOff,
+  XCircle,
   User as UserIcon
 } from 'lucide-react'
 
 export function UserManagement() {
-  const { profile } = useAuth()
+  const { can, user: currentUser } = useAuth()
   const [users, setUsers] = useState<StaffUsersResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [editingUser, setEditingUser] = useState<StaffUser | null>(null)
+  const [offboardingUser, setOffboardingUser] = useState<StaffUser | null>(null)
   const [filters, setFilters] = useState({
     role: '',
     active: '',
@@ -34,14 +50,14 @@ export function UserManagement() {
   })
   const [currentPage, setCurrentPage] = useState(1)
 
-  // Only allow RH users
-  if (profile?.role !== 'RH') {
+  // Only allow users whose role holds staff.view
+  if (!can('staff.view')) {
     return (
       <div className="text-center py-12">
         <UserX className="mx-auto h-12 w-12 text-gray-400" />
         <h3 className="mt-2 text-sm font-medium text-gray-900">Acceso denegado</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Solo usuarios con rol RH pueden gestionar usuarios.
+          Tu rol no tiene permiso para ver los usuarios.
         </p>
       </div>
     )
@@ -53,7 +69,7 @@ export function UserManagement() {
       const data = await listStaffUsers({
         page: currentPage,
         page_size: 20,
-        role: filters.role as 'RH' | 'MANAGER' | undefined,
+        role: (filters.role || undefined) as StaffRole | undefined,
         active: filters.active ? filters.active === 'true' : undefined
       })
       setUsers(data)
@@ -71,12 +87,15 @@ export function UserManagement() {
   const handleCreateUser = async (userData: {
     full_name: string
     email: string
-    role: 'RH' | 'MANAGER'
+    role: StaffRole
     active: boolean
   }) => {
     try {
-      await createStaffUser(userData)
+      const result = await createStaffUser(userData)
       setShowCreateModal(false)
+      setNotice(result.invite_sent
+        ? `Se envió la invitación a ${userData.email}.`
+        : 'Usuario creado. Envía la invitación cuando el usuario esté activo.')
       loadUsers()
     } catch (err: any) {
       setError(err.message)
@@ -93,6 +112,49 @@ export function UserManagement() {
     }
   }
 
+  const handleResendInvite = async (user: StaffUser) => {
+    try {
+      setError('')
+      await resendStaffInvite(user.id)
+      setNotice(`Se envió una nueva invitación a ${user.email}. El enlace anterior ya no es válido.`)
+      loadUsers()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleUnlockUser = async (user: StaffUser) => {
+    try {
+      setError('')
+      await unlockStaffUser(user.id)
+      setNotice(`${user.full_name} puede volver a iniciar sesión.`)
+      loadUsers()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleResetMfa = async (user: StaffUser) => {
+    if (!confirm(`¿Restablecer la verificación en dos pasos de ${user.full_name}? Se cerrarán sus sesiones y tendrá que registrar un autenticador nuevo.`)) {
+      return
+    }
+
+    try {
+      setError('')
+      await resetStaffMfa(user.id)
+      setNotice(`Se restableció la verificación en dos pasos de ${user.full_name}.`)
+      loadUsers()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleOffboarded = (message: string) => {
+    setOffboardingUser(null)
+    setNotice(message)
+    loadUsers()
+  }
+
   const handleDeleteUser = async (id: string) => {
     if (!confirm('¿Estás seguro de que quieres eliminar este usuario?')) {
       return
@@ -120,16 +182,18 @@ export function UserManagement() {
             Administra los usuarios internos del sistema (RH y Managers).
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-          <button
-            type="button"
-            onClick={() => setShowCreateModal(true)}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Crear Usuario
-          </button>
-        </div>
+        {can('staff.manage') && (
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setShowCreateModal(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 sm:w-auto"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Crear Usuario
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Filters */}
@@ -157,8 +221,9 @@ export function UserManagement() {
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
               <option value="">Todos</option>
-              <option value="RH">RH</option>
-              <option value="MANAGER">Manager</option>
+              {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+              ))}
             </select>
           </div>
 
@@ -183,6 +248,12 @@ export function UserManagement() {
         </div>
       )}
 
+      {notice && (
+        <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {notice}
+        </div>
+      )}
+
       {/* Users table */}
       <div className="mt-6 bg-white shadow overflow-hidden sm:rounded-md">
         {loading ? (
@@ -197,10 +268,10 @@ export function UserManagement() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center">
                     <div className="flex-shrink-0">
-                      {user.role === 'RH' ? (
-                        <Shield className="h-8 w-8 text-indigo-600" />
-                      ) : (
+                      {user.role === 'MANAGER' ? (
                         <UserIcon className="h-8 w-8 text-green-600" />
+                      ) : (
+                        <Shield className="h-8 w-8 text-indigo-600" />
                       )}
                     </div>
                     <div className="ml-4">
@@ -215,32 +286,92 @@ export function UserManagement() {
                       <p className="text-sm text-gray-500">{user.email}</p>
                       <div className="flex items-center mt-1">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          user.role === 'RH' 
-                            ? 'bg-indigo-100 text-indigo-800' 
-                            : 'bg-green-100 text-green-800'
+                          user.role === 'MANAGER'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-indigo-100 text-indigo-800'
                         }`}>
-                          {user.role}
+                          {STAFF_ROLE_LABELS[user.role] || user.role}
                         </span>
+                        {!user.password_changed_at ? (
+                          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Pendiente de activar
+                          </span>
+                        ) : user.must_change_password && (
+                          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Debe cambiar contraseña
+                          </span>
+                        )}
+                        {user.locked_until && (
+                          <span
+                            className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                            title={`Hasta ${new Date(user.locked_until).toLocaleString()}`}
+                          >
+                            Bloqueado
+                          </span>
+                        )}
+                        {user.mfa_enabled && (
+                          <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            2 pasos
+                          </span>
+                        )}
                         <span className="ml-2 text-xs text-gray-500">
                           Creado: {new Date(user.created_at).toLocaleDateString()}
                         </span>
                       </div>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => setEditingUser(user)}
-                      className="text-indigo-600 hover:text-indigo-900"
-                    >
-                      <Edit2 className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDeleteUser(user.id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
+                  {can('staff.manage') && (
+                    <div className="flex items-center space-x-2">
+                      {user.active && !user.password_changed_at && (
+                        <button
+                          onClick={() => handleResendInvite(user)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Reenviar invitación"
+                        >
+                          <Mail className="h-4 w-4" />
+                        </button>
+                      )}
+                      {user.locked_until && (
+                        <button
+                          onClick={() => handleUnlockUser(user)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Desbloquear"
+                        >
+                          <Unlock className="h-4 w-4" />
+                        </button>
+                      )}
+                      {user.mfa_enabled && user.id !== currentUser?.id && (
+                        <button
+                          onClick={() => handleResetMfa(user)}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Restablecer verificación en dos pasos"
+                        >
+                          <ShieldOff className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditingUser(user)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      {user.id !== currentUser?.id && (
+                        <button
+                          onClick={() => setOffboardingUser(user)}
+                          className="text-orange-600 hover:text-orange-900"
+                          title="Dar de baja y reasignar"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeleteUser(user.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
                 </div>
               </li>
             ))}
@@ -289,6 +420,15 @@ export function UserManagement() {
           onSubmit={(userData) => handleUpdateUser(editingUser.id, userData)}
         />
       )}
+
+      {/* Offboarding Wizard Modal */}
+      {offboardingUser && (
+        <OffboardingWizardModal
+          user={offboardingUser}
+          onClose={() => setOffboardingUser(null)}
+          onDone={handleOffboarded}
+        />
+      )}
     </div>
   )
 }
@@ -304,7 +444,7 @@ function CreateUserModal({
   const [formData, setFormData] = useState({
     full_name: '',
     email: '',
-    role: 'MANAGER' as 'RH' | 'MANAGER',
+    role: 'MANAGER' as StaffRole,
     active: true
   })
   const [loading, setLoading] = useState(false)
@@ -351,11 +491,12 @@ function CreateUserModal({
             <label className="block text-sm font-medium text-gray-700">Rol</label>
             <select
               value={formData.role}
-              onChange={(e) => setFormData({ ...formData, role: e.target.value as 'RH' | 'MANAGER' })}
+              onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
-              <option value="MANAGER">Manager</option>
-              <option value="RH">RH</option>
+              {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+              ))}
             </select>
           </div>
 
@@ -369,6 +510,10 @@ function CreateUserModal({
             <label className="ml-2 block text-sm text-gray-900">Usuario activo</label>
           </div>
 
+          <p className="text-xs text-gray-500">
+            El usuario recibirá por correo un enlace de un solo uso, válido durante 72 horas, para elegir su contraseña.
+          </p>
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -451,11 +596,12 @@ function EditUserModal({
             <label className="block text-sm font-medium text-gray-700">Rol</label>
             <select
               value={formData.role}
-              onChange={(e) => setFormData({ ...formData, role: e.target.value as 'RH' | 'MANAGER' })}
+              onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             >
-              <option value="MANAGER">Manager</option>
-              <option value="RH">RH</option>
+              {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+              ))}
             </select>
           </div>
 
@@ -489,4 +635,254 @@ function EditUserModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Offboarding Wizard Modal Component
+function OffboardingWizardModal({
+  user,
+  onClose,
+  onDone
+}: {
+  user: StaffUser
+  onClose: () => void
+  onDone: (message: string) => void
+}) {
+  const [summary, setSummary] = useState<StaffOffboardingSummary | null>(null)
+  const [step, setStep] = useState<1 | 2>(1)
+  const [targetId, setTargetId] = useState('')
+  const [deactivate, setDeactivate] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      try {
+        setLoading(true)
+        setSummary(await getStaffOffboardingSummary(user.id))
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSummary()
+  }, [user.id])
+
+  const target = summary?.targets.find(t => t.id === targetId)
+
+  const handleConfirm = async () => {
+    if (!targetId) return
+
+    try {
+      setSaving(true)
+      setError('')
+      const result = await offboardStaffUser(user.id, targetId, deactivate)
+      onDone(
+        `${user.full_name}: ${result.vacancies_reassigned} vacante(s) y ${result.interviews_reassigned} entrevista(s) ` +
+        `reasignadas a ${target?.full_name}` +
+        (result.slots_released > 0 ? `, ${result.slots_released} horario(s) libre(s) liberados` : '') +
+        (result.unresolved_interviews > 0
+          ? `, ${result.unresolved_interviews} entrevista(s) pasada(s) siguen sin resultado`
+          : '') +
+        (result.deactivated ? '. El usuario quedó inactivo.' : '.')
+      )
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Dar de baja a {user.full_name}</h3>
+            <p className="text-sm text-gray-500">
+              Paso {step} de 2: {step === 1 ? 'trabajo pendiente' : 'reasignación'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : summary && step === 1 ? (
+          <div className="space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                Vacantes ({summary.vacancies.length})
+              </h4>
+              {summary.vacancies.length === 0 ? (
+                <p className="text-sm text-gray-500">No participa en ningún panel de vacante.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {summary.vacancies.map(vacancy => (
+                    <li key={vacancy.id} className="px-3 py-2 flex justify-between text-sm">
+                      <span className="text-gray-900">
+                        {vacancy.position}
+                        {!vacancy.is_active && <span className="ml-2 text-xs text-gray-500">(inactiva)</span>}
+                      </span>
+                      <span className="text-gray-500">
+                        {PANEL_ROLE_LABELS[vacancy.panel_role]} • {vacancy.open_applications} en proceso
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                Entrevistas próximas ({summary.interviews.length})
+              </h4>
+              {summary.interviews.length === 0 ? (
+                <p className="text-sm text-gray-500">No tiene entrevistas próximas.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {summary.interviews.map(interview => (
+                    <li key={interview.appointment_id} className="px-3 py-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-900">
+                          {interview.candidate_name} <span className="text-gray-500">({interview.folio})</span>
+                        </span>
+                        <span className="text-gray-500">{interview.kind === 'RH' ? 'RH' : 'Manager'}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {interview.position} • {new Date(interview.scheduled_at).toLocaleString()}
+                        {interview.location && ` • ${interview.location}`}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {summary.unresolved_interviews.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">
+                  Entrevistas pasadas sin resultado ({summary.unresolved_interviews.length})
+                </h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  Ya se realizaron, por lo que no se reasignan: su resultado debe registrarse antes de la baja o desde el expediente.
+                </p>
+                <ul className="divide-y divide-yellow-200 border border-yellow-200 bg-yellow-50 rounded-md">
+                  {summary.unresolved_interviews.map(interview => (
+                    <li key={interview.appointment_id} className="px-3 py-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-900">
+                          {interview.candidate_name} <span className="text-gray-500">({interview.folio})</span>
+                        </span>
+                        <span className="text-gray-500">{interview.kind === 'RH' ? 'RH' : 'Manager'}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {interview.position} • {new Date(interview.scheduled_at).toLocaleString()}
+                        {interview.location && ` • ${interview.location}`}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {summary.free_slots > 0 && (
+              <p className="text-sm text-gray-600">
+                Tiene {summary.free_slots} horario(s) libre(s) publicados que se eliminarán.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancelar
+              </button>
+              <button
+                type="button"
+                onClick={() => setStep(2)}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700"
+              >
+                Siguiente
+              </button>
+            </div>
+          </div>
+        ) : summary && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reasignar a</label>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Selecciona un usuario</option>
+                {summary.targets.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.full_name} ({STAFF_ROLE_LABELS[t.role]})
+                  </option>
+                ))}
+              </select>
+              {summary.targets.length === 0 && (
+                <p className="mt-1 text-xs text-red-600">
+                  Ningún usuario activo tiene los permisos necesarios para recibir este trabajo.
+                </p>
+              )}
+            </div>
+
+            {summary.staff.active && (
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={deactivate}
+                  onChange={(e) => setDeactivate(e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">Desactivar al usuario al terminar</label>
+              </div>
+            )}
+
+            {target && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+                {summary.vacancies.length} vacante(s) y {summary.interviews.length} entrevista(s) pasarán
+                a {target.full_name}. Cada reasignación queda registrada en la bitácora.
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={() => setStep(1)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Anterior
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={!targetId || saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {saving ? 'Reasignando...' : deactivate && summary.staff.active ? 'Confirmar baja' : 'Reasignar'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
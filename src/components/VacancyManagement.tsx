@@ -8,14 +8,20 @@ import {
   getVacancy,
   setVacancyRequiredDocs,
   getActiveManagers,
+  getQuestionBanks,
+  listVacancyPanel,
+  setVacancyPanel,
   Vacancy,
   VacanciesResponse,
   CreateVacancyData,
   UpdateVacancyData,
   RequiredDoc,
   StaffUser,
+  QuestionBank,
+  PanelRole,
   DOC_TYPES,
-  DOC_TYPE_LABELS
+  DOC_TYPE_LABELS,
+  PANEL_ROLE_LABELS
 } from '../lib/supabase'
 import { 
   Plus, 
@@ -28,18 +34,25 @@ import {
   CheckCircle,
   XCircle,
   FileText,
+  UserCheck,
+  Trash2,
   User as UserIcon
 } from 'lucide-react'
 
+// Staff whose role can manage or sit on a vacancy panel
+type ManagerOption = Pick<StaffUser, 'id' | 'full_name' | 'email' | 'role'>
+
 export function VacancyManagement() {
-  const { profile } = useAuth()
+  const { can } = useAuth()
   const [vacancies, setVacancies] = useState<VacanciesResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [editingVacancy, setEditingVacancy] = useState<Vacancy | null>(null)
   const [viewingVacancy, setViewingVacancy] = useState<Vacancy | null>(null)
-  const [managers, setManagers] = useState<StaffUser[]>([])
+  const [panelVacancy, setPanelVacancy] = useState<Vacancy | null>(null)
+  const [managers, setManagers] = useState<ManagerOption[]>([])
+  const [rhBanks, setRhBanks] = useState<QuestionBank[]>([])
   const [filters, setFilters] = useState({
     type: '',
     is_active: '',
@@ -47,14 +60,8 @@ export function VacancyManagement() {
   })
   const [currentPage, setCurrentPage] = useState(1)
 
-  // Debug the profile and role
-  console.log('Profile in VacancyManagement:', profile)
-  console.log('Profile role:', profile?.role)
-  console.log('Role comparison:', profile?.role === 'RH')
-  
-  const isRH = profile?.role === 'RH'
-  
-  console.log('isRH result:', isRH)
+  // Back-office view of every vacancy; managers only see the ones assigned to them
+  const isRH = can('vacancy.view')
 
   const loadVacancies = async () => {
     try {
@@ -79,6 +86,15 @@ export function VacancyManagement() {
     }
   }
 
+  const loadRhBanks = async () => {
+    try {
+      const data = await getQuestionBanks()
+      setRhBanks(data.filter(bank => bank.stage === 'RH'))
+    } catch (err: any) {
+      console.error('Error loading question banks:', err.message)
+    }
+  }
+
   useEffect(() => {
     loadVacancies()
   }, [currentPage, filters, isRH])
@@ -86,6 +102,7 @@ export function VacancyManagement() {
   useEffect(() => {
     if (isRH) {
       loadManagers()
+      loadRhBanks()
     }
   }, [isRH])
 
@@ -137,7 +154,7 @@ export function VacancyManagement() {
             }
           </p>
         </div>
-        {isRH && (
+        {can('vacancy.create') && (
           <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
             <button
               type="button"
@@ -233,6 +250,9 @@ export function VacancyManagement() {
                       </div>
                       <p className="text-sm text-gray-500">
                         Manager: {vacancy.manager_name}
+                        {vacancy.panel_role && vacancy.panel_role !== 'PRIMARY' && (
+                          ` • Tu rol: ${PANEL_ROLE_LABELS[vacancy.panel_role]}`
+                        )}
                       </p>
                       <div className="flex items-center mt-1">
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -256,7 +276,7 @@ export function VacancyManagement() {
                     >
                       <Eye className="h-4 w-4" />
                     </button>
-                    {isRH && (
+                    {can('vacancy.update') && (
                       <button
                         onClick={() => setEditingVacancy(vacancy)}
                         className="text-indigo-600 hover:text-indigo-900"
@@ -265,6 +285,15 @@ export function VacancyManagement() {
                         <Edit2 className="h-4 w-4" />
                       </button>
                     )}
+                    {can('vacancy.update') && (
+                      <button
+                        onClick={() => setPanelVacancy(vacancy)}
+                        className="text-green-600 hover:text-green-900"
+                        title="Panel de entrevista"
+                      >
+                        <UserCheck className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </li>
@@ -302,6 +331,7 @@ export function VacancyManagement() {
       {showCreateModal && (
         <CreateVacancyModal
           managers={managers}
+          rhBanks={rhBanks}
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateVacancy}
         />
@@ -312,6 +342,7 @@ export function VacancyManagement() {
         <EditVacancyModal
           vacancy={editingVacancy}
           managers={managers}
+          rhBanks={rhBanks}
           onClose={() => setEditingVacancy(null)}
           onSubmit={(vacancyData) => handleUpdateVacancy(editingVacancy.id, vacancyData)}
         />
@@ -324,6 +355,186 @@ export function VacancyManagement() {
           onClose={() => setViewingVacancy(null)}
         />
       )}
+
+      {/* Vacancy Panel Modal */}
+      {panelVacancy && (
+        <VacancyPanelModal
+          vacancy={panelVacancy}
+          managers={managers}
+          onClose={() => setPanelVacancy(null)}
+          onSaved={() => {
+            setPanelVacancy(null)
+            loadVacancies()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+// Vacancy Panel Modal Component
+function VacancyPanelModal({
+  vacancy,
+  managers,
+  onClose,
+  onSaved
+}: {
+  vacancy: Vacancy
+  managers: ManagerOption[]
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [members, setMembers] = useState<{ staff_id: string; full_name: string; role: PanelRole }[]>([])
+  const [newMemberId, setNewMemberId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadPanel()
+  }, [vacancy.id])
+
+  const loadPanel = async () => {
+    try {
+      setLoading(true)
+      const data = await listVacancyPanel(vacancy.id)
+      setMembers(data.map(member => ({ staff_id: member.staff_id, full_name: member.full_name, role: member.role })))
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const available = managers.filter(manager => !members.some(member => member.staff_id === manager.id))
+
+  const handleAdd = () => {
+    const manager = managers.find(m => m.id === newMemberId)
+    if (!manager) return
+    setMembers([...members, { staff_id: manager.id, full_name: manager.full_name, role: 'CO_INTERVIEWER' }])
+    setNewMemberId('')
+  }
+
+  // Only one primary manager: choosing a new one turns the previous primary into a co-interviewer
+  const handleRoleChange = (staffId: string, role: PanelRole) => {
+    setMembers(members.map(member => {
+      if (member.staff_id === staffId) return { ...member, role }
+      if (role === 'PRIMARY' && member.role === 'PRIMARY') return { ...member, role: 'CO_INTERVIEWER' }
+      return member
+    }))
+  }
+
+  const handleSave = async () => {
+    if (members.filter(member => member.role === 'PRIMARY').length !== 1) {
+      setError('El panel debe tener exactamente un manager principal')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await setVacancyPanel(vacancy.id, members.map(({ staff_id, role }) => ({ staff_id, role })))
+      onSaved()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Panel de entrevista - {vacancy.position}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Cada entrevistador captura su propia calificación y RH recibe el promedio. Los observadores consultan la entrevista sin calificar.
+        </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Cargando panel...</p>
+        ) : (
+          <div className="space-y-4">
+            <ul className="divide-y divide-gray-200">
+              {members.map((member) => (
+                <li key={member.staff_id} className="py-2 flex items-center justify-between">
+                  <span className="text-sm text-gray-900">{member.full_name}</span>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member.staff_id, e.target.value as PanelRole)}
+                      className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {(Object.keys(PANEL_ROLE_LABELS) as PanelRole[]).map(role => (
+                        <option key={role} value={role}>{PANEL_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setMembers(members.filter(m => m.staff_id !== member.staff_id))}
+                      disabled={member.role === 'PRIMARY'}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-30"
+                      title={member.role === 'PRIMARY' ? 'Elige otro manager principal antes de quitarlo' : 'Quitar del panel'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-center space-x-2">
+              <select
+                value={newMemberId}
+                onChange={(e) => setNewMemberId(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Agregar manager al panel...</option>
+                {available.map(manager => (
+                  <option key={manager.id} value={manager.id}>{manager.full_name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAdd}
+                disabled={!newMemberId}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 border border-transparent rounded-md hover:bg-indigo-200 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Guardando...' : 'Guardar'}
+          </button>
+        </div>
+      </div>
     </div>
   )
 }
@@ -331,10 +542,12 @@ export function VacancyManagement() {
 // Create Vacancy Modal Component
 function CreateVacancyModal({ 
   managers,
+  rhBanks,
   onClose, 
   onSubmit 
 }: { 
-  managers: StaffUser[]
+  managers: ManagerOption[]
+  rhBanks: QuestionBank[]
   onClose: () => void
   onSubmit: (data: CreateVacancyData) => void 
 }) {
@@ -349,7 +562,8 @@ function CreateVacancyModal({
     habilidades: '',
     manager_id: '',
     is_active: true,
-    required_docs: []
+    required_docs: [],
+    rh_question_bank_id: ''
   })
   const [loading, setLoading] = useState(false)
 
@@ -430,6 +644,23 @@ function CreateVacancyModal({
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Banco de preguntas RH *</label>
+              <select
+                required
+                value={formData.rh_question_bank_id || ''}
+                onChange={(e) => setFormData({ ...formData, rh_question_bank_id: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Seleccionar banco...</option>
+                {rhBanks.map((bank) => (
+                  <option key={bank.id} value={bank.id}>
+                    {bank.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -575,11 +806,13 @@ function CreateVacancyModal({
 function EditVacancyModal({ 
   vacancy,
   managers,
+  rhBanks,
   onClose, 
   onSubmit 
 }: { 
   vacancy: Vacancy
-  managers: StaffUser[]
+  managers: ManagerOption[]
+  rhBanks: QuestionBank[]
   onClose: () => void
   onSubmit: (data: UpdateVacancyData) => void 
 }) {
@@ -593,7 +826,8 @@ function EditVacancyModal({
     conocimientos_tecnicos: vacancy.conocimientos_tecnicos || '',
     habilidades: vacancy.habilidades || '',
     manager_id: vacancy.manager_id,
-    is_active: vacancy.is_active
+    is_active: vacancy.is_active,
+    rh_question_bank_id: vacancy.rh_question_bank_id || null
   })
   const [loading, setLoading] = useState(false)
 
@@ -651,6 +885,25 @@ function EditVacancyModal({
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Banco de preguntas RH</label>
+              <select
+                value={formData.rh_question_bank_id || ''}
+                onChange={(e) => setFormData({ ...formData, rh_question_bank_id: e.target.value || null })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">Sin banco asignado</option>
+                {rhBanks.map((bank) => (
+                  <option key={bank.id} value={bank.id}>
+                    {bank.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Las entrevistas RH ya iniciadas conservan su banco
+              </p>
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -3,7 +3,7 @@ import { cn } from '../../lib/utils'
 
 interface BadgeProps {
   variant?: 'default' | 'secondary' | 'destructive' | 'outline'
-  status?: 'RevisionDeDocumentos' | 'EntrevistaConRH' | 'EntrevistaConManager' | 'Evaluando' | 'Aceptado' | 'Rechazado'
+  status?: 'RevisionDeDocumentos' | 'EntrevistaConRH' | 'EntrevistaConManager' | 'Evaluando' | 'Aceptado' | 'Rechazado' | 'BolsaDeTalento' | 'Retirado'
   type?: 'ADMINISTRATIVO' | 'OPERATIVO'
   className?: string
   children: React.ReactNode
@@ -15,7 +15,9 @@ const statusColors = {
   EntrevistaConManager: 'bg-[#8D418C]/10 text-[#8D418C] border-[#8D418C]/20',
   Evaluando: 'bg-[#F7AC2F]/10 text-[#F7AC2F] border-[#F7AC2F]/20',
   Aceptado: 'bg-[#5BAE37]/10 text-[#5BAE37] border-[#5BAE37]/20',
-  Rechazado: 'bg-[#E94C64]/10 text-[#E94C64] border-[#E94C64]/20'
+  Rechazado: 'bg-[#E94C64]/10 text-[#E94C64] border-[#E94C64]/20',
+  BolsaDeTalento: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  Retirado: 'bg-gray-100 text-gray-600 border-gray-200'
 }
 
 const typeColors = {
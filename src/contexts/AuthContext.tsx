@@ -1,13 +1,18 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User } from '@supabase/supabase-js'
-import { supabase, getUserProfile, UserProfile } from '../lib/supabase'
+import { supabase, getUserProfile, getMfaAssurance, UserProfile, StaffPermission } from '../lib/supabase'
+
+type AssuranceLevel = 'aal1' | 'aal2' | 'aal3' | null
 
 interface AuthContextType {
   user: User | null
   profile: UserProfile | null
+  // aal2 once the TOTP code was verified; nextLevel is aal2 when the user has a verified factor
+  mfa: { currentLevel: AssuranceLevel; nextLevel: AssuranceLevel } | null
   loading: boolean
   signOut: () => Promise<void>
   refreshProfile: () => Promise<void>
+  can: (permission: StaffPermission) => boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -23,6 +28,7 @@ export function useAuth() {
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [mfa, setMfa] = useState<AuthContextType['mfa']>(null)
   const [loading, setLoading] = useState(true)
 
   const refreshProfile = async () => {
@@ -33,6 +39,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     try {
       const userProfile = await getUserProfile()
+      const { currentLevel, nextLevel } = await getMfaAssurance()
+      setMfa({ currentLevel, nextLevel })
       setProfile(userProfile)
     } catch (error) {
       console.error('Error fetching profile:', error)
@@ -88,6 +96,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         if (event === 'SIGNED_OUT') {
           setProfile(null)
+          setMfa(null)
         }
       }
     )
@@ -102,12 +111,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user, profile])
 
+  // Permissions come from the role matrix returned with the profile
+  const can = (permission: StaffPermission) => profile?.permissions?.includes(permission) ?? false
+
   const value = {
     user,
     profile,
+    mfa,
     loading,
     signOut: handleSignOut,
-    refreshProfile
+    refreshProfile,
+    can
   }
 
   return (
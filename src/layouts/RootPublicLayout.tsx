@@ -17,6 +17,7 @@ export function RootPublicLayout() {
     const titles: Record<string, string> = {
       '/': 'Vacantes Disponibles - BinniBus',
       '/estatus': 'Consultar Estatus - BinniBus',
+      '/portal': 'Mis Postulaciones - BinniBus',
       '/login': 'Acceso Staff - BinniBus'
     }
     
@@ -103,6 +104,9 @@ export function RootPublicLayout() {
                 <Link to="/estatus" className="block text-sm text-gray-600 hover:text-primary-600 transition-colors duration-150">
                   Consultar Estatus
                 </Link>
+                <Link to="/portal" className="block text-sm text-gray-600 hover:text-primary-600 transition-colors duration-150">
+                  Mis Postulaciones
+                </Link>
                 <Link to="/login" className="block text-sm text-gray-600 hover:text-primary-600 transition-colors duration-150">
                   Acceso Staff
                 </Link>
@@ -93,14 +93,24 @@ export interface ApplicationStatus {
       required: string[]
       uploaded: string[]
       pending: string[]
+      rejected: RejectedDoc[]
     }
     despues: {
       required: string[]
       uploaded: string[]
       pending: string[]
+      rejected: RejectedDoc[]
       can_upload: boolean
     }
   }
+  can_withdraw: boolean
+  withdrawn_at?: string | null
+}
+
+export interface RejectedDoc {
+  doc: string
+  version: number
+  reason: string
 }
 
 export interface StatusQueryRequest {
@@ -247,6 +257,254 @@ export async function getApplicationStatus(request: StatusQueryRequest): Promise
   return response.json()
 }
 
+export async function withdrawApplication(request: StatusQueryRequest & { reason?: string }): Promise<{ ok: boolean; folio: string; status: string }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/application-status/withdraw`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to withdraw application')
+  }
+
+  return response.json()
+}
+
+export async function downloadInterviewIcs(request: StatusQueryRequest & { kind: 'RH' | 'MANAGER' }): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/interview-ics/event`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to download calendar event')
+  }
+
+  const blob = await response.blob()
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `entrevista-${request.kind.toLowerCase()}-${request.folio}.ics`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
+
+// Interview Self-Booking API
+export interface BookableSlot {
+  id: string
+  starts_at: string
+  ends_at: string
+  location: string
+}
+
+export interface SelfBookingOptions {
+  kind: 'RH' | 'MANAGER' | null
+  policy: {
+    min_notice_hours: number
+    change_deadline_hours: number
+    max_changes: number
+  }
+  booking: {
+    at: string
+    location: string
+    change_deadline: string
+    changes_left: number
+    can_change: boolean
+  } | null
+  slots: BookableSlot[]
+}
+
+export async function getSelfBookingOptions(request: StatusQueryRequest): Promise<SelfBookingOptions> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/interview-booking/options`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to get booking options')
+  }
+
+  return response.json()
+}
+
+export async function bookInterviewSlot(request: StatusQueryRequest & { slot_id: string }): Promise<{ ok: boolean; kind: 'RH' | 'MANAGER'; status: string; scheduled_at: string; location: string }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/interview-booking/book`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to book interview slot')
+  }
+
+  return response.json()
+}
+
+export async function cancelInterviewBooking(request: StatusQueryRequest): Promise<{ ok: boolean; kind: 'RH' | 'MANAGER' }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/interview-booking/cancel`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(request)
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to cancel interview')
+  }
+
+  return response.json()
+}
+
+// Candidate Portal API
+export interface CandidatePortalSession {
+  session_token: string
+  expires_at: string
+  candidate: {
+    full_name: string
+    email: string
+  }
+}
+
+export interface CandidatePortalApplication {
+  folio: string
+  vacancy: {
+    id: string
+    position: string
+    type: 'ADMINISTRATIVO' | 'OPERATIVO'
+  }
+  status: string
+  applied_at: string
+  schedules: ApplicationStatus['schedules']
+  docs: ApplicationStatus['docs']
+}
+
+export interface CandidatePortal {
+  candidate: {
+    full_name: string
+    email: string
+  }
+  applications: CandidatePortalApplication[]
+}
+
+const CANDIDATE_SESSION_KEY = 'candidate_portal_session'
+
+export function getStoredCandidateSession(): CandidatePortalSession | null {
+  const stored = localStorage.getItem(CANDIDATE_SESSION_KEY)
+  if (!stored) return null
+
+  const session: CandidatePortalSession = JSON.parse(stored)
+  if (new Date(session.expires_at) < new Date()) {
+    localStorage.removeItem(CANDIDATE_SESSION_KEY)
+    return null
+  }
+
+  return session
+}
+
+export function clearStoredCandidateSession() {
+  localStorage.removeItem(CANDIDATE_SESSION_KEY)
+}
+
+export async function requestCandidateLoginLink(email: string): Promise<{ ok: boolean }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/candidate-portal/request-link`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ email })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to request login link')
+  }
+
+  return response.json()
+}
+
+export async function verifyCandidateLoginToken(token: string): Promise<CandidatePortalSession> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/candidate-portal/verify`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ token })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to verify login link')
+  }
+
+  const session: CandidatePortalSession = await response.json()
+  localStorage.setItem(CANDIDATE_SESSION_KEY, JSON.stringify(session))
+  return session
+}
+
+export async function getCandidatePortal(sessionToken: string): Promise<CandidatePortal> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/candidate-portal/applications`, {
+    method: 'GET',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'x-candidate-session': sessionToken,
+      'Content-Type': 'application/json'
+    }
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    if (response.status === 401) {
+      clearStoredCandidateSession()
+    }
+    throw new Error(error.error || 'Failed to load candidate portal')
+  }
+
+  return response.json()
+}
+
+export async function logoutCandidatePortal(sessionToken: string): Promise<void> {
+  clearStoredCandidateSession()
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/candidate-portal/logout`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'x-candidate-session': sessionToken,
+      'Content-Type': 'application/json'
+    }
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to log out')
+  }
+}
+
 // After Documents Upload API
 export interface AfterDocsProgress {
   required: string[]
@@ -322,6 +580,36 @@ export async function startAfterDocUpload(
   return response.json()
 }
 
+export async function startDocReupload(
+  folio: string,
+  email: string,
+  doc: string,
+  file: File
+): Promise<StartUploadResponse> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/after-docs-upload/start-reupload`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      folio,
+      email,
+      doc,
+      filename: file.name,
+      mimetype: file.type,
+      size: file.size
+    })
+  })
+  
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to start upload')
+  }
+  
+  return response.json()
+}
+
 export async function uploadFileToStorage(uploadUrl: string, file: File): Promise<void> {
   const response = await fetch(uploadUrl, {
     method: 'PUT',
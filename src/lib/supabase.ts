@@ -10,22 +10,82 @@ if (!supabaseUrl || !supabaseAnonKey) {
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
 // Types
+export type StaffRole = 'RH_ADMIN' | 'RH' | 'RH_RECRUITER' | 'AUDITOR' | 'HIRING_DIRECTOR' | 'MANAGER'
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  RH_ADMIN: 'RH Administrador',
+  RH: 'RH',
+  RH_RECRUITER: 'Reclutador (solo lectura)',
+  AUDITOR: 'Auditor',
+  HIRING_DIRECTOR: 'Director de Contratación',
+  MANAGER: 'Manager'
+}
+
+// Capabilities of the permission matrix (staff_permissions)
+export type StaffPermission =
+  | 'dashboard.view'
+  | 'vacancy.view'
+  | 'vacancy.create'
+  | 'vacancy.update'
+  | 'application.view'
+  | 'application.manage'
+  | 'interview.schedule'
+  | 'interview.conduct'
+  | 'evaluation.view'
+  | 'evaluation.manage'
+  | 'evaluation.finalize'
+  | 'talent_pool.view'
+  | 'question_bank.view'
+  | 'question_bank.manage'
+  | 'scorecard.manage'
+  | 'notification_template.manage'
+  | 'staff.view'
+  | 'staff.manage'
+  | 'permission.manage'
+  | 'audit.view'
+  | 'export.csv'
+  | 'manager.interview'
+
 export interface StaffUser {
   id: string
   full_name: string
   email: string
-  role: 'RH' | 'MANAGER'
+  role: StaffRole
   active: boolean
   created_at: string
   created_by?: string
+  must_change_password: boolean
+  password_changed_at: string | null
+  locked_until: string | null
+  mfa_enabled: boolean
 }
 
 export interface UserProfile {
   id: string
   full_name: string
   email: string
-  role: 'RH' | 'MANAGER'
+  role: StaffRole
   active: boolean
+  must_change_password: boolean
+  mfa_required: boolean
+  permissions: StaffPermission[]
+}
+
+export interface RolePermissionMatrix {
+  roles: StaffRole[]
+  permissions: Array<{
+    code: StaffPermission
+    label: string
+    description: string | null
+    roles: StaffRole[]
+  }>
+}
+
+export interface StaffPasswordToken {
+  purpose: 'INVITE' | 'RESET'
+  full_name: string
+  email: string
+  expires_at: string
 }
 
 export interface StaffUsersResponse {
@@ -36,13 +96,106 @@ export interface StaffUsersResponse {
   total_pages: number
 }
 
+export interface StaffSession {
+  id: string
+  created_at: string
+  last_active_at: string
+  user_agent: string | null
+  ip: string | null
+  aal: 'aal1' | 'aal2' | 'aal3' | null
+  current: boolean
+}
+
 // Auth functions
+// The password step goes through staff-login, which adds the origin of the attempt and explains lockouts
 export async function signIn(email: string, password: string) {
-  const { data, error } = await supabase.auth.signInWithPassword({
-    email,
-    password
+  const response = await fetch(`${supabaseUrl}/functions/v1/staff-login`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ email, password })
   })
-  
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to sign in')
+  }
+
+  const { session } = await response.json()
+  const { data, error } = await supabase.auth.setSession(session)
+
+  if (error) throw error
+  return data
+}
+
+// Second factor (TOTP)
+export async function getMfaAssurance() {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+
+  if (error) throw error
+  return data
+}
+
+export async function listTotpFactors() {
+  const { data, error } = await supabase.auth.mfa.listFactors()
+
+  if (error) throw error
+  return data.totp
+}
+
+export async function enrollTotpFactor() {
+  // Drop enrollments that were started but never confirmed
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors()
+  if (listError) throw listError
+
+  for (const factor of factors.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id })
+    if (error) throw error
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: `Autenticador ${new Date().toISOString().slice(0, 10)}`
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Wrong codes are counted by the MFA verification hook; too many lock the account like wrong passwords
+export async function verifyTotpFactor(factorId: string, code: string) {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+
+  if (error) {
+    if (error.code === 'mfa_verification_rejected') {
+      await supabase.auth.signOut()
+      throw new Error(error.message)
+    }
+    throw new Error('El código no es válido')
+  }
+}
+
+export async function unenrollTotpFactor(factorId: string) {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId })
+
+  if (error) throw error
+}
+
+export async function listMySessions(): Promise<StaffSession[]> {
+  const { data, error } = await supabase.rpc('list_my_sessions')
+
+  if (error) throw error
+  return data
+}
+
+// Without a session id every session except the current one is signed out
+export async function revokeMySession(sessionId?: string): Promise<{ ok: boolean; revoked: number }> {
+  const { data, error } = await supabase.rpc('revoke_my_session', {
+    p_session_id: sessionId ?? null
+  })
+
   if (error) throw error
   return data
 }
@@ -68,7 +221,7 @@ export async function getUserProfile(): Promise<UserProfile> {
 export async function listStaffUsers(params: {
   page?: number
   page_size?: number
-  role?: 'RH' | 'MANAGER'
+  role?: StaffRole
   active?: boolean
 } = {}): Promise<StaffUsersResponse> {
   const { data, error } = await supabase.rpc('list_staff_users', {
@@ -85,10 +238,9 @@ export async function listStaffUsers(params: {
 export async function createStaffUser(userData: {
   full_name: string
   email: string
-  role: 'RH' | 'MANAGER'
+  role: StaffRole
   active?: boolean
-  password?: string
-}) {
+}): Promise<{ id: string; message: string; invite_sent: boolean }> {
   const response = await fetch(`${supabaseUrl}/functions/v1/auth-staff/users`, {
     method: 'POST',
     headers: {
@@ -106,10 +258,100 @@ export async function createStaffUser(userData: {
   return response.json()
 }
 
+export async function resendStaffInvite(userId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/auth-staff/invite`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ user_id: userId })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to send invitation')
+  }
+
+  return response.json()
+}
+
+export async function changeStaffPassword(currentPassword: string, newPassword: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/auth-staff/change-password`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ current_password: currentPassword, new_password: newPassword })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to change password')
+  }
+
+  return response.json()
+}
+
+// Invitation and password reset links (no session yet)
+export async function checkStaffPasswordToken(token: string): Promise<StaffPasswordToken> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/staff-password/token?token=${encodeURIComponent(token)}`, {
+    method: 'GET',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    }
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to check link')
+  }
+
+  return response.json()
+}
+
+export async function setStaffPassword(token: string, password: string): Promise<{ ok: boolean; purpose: 'INVITE' | 'RESET' }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/staff-password/set`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ token, password })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to set password')
+  }
+
+  return response.json()
+}
+
+export async function requestStaffPasswordReset(email: string): Promise<{ ok: boolean }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/staff-password/forgot`, {
+    method: 'POST',
+    headers: {
+      'apikey': supabaseAnonKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ email })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to request password reset')
+  }
+
+  return response.json()
+}
+
 export async function updateStaffUser(id: string, userData: {
   full_name?: string
   email?: string
-  role?: 'RH' | 'MANAGER'
+  role?: StaffRole
   active?: boolean
 }) {
   const response = await fetch(`${supabaseUrl}/functions/v1/auth-staff/users/${id}`, {
@@ -145,6 +387,81 @@ export async function deleteStaffUser(id: string) {
   return response.json()
 }
 
+export async function unlockStaffUser(id: string) {
+  const { data, error } = await supabase.rpc('unlock_staff_user', {
+    p_id: id
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function resetStaffMfa(id: string) {
+  const { data, error } = await supabase.rpc('reset_staff_mfa', {
+    p_id: id
+  })
+
+  if (error) throw error
+  return data
+}
+
+export interface StaffOffboardingSummary {
+  staff: Pick<StaffUser, 'id' | 'full_name' | 'email' | 'role' | 'active'>
+  vacancies: Array<{
+    id: string
+    position: string
+    type: Vacancy['type']
+    is_active: boolean
+    panel_role: PanelRole
+    open_applications: number
+  }>
+  interviews: Array<{
+    appointment_id: string
+    application_id: string
+    folio: string
+    candidate_name: string
+    position: string
+    kind: 'RH' | 'MANAGER'
+    scheduled_at: string
+    location: string | null
+  }>
+  // Past appointments without an outcome; they are not handed over
+  unresolved_interviews: StaffOffboardingSummary['interviews']
+  free_slots: number
+  // Active staff holding every permission the handover needs
+  targets: Array<Pick<StaffUser, 'id' | 'full_name' | 'email' | 'role'>>
+}
+
+export interface OffboardingResult {
+  ok: boolean
+  vacancies_reassigned: number
+  interviews_reassigned: number
+  slots_moved: number
+  slots_released: number
+  unresolved_interviews: number
+  deactivated: boolean
+}
+
+export async function getStaffOffboardingSummary(staffId: string) {
+  const { data, error } = await supabase.rpc('get_staff_offboarding_summary', {
+    p_staff_id: staffId
+  })
+
+  if (error) throw error
+  return data as StaffOffboardingSummary
+}
+
+export async function offboardStaffUser(staffId: string, targetId: string, deactivate = true) {
+  const { data, error } = await supabase.rpc('offboard_staff_user', {
+    p_staff_id: staffId,
+    p_target_id: targetId,
+    p_deactivate: deactivate
+  })
+
+  if (error) throw error
+  return data as OffboardingResult
+}
+
 // Vacancy types and interfaces
 export interface Vacancy {
   id: string
@@ -162,6 +479,27 @@ export interface Vacancy {
   created_by: string
   created_at: string
   required_docs?: RequiredDoc[]
+  rh_question_bank_id?: string | null
+  rh_question_bank_name?: string | null
+  panel_role?: PanelRole | null
+}
+
+// Role of a staff member on the interview panel of a vacancy; the PRIMARY member is vacancies.manager_id
+export type PanelRole = 'PRIMARY' | 'CO_INTERVIEWER' | 'OBSERVER'
+
+export const PANEL_ROLE_LABELS: Record<PanelRole, string> = {
+  PRIMARY: 'Manager principal',
+  CO_INTERVIEWER: 'Co-entrevistador',
+  OBSERVER: 'Observador'
+}
+
+export interface VacancyPanelMember {
+  staff_id: string
+  full_name: string
+  email: string
+  active: boolean
+  role: PanelRole
+  assigned_at: string
 }
 
 export interface RequiredDoc {
@@ -189,6 +527,7 @@ export interface CreateVacancyData {
   manager_id: string
   is_active?: boolean
   required_docs?: RequiredDoc[]
+  rh_question_bank_id?: string | null
 }
 
 export interface UpdateVacancyData {
@@ -202,6 +541,7 @@ export interface UpdateVacancyData {
   habilidades?: string
   manager_id?: string
   is_active?: boolean
+  rh_question_bank_id?: string | null
 }
 
 // Document types enum
@@ -365,14 +705,50 @@ export async function setVacancyRequiredDocs(vacancyId: string, items: RequiredD
   return response.json()
 }
 
-export async function getActiveManagers(): Promise<StaffUser[]> {
-  const { data, error } = await supabase
-    .from('staff_users')
-    .select('*')
-    .eq('role', 'MANAGER')
-    .eq('active', true)
-    .order('full_name')
-  
+export async function listVacancyPanel(vacancyId: string): Promise<VacancyPanelMember[]> {
+  const { data, error } = await supabase.rpc('list_vacancy_panel', {
+    p_vacancy_id: vacancyId
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function setVacancyPanel(
+  vacancyId: string,
+  members: { staff_id: string; role: PanelRole }[]
+): Promise<VacancyPanelMember[]> {
+  const { data, error } = await supabase.rpc('set_vacancy_panel', {
+    p_vacancy_id: vacancyId,
+    p_members: members
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function listRolePermissions(): Promise<RolePermissionMatrix> {
+  const { data, error } = await supabase.rpc('list_role_permissions')
+
+  if (error) throw error
+  return data
+}
+
+export async function setRolePermission(role: StaffRole, permission: StaffPermission, granted: boolean) {
+  const { data, error } = await supabase.rpc('set_role_permission', {
+    p_role: role,
+    p_permission: permission,
+    p_granted: granted
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Active staff whose role holds manager.interview in the permission matrix
+export async function getActiveManagers(): Promise<Array<Pick<StaffUser, 'id' | 'full_name' | 'email' | 'role'>>> {
+  const { data, error } = await supabase.rpc('list_active_managers')
+
   if (error) throw error
   return data || []
 }
@@ -382,11 +758,25 @@ export interface QuestionBank {
   id: string
   name: string
   kind: string
+  stage: QuestionBankStage
   is_active: boolean
   created_at: string
   question_bank_versions: QuestionBankVersion[]
 }
 
+// Interview stage a question bank is used in
+export type QuestionBankStage = 'RH' | 'MANAGER'
+
+// Role family managed by RH; each kind can have one bank per stage
+export interface QuestionBankKind {
+  code: string
+  label: string
+  description?: string | null
+  is_active: boolean
+  created_at: string
+  vacancies_count: number
+}
+
 export interface QuestionBankVersion {
   id: string
   version: number
@@ -400,6 +790,8 @@ export interface Question {
   ord: number
   text: string
   is_required: boolean
+  max_points?: number | null
+  rubric?: string | null
 }
 
 export interface RHInterview {
@@ -407,6 +799,8 @@ export interface RHInterview {
   bank_version_id: string
   started_at: string
   finished_at?: string
+  score_total?: number | null
+  score_max?: number | null
   answers: InterviewAnswer[]
   extra_questions: ExtraQuestion[]
   question_bank_versions: QuestionBankVersion & {
@@ -420,6 +814,7 @@ export interface RHInterview {
 export interface InterviewAnswer {
   question_id: string
   answer_text: string
+  points?: number | null
 }
 
 export interface ExtraQuestion {
@@ -463,10 +858,12 @@ export async function importQuestionBankCSV(
   kind: string,
   csvFile: File,
   version?: number,
-  activate: boolean = true
+  activate: boolean = true,
+  stage: QuestionBankStage = 'RH'
 ) {
   const formData = new FormData()
   formData.append('kind', kind)
+  formData.append('stage', stage)
   formData.append('csv_file', csvFile)
   if (version) formData.append('version', version.toString())
   formData.append('activate', activate.toString())
@@ -504,50 +901,185 @@ export async function getQuestionBanks(): Promise<QuestionBank[]> {
   return response.json()
 }
 
-export async function scheduleRHInterview(
-  applicationId: string,
-  at: string,
-  location: string
-) {
-  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/schedule`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      application_id: applicationId,
-      at,
-      location
-    })
+export async function listQuestionBankKinds(): Promise<QuestionBankKind[]> {
+  const { data, error } = await supabase.rpc('list_question_bank_kinds')
+
+  if (error) throw error
+  return data
+}
+
+export async function saveQuestionBankKind(kind: {
+  code: string
+  label: string
+  description?: string
+  is_active?: boolean
+}) {
+  const { data, error } = await supabase.rpc('save_question_bank_kind', {
+    p_code: kind.code,
+    p_label: kind.label,
+    p_description: kind.description || null,
+    p_is_active: kind.is_active ?? true
   })
-  
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error || 'Failed to schedule RH interview')
-  }
-  
-  return response.json()
+
+  if (error) throw error
+  return data
 }
 
-export async function startRHInterview(applicationId: string) {
-  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/start`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      application_id: applicationId
-    })
+// Stored version of a bank as listed by the editor; interviews stay pinned to the version they started with
+export interface QuestionBankVersionDetail {
+  id: string
+  version: number
+  is_active: boolean
+  created_at: string
+  created_by_name?: string | null
+  questions: Question[]
+  interviews_count: number
+  in_progress_count: number
+}
+
+export interface QuestionDraft {
+  text: string
+  is_required: boolean
+  max_points?: number | null
+  rubric?: string | null
+}
+
+export async function listQuestionBankVersions(bankId: string): Promise<QuestionBankVersionDetail[]> {
+  const { data, error } = await supabase.rpc('list_question_bank_versions', {
+    p_bank_id: bankId
   })
-  
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error || 'Failed to start RH interview')
-  }
-  
-  return response.json()
+
+  if (error) throw error
+  return data
+}
+
+export async function saveQuestionBankVersion(
+  bankId: string,
+  questions: QuestionDraft[],
+  activate = true
+) {
+  const { data, error } = await supabase.rpc('save_question_bank_version', {
+    p_bank_id: bankId,
+    p_questions: questions,
+    p_activate: activate
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function activateQuestionBankVersion(bankVersionId: string) {
+  const { data, error } = await supabase.rpc('activate_question_bank_version', {
+    p_bank_version_id: bankVersionId
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Portable snapshot produced by the export, used to promote banks between environments
+export interface QuestionBankExport {
+  format: 'question_bank'
+  format_version: number
+  kind: string
+  kind_label?: string
+  stage: QuestionBankStage
+  name: string
+  version: number
+  exported_at: string
+  questions: Omit<Question, 'id'>[]
+}
+
+export async function exportQuestionBankVersion(
+  bankVersionId: string,
+  format: 'csv' | 'json',
+  filename: string
+): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/export/${bankVersionId}?format=${format}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+    }
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to export question bank')
+  }
+
+  const blob = await response.blob()
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${filename}.${format}`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
+
+export async function importQuestionBankJSON(bank: QuestionBankExport, activate: boolean = true) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/import-json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ bank, activate })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to import question bank')
+  }
+
+  return response.json()
+}
+
+export async function scheduleRHInterview(
+  applicationId: string,
+  at: string | null,
+  location: string | null,
+  slotId?: string
+): Promise<ScheduleResult> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/schedule`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      application_id: applicationId,
+      at,
+      location,
+      slot_id: slotId
+    })
+  })
+  
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to schedule RH interview')
+  }
+  
+  return response.json()
+}
+
+export async function startRHInterview(applicationId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/rh-interviews/start`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      application_id: applicationId
+    })
+  })
+  
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to start RH interview')
+  }
+  
+  return response.json()
 }
 
 export async function saveRHInterviewDraft(
@@ -646,6 +1178,205 @@ export async function getApplicationDetails(applicationId: string): Promise<Appl
   return data
 }
 
+// Document viewer types and interfaces
+export interface ApplicationDocument {
+  id: string
+  doc: string
+  phase: 'NECESARIO' | 'DESPUES'
+  version: number
+  filename: string
+  uploaded_at: string
+  review_status: DocumentReviewStatus
+  review_reason?: string
+  reviewed_by_name?: string
+  reviewed_at?: string
+}
+
+export type DocumentReviewStatus = 'PENDIENTE' | 'APROBADO' | 'RECHAZADO'
+
+export const DOC_REVIEW_STATUS_LABELS: Record<DocumentReviewStatus, string> = {
+  'PENDIENTE': 'Pendiente',
+  'APROBADO': 'Aprobado',
+  'RECHAZADO': 'Rechazado'
+}
+
+export interface DocumentSignedUrl {
+  id: string
+  doc: string
+  version: number
+  filename: string
+  mimetype: string
+  url: string
+  expires_in: number
+}
+
+// Document viewer functions
+export async function listApplicationDocuments(applicationId: string): Promise<ApplicationDocument[]> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/application-documents/application/${applicationId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    }
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to list application documents')
+  }
+
+  return response.json()
+}
+
+export async function getDocumentSignedUrl(documentId: string): Promise<DocumentSignedUrl> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/application-documents/signed-url`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      document_id: documentId
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to get document URL')
+  }
+
+  return response.json()
+}
+
+export async function reviewApplicationDocument(
+  documentId: string,
+  status: 'APROBADO' | 'RECHAZADO',
+  reason?: string
+) {
+  const { data, error } = await supabase.rpc('review_application_doc', {
+    p_document_id: documentId,
+    p_status: status,
+    p_reason: reason || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Notification template types and interfaces
+export type NotificationEvent =
+  | 'APPLICATION_RECEIVED'
+  | 'RH_INTERVIEW_SCHEDULED'
+  | 'MANAGER_INTERVIEW_SCHEDULED'
+  | 'APPLICATION_ACCEPTED'
+  | 'APPLICATION_REJECTED'
+  | 'AFTER_DOCS_REMINDER'
+  | 'APPLICATION_WITHDRAWN'
+  | 'APPLICATION_POOLED'
+  | 'SELF_BOOKING_INVITE'
+  | 'INTERVIEW_CANCELLED_BY_CANDIDATE'
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  'APPLICATION_RECEIVED': 'Postulación recibida',
+  'RH_INTERVIEW_SCHEDULED': 'Entrevista con RH agendada',
+  'MANAGER_INTERVIEW_SCHEDULED': 'Entrevista con Manager agendada',
+  'APPLICATION_ACCEPTED': 'Candidato aceptado',
+  'APPLICATION_REJECTED': 'Candidato rechazado',
+  'AFTER_DOCS_REMINDER': 'Recordatorio de documentos posteriores',
+  'APPLICATION_WITHDRAWN': 'Retiro del candidato (aviso a RH)',
+  'APPLICATION_POOLED': 'Candidato en bolsa de talento',
+  'SELF_BOOKING_INVITE': 'Invitación a elegir horario de entrevista',
+  'INTERVIEW_CANCELLED_BY_CANDIDATE': 'Entrevista cancelada por el candidato (aviso a RH)'
+}
+
+export const NOTIFICATION_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'candidate_name', label: 'Nombre del candidato' },
+  { key: 'folio', label: 'Folio' },
+  { key: 'position', label: 'Puesto' },
+  { key: 'scheduled_rh_at', label: 'Fecha de entrevista RH' },
+  { key: 'scheduled_manager_at', label: 'Fecha de entrevista Manager' },
+  { key: 'location', label: 'Lugar de la entrevista' },
+  { key: 'pending_docs', label: 'Documentos pendientes' }
+]
+
+export interface NotificationTemplate {
+  id: string
+  event: NotificationEvent
+  version: number
+  subject: string
+  body: string
+  is_active: boolean
+  created_by_name?: string
+  created_at: string
+}
+
+export interface NotificationTemplateGroup {
+  event: NotificationEvent
+  versions: NotificationTemplate[]
+}
+
+export interface NotificationPreview {
+  subject: string
+  body: string
+  sample: Record<string, string>
+}
+
+// Notification template functions
+export async function listNotificationTemplates(): Promise<NotificationTemplateGroup[]> {
+  const { data, error } = await supabase.rpc('list_notification_templates')
+
+  if (error) throw error
+  return data
+}
+
+export async function saveNotificationTemplate(
+  event: NotificationEvent,
+  subject: string,
+  body: string,
+  activate = true
+) {
+  const { data, error } = await supabase.rpc('save_notification_template', {
+    p_event: event,
+    p_subject: subject,
+    p_body: body,
+    p_activate: activate
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function activateNotificationTemplate(templateId: string) {
+  const { data, error } = await supabase.rpc('activate_notification_template', {
+    p_template_id: templateId
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function previewNotificationTemplate(
+  event: NotificationEvent,
+  subject: string,
+  body: string
+): Promise<NotificationPreview> {
+  const { data, error } = await supabase.rpc('preview_notification_template', {
+    p_event: event,
+    p_subject: subject,
+    p_body: body
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function sendAfterDocsReminders(): Promise<number> {
+  const { data, error } = await supabase.rpc('enqueue_after_docs_reminders')
+
+  if (error) throw error
+  return data
+}
+
 // Manager Interview types and interfaces
 export interface ManagerInterviewContext {
   application: {
@@ -684,9 +1415,67 @@ export interface ManagerInterviewContext {
   interview_manager: {
     score?: number
     notes?: string
+    ratings?: ScorecardRating[]
     created_at?: string
     exists: boolean
   }
+  has_panel_result: boolean
+  panel_role: PanelRole | null
+  panel: PanelMemberStatus[]
+  guided_interview: GuidedManagerInterview | null
+  has_question_bank: boolean
+  scorecard: ScorecardCompetency[]
+}
+
+// Whether a panel member has submitted their score; other members' scores are not shown to interviewers
+export interface PanelMemberStatus {
+  staff_id: string
+  full_name: string
+  role: PanelRole
+  submitted: boolean
+}
+
+// Individual score behind the aggregated manager result; panel_role is null when RH captured it
+export interface PanelScore {
+  staff_id: string
+  full_name: string
+  panel_role: PanelRole | null
+  score: number
+  notes: string
+  ratings: ScorecardRating[]
+  submitted_at: string
+}
+
+// Manager interview guided by a MANAGER-stage question bank
+export interface GuidedManagerInterview {
+  bank_version_id: string
+  started_at: string
+  updated_at?: string | null
+  questions: Question[]
+  answers: InterviewAnswer[]
+  extra_questions: ExtraQuestion[]
+}
+
+// Weighted competency rated 1-5 in the manager interview; anchors describe each rating
+export interface ScorecardCompetency {
+  id: string
+  vacancy_type?: 'ADMINISTRATIVO' | 'OPERATIVO'
+  name: string
+  description: string
+  weight: number
+  anchors: string[]
+  ord: number
+  is_active?: boolean
+}
+
+// Saved rating; name and weight are kept as they were when the scorecard was saved.
+// In the aggregated panel result the rating is the interviewers' average (one decimal).
+export interface ScorecardRating {
+  competency_id: string
+  name: string
+  weight: number
+  rating: number
+  comment: string
 }
 
 export interface ManagerApplication {
@@ -711,6 +1500,8 @@ export interface ManagerApplication {
   has_rh_interview: boolean
   rh_interview_finished: boolean
   has_manager_interview: boolean
+  panel_role: PanelRole | null
+  my_score_submitted: boolean
 }
 
 export interface ManagerApplicationsResponse {
@@ -733,13 +1524,15 @@ export async function getManagerInterviewContext(applicationId: string): Promise
 
 export async function setManagerSchedule(
   applicationId: string,
-  at: string,
-  location: string
-) {
+  at: string | null,
+  location: string | null,
+  slotId?: string
+): Promise<ScheduleResult> {
   const { data, error } = await supabase.rpc('set_manager_schedule', {
     p_application_id: applicationId,
     p_at: at,
-    p_location: location
+    p_location: location,
+    p_slot_id: slotId || null
   })
   
   if (error) throw error
@@ -761,6 +1554,77 @@ export async function saveManagerResult(
   return data
 }
 
+export async function startManagerInterview(applicationId: string): Promise<GuidedManagerInterview> {
+  const { data, error } = await supabase.rpc('start_manager_interview', {
+    p_application_id: applicationId
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function saveManagerInterviewDraft(
+  applicationId: string,
+  answers: InterviewAnswer[],
+  extraQuestions: ExtraQuestion[]
+) {
+  const { data, error } = await supabase.rpc('save_manager_interview_draft', {
+    p_application_id: applicationId,
+    p_answers: answers,
+    p_extra_questions: extraQuestions
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function saveManagerScorecard(
+  applicationId: string,
+  ratings: { competency_id: string; rating: number; comment: string }[],
+  notes?: string
+): Promise<{ ok: boolean; score: number }> {
+  const { data, error } = await supabase.rpc('save_manager_scorecard', {
+    p_application_id: applicationId,
+    p_ratings: ratings,
+    p_notes: notes || ''
+  })
+  
+  if (error) throw error
+  return data
+}
+
+export async function listScorecardCompetencies(): Promise<ScorecardCompetency[]> {
+  const { data, error } = await supabase.rpc('list_scorecard_competencies')
+
+  if (error) throw error
+  return data
+}
+
+export async function saveScorecardCompetency(competency: {
+  id?: string
+  vacancy_type: 'ADMINISTRATIVO' | 'OPERATIVO'
+  name: string
+  description: string
+  weight: number
+  anchors: string[]
+  ord: number
+  is_active: boolean
+}): Promise<{ id: string }> {
+  const { data, error } = await supabase.rpc('save_scorecard_competency', {
+    p_id: competency.id || null,
+    p_vacancy_type: competency.vacancy_type,
+    p_name: competency.name,
+    p_description: competency.description,
+    p_weight: competency.weight,
+    p_anchors: competency.anchors,
+    p_ord: competency.ord,
+    p_is_active: competency.is_active
+  })
+
+  if (error) throw error
+  return data
+}
+
 export async function listManagerApplications(params: {
   page?: number
   page_size?: number
@@ -776,6 +1640,185 @@ export async function listManagerApplications(params: {
   return data
 }
 
+// Interview calendar types and functions
+export interface AvailabilityWindow {
+  id?: string
+  weekday: number // 0 = Sunday
+  start_time: string // HH:MM
+  end_time: string // HH:MM
+  slot_minutes: number
+  location: string
+  timezone?: string
+}
+
+export interface InterviewSlot {
+  id: string
+  staff_id: string
+  staff_name: string
+  kind: 'RH' | 'MANAGER'
+  starts_at: string
+  ends_at: string
+  location: string
+  origin: 'PUBLISHED' | 'ADHOC'
+  booked: boolean
+  application?: {
+    id: string
+    folio: string
+    status: string
+    candidate_name: string
+    vacancy_position: string
+  }
+}
+
+export interface InterviewCalendar {
+  staff: Array<{
+    id: string
+    full_name: string
+    role: StaffRole
+  }>
+  slots: InterviewSlot[]
+}
+
+export interface ScheduleResult {
+  ok: boolean
+  scheduled_at: string
+  location: string
+  slot_id: string
+  outside_availability: boolean
+}
+
+export async function listInterviewCalendar(
+  from: string,
+  to: string,
+  staffId?: string
+): Promise<InterviewCalendar> {
+  const { data, error } = await supabase.rpc('list_interview_calendar', {
+    p_from: from,
+    p_to: to,
+    p_staff_id: staffId || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function getStaffAvailability(staffId?: string): Promise<AvailabilityWindow[]> {
+  const { data, error } = await supabase.rpc('get_staff_availability', {
+    p_staff_id: staffId || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function setStaffAvailability(staffId: string, windows: AvailabilityWindow[]) {
+  const { data, error } = await supabase.rpc('set_staff_availability', {
+    p_staff_id: staffId,
+    p_windows: windows
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function publishInterviewSlots(
+  staffId: string,
+  from: string,
+  to: string
+): Promise<{ ok: boolean; created: number; skipped: number }> {
+  const { data, error } = await supabase.rpc('publish_interview_slots', {
+    p_staff_id: staffId,
+    p_from: from,
+    p_to: to
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteInterviewSlot(slotId: string) {
+  const { data, error } = await supabase.rpc('delete_interview_slot', {
+    p_slot_id: slotId
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function openSelfBooking(
+  applicationId: string,
+  kind: 'RH' | 'MANAGER'
+): Promise<{ ok: boolean; kind: 'RH' | 'MANAGER'; available_slots: number }> {
+  const { data, error } = await supabase.rpc('open_self_booking', {
+    p_application_id: applicationId,
+    p_kind: kind
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Interview appointment history
+export type InterviewOutcome =
+  | 'ATTENDED'
+  | 'NO_SHOW'
+  | 'RESCHEDULED_BY_CANDIDATE'
+  | 'RESCHEDULED_BY_STAFF'
+  | 'CANCELLED_BY_CANDIDATE'
+
+export const INTERVIEW_OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  'ATTENDED': 'Asistió',
+  'NO_SHOW': 'No se presentó',
+  'RESCHEDULED_BY_CANDIDATE': 'Reagendada por el candidato',
+  'RESCHEDULED_BY_STAFF': 'Reagendada por el personal',
+  'CANCELLED_BY_CANDIDATE': 'Cancelada por el candidato'
+}
+
+export interface InterviewAppointment {
+  id: string
+  kind: 'RH' | 'MANAGER'
+  scheduled_at: string
+  location: string | null
+  interviewer_name: string | null
+  booked_by: 'STAFF' | 'CANDIDATE'
+  outcome: InterviewOutcome | null
+  outcome_at: string | null
+  outcome_by_name: string | null
+  created_at: string
+}
+
+export async function getInterviewAppointments(applicationId: string): Promise<InterviewAppointment[]> {
+  const { data, error } = await supabase.rpc('get_interview_appointments', {
+    p_application_id: applicationId
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function setInterviewOutcome(
+  applicationId: string,
+  kind: 'RH' | 'MANAGER',
+  outcome: 'ATTENDED' | 'NO_SHOW'
+) {
+  const { data, error } = await supabase.rpc('set_interview_outcome', {
+    p_application_id: applicationId,
+    p_kind: kind,
+    p_outcome: outcome
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Replaces the caller's ICS feed token; the previous feed URL stops working
+export async function rotateIcsFeed(): Promise<{ url: string }> {
+  const { data, error } = await supabase.rpc('rotate_staff_ics_feed')
+
+  if (error) throw error
+  return { url: `${supabaseUrl}/functions/v1/interview-ics/feed?token=${data.token}` }
+}
+
 // Evaluation types and interfaces
 export interface EvaluationCriterion {
   id: number
@@ -815,26 +1858,62 @@ export interface EvaluationContext {
       type: string
     }
     created_at: string
+    pool_note?: string | null
+    rerouted_from_folio?: string | null
   }
   interview_rh: {
     bank_version_id: string
     started_at: string
     finished_at: string
+    score_total?: number | null
+    score_max?: number | null
     answers: InterviewAnswer[]
     extra_questions: ExtraQuestion[]
   }
   interview_manager: {
     score: number
     notes: string
+    ratings?: ScorecardRating[]
     created_at: string
     exists: boolean
   }
+  panel_scores: PanelScore[]
+  guided_interview: GuidedManagerInterview | null
   evaluation: EvaluationSummary
   criteria: EvaluationCriterion[]
   scores: EvaluationScore[]
+  carried_evaluations: CarriedEvaluation[]
   can_start: boolean
 }
 
+// Evaluation history copied from a talent pool application when re-routed
+export interface CarriedEvaluation {
+  source_folio: string
+  source_position: string
+  source_status: string
+  interview_rh: {
+    finished_at: string | null
+    answers: { question: string; answer_text: string }[]
+    extra_questions: ExtraQuestion[]
+  } | null
+  interview_manager: {
+    score: number
+    notes: string | null
+    created_at: string
+  } | null
+  scores: { criterion: string; grp: string; score: number }[]
+  summary: {
+    total: number
+    factors_for: string
+    factors_against: string
+    conclusion: string
+    references_laborales: string | null
+    created_at: string
+  } | null
+  evaluation_total: number | null
+  carried_at: string
+}
+
 // Evaluation functions
 export async function getEvaluationContext(applicationId: string): Promise<EvaluationContext> {
   const response = await fetch(`${supabaseUrl}/functions/v1/evaluation-management/context?application_id=${applicationId}`, {
@@ -1013,16 +2092,162 @@ export async function finalizeAccept(applicationId: string) {
   return data
 }
 
-export async function finalizeReject(applicationId: string, reason?: string) {
+export async function finalizeReject(applicationId: string, reasonCode: string, note?: string) {
   const { data, error } = await supabase.rpc('finalize_reject', {
     p_application_id: applicationId,
-    p_reason: reason
+    p_reason_code: reasonCode,
+    p_note: note || null
   })
   
   if (error) throw error
   return data
 }
 
+// Early rejection from any non-final stage (RH or the vacancy manager)
+export async function rejectApplication(applicationId: string, reasonCode: string, note?: string) {
+  const { data, error } = await supabase.rpc('reject_application', {
+    p_application_id: applicationId,
+    p_reason_code: reasonCode,
+    p_note: note || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Keep an evaluated candidate in the talent pool instead of accepting or rejecting
+export async function finalizeTalentPool(applicationId: string, note?: string) {
+  const { data, error } = await supabase.rpc('finalize_talent_pool', {
+    p_application_id: applicationId,
+    p_note: note || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Rejection reason types and interfaces
+export interface RejectionReason {
+  code: string
+  label: string
+  description?: string
+  ord: number
+  is_active: boolean
+  created_at: string
+}
+
+// Rejection reason functions
+export async function listRejectionReasons(includeInactive = false): Promise<RejectionReason[]> {
+  let query = supabase
+    .from('rejection_reasons')
+    .select('*')
+    .order('ord')
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) throw error
+  return data || []
+}
+
+export async function saveRejectionReason(reason: {
+  code: string
+  label: string
+  description?: string
+  ord?: number
+  is_active: boolean
+}): Promise<RejectionReason> {
+  const { data, error } = await supabase.rpc('save_rejection_reason', {
+    p_code: reason.code,
+    p_label: reason.label,
+    p_description: reason.description || null,
+    p_ord: reason.ord ?? null,
+    p_is_active: reason.is_active
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Talent pool types and interfaces
+export interface TalentPoolCandidate {
+  application_id: string
+  folio: string
+  candidate_full_name: string
+  candidate_email: string
+  candidate_phone: string
+  vacancy_id: string
+  vacancy_position: string
+  vacancy_type: 'ADMINISTRATIVO' | 'OPERATIVO'
+  evaluation_total: number | null
+  manager_score: number | null
+  pooled_at: string | null
+  pool_note: string | null
+  rerouted_to: {
+    application_id: string
+    folio: string
+    vacancy_position: string
+    status: string
+  }[]
+}
+
+export interface TalentPoolResponse {
+  items: TalentPoolCandidate[]
+  total: number
+  page: number
+  page_size: number
+  total_pages: number
+}
+
+export interface RerouteResult {
+  ok: boolean
+  application_id: string
+  folio: string
+  vacancy_id: string
+  vacancy_position: string
+  documents_copied: number
+}
+
+// Talent pool functions
+export async function searchTalentPool(params: {
+  page?: number
+  page_size?: number
+  vacancy_type?: 'ADMINISTRATIVO' | 'OPERATIVO'
+  min_total?: number
+  max_total?: number
+  q?: string
+} = {}): Promise<TalentPoolResponse> {
+  const { data, error } = await supabase.rpc('search_talent_pool', {
+    p_page: params.page || 1,
+    p_page_size: params.page_size || 20,
+    p_vacancy_type: params.vacancy_type || null,
+    p_min_total: params.min_total ?? null,
+    p_max_total: params.max_total ?? null,
+    p_q: params.q || null
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function rerouteApplication(
+  applicationId: string,
+  targetVacancyId: string,
+  note?: string
+): Promise<RerouteResult> {
+  const { data, error } = await supabase.rpc('reroute_application', {
+    p_application_id: applicationId,
+    p_target_vacancy_id: targetVacancyId,
+    p_note: note || null
+  })
+
+  if (error) throw error
+  return data
+}
+
 // Dashboard types and interfaces
 export interface DashboardSummary {
   active_vacancies: number
@@ -1036,6 +2261,22 @@ export interface DashboardSummary {
     rejected: number
     total: number
   }>
+  rejections_by_reason: Array<{
+    vacancy_id: string
+    position: string
+    reason_code: string | null
+    reason_label: string
+    rejected: number
+  }>
+  no_show_rate_by_vacancy: Array<{
+    vacancy_id: string
+    position: string
+    attended: number
+    no_show: number
+    changed_by_candidate: number
+    changed_by_staff: number
+    no_show_rate: number
+  }>
 }
 
 export interface AdminApplication {
@@ -1050,6 +2291,8 @@ export interface AdminApplication {
   vacancy_type: string
   manager_full_name: string
   applied_at: string
+  rh_score_total?: number | null
+  rh_score_max?: number | null
 }
 
 export interface AdminApplicationsResponse {
@@ -1099,6 +2342,7 @@ export async function listApplicationsAdmin(params: {
   q?: string
   from?: string
   to?: string
+  min_rh_score?: number
 } = {}): Promise<AdminApplicationsResponse> {
   const searchParams = new URLSearchParams()
   if (params.page) searchParams.set('page', params.page.toString())
@@ -1108,6 +2352,7 @@ export async function listApplicationsAdmin(params: {
   if (params.q) searchParams.set('q', params.q)
   if (params.from) searchParams.set('from', params.from)
   if (params.to) searchParams.set('to', params.to)
+  if (params.min_rh_score !== undefined) searchParams.set('min_rh_score', params.min_rh_score.toString())
 
   const response = await fetch(`${supabaseUrl}/functions/v1/rh-dashboard/applications?${searchParams}`, {
     method: 'GET',
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, useLocation } from 'react-router-dom'
 import { ArrowLeft, Upload, CheckCircle, Clock, FileText, AlertCircle } from 'lucide-react'
 import { Card, CardContent, CardHeader } from '../components/ui/Card'
 import { Button } from '../components/ui/Button'
@@ -17,12 +17,20 @@ import {
 export function AfterDocsPage() {
   const { folio } = useParams<{ folio: string }>()
   const navigate = useNavigate()
-  const [email, setEmail] = useState('')
+  const location = useLocation()
+  // Candidates coming from the portal already proved their email
+  const [email, setEmail] = useState<string>(location.state?.email || '')
   const [progress, setProgress] = useState<AfterDocsProgress | null>(null)
   const [loading, setLoading] = useState(false)
   const [uploading, setUploading] = useState<string | null>(null)
   const [error, setError] = useState('')
 
+  useEffect(() => {
+    if (folio && email) {
+      loadProgress()
+    }
+  }, [])
+
   if (!folio) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, Mail, Calendar, FileText, Upload, LogOut, Briefcase, CheckCircle } from 'lucide-react'
+import { Card, CardContent, CardHeader } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { Input } from '../components/ui/Input'
+import { Badge } from '../components/ui/Badge'
+import {
+  requestCandidateLoginLink,
+  verifyCandidateLoginToken,
+  getCandidatePortal,
+  logoutCandidatePortal,
+  getStoredCandidateSession,
+  CandidatePortal,
+  CandidatePortalApplication
+} from '../lib/publicApi'
+
+export function CandidatePortalPage() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [linkSent, setLinkSent] = useState(false)
+  const [portal, setPortal] = useState<CandidatePortal | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [requesting, setRequesting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadPortal()
+  }, [])
+
+  const loadPortal = async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      // Exchange the magic link for a session and drop it from the URL
+      const token = searchParams.get('token')
+      if (token) {
+        setSearchParams({}, { replace: true })
+        await verifyCandidateLoginToken(token)
+      }
+
+      const session = getStoredCandidateSession()
+      if (!session) {
+        setPortal(null)
+        return
+      }
+
+      const result = await getCandidatePortal(session.session_token)
+      setPortal(result)
+    } catch (err: any) {
+      setError(err.message)
+      setPortal(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRequesting(true)
+    setError('')
+
+    try {
+      await requestCandidateLoginLink(email)
+      setLinkSent(true)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  const handleLogout = async () => {
+    const session = getStoredCandidateSession()
+    setPortal(null)
+    setLinkSent(false)
+    if (!session) return
+
+    try {
+      await logoutCandidatePortal(session.session_token)
+    } catch (err) {
+      console.error('Error logging out:', err)
+    }
+  }
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'RevisionDeDocumentos':
+        return 'Revisión de Documentos'
+      case 'EntrevistaConRH':
+        return 'Entrevista con RH'
+      case 'EntrevistaConManager':
+        return 'Entrevista con Manager'
+      case 'Evaluando':
+        return 'Evaluación Final'
+      case 'Aceptado':
+        return 'Aceptado'
+      case 'Rechazado':
+        return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
+      default:
+        return status
+    }
+  }
+
+  const hasPendingAfterDocs = (application: CandidatePortalApplication) => {
+    return application.docs.despues.can_upload && application.docs.despues.pending.length > 0
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50"
+    >
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Button variant="ghost" onClick={() => navigate('/')} className="mb-8">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Volver al inicio
+        </Button>
+
+        {!portal ? (
+          <Card className="max-w-lg mx-auto">
+            <CardHeader>
+              <div className="flex items-center space-x-3 mb-4">
+                <div className="w-12 h-12 bg-primary-100 rounded-xl flex items-center justify-center">
+                  <Mail className="w-6 h-6 text-primary-600" />
+                </div>
+                <div>
+                  <h1 className="text-h3 font-bold text-gray-900">Mis Postulaciones</h1>
+                  <p className="text-body-sm text-gray-600">
+                    Te enviaremos un enlace de acceso a tu correo electrónico
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {linkSent ? (
+                <div className="p-6 bg-success-50 rounded-xl border border-success-200 text-center">
+                  <CheckCircle className="w-10 h-10 text-success-600 mx-auto mb-3" />
+                  <p className="font-medium text-gray-900 mb-1">Revisa tu correo</p>
+                  <p className="text-sm text-gray-600">
+                    Si {email} tiene postulaciones registradas recibirás un enlace de acceso.
+                    El enlace es válido durante 15 minutos.
+                  </p>
+                  <Button variant="link" onClick={() => setLinkSent(false)} className="mt-4">
+                    Usar otro correo
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleRequestLink} className="space-y-6">
+                  <Input
+                    label="Correo Electrónico"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="tu@email.com"
+                    helper="Usa el mismo email de tus aplicaciones"
+                  />
+
+                  {error && (
+                    <div className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl">
+                      {error}
+                    </div>
+                  )}
+
+                  <Button type="submit" loading={requesting} size="lg" className="w-full">
+                    <Mail className="w-4 h-4 mr-2" />
+                    Enviar enlace de acceso
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-h3 font-bold text-gray-900">Mis Postulaciones</h1>
+                <p className="text-body-sm text-gray-600">
+                  {portal.candidate.full_name} · {portal.candidate.email}
+                </p>
+              </div>
+              <Button variant="secondary" onClick={handleLogout}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Cerrar sesión
+              </Button>
+            </div>
+
+            {portal.applications.length === 0 ? (
+              <Card>
+                <CardContent>
+                  <p className="text-center text-gray-600 py-8">No tienes postulaciones registradas</p>
+                </CardContent>
+              </Card>
+            ) : (
+              portal.applications.map((application) => (
+                <Card key={application.folio}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-12 h-12 bg-primary-100 rounded-xl flex items-center justify-center">
+                          <Briefcase className="w-6 h-6 text-primary-600" />
+                        </div>
+                        <div>
+                          <h2 className="text-h4 font-semibold text-gray-900">{application.vacancy.position}</h2>
+                          <p className="text-sm text-gray-600">
+                            {application.folio} · Aplicó el {new Date(application.applied_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <Badge status={application.status as any}>
+                        {getStatusLabel(application.status)}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {(application.schedules.rh || application.schedules.manager) && (
+                      <div className="mb-4 space-y-2">
+                        {application.schedules.rh && (
+                          <div className="flex items-center text-sm text-gray-700">
+                            <Calendar className="w-4 h-4 mr-2 text-primary-600" />
+                            Entrevista RH: {new Date(application.schedules.rh.at).toLocaleString()} · {application.schedules.rh.location}
+                          </div>
+                        )}
+                        {application.schedules.manager && (
+                          <div className="flex items-center text-sm text-gray-700">
+                            <Calendar className="w-4 h-4 mr-2 text-primary-600" />
+                            Entrevista Manager: {new Date(application.schedules.manager.at).toLocaleString()} · {application.schedules.manager.location}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-3">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => navigate(`/estatus/${application.folio}`, { state: { email: portal.candidate.email } })}
+                      >
+                        <FileText className="w-4 h-4 mr-2" />
+                        Ver estatus
+                      </Button>
+                      {hasPendingAfterDocs(application) && (
+                        <Button
+                          size="sm"
+                          onClick={() => navigate(`/after-docs/${application.folio}`, { state: { email: portal.candidate.email } })}
+                        >
+                          <Upload className="w-4 h-4 mr-2" />
+                          Subir documentos
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  )
+}
@@ -1,27 +1,63 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
-import { useParams, useNavigate } from 'react-router-dom'
-import { ArrowLeft, Search, FileText, Calendar, Clock, CheckCircle, XCircle, Upload, User } from 'lucide-react'
+import { useParams, useNavigate, useLocation } from 'react-router-dom'
+import { ArrowLeft, Search, FileText, Calendar, CalendarPlus, Clock, Download, CheckCircle, XCircle, Upload, User, AlertCircle, LogOut } from 'lucide-react'
 import { Card, CardContent, CardHeader } from '../components/ui/Card'
 import { Button } from '../components/ui/Button'
 import { Input } from '../components/ui/Input'
 import { Badge } from '../components/ui/Badge'
 import { Timeline } from '../components/ui/Timeline'
-import { getApplicationStatus, ApplicationStatus } from '../lib/publicApi'
+import {
+  getApplicationStatus,
+  startDocReupload,
+  uploadFileToStorage,
+  finalizeAfterDocUpload,
+  withdrawApplication,
+  getSelfBookingOptions,
+  bookInterviewSlot,
+  cancelInterviewBooking,
+  downloadInterviewIcs,
+  ApplicationStatus,
+  SelfBookingOptions,
+  DOC_TYPE_LABELS
+} from '../lib/publicApi'
 
 export function StatusPage() {
   const { folio: urlFolio } = useParams<{ folio?: string }>()
   const navigate = useNavigate()
+  const location = useLocation()
+  // Candidates coming from the portal already proved their email
   const [formData, setFormData] = useState({
     folio: urlFolio || '',
-    email: ''
+    email: (location.state?.email as string) || ''
   })
   const [status, setStatus] = useState<ApplicationStatus | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [reuploading, setReuploading] = useState<string | null>(null)
+  const [reuploadError, setReuploadError] = useState('')
+  const [showWithdraw, setShowWithdraw] = useState(false)
+  const [withdrawReason, setWithdrawReason] = useState('')
+  const [withdrawing, setWithdrawing] = useState(false)
+  const [withdrawError, setWithdrawError] = useState('')
+  const [booking, setBooking] = useState<SelfBookingOptions | null>(null)
+  const [bookingAction, setBookingAction] = useState<string | null>(null)
+  const [bookingError, setBookingError] = useState('')
+  const [showCancelBooking, setShowCancelBooking] = useState(false)
+  const [icsError, setIcsError] = useState('')
+
+  useEffect(() => {
+    if (urlFolio && formData.email) {
+      loadStatus()
+    }
+  }, [])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    loadStatus()
+  }
+
+  const loadStatus = async () => {
     setLoading(true)
     setError('')
 
@@ -31,22 +67,155 @@ export function StatusPage() {
         email: formData.email
       })
       setStatus(result)
+      loadBookingOptions(result.folio)
       if (!urlFolio) {
         navigate(`/estatus/${formData.folio}`, { replace: true })
       }
     } catch (err: any) {
       setError(err.message)
       setStatus(null)
+      setBooking(null)
     } finally {
       setLoading(false)
     }
   }
 
+  const loadBookingOptions = async (folio: string) => {
+    try {
+      const result = await getSelfBookingOptions({ folio, email: formData.email })
+      setBooking(result)
+    } catch (err) {
+      console.error('Error loading booking options:', err)
+      setBooking(null)
+    }
+  }
+
+  const handleBookSlot = async (slotId: string) => {
+    if (!status) return
+
+    try {
+      setBookingAction(slotId)
+      setBookingError('')
+      await bookInterviewSlot({
+        folio: status.folio,
+        email: formData.email,
+        slot_id: slotId
+      })
+
+      // Refresh status and remaining slots
+      const result = await getApplicationStatus({
+        folio: status.folio,
+        email: formData.email
+      })
+      setStatus(result)
+      await loadBookingOptions(status.folio)
+    } catch (err: any) {
+      setBookingError(err.message)
+      await loadBookingOptions(status.folio)
+    } finally {
+      setBookingAction(null)
+    }
+  }
+
+  const handleCancelBooking = async () => {
+    if (!status) return
+
+    try {
+      setBookingAction('cancel')
+      setBookingError('')
+      await cancelInterviewBooking({
+        folio: status.folio,
+        email: formData.email
+      })
+
+      // Refresh status and remaining slots
+      const result = await getApplicationStatus({
+        folio: status.folio,
+        email: formData.email
+      })
+      setStatus(result)
+      await loadBookingOptions(status.folio)
+      setShowCancelBooking(false)
+    } catch (err: any) {
+      setBookingError(err.message)
+    } finally {
+      setBookingAction(null)
+    }
+  }
+
+  const handleReupload = async (doc: string, file: File) => {
+    if (!status) return
+
+    try {
+      setReuploading(doc)
+      setReuploadError('')
+
+      // Same handshake as after-docs: start, upload to storage, finalize
+      const uploadData = await startDocReupload(status.folio, formData.email, doc, file)
+      await uploadFileToStorage(uploadData.upload_url, file)
+      await finalizeAfterDocUpload(uploadData.upload_id)
+
+      // Refresh status
+      const result = await getApplicationStatus({
+        folio: status.folio,
+        email: formData.email
+      })
+      setStatus(result)
+    } catch (err: any) {
+      setReuploadError(err.message)
+    } finally {
+      setReuploading(null)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    if (!status) return
+
+    try {
+      setWithdrawing(true)
+      setWithdrawError('')
+      await withdrawApplication({
+        folio: status.folio,
+        email: formData.email,
+        reason: withdrawReason.trim() || undefined
+      })
+
+      // Refresh status
+      const result = await getApplicationStatus({
+        folio: status.folio,
+        email: formData.email
+      })
+      setStatus(result)
+      setBooking(null)
+      setShowWithdraw(false)
+      setWithdrawReason('')
+    } catch (err: any) {
+      setWithdrawError(err.message)
+    } finally {
+      setWithdrawing(false)
+    }
+  }
+
+  const handleDownloadIcs = async (kind: 'RH' | 'MANAGER') => {
+    if (!status) return
+
+    try {
+      setIcsError('')
+      await downloadInterviewIcs({
+        folio: status.folio,
+        email: formData.email,
+        kind
+      })
+    } catch (err: any) {
+      setIcsError(err.message)
+    }
+  }
+
   const getTimelineSteps = (status: ApplicationStatus) => {
     return status.timeline.map(step => ({
       id: step.step,
       title: getStepTitle(step.step),
-      description: step.value || undefined,
+      description: step.value ? getStepTitle(step.value) : undefined,
       status: step.current ? 'current' : step.reached ? 'completed' : 'pending'
     }))
   }
@@ -65,6 +234,10 @@ export function StatusPage() {
         return 'Aceptado'
       case 'Rechazado':
         return 'Rechazado'
+      case 'BolsaDeTalento':
+        return 'Bolsa de Talento'
+      case 'Retirado':
+        return 'Retirado'
       default:
         return step
     }
@@ -193,6 +366,10 @@ export function StatusPage() {
                           <p className="text-xs text-gray-500">
                             📍 {status.schedules.rh.location}
                           </p>
+                          <Button variant="link" size="sm" onClick={() => handleDownloadIcs('RH')} className="mt-1 px-0">
+                            <Download className="w-3 h-3 mr-1" />
+                            Agregar a mi calendario (.ics)
+                          </Button>
                         </div>
                       )}
                       {status.schedules.manager && (
@@ -206,9 +383,115 @@ export function StatusPage() {
                           <p className="text-xs text-gray-500">
                             📍 {status.schedules.manager.location}
                           </p>
+                          <Button variant="link" size="sm" onClick={() => handleDownloadIcs('MANAGER')} className="mt-1 px-0">
+                            <Download className="w-3 h-3 mr-1" />
+                            Agregar a mi calendario (.ics)
+                          </Button>
                         </div>
                       )}
                     </div>
+                    {icsError && (
+                      <div className="mt-3 bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl text-sm">
+                        {icsError}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Interview self-booking */}
+                {booking?.kind && (
+                  <div className="mt-8 p-6 bg-white rounded-xl border border-primary-200">
+                    <h3 className="font-semibold text-gray-900 mb-2 flex items-center">
+                      <CalendarPlus className="w-5 h-5 mr-2 text-primary-600" />
+                      Agenda tu entrevista {booking.kind === 'RH' ? 'con RH' : 'con Manager'}
+                    </h3>
+
+                    {booking.booking ? (
+                      <div className="mb-4 p-4 bg-primary-50 rounded-lg border border-primary-200">
+                        <p className="text-sm font-medium text-gray-900">
+                          Tu entrevista: {new Date(booking.booking.at).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">📍 {booking.booking.location}</p>
+                        {booking.booking.can_change ? (
+                          <div className="mt-3 flex items-center justify-between">
+                            <p className="text-xs text-gray-600">
+                              Puedes cambiar o cancelar hasta el {new Date(booking.booking.change_deadline).toLocaleString()}
+                              {' '}({booking.booking.changes_left} {booking.booking.changes_left === 1 ? 'cambio disponible' : 'cambios disponibles'}).
+                            </p>
+                            {!showCancelBooking ? (
+                              <Button variant="ghost" size="sm" onClick={() => setShowCancelBooking(true)}>
+                                Cancelar entrevista
+                              </Button>
+                            ) : (
+                              <div className="flex space-x-2">
+                                <Button variant="ghost" size="sm" onClick={() => setShowCancelBooking(false)}>
+                                  Conservar
+                                </Button>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  loading={bookingAction === 'cancel'}
+                                  disabled={bookingAction !== null}
+                                  onClick={handleCancelBooking}
+                                >
+                                  Confirmar cancelación
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <p className="mt-3 text-xs text-gray-600">
+                            Ya no es posible cambiar este horario desde aquí. Si necesitas ayuda, contacta a Recursos Humanos.
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600 mb-4">
+                        Elige uno de los horarios disponibles. Los horarios se reservan con al menos{' '}
+                        {booking.policy.min_notice_hours} horas de anticipación.
+                      </p>
+                    )}
+
+                    {(!booking.booking || booking.booking.can_change) && (
+                      booking.slots.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          Por ahora no hay horarios disponibles. Vuelve a consultar más tarde.
+                        </p>
+                      ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                          {booking.slots.map((slot) => (
+                            <div key={slot.id} className="p-3 rounded-lg border border-gray-200 flex items-center justify-between">
+                              <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {new Date(slot.starts_at).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                                </p>
+                                <p className="text-sm text-gray-600">
+                                  {new Date(slot.starts_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                  {' - '}
+                                  {new Date(slot.ends_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </p>
+                                <p className="text-xs text-gray-500">📍 {slot.location}</p>
+                              </div>
+                              <Button
+                                size="sm"
+                                variant={booking.booking ? 'secondary' : 'primary'}
+                                loading={bookingAction === slot.id}
+                                disabled={bookingAction !== null}
+                                onClick={() => handleBookSlot(slot.id)}
+                              >
+                                {booking.booking ? 'Cambiar' : 'Reservar'}
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    )}
+
+                    {bookingError && (
+                      <div className="mt-4 bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl text-sm">
+                        {bookingError}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -224,8 +507,52 @@ export function StatusPage() {
                     {status.docs.necesarios.required.length > 0 && (
                       <div className="p-6 bg-gray-50 rounded-xl">
                         <h4 className="font-medium text-gray-800 mb-4">Documentos Necesarios</h4>
+                        {status.docs.necesarios.rejected.length > 0 && (
+                          <div className="mb-4 space-y-3">
+                            {status.docs.necesarios.rejected.map((rejected) => (
+                              <div key={rejected.doc} className="p-4 bg-error-50 rounded-lg border border-error-200">
+                                <div className="flex items-start">
+                                  <AlertCircle className="w-4 h-4 text-error-500 mr-3 mt-0.5" />
+                                  <div className="flex-1">
+                                    <p className="text-sm text-error-700 font-medium">
+                                      {DOC_TYPE_LABELS[rejected.doc] || rejected.doc} rechazado
+                                    </p>
+                                    <p className="text-xs text-error-600 mt-1">
+                                      Motivo: {rejected.reason}
+                                    </p>
+                                    <input
+                                      type="file"
+                                      accept=".pdf,.jpg,.jpeg,.png"
+                                      onChange={(e) => {
+                                        const file = e.target.files?.[0]
+                                        if (file) {
+                                          handleReupload(rejected.doc, file)
+                                        }
+                                      }}
+                                      disabled={reuploading === rejected.doc}
+                                      className="mt-3 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-error-100 file:text-error-700 hover:file:bg-error-200 disabled:opacity-50"
+                                    />
+                                    {reuploading === rejected.doc && (
+                                      <p className="text-xs text-gray-600 mt-2 flex items-center">
+                                        <Upload className="w-3 h-3 mr-1" />
+                                        Subiendo nueva versión...
+                                      </p>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            ))}
+                            {reuploadError && (
+                              <div className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl text-sm">
+                                {reuploadError}
+                              </div>
+                            )}
+                          </div>
+                        )}
                         <div className="space-y-2">
-                          {status.docs.necesarios.uploaded.map((doc, index) => (
+                          {status.docs.necesarios.uploaded
+                            .filter(doc => !status.docs.necesarios.rejected.some(rejected => rejected.doc === doc))
+                            .map((doc, index) => (
                             <div key={index} className="flex items-center p-3 bg-success-50 rounded-lg border border-success-200">
                               <CheckCircle className="w-4 h-4 text-success-500 mr-3" />
                               <span className="text-sm text-success-700 font-medium">{doc}</span>
@@ -275,6 +602,72 @@ export function StatusPage() {
                     )}
                   </div>
                 )}
+
+                {/* Talent pool */}
+                {status.status === 'BolsaDeTalento' && (
+                  <div className="mt-8 p-6 bg-indigo-50 rounded-xl border border-indigo-200">
+                    <p className="text-sm text-indigo-800">
+                      La vacante ya fue cubierta, pero tu perfil forma parte de nuestra bolsa de talento.
+                      Si se abre una vacante acorde a tu perfil te contactaremos con un nuevo folio.
+                    </p>
+                  </div>
+                )}
+
+                {/* Withdrawal */}
+                {status.status === 'Retirado' && (
+                  <div className="mt-8 p-6 bg-gray-50 rounded-xl border border-gray-200">
+                    <p className="text-sm text-gray-700 flex items-center">
+                      <LogOut className="w-4 h-4 mr-2 text-gray-500" />
+                      Retiraste esta postulación
+                      {status.withdrawn_at && ` el ${new Date(status.withdrawn_at).toLocaleDateString()}`}.
+                    </p>
+                  </div>
+                )}
+
+                {status.can_withdraw && (
+                  <div className="mt-8 p-6 bg-gray-50 rounded-xl border border-gray-200">
+                    {!showWithdraw ? (
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-600">
+                          ¿Ya no te interesa continuar con el proceso?
+                        </p>
+                        <Button variant="ghost" size="sm" onClick={() => setShowWithdraw(true)}>
+                          <LogOut className="w-4 h-4 mr-2" />
+                          Retirar postulación
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <div>
+                          <h4 className="font-medium text-gray-900">Retirar postulación</h4>
+                          <p className="text-sm text-gray-600 mt-1">
+                            Esta acción es definitiva. Si después deseas participar, tendrás que postularte de nuevo.
+                          </p>
+                        </div>
+                        <textarea
+                          rows={3}
+                          value={withdrawReason}
+                          onChange={(e) => setWithdrawReason(e.target.value)}
+                          placeholder="Motivo (opcional)"
+                          className="block w-full rounded-xl border border-gray-300 px-4 py-3 text-sm focus:border-primary-500 focus:ring-primary-500"
+                        />
+                        {withdrawError && (
+                          <div className="bg-error-50 border border-error-200 text-error-700 px-4 py-3 rounded-xl text-sm">
+                            {withdrawError}
+                          </div>
+                        )}
+                        <div className="flex justify-end space-x-3">
+                          <Button variant="ghost" size="sm" onClick={() => setShowWithdraw(false)}>
+                            Cancelar
+                          </Button>
+                          <Button variant="destructive" size="sm" loading={withdrawing} onClick={handleWithdraw}>
+                            Confirmar retiro
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -12,6 +12,7 @@ const ApplicationPage = lazy(() => import('../pages/ApplicationPage').then(modul
 const StatusPage = lazy(() => import('../pages/StatusPage').then(module => ({ default: module.StatusPage })))
 const SuccessPage = lazy(() => import('../pages/SuccessPage').then(module => ({ default: module.SuccessPage })))
 const AfterDocsPage = lazy(() => import('../pages/AfterDocsPage').then(module => ({ default: module.AfterDocsPage })))
+const CandidatePortalPage = lazy(() => import('../pages/CandidatePortalPage').then(module => ({ default: module.CandidatePortalPage })))
 
 // Wrapper component for Suspense
 function SuspenseWrapper({ children }: { children: React.ReactNode }) {
@@ -84,6 +85,14 @@ export const publicRouter = createBrowserRouter([
           </SuspenseWrapper>
         )
       },
+      {
+        path: 'portal',
+        element: (
+          <SuspenseWrapper>
+            <CandidatePortalPage />
+          </SuspenseWrapper>
+        )
+      },
       {
         path: 'login',
         element: (
@@ -27,6 +27,17 @@ interface Database {
         }
         Returns: any
       }
+      start_doc_reupload: {
+        Args: {
+          p_folio: string
+          p_email: string
+          p_doc: string
+          p_filename: string
+          p_mimetype: string
+          p_size: number
+        }
+        Returns: any
+      }
       finalize_after_doc_upload: {
         Args: {
           p_upload_id: string
@@ -58,7 +69,9 @@ Deno.serve(async (req: Request) => {
         if (lastSegment === 'progress') {
           return await getAfterDocsProgress(supabase, req)
         } else if (lastSegment === 'start-upload') {
-          return await startAfterDocUpload(supabase, req)
+          return await startDocUpload(supabase, req, 'start_after_doc_upload')
+        } else if (lastSegment === 'start-reupload') {
+          return await startDocUpload(supabase, req, 'start_doc_reupload')
         } else if (lastSegment === 'finalize-upload') {
           return await finalizeAfterDocUpload(supabase, req)
         }
@@ -113,7 +126,8 @@ async function getAfterDocsProgress(supabase: any, req: Request) {
   )
 }
 
-async function startAfterDocUpload(supabase: any, req: Request) {
+// First uploads and re-uploads of rejected documents only differ in the RPC that reserves the slot
+async function startDocUpload(supabase: any, req: Request, rpcName: 'start_after_doc_upload' | 'start_doc_reupload') {
   const body = await req.json()
   const { folio, email, doc, filename, mimetype, size } = body
   
@@ -121,7 +135,7 @@ async function startAfterDocUpload(supabase: any, req: Request) {
     throw new Error('Missing required fields: folio, email, doc, filename, mimetype, size')
   }
 
-  const { data, error } = await supabase.rpc('start_after_doc_upload', {
+  const { data, error } = await supabase.rpc(rpcName, {
     p_folio: folio,
     p_email: email,
     p_doc: doc,
@@ -0,0 +1,176 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      list_application_documents: {
+        Args: {
+          p_application_id: string
+        }
+        Returns: any
+      }
+      get_document_download: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: any
+      }
+    }
+  }
+}
+
+const DOCS_BUCKET = 'candidate-docs'
+const SIGNED_URL_TTL_SECONDS = 300 // 5 minutes
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Client with user context for RLS operations
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const userClient = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        },
+        global: {
+          headers: {
+            Authorization: authHeader
+          }
+        }
+      }
+    )
+
+    // Service role client for storage operations
+    const adminClient = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await adminClient.auth.getUser(token)
+
+    if (authError || !user) {
+      throw new Error('Invalid token')
+    }
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    switch (req.method) {
+      case 'GET':
+        if (pathSegments.includes('application')) {
+          return await listDocuments(userClient, lastSegment)
+        }
+        break
+
+      case 'POST':
+        if (lastSegment === 'signed-url') {
+          return await createDocumentSignedUrl(userClient, adminClient, req)
+        }
+        break
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function listDocuments(supabase: any, applicationId: string) {
+  const { data, error } = await supabase.rpc('list_application_documents', {
+    p_application_id: applicationId
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function createDocumentSignedUrl(userClient: any, adminClient: any, req: Request) {
+  const body = await req.json()
+  const { document_id } = body
+
+  if (!document_id) {
+    throw new Error('Missing required field: document_id')
+  }
+
+  // Access is checked by the database function with the caller's identity
+  const { data, error } = await userClient.rpc('get_document_download', {
+    p_document_id: document_id
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const { data: urlData, error: urlError } = await adminClient.storage
+    .from(DOCS_BUCKET)
+    .createSignedUrl(data.path, SIGNED_URL_TTL_SECONDS)
+
+  if (urlError) {
+    throw new Error(`Failed to create download URL: ${urlError.message}`)
+  }
+
+  return new Response(
+    JSON.stringify({
+      id: data.id,
+      doc: data.doc,
+      version: data.version,
+      filename: data.filename,
+      mimetype: getMimeType(data.filename),
+      url: urlData.signedUrl,
+      expires_in: SIGNED_URL_TTL_SECONDS
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+function getMimeType(filename: string) {
+  const extension = filename.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'pdf':
+      return 'application/pdf'
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg'
+    case 'png':
+      return 'image/png'
+    default:
+      return 'application/octet-stream'
+  }
+}
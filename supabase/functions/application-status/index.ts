@@ -16,6 +16,14 @@ interface Database {
         }
         Returns: any
       }
+      withdraw_application: {
+        Args: {
+          p_folio: string
+          p_email: string
+          p_reason?: string
+        }
+        Returns: any
+      }
     }
   }
 }
@@ -32,6 +40,14 @@ Deno.serve(async (req: Request) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? ''
     )
 
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    if (req.method === 'POST' && lastSegment === 'withdraw') {
+      return await withdrawApplication(supabase, req)
+    }
+
     if (req.method === 'POST') {
       return await getApplicationStatus(supabase, req)
     }
@@ -100,4 +116,28 @@ async function getApplicationStatus(supabase: any, req: Request) {
     JSON.stringify(data),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   )
-}
\ No newline at end of file
+}
+
+async function withdrawApplication(supabase: any, req: Request) {
+  const body = await req.json()
+  const { folio, email, reason } = body
+
+  if (!folio || !email) {
+    throw new Error('Folio y correo electrónico son requeridos')
+  }
+
+  const { data, error } = await supabase.rpc('withdraw_application', {
+    p_folio: folio,
+    p_email: email,
+    p_reason: reason || null
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
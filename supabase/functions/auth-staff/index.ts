@@ -47,6 +47,34 @@ interface Database {
         }
         Returns: any
       }
+      has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      role_has_permission: {
+        Args: {
+          p_role: string
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      issue_staff_password_token: {
+        Args: {
+          p_staff_id: string
+          p_purpose: string
+          p_app_url: string
+          p_actor_id?: string
+        }
+        Returns: any
+      }
+      mark_staff_password_changed: {
+        Args: {
+          p_staff_id: string
+        }
+        Returns: any
+      }
     }
   }
 }
@@ -138,7 +166,11 @@ Deno.serve(async (req: Request) => {
 
       case 'POST':
         if (path === 'users') {
-          return await createUser(adminClient, userClient, req)
+          return await createUser(adminClient, userClient, req, user.id)
+        } else if (path === 'invite') {
+          return await resendInvite(adminClient, userClient, req, user.id)
+        } else if (path === 'change-password') {
+          return await changePassword(adminClient, req, user, supabaseUrl, supabaseAnonKey)
         }
         break
 
@@ -206,18 +238,18 @@ async function listUsers(supabase: any, searchParams: URLSearchParams) {
   )
 }
 
-async function createUser(adminClient: any, userClient: any, req: Request) {
+async function createUser(adminClient: any, userClient: any, req: Request, actorId: string) {
   const body = await req.json()
-  const { full_name, email, role, active = true, password } = body
+  const { full_name, email, role, active = true } = body
 
   if (!full_name || !email || !role) {
     throw new Error('Missing required fields: full_name, email, role')
   }
 
-  // First create the auth user
+  // First create the auth user; nobody knows this password, the user sets their own from the invitation
   const { data: authData, error: authError } = await adminClient.auth.admin.createUser({
     email,
-    password: password || generateRandomPassword(),
+    password: generateRandomPassword(),
     email_confirm: true,
     user_metadata: {
       full_name,
@@ -247,7 +279,7 @@ async function createUser(adminClient: any, userClient: any, req: Request) {
     // Update the staff_users record with the correct auth user ID
     const { error: updateError } = await adminClient
       .from('staff_users')
-      .update({ id: authData.user.id })
+      .update({ id: authData.user.id, must_change_password: true })
       .eq('email', email)
 
     if (updateError) {
@@ -256,11 +288,28 @@ async function createUser(adminClient: any, userClient: any, req: Request) {
       throw new Error(updateError.message)
     }
 
+    // Inactive users get their invitation when RH resends it after activating them
+    let inviteSent = false
+    if (active) {
+      const { error: inviteError } = await adminClient.rpc('issue_staff_password_token', {
+        p_staff_id: authData.user.id,
+        p_purpose: 'INVITE',
+        p_app_url: getAppUrl(),
+        p_actor_id: actorId
+      })
+
+      if (inviteError) {
+        console.error('Failed to send invitation:', inviteError.message)
+      } else {
+        inviteSent = true
+      }
+    }
+
     return new Response(
-      JSON.stringify({ 
-        id: authData.user.id, 
+      JSON.stringify({
+        id: authData.user.id,
         message: 'User created successfully',
-        temp_password: password || 'Generated password sent to user'
+        invite_sent: inviteSent
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -274,11 +323,95 @@ async function createUser(adminClient: any, userClient: any, req: Request) {
   }
 }
 
+async function resendInvite(adminClient: any, userClient: any, req: Request, actorId: string) {
+  const body = await req.json()
+  const { user_id } = body
+
+  if (!user_id) {
+    throw new Error('Missing required field: user_id')
+  }
+
+  // Whoever opens the link controls the account, so only admins can invite admins
+  await assertCanManageStaff(adminClient, userClient, user_id, 'invite')
+
+  const { data, error } = await adminClient.rpc('issue_staff_password_token', {
+    p_staff_id: user_id,
+    p_purpose: 'INVITE',
+    p_app_url: getAppUrl(),
+    p_actor_id: actorId
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function changePassword(adminClient: any, req: Request, user: any, supabaseUrl: string, supabaseAnonKey: string) {
+  const body = await req.json()
+  const { current_password, new_password } = body
+
+  if (!current_password || !new_password) {
+    throw new Error('Missing required fields: current_password, new_password')
+  }
+
+  validatePassword(new_password)
+
+  if (current_password === new_password) {
+    throw new Error('La nueva contraseña debe ser distinta de la actual')
+  }
+
+  // Verify the current password without touching the caller's session
+  const verifyClient = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  const { error: signInError } = await verifyClient.auth.signInWithPassword({
+    email: user.email,
+    password: current_password
+  })
+
+  if (signInError) {
+    throw new Error('La contraseña actual no es correcta')
+  }
+
+  const { error: authError } = await adminClient.auth.admin.updateUserById(user.id, {
+    password: new_password
+  })
+
+  if (authError) {
+    throw new Error(`Failed to update password: ${authError.message}`)
+  }
+
+  const { error } = await adminClient.rpc('mark_staff_password_changed', {
+    p_staff_id: user.id
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify({ ok: true }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
 async function updateUser(adminClient: any, userClient: any, req: Request, userId: string) {
   const body = await req.json()
   const { full_name, email, role, active } = body
 
-  // Update auth user if email is changing
+  // The login email decides who receives password resets, so it only changes for allowed callers
+  const target = await assertCanManageStaff(adminClient, userClient, userId, 'edit')
+
+  // Update auth user if email is changing (staff_users.email must match it)
   if (email) {
     const { error: authError } = await adminClient.auth.admin.updateUserById(userId, {
       email,
@@ -300,6 +433,10 @@ async function updateUser(adminClient: any, userClient: any, req: Request, userI
   })
 
   if (error) {
+    // Rollback the auth email
+    if (email && email !== target.email) {
+      await adminClient.auth.admin.updateUserById(userId, { email: target.email })
+    }
     throw new Error(error.message)
   }
 
@@ -333,11 +470,66 @@ async function deleteUser(adminClient: any, userClient: any, userId: string) {
   )
 }
 
+// staff.manage is required to manage a staff user; users whose role holds permission.manage also need it
+async function assertCanManageStaff(adminClient: any, userClient: any, userId: string, action: string) {
+  const { data: allowed, error: permissionError } = await userClient.rpc('has_permission', {
+    p_permission: 'staff.manage'
+  })
+
+  if (permissionError || !allowed) {
+    throw new Error('Access denied: staff.manage permission required')
+  }
+
+  const { data: target, error: targetError } = await adminClient
+    .from('staff_users')
+    .select('email, role')
+    .eq('id', userId)
+    .single()
+
+  if (targetError || !target) {
+    throw new Error('User not found')
+  }
+
+  const { data: adminRole, error: roleError } = await adminClient.rpc('role_has_permission', {
+    p_role: target.role,
+    p_permission: 'permission.manage'
+  })
+
+  if (roleError) {
+    throw new Error(roleError.message)
+  }
+
+  if (adminRole) {
+    const { data: isAdmin, error: adminError } = await userClient.rpc('has_permission', {
+      p_permission: 'permission.manage'
+    })
+
+    if (adminError || !isAdmin) {
+      throw new Error(`Access denied: permission.manage permission required to ${action} role ${target.role}`)
+    }
+  }
+
+  return target
+}
+
+// Invitation and reset links always point to the configured site, never to a client-provided origin
+function getAppUrl(): string {
+  return Deno.env.get('PUBLIC_SITE_URL') ?? 'http://localhost:5173'
+}
+
+// Same rule as staff-password set
+function validatePassword(password: string) {
+  if (!password || password.length < 10 || !/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    throw new Error('La contraseña debe tener al menos 10 caracteres e incluir letras y números')
+  }
+}
+
 function generateRandomPassword(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*'
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
   let password = ''
-  for (let i = 0; i < 12; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length))
+  for (const byte of bytes) {
+    password += chars.charAt(byte % chars.length)
   }
   return password
 }
\ No newline at end of file
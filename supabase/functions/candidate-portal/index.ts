@@ -0,0 +1,174 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-candidate-session',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      request_candidate_login_link: {
+        Args: {
+          p_email: string
+          p_portal_url: string
+        }
+        Returns: any
+      }
+      verify_candidate_login_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: any
+      }
+      get_candidate_portal: {
+        Args: {
+          p_session_token: string
+        }
+        Returns: any
+      }
+      logout_candidate_session: {
+        Args: {
+          p_session_token: string
+        }
+        Returns: any
+      }
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Candidates are not auth users; sessions are checked by the portal functions (service role only)
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    switch (req.method) {
+      case 'GET':
+        if (lastSegment === 'applications') {
+          return await getPortal(supabase, req)
+        }
+        break
+
+      case 'POST':
+        if (lastSegment === 'request-link') {
+          return await requestLoginLink(supabase, req)
+        } else if (lastSegment === 'verify') {
+          return await verifyLoginToken(supabase, req)
+        } else if (lastSegment === 'logout') {
+          return await logout(supabase, req)
+        }
+        break
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+function getSessionToken(req: Request): string {
+  const sessionToken = req.headers.get('x-candidate-session')
+  if (!sessionToken) {
+    throw new Error('Missing candidate session')
+  }
+  return sessionToken
+}
+
+async function requestLoginLink(supabase: any, req: Request) {
+  const body = await req.json()
+  const { email } = body
+
+  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  if (!email || !emailPattern.test(email)) {
+    throw new Error('Formato de correo electrónico inválido')
+  }
+
+  // The link always points to the configured site, never to a client-provided origin
+  const { data, error } = await supabase.rpc('request_candidate_login_link', {
+    p_email: email,
+    p_portal_url: Deno.env.get('PUBLIC_SITE_URL') ?? 'http://localhost:5173'
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function verifyLoginToken(supabase: any, req: Request) {
+  const body = await req.json()
+  const { token } = body
+
+  if (!token) {
+    throw new Error('Missing required field: token')
+  }
+
+  const { data, error } = await supabase.rpc('verify_candidate_login_token', {
+    p_token: token
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function getPortal(supabase: any, req: Request) {
+  const { data, error } = await supabase.rpc('get_candidate_portal', {
+    p_session_token: getSessionToken(req)
+  })
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function logout(supabase: any, req: Request) {
+  const { data, error } = await supabase.rpc('logout_candidate_session', {
+    p_session_token: getSessionToken(req)
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
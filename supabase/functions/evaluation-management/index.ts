@@ -41,6 +41,8 @@ interface Database {
       finalize_reject: {
         Args: {
           p_application_id: string
+          p_reason_code: string
+          p_note?: string
         }
         Returns: any
       }
@@ -262,14 +264,16 @@ async function finalizeAccept(supabase: any, req: Request) {
 
 async function finalizeReject(supabase: any, req: Request) {
   const body = await req.json()
-  const { application_id } = body
+  const { application_id, reason_code, note } = body
 
-  if (!application_id) {
-    throw new Error('Missing required field: application_id')
+  if (!application_id || !reason_code) {
+    throw new Error('Missing required fields: application_id, reason_code')
   }
 
   const { data, error } = await supabase.rpc('finalize_reject', {
-    p_application_id: application_id
+    p_application_id: application_id,
+    p_reason_code: reason_code,
+    p_note: note || null
   })
 
   if (error) {
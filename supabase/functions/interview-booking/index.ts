@@ -0,0 +1,162 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      get_self_booking_options: {
+        Args: {
+          p_folio: string
+          p_email: string
+        }
+        Returns: any
+      }
+      candidate_book_interview_slot: {
+        Args: {
+          p_folio: string
+          p_email: string
+          p_slot_id: string
+        }
+        Returns: any
+      }
+      candidate_cancel_interview: {
+        Args: {
+          p_folio: string
+          p_email: string
+        }
+        Returns: any
+      }
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Candidates are not auth users; folio + email are checked by the booking functions (service role only)
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    switch (req.method) {
+      case 'POST':
+        if (lastSegment === 'options') {
+          return await getBookingOptions(supabase, req)
+        } else if (lastSegment === 'book') {
+          return await bookSlot(supabase, req)
+        } else if (lastSegment === 'cancel') {
+          return await cancelBooking(supabase, req)
+        }
+        break
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+function validateCandidate(folio: string, email: string) {
+  if (!folio || !email) {
+    throw new Error('Folio y correo electrónico son requeridos')
+  }
+
+  // Validate folio format (BIN-YYYY-#####)
+  const folioPattern = /^BIN-\d{4}-\d{5}$/
+  if (!folioPattern.test(folio)) {
+    throw new Error('No se encontró una aplicación con esa combinación de folio y correo electrónico.')
+  }
+
+  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  if (!emailPattern.test(email)) {
+    throw new Error('Formato de correo electrónico inválido')
+  }
+}
+
+async function getBookingOptions(supabase: any, req: Request) {
+  const body = await req.json()
+  const { folio, email } = body
+
+  validateCandidate(folio, email)
+
+  const { data, error } = await supabase.rpc('get_self_booking_options', {
+    p_folio: folio,
+    p_email: email
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function bookSlot(supabase: any, req: Request) {
+  const body = await req.json()
+  const { folio, email, slot_id } = body
+
+  validateCandidate(folio, email)
+
+  if (!slot_id) {
+    throw new Error('Missing required field: slot_id')
+  }
+
+  const { data, error } = await supabase.rpc('candidate_book_interview_slot', {
+    p_folio: folio,
+    p_email: email,
+    p_slot_id: slot_id
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function cancelBooking(supabase: any, req: Request) {
+  const body = await req.json()
+  const { folio, email } = body
+
+  validateCandidate(folio, email)
+
+  const { data, error } = await supabase.rpc('candidate_cancel_interview', {
+    p_folio: folio,
+    p_email: email
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
@@ -0,0 +1,217 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      get_candidate_interview_event: {
+        Args: {
+          p_folio: string
+          p_email: string
+          p_kind: string
+        }
+        Returns: any
+      }
+      get_staff_ics_feed: {
+        Args: {
+          p_token: string
+        }
+        Returns: any
+      }
+    }
+  }
+}
+
+interface InterviewEvent {
+  uid: string
+  sequence: number
+  kind: 'RH' | 'MANAGER'
+  starts_at: string
+  ends_at: string
+  location: string
+  folio: string
+  position: string
+  candidate_name: string
+  interviewer_name?: string | null
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Candidates and calendar apps are not auth users; folio + email or the feed token are checked by the functions
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    switch (req.method) {
+      case 'GET':
+        if (lastSegment === 'feed') {
+          return await getStaffFeed(supabase, url)
+        }
+        break
+
+      case 'POST':
+        if (lastSegment === 'event') {
+          return await getCandidateEvent(supabase, req)
+        }
+        break
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function getCandidateEvent(supabase: any, req: Request) {
+  const body = await req.json()
+  const { folio, email, kind } = body
+
+  if (!folio || !email || !kind) {
+    throw new Error('Folio, correo electrónico y tipo de entrevista son requeridos')
+  }
+
+  const { data, error } = await supabase.rpc('get_candidate_interview_event', {
+    p_folio: folio,
+    p_email: email,
+    p_kind: kind
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const event = data as InterviewEvent
+  const calendar = buildCalendar([
+    buildEvent(event, {
+      summary: `${event.kind === 'RH' ? 'Entrevista con RH' : 'Entrevista con Manager'} - ${event.position}`,
+      description: `Folio: ${event.folio}\nPuesto: ${event.position}`
+    })
+  ])
+
+  return new Response(calendar, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="entrevista-${event.kind.toLowerCase()}-${event.folio}.ics"`
+    }
+  })
+}
+
+async function getStaffFeed(supabase: any, url: URL) {
+  const token = url.searchParams.get('token')
+
+  if (!token) {
+    throw new Error('Missing required parameter: token')
+  }
+
+  const { data, error } = await supabase.rpc('get_staff_ics_feed', {
+    p_token: token
+  })
+
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const events = (data.events as InterviewEvent[]).map((event) =>
+    buildEvent(event, {
+      summary: `${event.kind === 'RH' ? 'Entrevista RH' : 'Entrevista Manager'}: ${event.candidate_name} (${event.folio})`,
+      description: `Candidato: ${event.candidate_name}\nFolio: ${event.folio}\nPuesto: ${event.position}`
+    })
+  )
+
+  return new Response(buildCalendar(events, `Entrevistas - ${data.staff_name}`), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8'
+    }
+  })
+}
+
+// RFC 5545 helpers
+
+function formatIcsDate(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after CRLF + space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function buildEvent(event: InterviewEvent, text: { summary: string; description: string }): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.starts_at)}`,
+    `DTEND:${formatIcsDate(event.ends_at)}`,
+    `SUMMARY:${escapeIcsText(text.summary)}`,
+    `DESCRIPTION:${escapeIcsText(text.description)}`,
+    `LOCATION:${escapeIcsText(event.location)}`,
+    'STATUS:CONFIRMED',
+    'END:VEVENT'
+  ]
+}
+
+function buildCalendar(events: string[][], name?: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BinniBus//Reclutamiento//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeIcsText(name)}`] : []),
+    ...events.flat(),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,195 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import nodemailer from 'npm:nodemailer@6'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      claim_notifications: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: any
+      }
+      mark_notification_sent: {
+        Args: {
+          p_notification_id: string
+        }
+        Returns: void
+      }
+      mark_notification_failed: {
+        Args: {
+          p_notification_id: string
+          p_error: string
+        }
+        Returns: void
+      }
+      enqueue_after_docs_reminders: {
+        Args: {
+          p_min_interval?: string
+        }
+        Returns: number
+      }
+    }
+  }
+}
+
+interface OutgoingEmail {
+  to: string
+  subject: string
+  text: string
+}
+
+// Pluggable delivery: SMTP (any server, e.g. MailHog on port 1025 locally) or console for development
+interface Mailer {
+  send(email: OutgoingEmail): Promise<void>
+}
+
+class SmtpMailer implements Mailer {
+  private transporter: any
+  private from: string
+
+  constructor() {
+    const user = Deno.env.get('SMTP_USER')
+    this.from = Deno.env.get('SMTP_FROM') ?? 'Recursos Humanos <no-reply@localhost>'
+    this.transporter = nodemailer.createTransport({
+      host: Deno.env.get('SMTP_HOST') ?? 'localhost',
+      port: parseInt(Deno.env.get('SMTP_PORT') ?? '1025'),
+      secure: Deno.env.get('SMTP_SECURE') === 'true',
+      auth: user ? { user, pass: Deno.env.get('SMTP_PASS') ?? '' } : undefined
+    })
+  }
+
+  async send(email: OutgoingEmail) {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text
+    })
+  }
+}
+
+class ConsoleMailer implements Mailer {
+  async send(email: OutgoingEmail) {
+    console.log(`[mail] to=${email.to} subject=${email.subject}\n${email.text}`)
+  }
+}
+
+function createMailer(): Mailer {
+  return Deno.env.get('MAIL_TRANSPORT') === 'console' ? new ConsoleMailer() : new SmtpMailer()
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduler (service role key) may run the worker
+    const authHeader = req.headers.get('Authorization')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    if (!authHeader || authHeader.replace('Bearer ', '') !== serviceRoleKey) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    if (req.method === 'POST' && (lastSegment === 'process' || lastSegment === 'notification-worker')) {
+      return await processOutbox(supabase, url.searchParams)
+    }
+
+    if (req.method === 'POST' && lastSegment === 'reminders') {
+      return await enqueueReminders(supabase, url.searchParams)
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function processOutbox(supabase: any, searchParams: URLSearchParams) {
+  const limit = parseInt(searchParams.get('limit') || '20')
+
+  const { data: notifications, error } = await supabase.rpc('claim_notifications', {
+    p_limit: limit
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const mailer = createMailer()
+  let sent = 0
+  let failed = 0
+
+  for (const notification of notifications || []) {
+    try {
+      await mailer.send({
+        to: notification.to_email,
+        subject: notification.subject,
+        text: notification.body
+      })
+
+      const { error: markError } = await supabase.rpc('mark_notification_sent', {
+        p_notification_id: notification.id
+      })
+      if (markError) {
+        throw new Error(markError.message)
+      }
+      sent++
+    } catch (sendError) {
+      // The outbox row keeps its lease until the retry is scheduled here
+      await supabase.rpc('mark_notification_failed', {
+        p_notification_id: notification.id,
+        p_error: sendError.message
+      })
+      failed++
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ processed: (notifications || []).length, sent, failed }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function enqueueReminders(supabase: any, searchParams: URLSearchParams) {
+  const days = parseInt(searchParams.get('days') || '3')
+
+  const { data: queued, error } = await supabase.rpc('enqueue_after_docs_reminders', {
+    p_min_interval: `${days} days`
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify({ queued }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
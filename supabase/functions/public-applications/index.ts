@@ -17,10 +17,24 @@ interface Database {
         }
         Returns: any
       }
+      finalize_application_doc_uploads: {
+        Args: {
+          p_application_id: string
+        }
+        Returns: any
+      }
+      abort_application: {
+        Args: {
+          p_application_id: string
+        }
+        Returns: any
+      }
     }
   }
 }
 
+const DOCS_BUCKET = 'candidate-docs'
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
@@ -61,7 +75,7 @@ async function submitApplication(supabase: any, req: Request) {
   }
 
   // Extract files
-  const filesWithUrls: any[] = []
+  const filesByDoc: Record<string, File> = {}
   const fileEntries = Array.from(formData.entries())
   
   // Group file entries by index
@@ -83,19 +97,17 @@ async function submitApplication(supabase: any, req: Request) {
     }
   }
   
-  // Convert to files array and simulate upload
+  // Describe each file so the database can validate it and reserve its path
+  const filesMeta: any[] = []
   for (const group of Object.values(fileGroups)) {
-    if (group.doc && group.file) {
+    if (group.doc && group.file instanceof File) {
       const file = group.file as File
-      
-      // In a real implementation, upload to Supabase Storage here
-      // For now, we'll use a placeholder URL
-      filesWithUrls.push({
+      filesByDoc[group.doc] = file
+      filesMeta.push({
         doc: group.doc,
         filename: file.name,
-        mimetype: file.type,
-        size: file.size,
-        temp_url: `temp://uploaded/${file.name}`
+        mimetype: normalizeMimeType(file.type),
+        size: file.size
       })
     }
   }
@@ -103,15 +115,61 @@ async function submitApplication(supabase: any, req: Request) {
   const { data, error } = await supabase.rpc('apply_to_vacancy', {
     p_vacancy_id: vacancyId,
     p_candidate: candidateData,
-    p_files: filesWithUrls
+    p_files: filesMeta
   })
 
   if (error) {
     throw new Error(error.message)
   }
 
+  // Existing application: nothing to upload
+  if (!data.application_id) {
+    return new Response(
+      JSON.stringify(data),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  // Store every file under its versioned path; any failure rejects the application
+  const storedPaths: string[] = []
+  try {
+    for (const upload of data.uploads) {
+      const file = filesByDoc[upload.doc]
+      const { error: uploadError } = await supabase.storage
+        .from(DOCS_BUCKET)
+        .upload(upload.upload_url, file, {
+          contentType: normalizeMimeType(file.type),
+          upsert: false
+        })
+
+      if (uploadError) {
+        throw new Error(`Failed to upload document ${upload.doc}: ${uploadError.message}`)
+      }
+      storedPaths.push(upload.upload_url)
+    }
+
+    const { error: finalizeError } = await supabase.rpc('finalize_application_doc_uploads', {
+      p_application_id: data.application_id
+    })
+
+    if (finalizeError) {
+      throw new Error(finalizeError.message)
+    }
+  } catch (uploadFailure) {
+    if (storedPaths.length > 0) {
+      await supabase.storage.from(DOCS_BUCKET).remove(storedPaths)
+    }
+    await supabase.rpc('abort_application', { p_application_id: data.application_id })
+    throw uploadFailure
+  }
+
   return new Response(
-    JSON.stringify(data),
+    JSON.stringify({ folio: data.folio, status: data.status }),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   )
-}
\ No newline at end of file
+}
+
+function normalizeMimeType(mimetype: string) {
+  // Some browsers report JPEG files as image/jpg
+  return mimetype === 'image/jpg' ? 'image/jpeg' : mimetype
+}
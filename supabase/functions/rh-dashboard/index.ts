@@ -25,6 +25,7 @@ interface Database {
           p_q?: string
           p_from?: string
           p_to?: string
+          p_min_rh_score?: number
         }
         Returns: any
       }
@@ -153,6 +154,7 @@ async function listApplicationsAdmin(supabase: any, searchParams: URLSearchParam
   const q = searchParams.get('q') || null
   const from = searchParams.get('from') || null
   const to = searchParams.get('to') || null
+  const minRhScore = searchParams.get('min_rh_score') ? parseInt(searchParams.get('min_rh_score')!) : null
 
   const { data, error } = await supabase.rpc('list_applications_admin', {
     p_page: page,
@@ -161,7 +163,8 @@ async function listApplicationsAdmin(supabase: any, searchParams: URLSearchParam
     p_status: status,
     p_q: q,
     p_from: from,
-    p_to: to
+    p_to: to,
+    p_min_rh_score: minRhScore
   })
 
   if (error) {
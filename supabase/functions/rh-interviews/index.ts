@@ -15,14 +15,16 @@ interface Database {
           p_version?: number
           p_activate?: boolean
           p_csv_data: any
+          p_stage?: string
         }
         Returns: any
       }
       schedule_rh_interview: {
         Args: {
           p_application_id: string
-          p_at: string
-          p_location: string
+          p_at?: string
+          p_location?: string
+          p_slot_id?: string
         }
         Returns: any
       }
@@ -46,6 +48,19 @@ interface Database {
         }
         Returns: any
       }
+      export_question_bank_version: {
+        Args: {
+          p_bank_version_id: string
+        }
+        Returns: any
+      }
+      import_question_bank_json: {
+        Args: {
+          p_bank: any
+          p_activate?: boolean
+        }
+        Returns: any
+      }
     }
   }
 }
@@ -105,6 +120,8 @@ Deno.serve(async (req: Request) => {
       case 'POST':
         if (lastSegment === 'import-csv') {
           return await importQuestionBankCSV(userClient, req)
+        } else if (lastSegment === 'import-json') {
+          return await importQuestionBankJSON(userClient, req)
         } else if (lastSegment === 'schedule') {
           return await scheduleRHInterview(userClient, req)
         } else if (lastSegment === 'start') {
@@ -123,6 +140,9 @@ Deno.serve(async (req: Request) => {
       case 'GET':
         if (lastSegment === 'banks') {
           return await getQuestionBanks(userClient)
+        } else if (pathSegments.includes('export')) {
+          const bankVersionId = pathSegments[pathSegments.length - 1]
+          return await exportQuestionBankVersion(userClient, bankVersionId, url.searchParams.get('format') || 'json')
         } else if (pathSegments.includes('interview')) {
           const applicationId = pathSegments[pathSegments.length - 1]
           return await getRHInterview(userClient, applicationId)
@@ -148,6 +168,7 @@ async function importQuestionBankCSV(supabase: any, req: Request) {
   const kind = formData.get('kind') as string
   const version = formData.get('version') ? parseInt(formData.get('version') as string) : null
   const activate = formData.get('activate') === 'true'
+  const stage = (formData.get('stage') as string) || 'RH'
   const csvFile = formData.get('csv_file') as File
 
   if (!kind || !csvFile) {
@@ -157,26 +178,33 @@ async function importQuestionBankCSV(supabase: any, req: Request) {
   // Parse CSV
   const csvText = await csvFile.text()
   const lines = csvText.split('\n').filter(line => line.trim())
-  const headers = lines[0].split(',').map(h => h.trim())
+  const headers = parseCSVLine(lines[0])
   
   if (!headers.includes('ord') || !headers.includes('text') || !headers.includes('is_required')) {
-    throw new Error('CSV must contain columns: ord, text, is_required')
+    throw new Error('CSV must contain columns: ord, text, is_required (optional: max_points, rubric)')
   }
 
   const csvData = []
   for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim())
+    const values = parseCSVLine(lines[i])
     const row: any = {}
     
     headers.forEach((header, index) => {
+      const value = values[index] ?? ''
       if (header === 'ord') {
-        row[header] = parseInt(values[index])
+        row[header] = parseInt(value)
       } else if (header === 'is_required') {
-        row[header] = values[index].toLowerCase() === 'true'
+        row[header] = value.toLowerCase() === 'true'
+      } else if (header === 'max_points') {
+        row[header] = value ? parseInt(value) : null
       } else {
-        row[header] = values[index]
+        row[header] = value
       }
     })
+
+    if (row.max_points != null && (isNaN(row.max_points) || row.max_points < 1 || row.max_points > 100)) {
+      throw new Error(`Invalid max_points on line ${i + 1}: must be between 1 and 100`)
+    }
     
     csvData.push(row)
   }
@@ -185,7 +213,31 @@ async function importQuestionBankCSV(supabase: any, req: Request) {
     p_kind: kind,
     p_version: version,
     p_activate: activate,
-    p_csv_data: csvData
+    p_csv_data: csvData,
+    p_stage: stage
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function importQuestionBankJSON(supabase: any, req: Request) {
+  const body = await req.json()
+  const { bank, activate = true } = body
+
+  if (!bank?.kind || !Array.isArray(bank.questions)) {
+    throw new Error('Missing required fields: bank.kind, bank.questions')
+  }
+
+  const { data, error } = await supabase.rpc('import_question_bank_json', {
+    p_bank: bank,
+    p_activate: activate
   })
 
   if (error) {
@@ -198,18 +250,95 @@ async function importQuestionBankCSV(supabase: any, req: Request) {
   )
 }
 
+async function exportQuestionBankVersion(supabase: any, bankVersionId: string, format: string) {
+  if (format !== 'json' && format !== 'csv') {
+    throw new Error('Invalid format: use json or csv')
+  }
+
+  const { data, error } = await supabase.rpc('export_question_bank_version', {
+    p_bank_version_id: bankVersionId
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const filename = `banco-${data.kind.toLowerCase()}-${data.stage.toLowerCase()}-v${data.version}.${format}`
+
+  // CSV keeps the import-csv columns so the file can be imported as is; kind and stage are informative
+  const body = format === 'json'
+    ? JSON.stringify(data, null, 2)
+    : [
+        'ord,text,is_required,max_points,rubric,kind,stage',
+        ...data.questions.map((question: any) => [
+          question.ord,
+          toCSVValue(question.text),
+          question.is_required,
+          question.max_points ?? '',
+          toCSVValue(question.rubric ?? ''),
+          data.kind,
+          data.stage
+        ].join(','))
+      ].join('\n')
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`
+    }
+  })
+}
+
+function toCSVValue(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Splits a CSV line honoring double-quoted values (rubrics usually contain commas)
+function parseCSVLine(line: string): string[] {
+  const values: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      values.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  values.push(current.trim())
+
+  return values
+}
+
 async function scheduleRHInterview(supabase: any, req: Request) {
   const body = await req.json()
-  const { application_id, at, location } = body
+  const { application_id, at, location, slot_id } = body
 
-  if (!application_id || !at || !location) {
+  // A published slot carries its own date/time and location
+  if (!application_id || (!slot_id && (!at || !location))) {
     throw new Error('Missing required fields: application_id, at, location')
   }
 
   const { data, error } = await supabase.rpc('schedule_rh_interview', {
     p_application_id: application_id,
-    p_at: at,
-    p_location: location
+    p_at: at ?? null,
+    p_location: location ?? null,
+    p_slot_id: slot_id ?? null
   })
 
   if (error) {
@@ -297,6 +426,7 @@ async function getQuestionBanks(supabase: any) {
       id,
       name,
       kind,
+      stage,
       is_active,
       created_at,
       question_bank_versions!inner (
@@ -308,7 +438,9 @@ async function getQuestionBanks(supabase: any) {
           id,
           ord,
           text,
-          is_required
+          is_required,
+          max_points,
+          rubric
         )
       )
     `)
@@ -341,7 +473,9 @@ async function getRHInterview(supabase: any, applicationId: string) {
           id,
           ord,
           text,
-          is_required
+          is_required,
+          max_points,
+          rubric
         )
       )
     `)
@@ -0,0 +1,137 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      get_staff_login_lock: {
+        Args: {
+          p_email: string
+        }
+        Returns: string | null
+      }
+      record_staff_login_origin: {
+        Args: {
+          p_email: string
+          p_ip?: string
+          p_user_agent?: string
+        }
+        Returns: void
+      }
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The password hook records the attempt; the origin and the lock are read by service role functions
+    const adminClient = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    return await login(adminClient, req)
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function login(adminClient: any, req: Request) {
+  const body = await req.json()
+  const { email, password } = body
+
+  if (!email || !password) {
+    throw new Error('Missing required fields: email, password')
+  }
+
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null
+  const userAgent = req.headers.get('user-agent')
+
+  // The session is created for the browser; it is sent back and stored by the client
+  const signInClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      },
+      global: {
+        headers: userAgent ? { 'User-Agent': userAgent } : {}
+      }
+    }
+  )
+
+  // Locked users are refused by the password hook before a session is created
+  const { data, error: signInError } = await signInClient.auth.signInWithPassword({
+    email,
+    password
+  })
+
+  const { error: originError } = await adminClient.rpc('record_staff_login_origin', {
+    p_email: email,
+    p_ip: ip,
+    p_user_agent: userAgent
+  })
+
+  if (originError) {
+    throw new Error(originError.message)
+  }
+
+  if (signInError || !data.session) {
+    const { data: lockedUntil, error: lockError } = await adminClient.rpc('get_staff_login_lock', {
+      p_email: email
+    })
+
+    if (lockError) {
+      throw new Error(lockError.message)
+    }
+
+    if (lockedUntil) {
+      throw new Error(lockedMessage(lockedUntil))
+    }
+
+    throw new Error('Correo o contraseña incorrectos')
+  }
+
+  return new Response(
+    JSON.stringify({
+      session: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token
+      }
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+function lockedMessage(lockedUntil: string) {
+  const minutes = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000))
+  return `Cuenta bloqueada por demasiados intentos fallidos. Intenta de nuevo en ${minutes} minuto(s) o pide a un administrador que la desbloquee.`
+}
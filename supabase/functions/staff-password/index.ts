@@ -0,0 +1,185 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+interface Database {
+  public: {
+    Functions: {
+      check_staff_password_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: any
+      }
+      get_staff_password_token_owner: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      consume_staff_password_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: any
+      }
+      request_staff_password_reset: {
+        Args: {
+          p_email: string
+          p_app_url: string
+        }
+        Returns: any
+      }
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Used before the staff user can sign in; the links are checked by the token functions (service role only)
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const url = new URL(req.url)
+    const pathSegments = url.pathname.split('/').filter(Boolean)
+    const lastSegment = pathSegments[pathSegments.length - 1]
+
+    switch (req.method) {
+      case 'GET':
+        if (lastSegment === 'token') {
+          return await checkToken(supabase, url.searchParams)
+        }
+        break
+
+      case 'POST':
+        if (lastSegment === 'set') {
+          return await setPassword(supabase, req)
+        } else if (lastSegment === 'forgot') {
+          return await forgotPassword(supabase, req)
+        }
+        break
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// Same rule as auth-staff change-password
+function validatePassword(password: string) {
+  if (!password || password.length < 10 || !/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    throw new Error('La contraseña debe tener al menos 10 caracteres e incluir letras y números')
+  }
+}
+
+async function checkToken(supabase: any, searchParams: URLSearchParams) {
+  const token = searchParams.get('token')
+
+  if (!token) {
+    throw new Error('Missing required parameter: token')
+  }
+
+  const { data, error } = await supabase.rpc('check_staff_password_token', {
+    p_token: token
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function setPassword(supabase: any, req: Request) {
+  const body = await req.json()
+  const { token, password } = body
+
+  if (!token) {
+    throw new Error('Missing required field: token')
+  }
+
+  // Validate before using the link so a weak password does not burn it
+  validatePassword(password)
+
+  const { data: staffId, error: ownerError } = await supabase.rpc('get_staff_password_token_owner', {
+    p_token: token
+  })
+
+  if (ownerError) {
+    throw new Error(ownerError.message)
+  }
+
+  // The link is only used once the password is in place, so a failed update leaves it valid
+  const { error: authError } = await supabase.auth.admin.updateUserById(staffId, {
+    password
+  })
+
+  if (authError) {
+    throw new Error(`Failed to set password: ${authError.message}`)
+  }
+
+  const { data, error } = await supabase.rpc('consume_staff_password_token', {
+    p_token: token
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify({ ok: true, purpose: data.purpose }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+async function forgotPassword(supabase: any, req: Request) {
+  const body = await req.json()
+  const { email } = body
+
+  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  if (!email || !emailPattern.test(email)) {
+    throw new Error('Formato de correo electrónico inválido')
+  }
+
+  // The link always points to the configured site, never to a client-provided origin
+  const { data, error } = await supabase.rpc('request_staff_password_reset', {
+    p_email: email,
+    p_app_url: Deno.env.get('PUBLIC_SITE_URL') ?? 'http://localhost:5173'
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return new Response(
+    JSON.stringify(data),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
@@ -72,6 +72,13 @@ interface Database {
         }
         Returns: any
       }
+      set_vacancy_question_bank: {
+        Args: {
+          p_vacancy_id: string
+          p_bank_id: string | null
+        }
+        Returns: any
+      }
     }
   }
 }
@@ -247,7 +254,8 @@ async function createVacancy(supabase: any, req: Request) {
     habilidades,
     manager_id,
     is_active = true,
-    required_docs = []
+    required_docs = [],
+    rh_question_bank_id
   } = body
 
   if (!type || !position || !manager_id) {
@@ -272,6 +280,10 @@ async function createVacancy(supabase: any, req: Request) {
     throw new Error(error.message)
   }
 
+  if (rh_question_bank_id) {
+    await setVacancyQuestionBank(supabase, data.id, rh_question_bank_id)
+  }
+
   return new Response(
     JSON.stringify(data),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -290,7 +302,8 @@ async function updateVacancy(supabase: any, req: Request, vacancyId: string) {
     conocimientos_tecnicos,
     habilidades,
     manager_id,
-    is_active
+    is_active,
+    rh_question_bank_id
   } = body
 
   const { data, error } = await supabase.rpc('update_vacancy_with_docs', {
@@ -311,12 +324,27 @@ async function updateVacancy(supabase: any, req: Request, vacancyId: string) {
     throw new Error(error.message)
   }
 
+  if (rh_question_bank_id !== undefined) {
+    await setVacancyQuestionBank(supabase, vacancyId, rh_question_bank_id)
+  }
+
   return new Response(
     JSON.stringify(data),
     { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
   )
 }
 
+async function setVacancyQuestionBank(supabase: any, vacancyId: string, bankId: string | null) {
+  const { error } = await supabase.rpc('set_vacancy_question_bank', {
+    p_vacancy_id: vacancyId,
+    p_bank_id: bankId
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
 async function setVacancyDocs(supabase: any, req: Request, vacancyId: string) {
   const body = await req.json()
   const { items } = body
@@ -0,0 +1,309 @@
+/*
+  # Real storage upload for initial application documents
+
+  1. Changes
+    - `temp_doc_uploads.phase` - Track which document phase an upload belongs to
+    - `apply_to_vacancy` - No longer stores placeholder URLs; validates every file
+      and reserves a versioned storage path for it in `temp_doc_uploads`
+
+  2. New Functions
+    - `finalize_application_doc_uploads` - Move reserved uploads into `application_docs`
+      once the files are in the `candidate-docs` bucket
+    - `abort_application` - Discard an application whose document upload failed
+
+  3. Security
+    - Finalize/abort are only callable with the service role (public-applications)
+
+  4. Auditing
+    - APPLICATION_CREATE and DOC_UPLOAD are logged only after the files are stored
+*/
+
+-- Track phase of pending uploads (existing rows are after-docs uploads)
+ALTER TABLE temp_doc_uploads
+  ADD COLUMN IF NOT EXISTS phase doc_phase NOT NULL DEFAULT 'DESPUES';
+
+CREATE INDEX IF NOT EXISTS idx_temp_doc_uploads_application
+  ON temp_doc_uploads (application_id, phase);
+
+-- Replace both previous overloads
+DROP FUNCTION IF EXISTS apply_to_vacancy(uuid, json, json);
+DROP FUNCTION IF EXISTS apply_to_vacancy(uuid, jsonb, jsonb);
+
+-- Function to create the application and reserve storage paths for its documents
+CREATE OR REPLACE FUNCTION apply_to_vacancy(
+  p_vacancy_id uuid,
+  p_candidate jsonb,
+  p_files jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_candidate_id uuid;
+  v_application_id uuid;
+  v_folio text;
+  v_file jsonb;
+  v_existing_application RECORD;
+  v_missing_docs text[];
+  v_upload_id uuid;
+  v_uploads jsonb := '[]'::jsonb;
+  v_max_size bigint := 10485760; -- 10MB
+BEGIN
+  -- Validate vacancy exists and is active
+  IF NOT EXISTS (
+    SELECT 1 FROM vacancies
+    WHERE id = p_vacancy_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Vacancy not found or not active';
+  END IF;
+
+  IF p_files IS NULL OR jsonb_typeof(p_files) != 'array' THEN
+    p_files := '[]'::jsonb;
+  END IF;
+
+  -- Validate every file before creating anything
+  FOR v_file IN SELECT * FROM jsonb_array_elements(p_files)
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM vacancy_required_docs
+      WHERE vacancy_id = p_vacancy_id
+        AND doc::text = v_file->>'doc'
+        AND phase = 'NECESARIO'
+    ) THEN
+      RAISE EXCEPTION 'Document % is not required for this vacancy in NECESARIO phase', v_file->>'doc';
+    END IF;
+
+    IF COALESCE(v_file->>'filename', '') = '' THEN
+      RAISE EXCEPTION 'Missing filename for document %', v_file->>'doc';
+    END IF;
+
+    IF (v_file->>'size')::bigint > v_max_size THEN
+      RAISE EXCEPTION 'File size exceeds maximum allowed (10MB)';
+    END IF;
+
+    IF COALESCE(v_file->>'mimetype', '') NOT IN ('application/pdf', 'image/jpeg', 'image/png') THEN
+      RAISE EXCEPTION 'Invalid file type. Only PDF, JPG, and PNG are allowed';
+    END IF;
+  END LOOP;
+
+  -- Every NECESARIO document must be provided
+  SELECT array_agg(vrd.doc::text ORDER BY vrd.doc)
+  INTO v_missing_docs
+  FROM vacancy_required_docs vrd
+  WHERE vrd.vacancy_id = p_vacancy_id
+    AND vrd.phase = 'NECESARIO'
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_files) f
+      WHERE f->>'doc' = vrd.doc::text
+    );
+
+  IF v_missing_docs IS NOT NULL THEN
+    RAISE EXCEPTION 'Missing required documents: %', array_to_string(v_missing_docs, ', ');
+  END IF;
+
+  -- Upsert candidate by email
+  INSERT INTO candidates (full_name, email, phone)
+  VALUES (
+    p_candidate->>'full_name',
+    p_candidate->>'email',
+    p_candidate->>'phone'
+  )
+  ON CONFLICT (email) DO UPDATE SET
+    full_name = EXCLUDED.full_name,
+    phone = EXCLUDED.phone
+  RETURNING id INTO v_candidate_id;
+
+  -- Check if application already exists (locked so concurrent submits are serialized)
+  SELECT id, folio INTO v_existing_application
+  FROM applications
+  WHERE vacancy_id = p_vacancy_id AND candidate_id = v_candidate_id
+  FOR UPDATE;
+
+  IF v_existing_application.id IS NOT NULL THEN
+    -- A previous attempt whose uploads never completed is discarded and retried
+    IF EXISTS (
+      SELECT 1 FROM temp_doc_uploads
+      WHERE application_id = v_existing_application.id AND phase = 'NECESARIO'
+    ) AND NOT EXISTS (
+      SELECT 1 FROM application_docs
+      WHERE application_id = v_existing_application.id
+    ) THEN
+      -- A recent reservation belongs to a submit that may still be uploading (double click, retry)
+      IF EXISTS (
+        SELECT 1 FROM temp_doc_uploads
+        WHERE application_id = v_existing_application.id
+          AND phase = 'NECESARIO'
+          AND created_at > now() - interval '15 minutes'
+      ) THEN
+        RAISE EXCEPTION 'A previous submission for this vacancy is still being processed. Please try again in a few minutes';
+      END IF;
+
+      DELETE FROM temp_doc_uploads WHERE application_id = v_existing_application.id;
+      DELETE FROM applications WHERE id = v_existing_application.id;
+    ELSE
+      -- Return existing application folio
+      RETURN jsonb_build_object(
+        'folio', v_existing_application.folio,
+        'status', 'RevisionDeDocumentos',
+        'message', 'Application already exists'
+      );
+    END IF;
+  END IF;
+
+  -- Generate folio
+  v_folio := generate_folio();
+
+  -- Create new application
+  INSERT INTO applications (
+    folio,
+    candidate_id,
+    vacancy_id,
+    status
+  ) VALUES (
+    v_folio,
+    v_candidate_id,
+    p_vacancy_id,
+    'RevisionDeDocumentos'
+  ) RETURNING id INTO v_application_id;
+
+  -- Reserve a versioned storage path for each document
+  FOR v_file IN SELECT * FROM jsonb_array_elements(p_files)
+  LOOP
+    INSERT INTO temp_doc_uploads (
+      application_id, doc, phase, filename, mimetype, size, expected_version
+    ) VALUES (
+      v_application_id,
+      (v_file->>'doc')::doc_type,
+      'NECESARIO',
+      v_file->>'filename',
+      v_file->>'mimetype',
+      (v_file->>'size')::bigint,
+      1
+    ) RETURNING id INTO v_upload_id;
+
+    v_uploads := v_uploads || jsonb_build_object(
+      'upload_id', v_upload_id,
+      'doc', v_file->>'doc',
+      'upload_url', format('applications/%s/%s/v%s/%s',
+        v_application_id, v_file->>'doc', 1, v_file->>'filename')
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'application_id', v_application_id,
+    'folio', v_folio,
+    'status', 'RevisionDeDocumentos',
+    'uploads', v_uploads
+  );
+END;
+$$;
+
+-- Function to register the stored documents of a new application
+CREATE OR REPLACE FUNCTION finalize_application_doc_uploads(
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload_record temp_doc_uploads%ROWTYPE;
+  v_docs jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM applications WHERE id = p_application_id) THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Log application creation
+  INSERT INTO audit_log (
+    application_id,
+    action,
+    to_status,
+    note
+  ) VALUES (
+    p_application_id,
+    'APPLICATION_CREATE',
+    'RevisionDeDocumentos',
+    'Application created via public site'
+  );
+
+  FOR v_upload_record IN
+    SELECT * FROM temp_doc_uploads
+    WHERE application_id = p_application_id AND phase = 'NECESARIO'
+    ORDER BY doc
+  LOOP
+    INSERT INTO application_docs (
+      application_id,
+      doc,
+      phase,
+      url,
+      version
+    ) VALUES (
+      p_application_id,
+      v_upload_record.doc,
+      'NECESARIO',
+      format('applications/%s/%s/v%s/%s',
+        v_upload_record.application_id,
+        v_upload_record.doc,
+        v_upload_record.expected_version,
+        v_upload_record.filename
+      ),
+      v_upload_record.expected_version
+    );
+
+    -- Log document upload
+    INSERT INTO audit_log (
+      application_id,
+      action,
+      note
+    ) VALUES (
+      p_application_id,
+      'DOC_UPLOAD',
+      'Document uploaded: ' || v_upload_record.doc
+    );
+
+    v_docs := v_docs || jsonb_build_object(
+      'doc', v_upload_record.doc,
+      'version', v_upload_record.expected_version
+    );
+  END LOOP;
+
+  -- Clean up temp records
+  DELETE FROM temp_doc_uploads
+  WHERE application_id = p_application_id AND phase = 'NECESARIO';
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'documents', v_docs
+  );
+END;
+$$;
+
+-- Function to discard an application whose documents could not be stored
+CREATE OR REPLACE FUNCTION abort_application(
+  p_application_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only applications that never got their documents registered can be discarded
+  IF EXISTS (
+    SELECT 1 FROM application_docs WHERE application_id = p_application_id
+  ) THEN
+    RAISE EXCEPTION 'Application already has registered documents';
+  END IF;
+
+  DELETE FROM temp_doc_uploads WHERE application_id = p_application_id;
+  DELETE FROM applications
+  WHERE id = p_application_id AND status = 'RevisionDeDocumentos';
+END;
+$$;
+
+-- Finalize/abort are driven by the public-applications function only
+REVOKE EXECUTE ON FUNCTION finalize_application_doc_uploads(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION abort_application(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION finalize_application_doc_uploads(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION abort_application(uuid) TO service_role;
@@ -0,0 +1,98 @@
+/*
+  # Secure document viewer for staff
+
+  1. New Functions
+    - `list_application_documents` - All document versions of an application
+    - `get_document_download` - Resolve the storage path of one document version
+
+  2. Security
+    - Both functions require `is_rh_or_manager_of_application`
+      (RH any application, managers only applications of their vacancies)
+    - Broad storage policies on `candidate-docs` are removed; files are only
+      reachable through short-lived signed URLs issued by the application-documents function
+
+  3. Auditing
+    - DOC_VIEW events for every issued download URL
+*/
+
+-- Function to list every version of the documents of an application
+CREATE OR REPLACE FUNCTION list_application_documents(
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_docs jsonb;
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', ad.id,
+      'doc', ad.doc,
+      'phase', ad.phase,
+      'version', ad.version,
+      'filename', regexp_replace(ad.url, '^.*/', ''),
+      'uploaded_at', ad.uploaded_at
+    ) ORDER BY ad.phase, ad.doc, ad.version DESC
+  )
+  INTO v_docs
+  FROM application_docs ad
+  WHERE ad.application_id = p_application_id;
+
+  RETURN COALESCE(v_docs, '[]'::jsonb);
+END;
+$$;
+
+-- Function to resolve the storage path of a document version for download
+CREATE OR REPLACE FUNCTION get_document_download(
+  p_document_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_doc application_docs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_doc FROM application_docs WHERE id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(v_doc.application_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- Placeholder URLs from before documents were stored cannot be opened
+  IF v_doc.url NOT LIKE 'applications/%' THEN
+    RAISE EXCEPTION 'Document file is not available in storage';
+  END IF;
+
+  PERFORM log_staff_action(
+    'DOC_VIEW',
+    format('Document %s version %s viewed', v_doc.doc, v_doc.version),
+    v_doc.application_id
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_doc.id,
+    'application_id', v_doc.application_id,
+    'doc', v_doc.doc,
+    'version', v_doc.version,
+    'path', v_doc.url,
+    'filename', regexp_replace(v_doc.url, '^.*/', '')
+  );
+END;
+$$;
+
+-- Candidate documents are only served through signed URLs
+DROP POLICY IF EXISTS "Authenticated users can upload candidate docs" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own candidate docs" ON storage.objects;
@@ -0,0 +1,492 @@
+/*
+  # Document review workflow
+
+  1. Changes
+    - `application_docs` - Review state per document version
+      (review_status, review_reason, reviewed_by, reviewed_at)
+    - `list_application_documents` - Include review state
+    - `get_document_progress` - Report rejected documents with their reason
+    - `finalize_after_doc_upload` - Keep the phase of the pending upload
+    - `transition_to_rh_interview` - Require every NECESARIO document approved
+
+  2. New Functions
+    - `review_application_doc` - RH approves or rejects the latest version of a document
+    - `start_doc_reupload` - Candidate starts the upload of a new version of a rejected document
+
+  3. Auditing
+    - DOC_REVIEW for every review decision
+    - DOC_REUPLOAD for every new version of a rejected NECESARIO document
+*/
+
+-- Review states
+DO $$ BEGIN
+  CREATE TYPE doc_review_status AS ENUM ('PENDIENTE', 'APROBADO', 'RECHAZADO');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+ALTER TABLE application_docs
+  ADD COLUMN IF NOT EXISTS review_status doc_review_status NOT NULL DEFAULT 'PENDIENTE',
+  ADD COLUMN IF NOT EXISTS review_reason text,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+-- Function to list every version of the documents of an application
+CREATE OR REPLACE FUNCTION list_application_documents(
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_docs jsonb;
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', ad.id,
+      'doc', ad.doc,
+      'phase', ad.phase,
+      'version', ad.version,
+      'filename', regexp_replace(ad.url, '^.*/', ''),
+      'uploaded_at', ad.uploaded_at,
+      'review_status', ad.review_status,
+      'review_reason', ad.review_reason,
+      'reviewed_by_name', s.full_name,
+      'reviewed_at', ad.reviewed_at
+    ) ORDER BY ad.phase, ad.doc, ad.version DESC
+  )
+  INTO v_docs
+  FROM application_docs ad
+  LEFT JOIN staff_users s ON s.id = ad.reviewed_by
+  WHERE ad.application_id = p_application_id;
+
+  RETURN COALESCE(v_docs, '[]'::jsonb);
+END;
+$$;
+
+-- Function to approve or reject a document version
+CREATE OR REPLACE FUNCTION review_application_doc(
+  p_document_id uuid,
+  p_status doc_review_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_doc application_docs%ROWTYPE;
+  v_app_status application_status;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  IF p_status = 'PENDIENTE' THEN
+    RAISE EXCEPTION 'Review status must be APROBADO or RECHAZADO';
+  END IF;
+
+  IF p_status = 'RECHAZADO' AND COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a document';
+  END IF;
+
+  SELECT * INTO v_doc FROM application_docs WHERE id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  SELECT status INTO v_app_status FROM applications WHERE id = v_doc.application_id;
+
+  IF v_app_status IN ('Aceptado', 'Rechazado') AND v_doc.phase = 'NECESARIO' THEN
+    RAISE EXCEPTION 'Cannot review documents of a finalized application';
+  END IF;
+
+  -- Only the latest version of a document can be reviewed
+  IF EXISTS (
+    SELECT 1 FROM application_docs
+    WHERE application_id = v_doc.application_id
+      AND doc = v_doc.doc
+      AND version > v_doc.version
+  ) THEN
+    RAISE EXCEPTION 'Only the latest version of a document can be reviewed';
+  END IF;
+
+  UPDATE application_docs
+  SET
+    review_status = p_status,
+    review_reason = CASE WHEN p_status = 'RECHAZADO' THEN trim(p_reason) ELSE NULL END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = p_document_id;
+
+  PERFORM log_staff_action(
+    'DOC_REVIEW',
+    format('Document %s version %s %s%s',
+      v_doc.doc,
+      v_doc.version,
+      p_status,
+      CASE WHEN p_status = 'RECHAZADO' THEN ': ' || trim(p_reason) ELSE '' END
+    ),
+    v_doc.application_id
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'id', p_document_id,
+    'doc', v_doc.doc,
+    'version', v_doc.version,
+    'review_status', p_status
+  );
+END;
+$$;
+
+-- Function to get document progress for an application
+CREATE OR REPLACE FUNCTION get_document_progress(app_id uuid, vacancy_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  necesarios_required text[];
+  necesarios_uploaded text[];
+  necesarios_rejected jsonb;
+  despues_required text[];
+  despues_uploaded text[];
+  despues_rejected jsonb;
+  result jsonb;
+BEGIN
+  -- Get required documents for NECESARIO phase
+  SELECT array_agg(doc::text) INTO necesarios_required
+  FROM vacancy_required_docs
+  WHERE vacancy_required_docs.vacancy_id = get_document_progress.vacancy_id
+    AND phase = 'NECESARIO';
+
+  -- Get uploaded documents for NECESARIO phase
+  SELECT array_agg(DISTINCT doc::text) INTO necesarios_uploaded
+  FROM application_docs
+  WHERE application_id = app_id
+    AND phase = 'NECESARIO';
+
+  -- Get required documents for DESPUES phase
+  SELECT array_agg(doc::text) INTO despues_required
+  FROM vacancy_required_docs
+  WHERE vacancy_required_docs.vacancy_id = get_document_progress.vacancy_id
+    AND phase = 'DESPUES';
+
+  -- Get uploaded documents for DESPUES phase
+  SELECT array_agg(DISTINCT doc::text) INTO despues_uploaded
+  FROM application_docs
+  WHERE application_id = app_id
+    AND phase = 'DESPUES';
+
+  -- Get documents whose latest version was rejected
+  WITH latest AS (
+    SELECT DISTINCT ON (ad.phase, ad.doc) ad.*
+    FROM application_docs ad
+    WHERE ad.application_id = app_id
+    ORDER BY ad.phase, ad.doc, ad.version DESC
+  )
+  SELECT
+    jsonb_agg(jsonb_build_object('doc', doc, 'version', version, 'reason', review_reason) ORDER BY doc)
+      FILTER (WHERE phase = 'NECESARIO'),
+    jsonb_agg(jsonb_build_object('doc', doc, 'version', version, 'reason', review_reason) ORDER BY doc)
+      FILTER (WHERE phase = 'DESPUES')
+  INTO necesarios_rejected, despues_rejected
+  FROM latest
+  WHERE review_status = 'RECHAZADO';
+
+  -- Handle nulls
+  necesarios_required := COALESCE(necesarios_required, ARRAY[]::text[]);
+  necesarios_uploaded := COALESCE(necesarios_uploaded, ARRAY[]::text[]);
+  necesarios_rejected := COALESCE(necesarios_rejected, '[]'::jsonb);
+  despues_required := COALESCE(despues_required, ARRAY[]::text[]);
+  despues_uploaded := COALESCE(despues_uploaded, ARRAY[]::text[]);
+  despues_rejected := COALESCE(despues_rejected, '[]'::jsonb);
+
+  result := jsonb_build_object(
+    'necesarios', jsonb_build_object(
+      'required', to_jsonb(necesarios_required),
+      'uploaded', to_jsonb(necesarios_uploaded),
+      'pending', to_jsonb(
+        ARRAY(
+          SELECT unnest(necesarios_required)
+          EXCEPT
+          SELECT unnest(necesarios_uploaded)
+        )
+      ),
+      'rejected', necesarios_rejected
+    ),
+    'despues', jsonb_build_object(
+      'required', to_jsonb(despues_required),
+      'uploaded', to_jsonb(despues_uploaded),
+      'pending', to_jsonb(
+        ARRAY(
+          SELECT unnest(despues_required)
+          EXCEPT
+          SELECT unnest(despues_uploaded)
+        )
+      ),
+      'rejected', despues_rejected,
+      'can_upload', false -- Will be true only when status = 'Aceptado' in Module 9
+    )
+  );
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to start the upload of a new version of a rejected document
+CREATE OR REPLACE FUNCTION start_doc_reupload(
+  p_folio text,
+  p_email text,
+  p_doc doc_type,
+  p_filename text,
+  p_mimetype text,
+  p_size bigint
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_application_id uuid;
+  v_status application_status;
+  v_latest application_docs%ROWTYPE;
+  v_upload_id uuid;
+  v_expected_version integer;
+  v_max_size bigint := 10485760; -- 10MB
+BEGIN
+  -- Validate folio format
+  IF NOT p_folio ~ '^BIN-\d{4}-\d{5}$' THEN
+    RAISE EXCEPTION 'Invalid folio format';
+  END IF;
+
+  -- Validate file size
+  IF p_size > v_max_size THEN
+    RAISE EXCEPTION 'File size exceeds maximum allowed (10MB)';
+  END IF;
+
+  -- Validate MIME type
+  IF p_mimetype NOT IN ('application/pdf', 'image/jpeg', 'image/png') THEN
+    RAISE EXCEPTION 'Invalid file type. Only PDF, JPG, and PNG are allowed';
+  END IF;
+
+  -- Get application by folio and email
+  SELECT a.id, a.status
+  INTO v_application_id, v_status
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  WHERE a.folio = p_folio AND lower(trim(c.email)) = lower(trim(p_email));
+
+  IF v_application_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found with provided folio and email';
+  END IF;
+
+  -- Latest version of the document must have been rejected
+  SELECT * INTO v_latest
+  FROM application_docs
+  WHERE application_id = v_application_id AND doc = p_doc
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF v_latest.id IS NULL OR v_latest.review_status != 'RECHAZADO' THEN
+    RAISE EXCEPTION 'Document % has not been rejected', p_doc;
+  END IF;
+
+  -- Check if status allows upload
+  IF v_latest.phase = 'NECESARIO' AND v_status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Document upload not allowed for finalized applications';
+  END IF;
+
+  IF v_latest.phase = 'DESPUES' AND v_status != 'Aceptado' THEN
+    RAISE EXCEPTION 'Document upload only allowed for accepted applications';
+  END IF;
+
+  v_expected_version := v_latest.version + 1;
+
+  -- Create upload tracking record
+  INSERT INTO temp_doc_uploads (
+    application_id, doc, phase, filename, mimetype, size, expected_version
+  ) VALUES (
+    v_application_id, p_doc, v_latest.phase, p_filename, p_mimetype, p_size, v_expected_version
+  ) RETURNING id INTO v_upload_id;
+
+  RETURN jsonb_build_object(
+    'upload_id', v_upload_id,
+    'upload_url', format('applications/%s/%s/v%s/%s',
+      v_application_id, p_doc, v_expected_version, p_filename),
+    'max_version_expected', v_expected_version
+  );
+END;
+$$;
+
+-- Function to finalize document upload
+CREATE OR REPLACE FUNCTION finalize_after_doc_upload(
+  p_upload_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload_record temp_doc_uploads%ROWTYPE;
+  v_final_url text;
+  v_uploaded_at timestamptz;
+BEGIN
+  -- Get upload record
+  SELECT * INTO v_upload_record
+  FROM temp_doc_uploads
+  WHERE id = p_upload_id AND expires_at > now();
+
+  IF v_upload_record.id IS NULL THEN
+    RAISE EXCEPTION 'Upload record not found or expired';
+  END IF;
+
+  -- Set current timestamp
+  v_uploaded_at := now();
+
+  -- Build final URL (this would be the storage path)
+  v_final_url := format('applications/%s/%s/v%s/%s',
+    v_upload_record.application_id,
+    v_upload_record.doc,
+    v_upload_record.expected_version,
+    v_upload_record.filename
+  );
+
+  -- Insert into application_docs
+  INSERT INTO application_docs (
+    application_id,
+    doc,
+    phase,
+    url,
+    version,
+    uploaded_at
+  ) VALUES (
+    v_upload_record.application_id,
+    v_upload_record.doc,
+    v_upload_record.phase,
+    v_final_url,
+    v_upload_record.expected_version,
+    v_uploaded_at
+  );
+
+  -- Log audit event
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note
+  ) VALUES (
+    NULL, -- No staff user for candidate uploads
+    v_upload_record.application_id,
+    CASE WHEN v_upload_record.phase = 'NECESARIO' THEN 'DOC_REUPLOAD' ELSE 'AFTER_DOC_UPLOAD' END,
+    format('Document %s uploaded, version %s', v_upload_record.doc, v_upload_record.expected_version)
+  );
+
+  -- Clean up temp record
+  DELETE FROM temp_doc_uploads WHERE id = p_upload_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'doc', v_upload_record.doc,
+    'version', v_upload_record.expected_version,
+    'uploaded_at', v_uploaded_at
+  );
+END;
+$$;
+
+-- RevisionDeDocumentos → EntrevistaConRH now requires approved documents
+CREATE OR REPLACE FUNCTION transition_to_rh_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_unapproved_docs text[];
+  result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'RevisionDeDocumentos' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate every NECESARIO document is uploaded and its latest version approved
+  SELECT array_agg(vrd.doc::text ORDER BY vrd.doc)
+  INTO v_unapproved_docs
+  FROM vacancy_required_docs vrd
+  LEFT JOIN LATERAL (
+    SELECT ad.review_status
+    FROM application_docs ad
+    WHERE ad.application_id = p_application_id
+      AND ad.doc = vrd.doc
+      AND ad.phase = 'NECESARIO'
+    ORDER BY ad.version DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE vrd.vacancy_id = app_record.vacancy_id
+    AND vrd.phase = 'NECESARIO'
+    AND latest.review_status IS DISTINCT FROM 'APROBADO';
+
+  IF v_unapproved_docs IS NOT NULL THEN
+    RAISE EXCEPTION 'All required documents must be approved first. Pending: %',
+      array_to_string(v_unapproved_docs, ', ');
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConRH',
+    scheduled_rh_at = p_scheduled_at,
+    scheduled_rh_location = p_location,
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'RevisionDeDocumentos',
+    'EntrevistaConRH',
+    'RH interview scheduled for ' || p_scheduled_at || ' at ' || p_location
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULE',
+    'Scheduled at ' || p_location || ' for ' || p_scheduled_at
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConRH',
+    'scheduled_at', p_scheduled_at,
+    'location', p_location
+  );
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,332 @@
+/*
+  # Transactional email notifications
+
+  1. New Tables
+    - `notification_outbox` - Queued emails for candidates, delivered by the
+      notification-worker edge function with retries
+
+  2. Functions
+    - `build_notification_content` - Spanish subject/body for each event
+    - `enqueue_notification` - Queue an email for the candidate of an application
+    - `notify_application_change` - Trigger fired by the transition functions
+      (transition_to_rh_interview, transition_to_manager_interview, finalize_accept,
+      finalize_reject) and by interview scheduling/rescheduling
+    - `claim_notifications` / `mark_notification_sent` / `mark_notification_failed` -
+      Worker API (service role only)
+
+  3. Security
+    - RH can read the outbox; only the service role can write it
+
+  4. Auditing
+    - NOTIFICATION_SENT, NOTIFICATION_RETRY and NOTIFICATION_FAILED for every delivery attempt
+*/
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES applications(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+  ON notification_outbox (status, next_attempt_at);
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_read_notification_outbox" ON notification_outbox
+  FOR SELECT TO authenticated
+  USING (is_rh_user());
+
+-- Function to build the email content for an application event
+CREATE OR REPLACE FUNCTION build_notification_content(
+  p_event text,
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_app record;
+  v_subject text;
+  v_body text;
+BEGIN
+  SELECT
+    a.folio,
+    c.full_name,
+    v.position,
+    to_char(a.scheduled_rh_at AT TIME ZONE 'America/Mexico_City', 'DD/MM/YYYY HH24:MI') AS rh_at,
+    a.scheduled_rh_location AS rh_location,
+    to_char(a.scheduled_manager_at AT TIME ZONE 'America/Mexico_City', 'DD/MM/YYYY HH24:MI') AS manager_at,
+    a.scheduled_manager_location AS manager_location
+  INTO v_app
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE a.id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  CASE p_event
+    WHEN 'RH_INTERVIEW_SCHEDULED' THEN
+      v_subject := format('Entrevista con Recursos Humanos - Folio %s', v_app.folio);
+      v_body := format(
+        E'Hola %s,\n\nTu postulación para el puesto de %s (folio %s) avanzó a la etapa de entrevista con Recursos Humanos.\n\nFecha: %s\nLugar: %s\n\nPuedes consultar el estatus de tu aplicación en cualquier momento con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+        v_app.full_name, v_app.position, v_app.folio, v_app.rh_at, v_app.rh_location
+      );
+    WHEN 'MANAGER_INTERVIEW_SCHEDULED' THEN
+      v_subject := format('Entrevista con el área solicitante - Folio %s', v_app.folio);
+      v_body := format(
+        E'Hola %s,\n\nTu postulación para el puesto de %s (folio %s) avanzó a la entrevista con el responsable del área.\n\nFecha: %s\nLugar: %s\n\nPuedes consultar el estatus de tu aplicación en cualquier momento con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+        v_app.full_name, v_app.position, v_app.folio, v_app.manager_at, v_app.manager_location
+      );
+    WHEN 'APPLICATION_ACCEPTED' THEN
+      v_subject := format('¡Felicidades! Has sido aceptado - Folio %s', v_app.folio);
+      v_body := format(
+        E'Hola %s,\n\nNos da gusto informarte que fuiste aceptado para el puesto de %s (folio %s).\n\nEl siguiente paso es subir tus documentos de contratación desde la página de estatus de tu aplicación.\n\nAtentamente,\nRecursos Humanos',
+        v_app.full_name, v_app.position, v_app.folio
+      );
+    WHEN 'APPLICATION_REJECTED' THEN
+      v_subject := format('Resultado de tu postulación - Folio %s', v_app.folio);
+      v_body := format(
+        E'Hola %s,\n\nGracias por tu interés en el puesto de %s (folio %s). Después de revisar tu postulación, en esta ocasión no continuarás en el proceso de selección.\n\nTe invitamos a postularte a futuras vacantes.\n\nAtentamente,\nRecursos Humanos',
+        v_app.full_name, v_app.position, v_app.folio
+      );
+    ELSE
+      RAISE EXCEPTION 'Unknown notification event: %', p_event;
+  END CASE;
+
+  RETURN jsonb_build_object('subject', v_subject, 'body', v_body);
+END;
+$$;
+
+-- Function to queue an email for the candidate of an application
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_application_id uuid,
+  p_event text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email text;
+  v_content jsonb;
+  v_id uuid;
+BEGIN
+  SELECT c.email INTO v_email
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  WHERE a.id = p_application_id;
+
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  v_content := build_notification_content(p_event, p_application_id);
+
+  INSERT INTO notification_outbox (application_id, event, to_email, subject, body)
+  VALUES (
+    p_application_id,
+    p_event,
+    v_email,
+    v_content->>'subject',
+    v_content->>'body'
+  ) RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Trigger function to queue notifications on status transitions and (re)scheduling
+CREATE OR REPLACE FUNCTION notify_application_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'EntrevistaConRH' THEN
+        PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+      WHEN 'EntrevistaConManager' THEN
+        PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+      WHEN 'Aceptado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_ACCEPTED');
+      WHEN 'Rechazado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_REJECTED');
+      ELSE
+        NULL;
+    END CASE;
+  ELSE
+    -- Interview scheduled or rescheduled without a status change
+    IF NEW.scheduled_rh_at IS NOT NULL AND (
+      NEW.scheduled_rh_at IS DISTINCT FROM OLD.scheduled_rh_at OR
+      NEW.scheduled_rh_location IS DISTINCT FROM OLD.scheduled_rh_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+    END IF;
+
+    IF NEW.scheduled_manager_at IS NOT NULL AND (
+      NEW.scheduled_manager_at IS DISTINCT FROM OLD.scheduled_manager_at OR
+      NEW.scheduled_manager_location IS DISTINCT FROM OLD.scheduled_manager_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_application_change_trigger ON applications;
+CREATE TRIGGER notify_application_change_trigger
+  AFTER UPDATE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_application_change();
+
+-- Function to claim a batch of due notifications (lease of 10 minutes per attempt). A lease that
+-- expires means the worker died mid-send; that counts as an attempt, so the row is not resent forever.
+CREATE OR REPLACE FUNCTION claim_notifications(
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_expired notification_outbox%ROWTYPE;
+BEGIN
+  FOR v_expired IN
+    UPDATE notification_outbox
+    SET status = 'FAILED',
+        last_error = 'Delivery lease expired'
+    WHERE id IN (
+      SELECT id FROM notification_outbox
+      WHERE status = 'SENDING'
+        AND next_attempt_at <= now()
+        AND attempts >= max_attempts
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  LOOP
+    INSERT INTO audit_log (application_id, action, note)
+    VALUES (
+      v_expired.application_id,
+      'NOTIFICATION_FAILED',
+      format('Email %s to %s failed (attempt %s of %s): delivery lease expired',
+        v_expired.event, v_expired.to_email, v_expired.attempts, v_expired.max_attempts)
+    );
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE notification_outbox n
+  SET
+    status = 'SENDING',
+    attempts = n.attempts + 1,
+    next_attempt_at = now() + interval '10 minutes'
+  WHERE n.id IN (
+    SELECT id FROM notification_outbox
+    WHERE status IN ('PENDING', 'SENDING')
+      AND next_attempt_at <= now()
+      AND attempts < max_attempts
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$;
+
+-- Function to record a successful delivery
+CREATE OR REPLACE FUNCTION mark_notification_sent(
+  p_notification_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_notification notification_outbox%ROWTYPE;
+BEGIN
+  UPDATE notification_outbox
+  SET status = 'SENT', sent_at = now(), last_error = NULL
+  WHERE id = p_notification_id
+  RETURNING * INTO v_notification;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification not found';
+  END IF;
+
+  INSERT INTO audit_log (application_id, action, note)
+  VALUES (
+    v_notification.application_id,
+    'NOTIFICATION_SENT',
+    format('Email %s sent to %s (attempt %s)',
+      v_notification.event, v_notification.to_email, v_notification.attempts)
+  );
+END;
+$$;
+
+-- Function to record a failed delivery and schedule a retry with exponential backoff
+CREATE OR REPLACE FUNCTION mark_notification_failed(
+  p_notification_id uuid,
+  p_error text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_notification notification_outbox%ROWTYPE;
+  v_final boolean;
+BEGIN
+  SELECT * INTO v_notification FROM notification_outbox WHERE id = p_notification_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification not found';
+  END IF;
+
+  v_final := v_notification.attempts >= v_notification.max_attempts;
+
+  UPDATE notification_outbox
+  SET
+    status = CASE WHEN v_final THEN 'FAILED' ELSE 'PENDING' END,
+    last_error = p_error,
+    next_attempt_at = now() + (power(2, v_notification.attempts) * interval '1 minute')
+  WHERE id = p_notification_id;
+
+  INSERT INTO audit_log (application_id, action, note)
+  VALUES (
+    v_notification.application_id,
+    CASE WHEN v_final THEN 'NOTIFICATION_FAILED' ELSE 'NOTIFICATION_RETRY' END,
+    format('Email %s to %s failed (attempt %s of %s): %s',
+      v_notification.event, v_notification.to_email,
+      v_notification.attempts, v_notification.max_attempts, p_error)
+  );
+END;
+$$;
+
+-- Worker API is only available to the notification-worker function
+REVOKE EXECUTE ON FUNCTION claim_notifications(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_notification_sent(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_notification_failed(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_notification(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION build_notification_content(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notifications(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_notification_sent(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_notification_failed(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION enqueue_notification(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION build_notification_content(text, uuid) TO service_role;
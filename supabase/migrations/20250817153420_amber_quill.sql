@@ -0,0 +1,551 @@
+/*
+  # Editable notification templates
+
+  1. New Tables
+    - `notification_templates` - Versioned subject/body per notification event
+      - `event` (APPLICATION_RECEIVED, RH_INTERVIEW_SCHEDULED, MANAGER_INTERVIEW_SCHEDULED,
+        APPLICATION_ACCEPTED, APPLICATION_REJECTED, AFTER_DOCS_REMINDER)
+      - `version` (integer, unique per event)
+      - `is_active` (only one active version per event)
+      - Placeholders: {{candidate_name}}, {{folio}}, {{position}}, {{scheduled_rh_at}},
+        {{scheduled_manager_at}}, {{location}}, {{pending_docs}}
+
+  2. Functions
+    - `render_notification_template` - Replace placeholders with values
+    - `build_notification_vars` - Placeholder values for an application event
+    - `build_notification_content` - Now renders the active template of the event
+    - `list_notification_templates` / `save_notification_template` /
+      `activate_notification_template` / `preview_notification_template` - RH management
+    - `finalize_application_doc_uploads` - Also queues APPLICATION_RECEIVED
+    - `enqueue_after_docs_reminders` - Queue reminders for accepted candidates with missing documents
+
+  3. Security
+    - RH can read templates; changes go through the RH-only functions
+
+  4. Auditing
+    - NOTIFICATION_TEMPLATE_SAVE and NOTIFICATION_TEMPLATE_ACTIVATE
+*/
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text NOT NULL CHECK (event IN (
+    'APPLICATION_RECEIVED',
+    'RH_INTERVIEW_SCHEDULED',
+    'MANAGER_INTERVIEW_SCHEDULED',
+    'APPLICATION_ACCEPTED',
+    'APPLICATION_REJECTED',
+    'AFTER_DOCS_REMINDER'
+  )),
+  version integer NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES staff_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_templates_active
+  ON notification_templates (event) WHERE is_active;
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_read_notification_templates" ON notification_templates
+  FOR SELECT TO authenticated
+  USING (is_rh_user());
+
+-- Initial templates (same wording the outbox used until now)
+INSERT INTO notification_templates (event, version, subject, body, is_active) VALUES
+(
+  'APPLICATION_RECEIVED', 1,
+  'Recibimos tu postulación - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nRecibimos tu postulación para el puesto de {{position}} con el folio {{folio}}. Nuestro equipo revisará tus documentos y te avisaremos cuando avances a la siguiente etapa.\n\nPuedes consultar el estatus de tu aplicación en cualquier momento con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'RH_INTERVIEW_SCHEDULED', 1,
+  'Entrevista con Recursos Humanos - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nTu postulación para el puesto de {{position}} (folio {{folio}}) avanzó a la etapa de entrevista con Recursos Humanos.\n\nFecha: {{scheduled_rh_at}}\nLugar: {{location}}\n\nPuedes consultar el estatus de tu aplicación en cualquier momento con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'MANAGER_INTERVIEW_SCHEDULED', 1,
+  'Entrevista con el área solicitante - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nTu postulación para el puesto de {{position}} (folio {{folio}}) avanzó a la entrevista con el responsable del área.\n\nFecha: {{scheduled_manager_at}}\nLugar: {{location}}\n\nPuedes consultar el estatus de tu aplicación en cualquier momento con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'APPLICATION_ACCEPTED', 1,
+  '¡Felicidades! Has sido aceptado - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nNos da gusto informarte que fuiste aceptado para el puesto de {{position}} (folio {{folio}}).\n\nEl siguiente paso es subir tus documentos de contratación desde la página de estatus de tu aplicación.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'APPLICATION_REJECTED', 1,
+  'Resultado de tu postulación - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nGracias por tu interés en el puesto de {{position}} (folio {{folio}}). Después de revisar tu postulación, en esta ocasión no continuarás en el proceso de selección.\n\nTe invitamos a postularte a futuras vacantes.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'AFTER_DOCS_REMINDER', 1,
+  'Documentos de contratación pendientes - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nTe recordamos que para continuar con tu contratación en el puesto de {{position}} (folio {{folio}}) aún falta que subas los siguientes documentos:\n\n{{pending_docs}}\n\nPuedes subirlos desde la página de estatus de tu aplicación con tu folio y correo electrónico.\n\nAtentamente,\nRecursos Humanos',
+  true
+)
+ON CONFLICT (event, version) DO NOTHING;
+
+-- Function to replace {{placeholders}} with their values (spaces inside the braces are allowed,
+-- as in save_notification_template)
+CREATE OR REPLACE FUNCTION render_notification_template(
+  p_template text,
+  p_vars jsonb
+)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_result text := p_template;
+  v_key text;
+  v_value text;
+BEGIN
+  FOR v_key, v_value IN SELECT key, value FROM jsonb_each_text(p_vars) LOOP
+    -- Backslashes in the value would be read as back-references by regexp_replace
+    v_result := regexp_replace(
+      v_result,
+      '\{\{\s*' || v_key || '\s*\}\}',
+      replace(COALESCE(v_value, ''), '\', '\\'),
+      'g'
+    );
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to collect the placeholder values of an application event
+CREATE OR REPLACE FUNCTION build_notification_vars(
+  p_event text,
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_app record;
+  v_pending_docs text;
+BEGIN
+  SELECT
+    a.folio,
+    a.vacancy_id,
+    c.full_name,
+    v.position,
+    to_char(a.scheduled_rh_at AT TIME ZONE 'America/Mexico_City', 'DD/MM/YYYY HH24:MI') AS rh_at,
+    a.scheduled_rh_location AS rh_location,
+    to_char(a.scheduled_manager_at AT TIME ZONE 'America/Mexico_City', 'DD/MM/YYYY HH24:MI') AS manager_at,
+    a.scheduled_manager_location AS manager_location
+  INTO v_app
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE a.id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Hiring documents required by the vacancy that were not uploaded yet
+  SELECT string_agg('- ' || vrd.doc::text, E'\n' ORDER BY vrd.doc)
+  INTO v_pending_docs
+  FROM vacancy_required_docs vrd
+  WHERE vrd.vacancy_id = v_app.vacancy_id
+    AND vrd.phase = 'DESPUES'
+    AND NOT EXISTS (
+      SELECT 1 FROM application_docs ad
+      WHERE ad.application_id = p_application_id
+        AND ad.phase = 'DESPUES'
+        AND ad.doc = vrd.doc
+    );
+
+  RETURN jsonb_build_object(
+    'candidate_name', v_app.full_name,
+    'folio', v_app.folio,
+    'position', v_app.position,
+    'scheduled_rh_at', COALESCE(v_app.rh_at, ''),
+    'scheduled_manager_at', COALESCE(v_app.manager_at, ''),
+    'location', COALESCE(
+      CASE WHEN p_event = 'MANAGER_INTERVIEW_SCHEDULED'
+        THEN v_app.manager_location
+        ELSE v_app.rh_location
+      END, ''),
+    'pending_docs', COALESCE(v_pending_docs, '')
+  );
+END;
+$$;
+
+-- Function to build the email content for an application event from its active template
+CREATE OR REPLACE FUNCTION build_notification_content(
+  p_event text,
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template notification_templates%ROWTYPE;
+  v_vars jsonb;
+BEGIN
+  SELECT * INTO v_template
+  FROM notification_templates
+  WHERE event = p_event AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown notification event: %', p_event;
+  END IF;
+
+  v_vars := build_notification_vars(p_event, p_application_id);
+
+  RETURN jsonb_build_object(
+    'subject', render_notification_template(v_template.subject, v_vars),
+    'body', render_notification_template(v_template.body, v_vars),
+    'template_version', v_template.version
+  );
+END;
+$$;
+
+-- Function to list every template version grouped by event
+CREATE OR REPLACE FUNCTION list_notification_templates()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'event', e.event,
+      'versions', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', nt.id,
+            'event', nt.event,
+            'version', nt.version,
+            'subject', nt.subject,
+            'body', nt.body,
+            'is_active', nt.is_active,
+            'created_by_name', su.full_name,
+            'created_at', nt.created_at
+          ) ORDER BY nt.version DESC
+        )
+        FROM notification_templates nt
+        LEFT JOIN staff_users su ON su.id = nt.created_by
+        WHERE nt.event = e.event
+      )
+    ) ORDER BY e.event
+  ), '[]'::jsonb) INTO v_result
+  FROM (SELECT DISTINCT event FROM notification_templates) e;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to save a new template version for an event
+CREATE OR REPLACE FUNCTION save_notification_template(
+  p_event text,
+  p_subject text,
+  p_body text,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_version integer;
+  v_template_id uuid;
+  v_unknown text;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM notification_templates WHERE event = p_event) THEN
+    RAISE EXCEPTION 'Unknown notification event: %', p_event;
+  END IF;
+
+  IF COALESCE(trim(p_subject), '') = '' OR COALESCE(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Subject and body are required';
+  END IF;
+
+  -- Reject placeholders that would be sent to candidates unreplaced
+  SELECT string_agg(DISTINCT m[1], ', ') INTO v_unknown
+  FROM regexp_matches(p_subject || ' ' || p_body, '\{\{\s*([^}]*?)\s*\}\}', 'g') AS m
+  WHERE m[1] NOT IN (
+    'candidate_name', 'folio', 'position', 'scheduled_rh_at',
+    'scheduled_manager_at', 'location', 'pending_docs'
+  );
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown placeholders: %', v_unknown;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM notification_templates
+  WHERE event = p_event;
+
+  IF p_activate THEN
+    UPDATE notification_templates SET is_active = false
+    WHERE event = p_event AND is_active;
+  END IF;
+
+  INSERT INTO notification_templates (event, version, subject, body, is_active, created_by)
+  VALUES (p_event, v_version, p_subject, p_body, p_activate, auth.uid())
+  RETURNING id INTO v_template_id;
+
+  PERFORM log_staff_action(
+    'NOTIFICATION_TEMPLATE_SAVE',
+    format('Template %s v%s saved%s', p_event, v_version, CASE WHEN p_activate THEN ' and activated' ELSE '' END)
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_template_id,
+    'event', p_event,
+    'version', v_version,
+    'is_active', p_activate
+  );
+END;
+$$;
+
+-- Function to make a stored template version the active one (also used to roll back)
+CREATE OR REPLACE FUNCTION activate_notification_template(
+  p_template_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template notification_templates%ROWTYPE;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT * INTO v_template FROM notification_templates WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  UPDATE notification_templates SET is_active = false
+  WHERE event = v_template.event AND is_active AND id != p_template_id;
+
+  UPDATE notification_templates SET is_active = true
+  WHERE id = p_template_id;
+
+  PERFORM log_staff_action(
+    'NOTIFICATION_TEMPLATE_ACTIVATE',
+    format('Template %s v%s activated', v_template.event, v_template.version)
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_template.id,
+    'event', v_template.event,
+    'version', v_template.version,
+    'is_active', true
+  );
+END;
+$$;
+
+-- Function to render a draft template with sample data
+CREATE OR REPLACE FUNCTION preview_notification_template(
+  p_event text,
+  p_subject text,
+  p_body text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vars jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  v_vars := jsonb_build_object(
+    'candidate_name', 'María Fernanda López',
+    'folio', 'VAC-2025-000123',
+    'position', 'Operador de Almacén',
+    'scheduled_rh_at', '25/08/2025 10:00',
+    'scheduled_manager_at', '28/08/2025 12:30',
+    'location', CASE WHEN p_event = 'MANAGER_INTERVIEW_SCHEDULED'
+      THEN 'Planta Norte, oficina de Operaciones'
+      ELSE 'Oficinas Centrales, Sala de Recursos Humanos'
+    END,
+    'pending_docs', E'- ACTA_NACIMIENTO\n- COMPROBANTE_DOMICILIO'
+  );
+
+  RETURN jsonb_build_object(
+    'subject', render_notification_template(COALESCE(p_subject, ''), v_vars),
+    'body', render_notification_template(COALESCE(p_body, ''), v_vars),
+    'sample', v_vars
+  );
+END;
+$$;
+
+-- Function to register the stored documents of a new application
+CREATE OR REPLACE FUNCTION finalize_application_doc_uploads(
+  p_application_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_upload_record temp_doc_uploads%ROWTYPE;
+  v_docs jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM applications WHERE id = p_application_id) THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Log application creation
+  INSERT INTO audit_log (
+    application_id,
+    action,
+    to_status,
+    note
+  ) VALUES (
+    p_application_id,
+    'APPLICATION_CREATE',
+    'RevisionDeDocumentos',
+    'Application created via public site'
+  );
+
+  FOR v_upload_record IN
+    SELECT * FROM temp_doc_uploads
+    WHERE application_id = p_application_id AND phase = 'NECESARIO'
+    ORDER BY doc
+  LOOP
+    INSERT INTO application_docs (
+      application_id,
+      doc,
+      phase,
+      url,
+      version
+    ) VALUES (
+      p_application_id,
+      v_upload_record.doc,
+      'NECESARIO',
+      format('applications/%s/%s/v%s/%s',
+        v_upload_record.application_id,
+        v_upload_record.doc,
+        v_upload_record.expected_version,
+        v_upload_record.filename
+      ),
+      v_upload_record.expected_version
+    );
+
+    -- Log document upload
+    INSERT INTO audit_log (
+      application_id,
+      action,
+      note
+    ) VALUES (
+      p_application_id,
+      'DOC_UPLOAD',
+      'Document uploaded: ' || v_upload_record.doc
+    );
+
+    v_docs := v_docs || jsonb_build_object(
+      'doc', v_upload_record.doc,
+      'version', v_upload_record.expected_version
+    );
+  END LOOP;
+
+  -- Clean up temp records
+  DELETE FROM temp_doc_uploads
+  WHERE application_id = p_application_id AND phase = 'NECESARIO';
+
+  -- Confirm receipt to the candidate
+  PERFORM enqueue_notification(p_application_id, 'APPLICATION_RECEIVED');
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'documents', v_docs
+  );
+END;
+$$;
+
+-- Function to queue reminders for accepted candidates that still owe hiring documents
+CREATE OR REPLACE FUNCTION enqueue_after_docs_reminders(
+  p_min_interval interval DEFAULT interval '3 days'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_application_id uuid;
+  v_count integer := 0;
+BEGIN
+  -- Scheduler (service role) or RH only
+  IF auth.uid() IS NOT NULL AND NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  FOR v_application_id IN
+    SELECT a.id
+    FROM applications a
+    WHERE a.status = 'Aceptado'
+      AND EXISTS (
+        SELECT 1 FROM vacancy_required_docs vrd
+        WHERE vrd.vacancy_id = a.vacancy_id
+          AND vrd.phase = 'DESPUES'
+          AND NOT EXISTS (
+            SELECT 1 FROM application_docs ad
+            WHERE ad.application_id = a.id
+              AND ad.phase = 'DESPUES'
+              AND ad.doc = vrd.doc
+          )
+      )
+      -- Give the candidate time since the acceptance email or the last reminder
+      AND NOT EXISTS (
+        SELECT 1 FROM notification_outbox o
+        WHERE o.application_id = a.id
+          AND o.event IN ('APPLICATION_ACCEPTED', 'AFTER_DOCS_REMINDER')
+          AND o.created_at > now() - p_min_interval
+      )
+  LOOP
+    PERFORM enqueue_notification(v_application_id, 'AFTER_DOCS_REMINDER');
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION build_notification_vars(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION build_notification_content(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_after_docs_reminders(interval) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION build_notification_vars(text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION build_notification_content(text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION enqueue_after_docs_reminders(interval) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION list_notification_templates() TO authenticated;
+GRANT EXECUTE ON FUNCTION save_notification_template(text, text, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_notification_template(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_notification_template(text, text, text) TO authenticated;
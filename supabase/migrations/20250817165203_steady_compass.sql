@@ -0,0 +1,335 @@
+/*
+  # Rejection reasons catalog
+
+  1. New Tables
+    - `rejection_reasons` - Catalog of reasons managed by RH
+      - `code` (text, primary key, e.g. DOCUMENTOS_INCOMPLETOS)
+      - `label` (Spanish label shown to staff)
+      - `description`, `ord`, `is_active`
+
+  2. Changes
+    - `applications.rejection_reason_code` / `rejection_note` - Reason of the rejection
+    - `audit_log.reason_code` - Reason attached to the STATUS_CHANGE entry
+
+  3. Materialized Views
+    - `mv_rejections_by_reason` - Rejection counts per vacancy and reason
+
+  4. Functions
+    - `finalize_reject` - Now requires an active reason code (optional note)
+    - `save_rejection_reason` - Create or update a catalog entry (RH)
+    - `get_rh_dashboard_summary` - Adds `rejections_by_reason`
+    - `refresh_dashboard_views` - Also refreshes `mv_rejections_by_reason`
+
+  5. Security
+    - Staff can read the catalog; only RH can change it
+*/
+
+CREATE TABLE IF NOT EXISTS rejection_reasons (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z0-9_]+$'),
+  label text NOT NULL,
+  description text,
+  ord integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE rejection_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "staff_read_rejection_reasons" ON rejection_reasons
+  FOR SELECT TO authenticated
+  USING (is_rh_user() OR is_manager_user());
+
+INSERT INTO rejection_reasons (code, label, description, ord) VALUES
+  ('DOCUMENTOS_INCOMPLETOS', 'Documentos incompletos', 'No entregó o no corrigió la documentación requerida', 1),
+  ('NO_APROBO_ENTREVISTA_RH', 'No aprobó entrevista con RH', 'Resultado desfavorable en la entrevista con Recursos Humanos', 2),
+  ('NO_APROBO_ENTREVISTA_MANAGER', 'No aprobó entrevista con el área', 'Resultado desfavorable en la entrevista con el responsable del área', 3),
+  ('PERFIL_NO_CORRESPONDE', 'Perfil no corresponde', 'La experiencia o formación no corresponde al puesto', 4),
+  ('NO_SE_PRESENTO', 'No se presentó', 'No asistió a la entrevista agendada', 5),
+  ('EVALUACION_DESFAVORABLE', 'Evaluación final desfavorable', 'Calificación insuficiente en la evaluación final', 6),
+  ('OTRO', 'Otro', 'Especificar en la nota del rechazo', 99)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS rejection_reason_code text REFERENCES rejection_reasons(code),
+  ADD COLUMN IF NOT EXISTS rejection_note text;
+
+ALTER TABLE audit_log
+  ADD COLUMN IF NOT EXISTS reason_code text;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS mv_rejections_by_reason AS
+SELECT
+  v.id as vacancy_id,
+  v.position,
+  a.rejection_reason_code as reason_code,
+  COUNT(*) as rejected
+FROM applications a
+JOIN vacancies v ON v.id = a.vacancy_id
+WHERE a.status = 'Rechazado'
+GROUP BY v.id, v.position, a.rejection_reason_code;
+
+-- Replace the single-argument version
+DROP FUNCTION IF EXISTS finalize_reject(uuid);
+
+CREATE OR REPLACE FUNCTION finalize_reject(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  result jsonb;
+  old_status text;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Store old status for audit
+  old_status := app_record.status;
+
+  -- Validate not already finalized
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  -- Perform transition (allowed from any non-final state)
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    old_status::application_status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_FINALIZE_REJECT',
+    p_reason_code,
+    'Candidate rejected from status: ' || old_status
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'reason_code', p_reason_code
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- Function to create or update a rejection reason
+CREATE OR REPLACE FUNCTION save_rejection_reason(
+  p_code text,
+  p_label text,
+  p_description text DEFAULT NULL,
+  p_ord integer DEFAULT NULL,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code text;
+  v_reason rejection_reasons%ROWTYPE;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  v_code := upper(trim(p_code));
+
+  IF v_code IS NULL OR v_code !~ '^[A-Z0-9_]+$' THEN
+    RAISE EXCEPTION 'Reason code must contain only letters, numbers and underscores';
+  END IF;
+
+  IF COALESCE(trim(p_label), '') = '' THEN
+    RAISE EXCEPTION 'Reason label is required';
+  END IF;
+
+  INSERT INTO rejection_reasons (code, label, description, ord, is_active)
+  VALUES (
+    v_code,
+    trim(p_label),
+    NULLIF(trim(p_description), ''),
+    COALESCE(p_ord, (SELECT COALESCE(MAX(ord), 0) + 1 FROM rejection_reasons WHERE code != 'OTRO')),
+    p_is_active
+  )
+  ON CONFLICT (code) DO UPDATE SET
+    label = EXCLUDED.label,
+    description = EXCLUDED.description,
+    ord = COALESCE(p_ord, rejection_reasons.ord),
+    is_active = EXCLUDED.is_active
+  RETURNING * INTO v_reason;
+
+  PERFORM log_staff_action(
+    'REJECTION_REASON_SAVE',
+    format('Rejection reason %s saved (%s)', v_code, CASE WHEN p_is_active THEN 'active' ELSE 'inactive' END)
+  );
+
+  RETURN to_jsonb(v_reason);
+END;
+$$;
+
+-- Function to get dashboard summary
+CREATE OR REPLACE FUNCTION get_rh_dashboard_summary(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  active_vacancies_count int;
+  applications_total_count int;
+  applications_by_status_data jsonb;
+  avg_time_data jsonb;
+  accept_reject_data jsonb;
+  rejections_by_reason_data jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get active vacancies count
+  SELECT COUNT(*) INTO active_vacancies_count
+  FROM vacancies
+  WHERE is_active = true;
+
+  -- Get applications total (with date filter if provided)
+  SELECT COUNT(*) INTO applications_total_count
+  FROM applications a
+  WHERE (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to);
+
+  -- Get applications by status (with date filter if provided)
+  SELECT jsonb_object_agg(status, count) INTO applications_by_status_data
+  FROM (
+    SELECT
+      a.status,
+      COUNT(*) as count
+    FROM applications a
+    WHERE (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at <= p_to)
+    GROUP BY a.status
+  ) t;
+
+  -- Get average time by stage from materialized view
+  SELECT jsonb_object_agg(transition, ROUND(avg_hours::numeric, 1)) INTO avg_time_data
+  FROM mv_avg_time_by_stage
+  WHERE avg_hours IS NOT NULL;
+
+  -- Get accept/reject rates by vacancy
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', vacancy_id,
+      'position', position,
+      'accepted', accepted,
+      'rejected', rejected,
+      'total', total
+    )
+  ) INTO accept_reject_data
+  FROM mv_accept_reject_by_vacancy
+  WHERE total > 0;
+
+  -- Get rejections by reason per vacancy (rejections before the catalog have no reason)
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', m.vacancy_id,
+      'position', m.position,
+      'reason_code', m.reason_code,
+      'reason_label', COALESCE(r.label, 'Sin motivo registrado'),
+      'rejected', m.rejected
+    ) ORDER BY m.position, m.rejected DESC
+  ) INTO rejections_by_reason_data
+  FROM mv_rejections_by_reason m
+  LEFT JOIN rejection_reasons r ON r.code = m.reason_code;
+
+  -- Build result
+  result := jsonb_build_object(
+    'active_vacancies', active_vacancies_count,
+    'applications_total', applications_total_count,
+    'applications_by_status', COALESCE(applications_by_status_data, '{}'::jsonb),
+    'avg_time_by_stage_hours', COALESCE(avg_time_data, '{}'::jsonb),
+    'accept_reject_rate_by_vacancy', COALESCE(accept_reject_data, '[]'::jsonb),
+    'rejections_by_reason', COALESCE(rejections_by_reason_data, '[]'::jsonb)
+  );
+
+  -- Log dashboard view
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_VIEW', 'Dashboard summary accessed');
+
+  RETURN result;
+END;
+$$;
+
+-- Function to refresh dashboard materialized views
+CREATE OR REPLACE FUNCTION refresh_dashboard_views()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Refresh all materialized views
+  REFRESH MATERIALIZED VIEW mv_applications_by_status;
+  REFRESH MATERIALIZED VIEW mv_avg_time_by_stage;
+  REFRESH MATERIALIZED VIEW mv_accept_reject_by_vacancy;
+  REFRESH MATERIALIZED VIEW mv_rejections_by_reason;
+
+  -- Log refresh action
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_REFRESH', 'Dashboard views refreshed');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finalize_reject(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_rejection_reason(text, text, text, integer, boolean) TO authenticated;
@@ -0,0 +1,109 @@
+/*
+  # Early rejection from any pipeline stage
+
+  1. Functions
+    - `reject_application` - Transition to Rechazado from RevisionDeDocumentos,
+      EntrevistaConRH, EntrevistaConManager (RH and the vacancy manager) or
+      Evaluando (RH only), with a required catalog reason
+
+  2. Security
+    - Goes through the `in_transition` flag, so `prevent_direct_status_change` still applies
+    - Managers can only reject applications of their own vacancies
+
+  3. Auditing
+    - STATUS_CHANGE with from/to status and reason code
+    - APPLICATION_EARLY_REJECT with the actor role
+*/
+
+CREATE OR REPLACE FUNCTION reject_application(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  v_is_rh boolean;
+  v_actor_role text;
+BEGIN
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if user is RH or the manager of the vacancy
+  v_is_rh := is_rh_user();
+
+  IF NOT v_is_rh AND NOT is_manager_of_vacancy(app_record.vacancy_id) THEN
+    RAISE EXCEPTION 'Access denied. RH role or vacancy manager required.';
+  END IF;
+
+  v_actor_role := CASE WHEN v_is_rh THEN 'RH' ELSE 'MANAGER' END;
+
+  -- Validate current status
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  IF app_record.status = 'Evaluando' AND NOT v_is_rh THEN
+    RAISE EXCEPTION 'Only RH can reject applications under evaluation';
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    app_record.status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'APPLICATION_EARLY_REJECT',
+    p_reason_code,
+    format('Rejected by %s from status: %s', v_actor_role, app_record.status)
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'from_status', app_record.status,
+    'reason_code', p_reason_code
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reject_application(uuid, text, text) TO authenticated;
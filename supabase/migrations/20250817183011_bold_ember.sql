@@ -0,0 +1,9 @@
+/*
+  # Withdrawn application status
+
+  1. Changes
+    - New terminal value `Retirado` in `application_status` for candidates that withdraw
+      (kept in its own migration so the value is committed before it is used)
+*/
+
+ALTER TYPE application_status ADD VALUE IF NOT EXISTS 'Retirado';
@@ -0,0 +1,391 @@
+/*
+  # Candidate withdrawal
+
+  1. Changes
+    - `applications.withdrawn_at`, `withdrawn_from_status`, `withdrawal_reason`
+    - `audit_log.actor_candidate_id` - Candidate that performed a public action
+    - `notification_templates` accepts the APPLICATION_WITHDRAWN event (sent to RH)
+    - `mv_applications_by_status` lists every status, including `Retirado`
+
+  2. Functions
+    - `withdraw_application` - Public withdrawal authenticated by folio + email
+    - `build_timeline` - Shows `Retirado` as final step and keeps the steps reached before it
+    - `get_application_status` - Returns `can_withdraw` and `withdrawn_at`
+    - `enqueue_staff_notification` - Queue an email for every active RH user
+    - `notify_application_change` - Notifies RH when a candidate withdraws
+    - `prevent_direct_status_change` - `Retirado` is terminal for every transition
+
+  3. Auditing
+    - STATUS_CHANGE with from/to status and the candidate as actor
+*/
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS withdrawn_at timestamptz,
+  ADD COLUMN IF NOT EXISTS withdrawn_from_status application_status,
+  ADD COLUMN IF NOT EXISTS withdrawal_reason text;
+
+ALTER TABLE audit_log
+  ADD COLUMN IF NOT EXISTS actor_candidate_id uuid REFERENCES candidates(id) ON DELETE SET NULL;
+
+-- Withdrawal notice for RH
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_event_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_event_check CHECK (event IN (
+  'APPLICATION_RECEIVED',
+  'RH_INTERVIEW_SCHEDULED',
+  'MANAGER_INTERVIEW_SCHEDULED',
+  'APPLICATION_ACCEPTED',
+  'APPLICATION_REJECTED',
+  'AFTER_DOCS_REMINDER',
+  'APPLICATION_WITHDRAWN'
+));
+
+INSERT INTO notification_templates (event, version, subject, body, is_active) VALUES
+(
+  'APPLICATION_WITHDRAWN', 1,
+  'Postulación retirada por el candidato - Folio {{folio}}',
+  E'El candidato {{candidate_name}} retiró su postulación para el puesto de {{position}} (folio {{folio}}).\n\nLa aplicación quedó en estatus Retirado y ya no requiere seguimiento.',
+  true
+)
+ON CONFLICT (event, version) DO NOTHING;
+
+-- Every status appears in the dashboard view, even with no applications
+DROP MATERIALIZED VIEW IF EXISTS mv_applications_by_status;
+CREATE MATERIALIZED VIEW mv_applications_by_status AS
+SELECT
+  s.status,
+  COUNT(a.id) as count
+FROM unnest(enum_range(NULL::application_status)) AS s(status)
+LEFT JOIN applications a ON a.status = s.status
+GROUP BY s.status;
+
+-- Controlled transitions only; withdrawn applications cannot move anymore
+CREATE OR REPLACE FUNCTION prevent_direct_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'Retirado' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Application was withdrawn by the candidate';
+  END IF;
+
+  -- Allow if in_transition flag is set (controlled transition)
+  IF NEW.in_transition = true THEN
+    NEW.in_transition = false; -- Reset flag
+    RETURN NEW;
+  END IF;
+
+  -- Allow if status hasn't changed
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Prevent direct status changes
+  RAISE EXCEPTION 'Direct status changes not allowed. Use transition functions.';
+END;
+$$;
+
+-- Function to queue an email for every active RH user
+CREATE OR REPLACE FUNCTION enqueue_staff_notification(
+  p_application_id uuid,
+  p_event text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_content jsonb;
+  v_count integer;
+BEGIN
+  v_content := build_notification_content(p_event, p_application_id);
+
+  INSERT INTO notification_outbox (application_id, event, to_email, subject, body)
+  SELECT
+    p_application_id,
+    p_event,
+    s.email,
+    v_content->>'subject',
+    v_content->>'body'
+  FROM staff_users s
+  WHERE s.role = 'RH' AND s.active = true;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Trigger function to queue notifications on status transitions and (re)scheduling
+CREATE OR REPLACE FUNCTION notify_application_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'EntrevistaConRH' THEN
+        PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+      WHEN 'EntrevistaConManager' THEN
+        PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+      WHEN 'Aceptado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_ACCEPTED');
+      WHEN 'Rechazado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_REJECTED');
+      WHEN 'Retirado' THEN
+        PERFORM enqueue_staff_notification(NEW.id, 'APPLICATION_WITHDRAWN');
+      ELSE
+        NULL;
+    END CASE;
+  ELSE
+    -- Interview scheduled or rescheduled without a status change
+    IF NEW.scheduled_rh_at IS NOT NULL AND (
+      NEW.scheduled_rh_at IS DISTINCT FROM OLD.scheduled_rh_at OR
+      NEW.scheduled_rh_location IS DISTINCT FROM OLD.scheduled_rh_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+    END IF;
+
+    IF NEW.scheduled_manager_at IS NOT NULL AND (
+      NEW.scheduled_manager_at IS DISTINCT FROM OLD.scheduled_manager_at OR
+      NEW.scheduled_manager_location IS DISTINCT FROM OLD.scheduled_manager_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Timeline now needs to know where a withdrawn application stopped
+DROP FUNCTION IF EXISTS build_timeline(application_status);
+
+CREATE OR REPLACE FUNCTION build_timeline(
+  current_status application_status,
+  withdrawn_from application_status DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  timeline jsonb := '[]'::jsonb;
+  steps text[] := ARRAY['RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager', 'Evaluando'];
+  step text;
+  step_index int := 0;
+  progress_index int;
+  final_status text := null;
+BEGIN
+  -- Determine final status
+  IF current_status::text IN ('Aceptado', 'Rechazado', 'Retirado') THEN
+    final_status := current_status::text;
+  END IF;
+
+  -- Last step reached (accepted and rejected applications went through every step)
+  IF current_status = 'Retirado' THEN
+    progress_index := COALESCE(array_position(steps, withdrawn_from::text), 1);
+  ELSIF final_status IS NOT NULL THEN
+    progress_index := array_length(steps, 1);
+  ELSE
+    progress_index := array_position(steps, current_status::text);
+  END IF;
+
+  -- Build timeline for each step
+  FOREACH step IN ARRAY steps
+  LOOP
+    step_index := step_index + 1;
+
+    timeline := timeline || jsonb_build_object(
+      'step', step,
+      'reached', step_index <= progress_index,
+      'current', step = current_status::text
+    );
+  END LOOP;
+
+  -- Add final step
+  timeline := timeline || jsonb_build_object(
+    'step', 'Final',
+    'reached', final_status IS NOT NULL,
+    'current', final_status IS NOT NULL,
+    'value', final_status
+  );
+
+  RETURN timeline;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Main function to get application status
+CREATE OR REPLACE FUNCTION get_application_status(p_folio text, p_email text)
+RETURNS jsonb AS $$
+DECLARE
+  app_record record;
+  vacancy_record record;
+  timeline jsonb;
+  schedules jsonb := '{}'::jsonb;
+  docs jsonb;
+  result jsonb;
+  normalized_email text;
+BEGIN
+  -- Normalize email to lowercase
+  normalized_email := lower(trim(p_email));
+
+  -- Find application with matching folio and email
+  SELECT a.*, c.email as candidate_email, c.full_name
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = normalized_email;
+
+  -- If no match found, return generic error (avoid enumeration)
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'error', 'No se encontró una aplicación con esa combinación de folio y correo electrónico.'
+    );
+  END IF;
+
+  -- Get vacancy information
+  SELECT id, position, type
+  INTO vacancy_record
+  FROM vacancies
+  WHERE id = app_record.vacancy_id;
+
+  -- Build timeline
+  timeline := build_timeline(app_record.status, app_record.withdrawn_from_status);
+
+  -- Build schedules object
+  IF app_record.scheduled_rh_at IS NOT NULL THEN
+    schedules := schedules || jsonb_build_object(
+      'rh', jsonb_build_object(
+        'at', app_record.scheduled_rh_at,
+        'location', app_record.scheduled_rh_location
+      )
+    );
+  END IF;
+
+  IF app_record.scheduled_manager_at IS NOT NULL THEN
+    schedules := schedules || jsonb_build_object(
+      'manager', jsonb_build_object(
+        'at', app_record.scheduled_manager_at,
+        'location', app_record.scheduled_manager_location
+      )
+    );
+  END IF;
+
+  -- Get document progress
+  docs := get_document_progress(app_record.id, app_record.vacancy_id);
+
+  -- Update can_upload flag for "despues" documents if status is Aceptado
+  IF app_record.status = 'Aceptado' THEN
+    docs := jsonb_set(docs, '{despues,can_upload}', 'true'::jsonb);
+  END IF;
+
+  -- Build final result
+  result := jsonb_build_object(
+    'folio', app_record.folio,
+    'vacancy', jsonb_build_object(
+      'id', vacancy_record.id,
+      'position', vacancy_record.position,
+      'type', vacancy_record.type
+    ),
+    'status', app_record.status,
+    'timeline', timeline,
+    'schedules', schedules,
+    'docs', docs,
+    'can_withdraw', app_record.status::text NOT IN ('Aceptado', 'Rechazado', 'Retirado'),
+    'withdrawn_at', app_record.withdrawn_at
+  );
+
+  -- Log the status query for auditing
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    NULL, -- No staff user for public queries
+    app_record.id,
+    'STATUS_QUERY',
+    jsonb_build_object(
+      'folio', p_folio,
+      'email_hash', encode(digest(normalized_email, 'sha256'), 'hex'),
+      'source', 'public_status_page'
+    )::text,
+    now()
+  );
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for a candidate to withdraw an application (folio + email)
+CREATE OR REPLACE FUNCTION withdraw_application(
+  p_folio text,
+  p_email text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record record;
+  normalized_email text;
+BEGIN
+  normalized_email := lower(trim(p_email));
+
+  SELECT a.id, a.status, a.candidate_id, c.full_name
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = normalized_email
+  FOR UPDATE OF a;
+
+  -- Same generic error as the status query (avoid enumeration)
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No se encontró una aplicación con esa combinación de folio y correo electrónico.';
+  END IF;
+
+  IF app_record.status::text IN ('Aceptado', 'Rechazado', 'Retirado') THEN
+    RAISE EXCEPTION 'La aplicación ya no puede retirarse (estatus: %)', app_record.status;
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'Retirado',
+    withdrawn_at = now(),
+    withdrawn_from_status = app_record.status,
+    withdrawal_reason = NULLIF(trim(p_reason), ''),
+    in_transition = true
+  WHERE id = app_record.id;
+
+  -- Log audit with the candidate as actor
+  INSERT INTO audit_log (actor_candidate_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    app_record.candidate_id,
+    app_record.id,
+    'STATUS_CHANGE',
+    app_record.status,
+    'Retirado',
+    jsonb_build_object(
+      'withdrawn_by', 'candidate',
+      'candidate_name', app_record.full_name,
+      'email_hash', encode(digest(normalized_email, 'sha256'), 'hex'),
+      'reason', NULLIF(trim(p_reason), ''),
+      'source', 'public_status_page'
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'folio', p_folio,
+    'status', 'Retirado'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_staff_notification(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_staff_notification(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION build_timeline(application_status, application_status) TO anon;
+GRANT EXECUTE ON FUNCTION get_application_status(text, text) TO anon;
+GRANT EXECUTE ON FUNCTION withdraw_application(text, text, text) TO anon;
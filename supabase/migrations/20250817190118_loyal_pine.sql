@@ -0,0 +1,10 @@
+/*
+  # Talent pool application status
+
+  1. Changes
+    - New final value `BolsaDeTalento` in `application_status` for strong candidates
+      that were not hired but are kept for other vacancies
+      (kept in its own migration so the value is committed before it is used)
+*/
+
+ALTER TYPE application_status ADD VALUE IF NOT EXISTS 'BolsaDeTalento';
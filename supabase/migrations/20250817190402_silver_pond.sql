@@ -0,0 +1,788 @@
+/*
+  # Talent pool and re-routing to other vacancies
+
+  1. Changes
+    - `applications.pooled_at`, `pool_note` - When and why RH kept the candidate in the pool
+    - `applications.rerouted_from_application_id` - Pooled application a new one was created from
+    - `carried_evaluations` - Snapshot of the interviews and final evaluation of the
+      application(s) a re-routed application comes from
+    - `notification_templates` accepts the APPLICATION_POOLED event (sent to the candidate)
+    - Pooled candidates can still withdraw from the status page (leaving the pool)
+
+  2. Functions
+    - `finalize_talent_pool` - Evaluando -> BolsaDeTalento (RH only, complete evaluation required)
+    - `search_talent_pool` - Paginated pool search by vacancy type and evaluation total
+    - `reroute_application` - Create a new application for another active vacancy from a
+      pooled one, copying its documents and evaluation history
+    - `build_timeline` - Shows `BolsaDeTalento` as final step
+    - `reject_application` - Pooled applications can only be rejected by RH
+    - `get_evaluation_context` - Includes the carried evaluations
+    - `notify_application_change` - Notifies the candidate when pooled
+
+  3. Security
+    - RH only; `carried_evaluations` is readable by RH and the manager of the application
+
+  4. Auditing
+    - STATUS_CHANGE and EVALUATION_FINALIZE_POOL when pooling
+    - APPLICATION_REROUTE on both the pooled and the new application
+*/
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS pooled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS pool_note text,
+  ADD COLUMN IF NOT EXISTS rerouted_from_application_id uuid REFERENCES applications(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_applications_rerouted_from
+  ON applications (rerouted_from_application_id)
+  WHERE rerouted_from_application_id IS NOT NULL;
+
+-- Evaluation history carried over to re-routed applications
+CREATE TABLE IF NOT EXISTS carried_evaluations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  source_application_id uuid REFERENCES applications(id) ON DELETE SET NULL,
+  source_folio text NOT NULL,
+  source_position text NOT NULL,
+  source_status application_status NOT NULL,
+  interview_rh jsonb,
+  interview_manager jsonb,
+  scores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  summary jsonb,
+  evaluation_total smallint,
+  carried_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_carried_evaluations_application
+  ON carried_evaluations (application_id, carried_at);
+
+ALTER TABLE carried_evaluations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_or_manager_read_carried_evaluations"
+  ON carried_evaluations
+  FOR SELECT
+  TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+-- Talent pool notice for the candidate
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_event_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_event_check CHECK (event IN (
+  'APPLICATION_RECEIVED',
+  'RH_INTERVIEW_SCHEDULED',
+  'MANAGER_INTERVIEW_SCHEDULED',
+  'APPLICATION_ACCEPTED',
+  'APPLICATION_REJECTED',
+  'AFTER_DOCS_REMINDER',
+  'APPLICATION_WITHDRAWN',
+  'APPLICATION_POOLED'
+));
+
+INSERT INTO notification_templates (event, version, subject, body, is_active) VALUES
+(
+  'APPLICATION_POOLED', 1,
+  'Formas parte de nuestra bolsa de talento - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nGracias por participar en el proceso para el puesto de {{position}} (folio {{folio}}). Aunque la vacante ya fue cubierta, tu perfil nos pareció muy valioso y lo conservaremos en nuestra bolsa de talento.\n\nSi se abre una vacante acorde a tu perfil nos pondremos en contacto contigo.\n\nAtentamente,\nRecursos Humanos',
+  true
+)
+ON CONFLICT (event, version) DO NOTHING;
+
+-- Trigger function to queue notifications on status transitions and (re)scheduling
+CREATE OR REPLACE FUNCTION notify_application_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'EntrevistaConRH' THEN
+        PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+      WHEN 'EntrevistaConManager' THEN
+        PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+      WHEN 'Aceptado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_ACCEPTED');
+      WHEN 'Rechazado' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_REJECTED');
+      WHEN 'Retirado' THEN
+        PERFORM enqueue_staff_notification(NEW.id, 'APPLICATION_WITHDRAWN');
+      WHEN 'BolsaDeTalento' THEN
+        PERFORM enqueue_notification(NEW.id, 'APPLICATION_POOLED');
+      ELSE
+        NULL;
+    END CASE;
+  ELSE
+    -- Interview scheduled or rescheduled without a status change
+    IF NEW.scheduled_rh_at IS NOT NULL AND (
+      NEW.scheduled_rh_at IS DISTINCT FROM OLD.scheduled_rh_at OR
+      NEW.scheduled_rh_location IS DISTINCT FROM OLD.scheduled_rh_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'RH_INTERVIEW_SCHEDULED');
+    END IF;
+
+    IF NEW.scheduled_manager_at IS NOT NULL AND (
+      NEW.scheduled_manager_at IS DISTINCT FROM OLD.scheduled_manager_at OR
+      NEW.scheduled_manager_location IS DISTINCT FROM OLD.scheduled_manager_location
+    ) THEN
+      PERFORM enqueue_notification(NEW.id, 'MANAGER_INTERVIEW_SCHEDULED');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Timeline with the talent pool as a final outcome
+CREATE OR REPLACE FUNCTION build_timeline(
+  current_status application_status,
+  withdrawn_from application_status DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  timeline jsonb := '[]'::jsonb;
+  steps text[] := ARRAY['RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager', 'Evaluando'];
+  finals text[] := ARRAY['Aceptado', 'Rechazado', 'BolsaDeTalento', 'Retirado'];
+  step text;
+  step_index int := 0;
+  progress_index int;
+  final_status text := null;
+BEGIN
+  -- Determine final status
+  IF current_status::text = ANY(finals) THEN
+    final_status := current_status::text;
+  END IF;
+
+  -- Last step reached (finalized applications went through every step,
+  -- including candidates that withdrew from the talent pool)
+  IF current_status = 'Retirado' AND NOT COALESCE(withdrawn_from::text = ANY(finals), false) THEN
+    progress_index := COALESCE(array_position(steps, withdrawn_from::text), 1);
+  ELSIF final_status IS NOT NULL THEN
+    progress_index := array_length(steps, 1);
+  ELSE
+    progress_index := array_position(steps, current_status::text);
+  END IF;
+
+  -- Build timeline for each step
+  FOREACH step IN ARRAY steps
+  LOOP
+    step_index := step_index + 1;
+
+    timeline := timeline || jsonb_build_object(
+      'step', step,
+      'reached', step_index <= progress_index,
+      'current', step = current_status::text
+    );
+  END LOOP;
+
+  -- Add final step
+  timeline := timeline || jsonb_build_object(
+    'step', 'Final',
+    'reached', final_status IS NOT NULL,
+    'current', final_status IS NOT NULL,
+    'value', final_status
+  );
+
+  RETURN timeline;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Early rejection; applications under evaluation or in the pool are RH only
+CREATE OR REPLACE FUNCTION reject_application(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  v_is_rh boolean;
+  v_actor_role text;
+BEGIN
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if user is RH or the manager of the vacancy
+  v_is_rh := is_rh_user();
+
+  IF NOT v_is_rh AND NOT is_manager_of_vacancy(app_record.vacancy_id) THEN
+    RAISE EXCEPTION 'Access denied. RH role or vacancy manager required.';
+  END IF;
+
+  v_actor_role := CASE WHEN v_is_rh THEN 'RH' ELSE 'MANAGER' END;
+
+  -- Validate current status
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  IF app_record.status IN ('Evaluando', 'BolsaDeTalento') AND NOT v_is_rh THEN
+    RAISE EXCEPTION 'Only RH can reject applications with status: %', app_record.status;
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    app_record.status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'APPLICATION_EARLY_REJECT',
+    p_reason_code,
+    format('Rejected by %s from status: %s', v_actor_role, app_record.status)
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'from_status', app_record.status,
+    'reason_code', p_reason_code
+  );
+END;
+$$;
+
+-- Function to keep an evaluated candidate in the talent pool
+CREATE OR REPLACE FUNCTION finalize_talent_pool(
+  p_application_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  criteria_count int;
+  scores_count int;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'Evaluando' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- The pool is searched by evaluation total, so the evaluation must be complete
+  SELECT COUNT(*) INTO criteria_count FROM evaluation_criteria;
+  SELECT COUNT(*) INTO scores_count
+  FROM evaluation_scores
+  WHERE application_id = p_application_id;
+
+  IF scores_count != criteria_count THEN
+    RAISE EXCEPTION 'All evaluation criteria must be scored. Expected: %, Found: %', criteria_count, scores_count;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM evaluation_summary
+    WHERE application_id = p_application_id
+    AND factors_for IS NOT NULL
+    AND factors_against IS NOT NULL
+    AND conclusion IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Complete evaluation summary required';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'BolsaDeTalento',
+    pooled_at = now(),
+    pool_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'Evaluando',
+    'BolsaDeTalento',
+    'Candidate kept in talent pool' || COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_FINALIZE_POOL',
+    'Candidate kept in talent pool'
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'BolsaDeTalento'
+  );
+END;
+$$;
+
+-- Function to search the talent pool
+CREATE OR REPLACE FUNCTION search_talent_pool(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_vacancy_type vacancy_type DEFAULT NULL,
+  p_min_total int DEFAULT NULL,
+  p_max_total int DEFAULT NULL,
+  p_q text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Calculate offset
+  offset_val := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO total_count
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN evaluation_summary es ON es.application_id = a.id
+  WHERE a.status = 'BolsaDeTalento'
+    AND (p_vacancy_type IS NULL OR v.type = p_vacancy_type)
+    AND (p_min_total IS NULL OR es.total >= p_min_total)
+    AND (p_max_total IS NULL OR es.total <= p_max_total)
+    AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%');
+
+  -- Get paginated results, best evaluated first
+  SELECT jsonb_build_object(
+    'items', COALESCE(jsonb_agg(item ORDER BY item_total DESC NULLS LAST, item_pooled_at DESC), '[]'::jsonb),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT
+      es.total AS item_total,
+      a.pooled_at AS item_pooled_at,
+      jsonb_build_object(
+        'application_id', a.id,
+        'folio', a.folio,
+        'candidate_full_name', c.full_name,
+        'candidate_email', c.email,
+        'candidate_phone', c.phone,
+        'vacancy_id', v.id,
+        'vacancy_position', v.position,
+        'vacancy_type', v.type,
+        'evaluation_total', es.total,
+        'manager_score', im.score,
+        'pooled_at', a.pooled_at,
+        'pool_note', a.pool_note,
+        'rerouted_to', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'application_id', ra.id,
+              'folio', ra.folio,
+              'vacancy_position', rv.position,
+              'status', ra.status
+            ) ORDER BY ra.created_at
+          )
+          FROM applications ra
+          JOIN vacancies rv ON ra.vacancy_id = rv.id
+          WHERE ra.rerouted_from_application_id = a.id
+        ), '[]'::jsonb)
+      ) AS item
+    FROM applications a
+    JOIN candidates c ON a.candidate_id = c.id
+    JOIN vacancies v ON a.vacancy_id = v.id
+    LEFT JOIN evaluation_summary es ON es.application_id = a.id
+    LEFT JOIN interview_manager im ON im.application_id = a.id
+    WHERE a.status = 'BolsaDeTalento'
+      AND (p_vacancy_type IS NULL OR v.type = p_vacancy_type)
+      AND (p_min_total IS NULL OR es.total >= p_min_total)
+      AND (p_max_total IS NULL OR es.total <= p_max_total)
+      AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+    ORDER BY es.total DESC NULLS LAST, a.pooled_at DESC
+    LIMIT p_page_size OFFSET offset_val
+  ) page;
+
+  RETURN result;
+END;
+$$;
+
+-- Function to re-route a pooled candidate to another active vacancy
+CREATE OR REPLACE FUNCTION reroute_application(
+  p_application_id uuid,
+  p_target_vacancy_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  source_vacancy vacancies%ROWTYPE;
+  target_vacancy vacancies%ROWTYPE;
+  v_new_id uuid;
+  v_new_folio text;
+  v_docs_count int;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF app_record.status != 'BolsaDeTalento' THEN
+    RAISE EXCEPTION 'Only talent pool applications can be re-routed. Current status: %', app_record.status;
+  END IF;
+
+  SELECT * INTO source_vacancy FROM vacancies WHERE id = app_record.vacancy_id;
+
+  -- Validate target vacancy
+  SELECT * INTO target_vacancy FROM vacancies WHERE id = p_target_vacancy_id;
+
+  IF NOT FOUND OR NOT target_vacancy.is_active THEN
+    RAISE EXCEPTION 'Target vacancy not found or inactive';
+  END IF;
+
+  IF target_vacancy.id = app_record.vacancy_id THEN
+    RAISE EXCEPTION 'Target vacancy must be different from the original one';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE vacancy_id = p_target_vacancy_id
+    AND candidate_id = app_record.candidate_id
+  ) THEN
+    RAISE EXCEPTION 'Candidate already has an application for the target vacancy';
+  END IF;
+
+  -- Create the new application (starts at document review for the new vacancy)
+  INSERT INTO applications (candidate_id, vacancy_id, rerouted_from_application_id)
+  VALUES (app_record.candidate_id, p_target_vacancy_id, app_record.id)
+  RETURNING id, folio INTO v_new_id, v_new_folio;
+
+  -- Copy every document version, keeping its review
+  INSERT INTO application_docs (
+    application_id, doc, phase, url, version, uploaded_at,
+    review_status, review_reason, reviewed_by, reviewed_at
+  )
+  SELECT
+    v_new_id, doc, phase, url, version, uploaded_at,
+    review_status, review_reason, reviewed_by, reviewed_at
+  FROM application_docs
+  WHERE application_id = app_record.id;
+
+  GET DIAGNOSTICS v_docs_count = ROW_COUNT;
+
+  -- Carry over the history the pooled application itself carried
+  INSERT INTO carried_evaluations (
+    application_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total, carried_at
+  )
+  SELECT
+    v_new_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total, carried_at
+  FROM carried_evaluations
+  WHERE application_id = app_record.id;
+
+  -- Snapshot of the pooled application's interviews and evaluation
+  INSERT INTO carried_evaluations (
+    application_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total
+  )
+  SELECT
+    v_new_id,
+    app_record.id,
+    app_record.folio,
+    source_vacancy.position,
+    app_record.status,
+    (
+      SELECT jsonb_build_object(
+        'finished_at', ir.finished_at,
+        'answers', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'question', q.text,
+              'answer_text', ans->>'answer_text'
+            ) ORDER BY q.ord
+          )
+          FROM jsonb_array_elements(ir.answers) ans
+          JOIN questions q ON q.id = (ans->>'question_id')::uuid
+        ), '[]'::jsonb),
+        'extra_questions', ir.extra_questions
+      )
+      FROM interview_rh ir
+      WHERE ir.application_id = app_record.id
+    ),
+    (
+      SELECT jsonb_build_object(
+        'score', im.score,
+        'notes', im.notes,
+        'created_at', im.created_at
+      )
+      FROM interview_manager im
+      WHERE im.application_id = app_record.id
+    ),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'criterion', ec.name,
+          'grp', ec.grp,
+          'score', sc.score
+        ) ORDER BY ec.grp, ec.ord
+      )
+      FROM evaluation_scores sc
+      JOIN evaluation_criteria ec ON ec.id = sc.criterion_id
+      WHERE sc.application_id = app_record.id
+    ), '[]'::jsonb),
+    (
+      SELECT jsonb_build_object(
+        'total', es.total,
+        'factors_for', es.factors_for,
+        'factors_against', es.factors_against,
+        'conclusion', es.conclusion,
+        'references_laborales', es.references_laborales,
+        'created_at', es.created_at
+      )
+      FROM evaluation_summary es
+      WHERE es.application_id = app_record.id
+    ),
+    (SELECT es.total FROM evaluation_summary es WHERE es.application_id = app_record.id);
+
+  -- Log audit on both applications
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES
+  (
+    auth.uid(),
+    app_record.id,
+    'APPLICATION_REROUTE',
+    format('Re-routed to vacancy %s (folio %s)', target_vacancy.position, v_new_folio) ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  ),
+  (
+    auth.uid(),
+    v_new_id,
+    'APPLICATION_REROUTE',
+    format('Created from talent pool application %s (%s documents copied)', app_record.folio, v_docs_count) ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  -- Let the candidate know the new folio
+  PERFORM enqueue_notification(v_new_id, 'APPLICATION_RECEIVED');
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'application_id', v_new_id,
+    'folio', v_new_folio,
+    'vacancy_id', target_vacancy.id,
+    'vacancy_position', target_vacancy.position,
+    'documents_copied', v_docs_count
+  );
+END;
+$$;
+
+-- Evaluation context now includes the evaluation history of re-routed applications
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finalize_talent_pool(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_talent_pool(int, int, vacancy_type, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reroute_application(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION build_timeline(application_status, application_status) TO anon;
@@ -0,0 +1,322 @@
+/*
+  # Candidate portal with magic-link login
+
+  1. New Tables
+    - `candidate_login_tokens` - Single-use login links (15 minutes), only the SHA-256 hash is stored
+    - `candidate_sessions` - Portal sessions (7 days), only the SHA-256 hash is stored
+
+  2. Changes
+    - `notification_outbox.sensitive` - Emails carrying a one-time link; RH cannot read them
+      and their body is redacted once they are sent or given up
+
+  3. Functions
+    - `request_candidate_login_link` - Queue a login link for the candidate with that email;
+      the notification-worker delivers it over SMTP (MailHog locally)
+    - `verify_candidate_login_token` - Exchange a login link for a portal session
+    - `resolve_candidate_session` - Candidate of a valid session
+    - `get_candidate_portal` - Every application of the candidate with status, schedules and documents
+    - `logout_candidate_session` - Revoke a portal session
+
+  4. Security
+    - No RLS policies on the new tables; every function is service role only (candidate-portal)
+    - Login links are queued as sensitive notifications, so staff cannot sign in as a candidate
+    - Unknown emails get the same response as known ones (avoid enumeration)
+    - At most 3 links per candidate every 15 minutes
+
+  5. Auditing
+    - CANDIDATE_LOGIN_LINK_REQUEST, CANDIDATE_LOGIN and CANDIDATE_LOGOUT with the candidate as actor
+*/
+
+CREATE TABLE IF NOT EXISTS candidate_login_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_login_tokens_candidate
+  ON candidate_login_tokens (candidate_id, created_at);
+
+CREATE TABLE IF NOT EXISTS candidate_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  last_seen_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_sessions_candidate
+  ON candidate_sessions (candidate_id);
+
+ALTER TABLE candidate_login_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_sessions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE notification_outbox
+  ADD COLUMN IF NOT EXISTS sensitive boolean NOT NULL DEFAULT false;
+
+DROP POLICY IF EXISTS "rh_read_notification_outbox" ON notification_outbox;
+CREATE POLICY "rh_read_notification_outbox" ON notification_outbox
+  FOR SELECT TO authenticated
+  USING (is_rh_user() AND NOT sensitive);
+
+-- Trigger function to drop the link of a sensitive notification once it leaves the queue
+CREATE OR REPLACE FUNCTION redact_sensitive_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.sensitive AND NEW.status IN ('SENT', 'FAILED') THEN
+    NEW.body := '[redacted]';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS redact_sensitive_notification_trigger ON notification_outbox;
+CREATE TRIGGER redact_sensitive_notification_trigger
+  BEFORE UPDATE OF status ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION redact_sensitive_notification();
+
+-- Function to queue a login link for a candidate
+CREATE OR REPLACE FUNCTION request_candidate_login_link(
+  p_email text,
+  p_portal_url text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_candidate candidates%ROWTYPE;
+  v_token text;
+  v_recent int;
+  normalized_email text;
+BEGIN
+  normalized_email := lower(trim(p_email));
+
+  SELECT * INTO v_candidate
+  FROM candidates
+  WHERE lower(trim(email)) = normalized_email;
+
+  -- Same response for unknown emails (avoid enumeration)
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', true);
+  END IF;
+
+  -- Rate limit
+  SELECT COUNT(*) INTO v_recent
+  FROM candidate_login_tokens
+  WHERE candidate_id = v_candidate.id
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent >= 3 THEN
+    RETURN jsonb_build_object('ok', true);
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO candidate_login_tokens (candidate_id, token_hash, expires_at)
+  VALUES (v_candidate.id, encode(digest(v_token, 'sha256'), 'hex'), now() + interval '15 minutes');
+
+  INSERT INTO notification_outbox (application_id, event, to_email, subject, body, sensitive)
+  VALUES (
+    NULL,
+    'CANDIDATE_LOGIN_LINK',
+    v_candidate.email,
+    'Tu enlace de acceso a Mis Postulaciones',
+    format(
+      E'Hola %s,\n\nUsa el siguiente enlace para consultar todas tus postulaciones:\n\n%s/portal?token=%s\n\nEl enlace es válido durante 15 minutos y solo puede usarse una vez. Si no solicitaste este acceso puedes ignorar este correo.\n\nAtentamente,\nRecursos Humanos',
+      v_candidate.full_name,
+      rtrim(p_portal_url, '/'),
+      v_token
+    ),
+    true
+  );
+
+  INSERT INTO audit_log (actor_candidate_id, action, note)
+  VALUES (
+    v_candidate.id,
+    'CANDIDATE_LOGIN_LINK_REQUEST',
+    jsonb_build_object(
+      'email_hash', encode(digest(normalized_email, 'sha256'), 'hex'),
+      'source', 'candidate_portal'
+    )::text
+  );
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+-- Function to exchange a login link for a portal session
+CREATE OR REPLACE FUNCTION verify_candidate_login_token(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_login candidate_login_tokens%ROWTYPE;
+  v_candidate candidates%ROWTYPE;
+  v_session_token text;
+  v_expires_at timestamptz;
+BEGIN
+  SELECT * INTO v_login
+  FROM candidate_login_tokens
+  WHERE token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_login.used_at IS NOT NULL OR v_login.expires_at < now() THEN
+    RAISE EXCEPTION 'El enlace de acceso no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  UPDATE candidate_login_tokens SET used_at = now() WHERE id = v_login.id;
+
+  SELECT * INTO v_candidate FROM candidates WHERE id = v_login.candidate_id;
+
+  v_session_token := encode(gen_random_bytes(32), 'hex');
+  v_expires_at := now() + interval '7 days';
+
+  INSERT INTO candidate_sessions (candidate_id, token_hash, expires_at, last_seen_at)
+  VALUES (v_candidate.id, encode(digest(v_session_token, 'sha256'), 'hex'), v_expires_at, now());
+
+  INSERT INTO audit_log (actor_candidate_id, action, note)
+  VALUES (
+    v_candidate.id,
+    'CANDIDATE_LOGIN',
+    jsonb_build_object('source', 'candidate_portal')::text
+  );
+
+  RETURN jsonb_build_object(
+    'session_token', v_session_token,
+    'expires_at', v_expires_at,
+    'candidate', jsonb_build_object(
+      'full_name', v_candidate.full_name,
+      'email', v_candidate.email
+    )
+  );
+END;
+$$;
+
+-- Function to get the candidate of a valid portal session
+CREATE OR REPLACE FUNCTION resolve_candidate_session(p_session_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session candidate_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session
+  FROM candidate_sessions
+  WHERE token_hash = encode(digest(COALESCE(p_session_token, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND OR v_session.revoked_at IS NOT NULL OR v_session.expires_at < now() THEN
+    RAISE EXCEPTION 'Tu sesión expiró. Solicita un nuevo enlace de acceso.';
+  END IF;
+
+  UPDATE candidate_sessions SET last_seen_at = now() WHERE id = v_session.id;
+
+  RETURN v_session.candidate_id;
+END;
+$$;
+
+-- Function to list every application of the session's candidate
+CREATE OR REPLACE FUNCTION get_candidate_portal(p_session_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_candidate_id uuid;
+  v_candidate candidates%ROWTYPE;
+  v_applications jsonb;
+BEGIN
+  v_candidate_id := resolve_candidate_session(p_session_token);
+
+  SELECT * INTO v_candidate FROM candidates WHERE id = v_candidate_id;
+
+  SELECT COALESCE(jsonb_agg(app ORDER BY created_at DESC), '[]'::jsonb)
+  INTO v_applications
+  FROM (
+    SELECT
+      a.created_at,
+      jsonb_build_object(
+        'folio', a.folio,
+        'vacancy', jsonb_build_object(
+          'id', v.id,
+          'position', v.position,
+          'type', v.type
+        ),
+        'status', a.status,
+        'applied_at', a.created_at,
+        'schedules', jsonb_strip_nulls(jsonb_build_object(
+          'rh', CASE WHEN a.scheduled_rh_at IS NOT NULL THEN
+            jsonb_build_object('at', a.scheduled_rh_at, 'location', a.scheduled_rh_location)
+          END,
+          'manager', CASE WHEN a.scheduled_manager_at IS NOT NULL THEN
+            jsonb_build_object('at', a.scheduled_manager_at, 'location', a.scheduled_manager_location)
+          END
+        )),
+        'docs', CASE WHEN a.status = 'Aceptado'
+          THEN jsonb_set(get_document_progress(a.id, a.vacancy_id), '{despues,can_upload}', 'true'::jsonb)
+          ELSE get_document_progress(a.id, a.vacancy_id)
+        END
+      ) AS app
+    FROM applications a
+    JOIN vacancies v ON v.id = a.vacancy_id
+    WHERE a.candidate_id = v_candidate_id
+  ) apps;
+
+  RETURN jsonb_build_object(
+    'candidate', jsonb_build_object(
+      'full_name', v_candidate.full_name,
+      'email', v_candidate.email
+    ),
+    'applications', v_applications
+  );
+END;
+$$;
+
+-- Function to revoke a portal session
+CREATE OR REPLACE FUNCTION logout_candidate_session(p_session_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_candidate_id uuid;
+BEGIN
+  UPDATE candidate_sessions
+  SET revoked_at = now()
+  WHERE token_hash = encode(digest(COALESCE(p_session_token, ''), 'sha256'), 'hex')
+    AND revoked_at IS NULL
+  RETURNING candidate_id INTO v_candidate_id;
+
+  IF v_candidate_id IS NOT NULL THEN
+    INSERT INTO audit_log (actor_candidate_id, action, note)
+    VALUES (
+      v_candidate_id,
+      'CANDIDATE_LOGOUT',
+      jsonb_build_object('source', 'candidate_portal')::text
+    );
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_candidate_login_link(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_candidate_login_token(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_candidate_session(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_candidate_portal(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION logout_candidate_session(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_candidate_login_link(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_candidate_login_token(text) TO service_role;
+GRANT EXECUTE ON FUNCTION resolve_candidate_session(text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_candidate_portal(text) TO service_role;
+GRANT EXECUTE ON FUNCTION logout_candidate_session(text) TO service_role;
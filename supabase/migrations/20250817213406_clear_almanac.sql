@@ -0,0 +1,1097 @@
+/*
+  # Interview calendars, bookable slots and conflict detection
+
+  1. New Tables
+    - `staff_availability` - Weekly availability windows of RH users and managers
+    - `interview_slots` - Interview slots of a staff member; a slot with an application is booked.
+      Slots are published from the availability (PUBLISHED) or created when an interview is
+      scheduled at a time no slot covers (ADHOC)
+
+  2. Functions
+    - `book_interview_slot` - Book the RH or manager interview of an application, raising on
+      conflicts with the interviewer's or the candidate's other interviews (internal)
+    - `schedule_rh_interview`, `transition_to_rh_interview`, `set_manager_schedule`,
+      `transition_to_manager_interview` - Book through `book_interview_slot` and accept an
+      optional slot; rescheduling releases the previous slot. The first RH scheduling goes
+      through `transition_to_rh_interview` (approved documents required)
+    - `get_staff_availability` / `set_staff_availability` - Read and replace weekly availability
+    - `publish_interview_slots` - Create free slots from the availability for a date range
+    - `delete_interview_slot` - Remove a free slot
+    - `list_interview_calendar` - Booked and free slots of a date range (week view)
+    - `release_interview_slots` - Frees upcoming slots when an application reaches a final status
+
+  3. Security
+    - RH manages every calendar; managers only their own
+    - `set_manager_schedule` now goes through the `in_transition` flag, so
+      `prevent_direct_status_change` no longer rejects it
+
+  4. Auditing
+    - STAFF_AVAILABILITY_UPDATE, INTERVIEW_SLOTS_PUBLISH and INTERVIEW_SLOT_DELETE
+    - Schedule audit notes include the booked slot and interviewer
+*/
+
+CREATE TABLE IF NOT EXISTS staff_availability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id uuid NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday, as extract(dow)
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  slot_minutes integer NOT NULL DEFAULT 60 CHECK (slot_minutes BETWEEN 15 AND 240),
+  location text NOT NULL DEFAULT '',
+  timezone text NOT NULL DEFAULT 'America/Mexico_City',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_availability_staff
+  ON staff_availability (staff_id, weekday);
+
+CREATE TABLE IF NOT EXISTS interview_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id uuid NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('RH', 'MANAGER')),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  location text NOT NULL DEFAULT '',
+  origin text NOT NULL DEFAULT 'PUBLISHED' CHECK (origin IN ('PUBLISHED', 'ADHOC')),
+  application_id uuid REFERENCES applications(id) ON DELETE SET NULL,
+  booked_at timestamptz,
+  created_by uuid REFERENCES staff_users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  UNIQUE (staff_id, starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_slots_range
+  ON interview_slots (starts_at, ends_at);
+
+-- One booked RH slot and one booked manager slot per application
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interview_slots_booking
+  ON interview_slots (application_id, kind)
+  WHERE application_id IS NOT NULL;
+
+ALTER TABLE staff_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "RH can view all availability"
+  ON staff_availability
+  FOR SELECT
+  TO authenticated
+  USING (is_rh_user());
+
+CREATE POLICY "Staff can view own availability"
+  ON staff_availability
+  FOR SELECT
+  TO authenticated
+  USING (staff_id = auth.uid());
+
+CREATE POLICY "RH can view all interview slots"
+  ON interview_slots
+  FOR SELECT
+  TO authenticated
+  USING (is_rh_user());
+
+CREATE POLICY "Staff can view own interview slots"
+  ON interview_slots
+  FOR SELECT
+  TO authenticated
+  USING (staff_id = auth.uid());
+
+-- Bring interviews scheduled before calendars existed into them
+INSERT INTO interview_slots (staff_id, kind, starts_at, ends_at, location, origin, application_id, booked_at)
+SELECT
+  scheduler.actor_staff_id,
+  'RH',
+  a.scheduled_rh_at,
+  a.scheduled_rh_at + interval '60 minutes',
+  COALESCE(a.scheduled_rh_location, ''),
+  'ADHOC',
+  a.id,
+  now()
+FROM applications a
+JOIN LATERAL (
+  SELECT al.actor_staff_id
+  FROM audit_log al
+  WHERE al.application_id = a.id
+    AND al.action IN ('INTERVIEW_RH_SCHEDULE', 'INTERVIEW_RH_SCHEDULED')
+    AND al.actor_staff_id IS NOT NULL
+  ORDER BY al.created_at DESC
+  LIMIT 1
+) scheduler ON true
+WHERE a.scheduled_rh_at IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO interview_slots (staff_id, kind, starts_at, ends_at, location, origin, application_id, booked_at)
+SELECT
+  v.manager_id,
+  'MANAGER',
+  a.scheduled_manager_at,
+  a.scheduled_manager_at + interval '60 minutes',
+  COALESCE(a.scheduled_manager_location, ''),
+  'ADHOC',
+  a.id,
+  now()
+FROM applications a
+JOIN vacancies v ON v.id = a.vacancy_id
+WHERE a.scheduled_manager_at IS NOT NULL
+  AND v.manager_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Function to book an interview slot for an application (internal)
+CREATE OR REPLACE FUNCTION book_interview_slot(
+  p_application_id uuid,
+  p_kind text,
+  p_staff_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_staff_id uuid := p_staff_id;
+  v_candidate_id uuid;
+  v_location text;
+  v_minutes integer;
+  v_conflict record;
+  v_outside_availability boolean;
+BEGIN
+  IF p_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Interview slot not found';
+    END IF;
+
+    IF v_slot.kind != p_kind OR (v_staff_id IS NOT NULL AND v_slot.staff_id != v_staff_id) THEN
+      RAISE EXCEPTION 'Interview slot does not belong to the interviewer';
+    END IF;
+
+    IF v_slot.application_id IS NOT NULL AND v_slot.application_id != p_application_id THEN
+      RAISE EXCEPTION 'Interview slot is already booked';
+    END IF;
+
+    v_staff_id := v_slot.staff_id;
+    v_location := COALESCE(NULLIF(trim(p_location), ''), NULLIF(v_slot.location, ''));
+  ELSE
+    IF p_at IS NULL OR p_location IS NULL OR trim(p_location) = '' THEN
+      RAISE EXCEPTION 'Date/time and location are required';
+    END IF;
+
+    IF v_staff_id IS NULL THEN
+      RAISE EXCEPTION 'Interviewer is required';
+    END IF;
+
+    v_location := trim(p_location);
+
+    -- A free slot starting at the same time is booked instead of creating a new one
+    SELECT * INTO v_slot
+    FROM interview_slots
+    WHERE staff_id = v_staff_id
+      AND starts_at = p_at
+      AND (application_id IS NULL OR (application_id = p_application_id AND kind = p_kind))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      SELECT sa.slot_minutes INTO v_minutes
+      FROM staff_availability sa
+      WHERE sa.staff_id = v_staff_id
+        AND sa.weekday = extract(dow FROM p_at AT TIME ZONE sa.timezone)
+      ORDER BY sa.start_time
+      LIMIT 1;
+
+      v_slot.starts_at := p_at;
+      v_slot.ends_at := p_at + make_interval(mins => COALESCE(v_minutes, 60));
+    END IF;
+  END IF;
+
+  IF v_location IS NULL THEN
+    RAISE EXCEPTION 'Location is required';
+  END IF;
+
+  -- Serialize bookings of the same interviewer and candidate
+  SELECT candidate_id INTO v_candidate_id FROM applications WHERE id = p_application_id;
+  PERFORM pg_advisory_xact_lock(hashtext('interview_slots:' || v_staff_id::text));
+  PERFORM pg_advisory_xact_lock(hashtext('interview_slots:' || v_candidate_id::text));
+
+  -- Interviewer conflicts
+  SELECT s.starts_at, a.folio INTO v_conflict
+  FROM interview_slots s
+  JOIN applications a ON a.id = s.application_id
+  WHERE s.staff_id = v_staff_id
+    AND s.id IS DISTINCT FROM v_slot.id
+    AND NOT (s.application_id = p_application_id AND s.kind = p_kind)
+    AND s.starts_at < v_slot.ends_at
+    AND s.ends_at > v_slot.starts_at
+  ORDER BY s.starts_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Schedule conflict: the interviewer already has an interview at % (folio %)',
+      v_conflict.starts_at, v_conflict.folio;
+  END IF;
+
+  -- Candidate conflicts (other interview of this or another application)
+  SELECT s.starts_at, a.folio INTO v_conflict
+  FROM interview_slots s
+  JOIN applications a ON a.id = s.application_id
+  WHERE a.candidate_id = v_candidate_id
+    AND NOT (s.application_id = p_application_id AND s.kind = p_kind)
+    AND s.starts_at < v_slot.ends_at
+    AND s.ends_at > v_slot.starts_at
+  ORDER BY s.starts_at
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Schedule conflict: the candidate already has an interview at % (folio %)',
+      v_conflict.starts_at, v_conflict.folio;
+  END IF;
+
+  -- Release the previous booking of this interview
+  DELETE FROM interview_slots
+  WHERE application_id = p_application_id
+    AND kind = p_kind
+    AND origin = 'ADHOC'
+    AND id IS DISTINCT FROM v_slot.id;
+
+  UPDATE interview_slots
+  SET application_id = NULL, booked_at = NULL
+  WHERE application_id = p_application_id
+    AND kind = p_kind
+    AND id IS DISTINCT FROM v_slot.id;
+
+  IF v_slot.id IS NULL THEN
+    INSERT INTO interview_slots (
+      staff_id, kind, starts_at, ends_at, location, origin, application_id, booked_at, created_by
+    ) VALUES (
+      v_staff_id, p_kind, v_slot.starts_at, v_slot.ends_at, v_location, 'ADHOC', p_application_id, now(), auth.uid()
+    )
+    RETURNING * INTO v_slot;
+  ELSE
+    UPDATE interview_slots
+    SET application_id = p_application_id,
+        booked_at = now(),
+        location = v_location
+    WHERE id = v_slot.id
+    RETURNING * INTO v_slot;
+  END IF;
+
+  -- Scheduling outside the published availability is allowed but reported
+  v_outside_availability := EXISTS (
+    SELECT 1 FROM staff_availability WHERE staff_id = v_staff_id
+  ) AND NOT EXISTS (
+    SELECT 1
+    FROM staff_availability sa
+    WHERE sa.staff_id = v_staff_id
+      AND sa.weekday = extract(dow FROM v_slot.starts_at AT TIME ZONE sa.timezone)
+      AND (v_slot.starts_at AT TIME ZONE sa.timezone)::time >= sa.start_time
+      AND (v_slot.ends_at AT TIME ZONE sa.timezone)::time <= sa.end_time
+  );
+
+  RETURN jsonb_build_object(
+    'slot_id', v_slot.id,
+    'staff_id', v_slot.staff_id,
+    'starts_at', v_slot.starts_at,
+    'ends_at', v_slot.ends_at,
+    'location', v_slot.location,
+    'outside_availability', v_outside_availability
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION book_interview_slot(uuid, text, uuid, timestamptz, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION book_interview_slot(uuid, text, uuid, timestamptz, text, uuid) TO service_role;
+
+-- Free upcoming slots of applications that left the pipeline
+CREATE OR REPLACE FUNCTION release_interview_slots()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status IN ('Aceptado', 'Rechazado', 'BolsaDeTalento', 'Retirado')
+     AND NEW.status IS DISTINCT FROM OLD.status THEN
+    DELETE FROM interview_slots
+    WHERE application_id = NEW.id
+      AND origin = 'ADHOC'
+      AND starts_at > now();
+
+    UPDATE interview_slots
+    SET application_id = NULL, booked_at = NULL
+    WHERE application_id = NEW.id
+      AND starts_at > now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_interview_slots_trigger ON applications;
+CREATE TRIGGER release_interview_slots_trigger
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION release_interview_slots();
+
+-- Scheduling functions gain an optional slot
+DROP FUNCTION IF EXISTS transition_to_rh_interview(uuid, timestamptz, text);
+DROP FUNCTION IF EXISTS transition_to_manager_interview(uuid, timestamptz, text);
+DROP FUNCTION IF EXISTS schedule_rh_interview(uuid, timestamptz, text);
+DROP FUNCTION IF EXISTS set_manager_schedule(uuid, timestamptz, text);
+
+-- RevisionDeDocumentos → EntrevistaConRH, booking the interviewer's calendar
+CREATE OR REPLACE FUNCTION transition_to_rh_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_unapproved_docs text[];
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'RevisionDeDocumentos' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate every NECESARIO document is uploaded and its latest version approved
+  SELECT array_agg(vrd.doc::text ORDER BY vrd.doc)
+  INTO v_unapproved_docs
+  FROM vacancy_required_docs vrd
+  LEFT JOIN LATERAL (
+    SELECT ad.review_status
+    FROM application_docs ad
+    WHERE ad.application_id = p_application_id
+      AND ad.doc = vrd.doc
+      AND ad.phase = 'NECESARIO'
+    ORDER BY ad.version DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE vrd.vacancy_id = app_record.vacancy_id
+    AND vrd.phase = 'NECESARIO'
+    AND latest.review_status IS DISTINCT FROM 'APROBADO';
+
+  IF v_unapproved_docs IS NOT NULL THEN
+    RAISE EXCEPTION 'All required documents must be approved first. Pending: %',
+      array_to_string(v_unapproved_docs, ', ');
+  END IF;
+
+  -- Book the interviewer (the slot owner, or the current RH user)
+  v_booking := book_interview_slot(
+    p_application_id,
+    'RH',
+    CASE WHEN p_slot_id IS NULL THEN auth.uid() END,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConRH',
+    scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_rh_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'RevisionDeDocumentos',
+    'EntrevistaConRH',
+    'RH interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULE',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConRH',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- EntrevistaConRH → EntrevistaConManager, booking the vacancy manager's calendar
+CREATE OR REPLACE FUNCTION transition_to_manager_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user has access (RH or Manager of the vacancy)
+  IF NOT (is_rh_user() OR is_rh_or_manager_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate RH interview is finished
+  IF NOT EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview must be completed first';
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Vacancy has no manager assigned';
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConManager',
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'EntrevistaConRH',
+    'EntrevistaConManager',
+    'Manager interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'MANAGER_SCHEDULE_SET',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConManager',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- Function to schedule or reschedule the RH interview
+CREATE OR REPLACE FUNCTION schedule_rh_interview(
+  p_application_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_current_status application_status;
+  v_interviewer_id uuid;
+  v_booking jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can schedule interviews';
+  END IF;
+
+  -- Get current status
+  SELECT status INTO v_current_status
+  FROM applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- First scheduling is the document review transition
+  IF v_current_status = 'RevisionDeDocumentos' THEN
+    RETURN transition_to_rh_interview(p_application_id, p_at, p_location, p_slot_id);
+  END IF;
+
+  -- Validate status
+  IF v_current_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Cannot schedule RH interview for status: %', v_current_status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview is already finished';
+  END IF;
+
+  -- Rescheduling keeps the current interviewer unless a slot is chosen
+  IF p_slot_id IS NULL THEN
+    SELECT staff_id INTO v_interviewer_id
+    FROM interview_slots
+    WHERE application_id = p_application_id AND kind = 'RH';
+
+    v_interviewer_id := COALESCE(v_interviewer_id, auth.uid());
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'RH',
+    v_interviewer_id,
+    p_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Update application
+  UPDATE applications
+  SET
+    scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_rh_location = v_booking->>'location'
+  WHERE id = p_application_id;
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULED',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_current_status,
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+END;
+$$;
+
+-- Function to set manager schedule
+CREATE OR REPLACE FUNCTION set_manager_schedule(
+  p_application_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+  v_current_status application_status;
+  v_rh_finished_at timestamptz;
+  v_was_scheduled boolean := false;
+  v_booking jsonb;
+  v_result jsonb;
+  v_action text;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_slot_id IS NULL AND (p_at IS NULL OR p_location IS NULL OR trim(p_location) = '') THEN
+    RAISE EXCEPTION 'Date/time and location are required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, a.status, a.scheduled_manager_at IS NOT NULL
+  INTO v_manager_id, v_current_status, v_was_scheduled
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (is_rh_user() OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF v_current_status NOT IN ('RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager') THEN
+    RAISE EXCEPTION 'Cannot schedule manager interview for status: %', v_current_status;
+  END IF;
+
+  -- Check if RH interview is finished
+  SELECT finished_at INTO v_rh_finished_at
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+
+  -- Finished RH interview: scheduling moves the application to the manager stage
+  IF v_rh_finished_at IS NOT NULL AND v_current_status = 'EntrevistaConRH' THEN
+    v_result := transition_to_manager_interview(p_application_id, p_at, p_location, p_slot_id);
+
+    RETURN json_build_object(
+      'ok', true,
+      'status_may_change_to', 'EntrevistaConManager',
+      'scheduled_at', v_result->'scheduled_at',
+      'location', v_result->'location',
+      'slot_id', v_result->'slot_id',
+      'outside_availability', v_result->'outside_availability'
+    );
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Update the schedule
+  UPDATE applications
+  SET
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location'
+  WHERE id = p_application_id;
+
+  -- Determine action for audit
+  v_action := CASE
+    WHEN v_was_scheduled THEN 'MANAGER_SCHEDULE_UPDATE'
+    ELSE 'MANAGER_SCHEDULE_SET'
+  END;
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    v_action,
+    json_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id',
+      'status_changed', false
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object(
+    'ok', true,
+    'status_may_change_to', NULL,
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+END;
+$$;
+
+-- Function to check the caller can manage a staff member's calendar
+CREATE OR REPLACE FUNCTION can_manage_calendar(p_staff_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM staff_users
+      WHERE id = p_staff_id
+      AND role IN ('RH', 'MANAGER')
+      AND active = true
+    )
+    AND (is_rh_user() OR p_staff_id = auth.uid());
+$$;
+
+-- Function to get the weekly availability of a staff member
+CREATE OR REPLACE FUNCTION get_staff_availability(p_staff_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff_id uuid := COALESCE(p_staff_id, auth.uid());
+BEGIN
+  IF NOT can_manage_calendar(v_staff_id) THEN
+    RAISE EXCEPTION 'Access denied: cannot view this calendar';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', id,
+        'weekday', weekday,
+        'start_time', to_char(start_time, 'HH24:MI'),
+        'end_time', to_char(end_time, 'HH24:MI'),
+        'slot_minutes', slot_minutes,
+        'location', location,
+        'timezone', timezone
+      ) ORDER BY weekday, start_time
+    )
+    FROM staff_availability
+    WHERE staff_id = v_staff_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- Function to replace the weekly availability of a staff member
+CREATE OR REPLACE FUNCTION set_staff_availability(
+  p_staff_id uuid,
+  p_windows jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_window jsonb;
+  v_count integer := 0;
+BEGIN
+  IF NOT can_manage_calendar(p_staff_id) THEN
+    RAISE EXCEPTION 'Access denied: cannot edit this calendar';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_windows, '[]'::jsonb)) != 'array' THEN
+    RAISE EXCEPTION 'Availability must be a list of windows';
+  END IF;
+
+  DELETE FROM staff_availability WHERE staff_id = p_staff_id;
+
+  FOR v_window IN SELECT * FROM jsonb_array_elements(COALESCE(p_windows, '[]'::jsonb))
+  LOOP
+    IF (v_window->>'end_time')::time <= (v_window->>'start_time')::time THEN
+      RAISE EXCEPTION 'Availability window must end after it starts (% - %)',
+        v_window->>'start_time', v_window->>'end_time';
+    END IF;
+
+    INSERT INTO staff_availability (staff_id, weekday, start_time, end_time, slot_minutes, location, timezone)
+    VALUES (
+      p_staff_id,
+      (v_window->>'weekday')::smallint,
+      (v_window->>'start_time')::time,
+      (v_window->>'end_time')::time,
+      COALESCE((v_window->>'slot_minutes')::integer, 60),
+      COALESCE(trim(v_window->>'location'), ''),
+      COALESCE(NULLIF(v_window->>'timezone', ''), 'America/Mexico_City')
+    );
+
+    -- Overlapping windows of the same day would publish overlapping slots
+    IF EXISTS (
+      SELECT 1
+      FROM staff_availability a1
+      JOIN staff_availability a2
+        ON a1.staff_id = a2.staff_id
+        AND a1.weekday = a2.weekday
+        AND a1.id < a2.id
+      WHERE a1.staff_id = p_staff_id
+        AND a1.start_time < a2.end_time
+        AND a1.end_time > a2.start_time
+    ) THEN
+      RAISE EXCEPTION 'Availability windows of the same day cannot overlap';
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'STAFF_AVAILABILITY_UPDATE',
+    jsonb_build_object('staff_id', p_staff_id, 'windows', v_count)::text
+  );
+
+  RETURN jsonb_build_object('ok', true, 'windows', v_count);
+END;
+$$;
+
+-- Function to publish free slots from the availability
+CREATE OR REPLACE FUNCTION publish_interview_slots(
+  p_staff_id uuid,
+  p_from date,
+  p_to date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text;
+  v_window staff_availability%ROWTYPE;
+  v_day date;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_window_end timestamptz;
+  v_created integer := 0;
+  v_skipped integer := 0;
+BEGIN
+  IF NOT can_manage_calendar(p_staff_id) THEN
+    RAISE EXCEPTION 'Access denied: cannot edit this calendar';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from > 62 THEN
+    RAISE EXCEPTION 'Slots can be published for at most 62 days at a time';
+  END IF;
+
+  SELECT CASE WHEN role = 'RH' THEN 'RH' ELSE 'MANAGER' END INTO v_kind
+  FROM staff_users
+  WHERE id = p_staff_id;
+
+  FOR v_day IN SELECT generate_series(p_from, p_to, interval '1 day')::date
+  LOOP
+    FOR v_window IN
+      SELECT * FROM staff_availability
+      WHERE staff_id = p_staff_id
+      AND weekday = extract(dow FROM v_day)
+      ORDER BY start_time
+    LOOP
+      v_start := (v_day + v_window.start_time) AT TIME ZONE v_window.timezone;
+      v_window_end := (v_day + v_window.end_time) AT TIME ZONE v_window.timezone;
+
+      WHILE v_start + make_interval(mins => v_window.slot_minutes) <= v_window_end
+      LOOP
+        v_end := v_start + make_interval(mins => v_window.slot_minutes);
+
+        IF v_start <= now() OR EXISTS (
+          SELECT 1 FROM interview_slots
+          WHERE staff_id = p_staff_id
+          AND starts_at < v_end
+          AND ends_at > v_start
+        ) THEN
+          v_skipped := v_skipped + 1;
+        ELSE
+          INSERT INTO interview_slots (staff_id, kind, starts_at, ends_at, location, origin, created_by)
+          VALUES (p_staff_id, v_kind, v_start, v_end, v_window.location, 'PUBLISHED', auth.uid());
+          v_created := v_created + 1;
+        END IF;
+
+        v_start := v_end;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'INTERVIEW_SLOTS_PUBLISH',
+    jsonb_build_object(
+      'staff_id', p_staff_id,
+      'from', p_from,
+      'to', p_to,
+      'created', v_created,
+      'skipped', v_skipped
+    )::text
+  );
+
+  RETURN jsonb_build_object('ok', true, 'created', v_created, 'skipped', v_skipped);
+END;
+$$;
+
+-- Function to remove a free slot
+CREATE OR REPLACE FUNCTION delete_interview_slot(p_slot_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview slot not found';
+  END IF;
+
+  IF NOT can_manage_calendar(v_slot.staff_id) THEN
+    RAISE EXCEPTION 'Access denied: cannot edit this calendar';
+  END IF;
+
+  IF v_slot.application_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Booked slots cannot be deleted; reschedule the interview instead';
+  END IF;
+
+  DELETE FROM interview_slots WHERE id = p_slot_id;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'INTERVIEW_SLOT_DELETE',
+    jsonb_build_object(
+      'staff_id', v_slot.staff_id,
+      'starts_at', v_slot.starts_at,
+      'ends_at', v_slot.ends_at
+    )::text
+  );
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+-- Function to list the calendar of a date range
+CREATE OR REPLACE FUNCTION list_interview_calendar(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_staff_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_rh boolean := is_rh_user();
+  v_staff jsonb;
+  v_slots jsonb;
+BEGIN
+  IF NOT (v_is_rh OR is_manager_user()) THEN
+    RAISE EXCEPTION 'Access denied. RH or Manager role required.';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  -- Calendars the caller can see: every RH user and manager for RH, their own for managers
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', s.id,
+      'full_name', s.full_name,
+      'role', s.role
+    ) ORDER BY s.role DESC, s.full_name
+  ), '[]'::jsonb)
+  INTO v_staff
+  FROM staff_users s
+  WHERE s.active = true
+    AND s.role IN ('RH', 'MANAGER')
+    AND (v_is_rh OR s.id = auth.uid());
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', sl.id,
+      'staff_id', sl.staff_id,
+      'staff_name', s.full_name,
+      'kind', sl.kind,
+      'starts_at', sl.starts_at,
+      'ends_at', sl.ends_at,
+      'location', sl.location,
+      'origin', sl.origin,
+      'booked', sl.application_id IS NOT NULL,
+      'application', CASE WHEN a.id IS NOT NULL THEN
+        jsonb_build_object(
+          'id', a.id,
+          'folio', a.folio,
+          'status', a.status,
+          'candidate_name', c.full_name,
+          'vacancy_position', v.position
+        )
+      END
+    ) ORDER BY sl.starts_at
+  ), '[]'::jsonb)
+  INTO v_slots
+  FROM interview_slots sl
+  JOIN staff_users s ON s.id = sl.staff_id
+  LEFT JOIN applications a ON a.id = sl.application_id
+  LEFT JOIN candidates c ON c.id = a.candidate_id
+  LEFT JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE sl.starts_at < p_to
+    AND sl.ends_at > p_from
+    AND (v_is_rh OR sl.staff_id = auth.uid())
+    AND (p_staff_id IS NULL OR sl.staff_id = p_staff_id);
+
+  RETURN jsonb_build_object('staff', v_staff, 'slots', v_slots);
+END;
+$$;
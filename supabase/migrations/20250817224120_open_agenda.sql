@@ -0,0 +1,749 @@
+/*
+  # Candidate self-booking of interview slots
+
+  1. Changes
+    - `applications.rh_self_booking_opened_at`, `manager_self_booking_opened_at` - Staff invited the
+      candidate to pick a published slot for that interview
+    - `notification_templates` accepts SELF_BOOKING_INVITE (candidate) and
+      INTERVIEW_CANCELLED_BY_CANDIDATE (RH)
+
+  2. Functions
+    - `self_booking_policy` - Minimum notice, change deadline and maximum changes per interview
+    - `self_booking_kind` - Interview the candidate can book right now (RH, MANAGER or none)
+    - `open_self_booking` - RH (any interview) or the vacancy manager (manager interview) invites the candidate
+    - `get_self_booking_options` - Current booking and bookable slots, authenticated by folio + email
+    - `candidate_book_interview_slot` - First booking runs the stage transition, later ones reschedule
+    - `candidate_cancel_interview` - Frees the slot and clears the schedule
+    - `transition_to_rh_interview`, `transition_to_manager_interview` - Also callable by the service role
+      (interview-booking edge function) on behalf of the candidate
+
+  3. Security
+    - Candidate functions are service role only; the edge function authenticates by folio + email
+    - Only free PUBLISHED slots of the interview kind (manager interviews: the vacancy manager's) can be booked
+    - Bookings need `min_notice_hours`; changes and cancellations close `change_deadline_hours` before
+      the interview and are limited to `max_changes`
+
+  4. Auditing
+    - SELF_BOOKING_OPENED with the staff actor
+    - CANDIDATE_INTERVIEW_BOOKED, CANDIDATE_INTERVIEW_REBOOKED and CANDIDATE_INTERVIEW_CANCELLED
+      with the candidate as actor
+*/
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS rh_self_booking_opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS manager_self_booking_opened_at timestamptz;
+
+-- Invitation for the candidate and cancellation notice for RH
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_event_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_event_check CHECK (event IN (
+  'APPLICATION_RECEIVED',
+  'RH_INTERVIEW_SCHEDULED',
+  'MANAGER_INTERVIEW_SCHEDULED',
+  'APPLICATION_ACCEPTED',
+  'APPLICATION_REJECTED',
+  'AFTER_DOCS_REMINDER',
+  'APPLICATION_WITHDRAWN',
+  'APPLICATION_POOLED',
+  'SELF_BOOKING_INVITE',
+  'INTERVIEW_CANCELLED_BY_CANDIDATE'
+));
+
+INSERT INTO notification_templates (event, version, subject, body, is_active) VALUES
+(
+  'SELF_BOOKING_INVITE', 1,
+  'Elige el horario de tu entrevista - Folio {{folio}}',
+  E'Hola {{candidate_name}},\n\nYa puedes elegir el horario de tu próxima entrevista para el puesto de {{position}}.\n\nConsulta el estatus de tu aplicación con tu folio {{folio}} y tu correo electrónico y reserva uno de los horarios disponibles.\n\nAtentamente,\nRecursos Humanos',
+  true
+),
+(
+  'INTERVIEW_CANCELLED_BY_CANDIDATE', 1,
+  'Entrevista cancelada por el candidato - Folio {{folio}}',
+  E'El candidato {{candidate_name}} canceló su entrevista para el puesto de {{position}} (folio {{folio}}).\n\nEl horario quedó libre y el candidato puede reservar otro de los horarios publicados.',
+  true
+)
+ON CONFLICT (event, version) DO NOTHING;
+
+-- Function with the self-booking deadlines
+CREATE OR REPLACE FUNCTION self_booking_policy()
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'min_notice_hours', 24,
+    'change_deadline_hours', 24,
+    'max_changes', 2
+  );
+$$;
+
+-- Function to get the interview a candidate can book right now
+CREATE OR REPLACE FUNCTION self_booking_kind(p_application_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+BEGIN
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Manager interview: RH interview finished, manager interview not held yet
+  IF app_record.manager_self_booking_opened_at IS NOT NULL AND (
+    (app_record.status = 'EntrevistaConRH' AND EXISTS (
+      SELECT 1 FROM interview_rh
+      WHERE application_id = p_application_id
+      AND finished_at IS NOT NULL
+    ))
+    OR (app_record.status = 'EntrevistaConManager' AND NOT EXISTS (
+      SELECT 1 FROM interview_manager
+      WHERE application_id = p_application_id
+    ))
+  ) THEN
+    RETURN 'MANAGER';
+  END IF;
+
+  -- RH interview: documents under review or interview not started yet
+  IF app_record.rh_self_booking_opened_at IS NOT NULL AND (
+    app_record.status = 'RevisionDeDocumentos'
+    OR (app_record.status = 'EntrevistaConRH' AND NOT EXISTS (
+      SELECT 1 FROM interview_rh
+      WHERE application_id = p_application_id
+      AND started_at IS NOT NULL
+    ))
+  ) THEN
+    RETURN 'RH';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Function to invite the candidate to book an interview slot
+CREATE OR REPLACE FUNCTION open_self_booking(
+  p_application_id uuid,
+  p_kind text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_available integer;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  -- RH invites to any interview, the vacancy manager only to the manager interview
+  IF NOT (is_rh_user() OR (p_kind = 'MANAGER' AND is_rh_or_manager_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF p_kind = 'RH' THEN
+    UPDATE applications SET rh_self_booking_opened_at = now() WHERE id = p_application_id;
+  ELSE
+    UPDATE applications SET manager_self_booking_opened_at = now() WHERE id = p_application_id;
+  END IF;
+
+  IF self_booking_kind(p_application_id) IS DISTINCT FROM p_kind THEN
+    RAISE EXCEPTION 'Self-booking of the % interview is not available for status: %', p_kind, app_record.status;
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  SELECT COUNT(*) INTO v_available
+  FROM interview_slots s
+  WHERE s.kind = p_kind
+    AND s.origin = 'PUBLISHED'
+    AND s.application_id IS NULL
+    AND s.starts_at >= now() + make_interval(hours => (self_booking_policy()->>'min_notice_hours')::int)
+    AND (p_kind = 'RH' OR s.staff_id = v_manager_id);
+
+  PERFORM enqueue_notification(p_application_id, 'SELF_BOOKING_INVITE');
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'SELF_BOOKING_OPENED',
+    jsonb_build_object('kind', p_kind, 'available_slots', v_available)::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'kind', p_kind,
+    'available_slots', v_available
+  );
+END;
+$$;
+
+-- RevisionDeDocumentos → EntrevistaConRH, booking the interviewer's calendar
+CREATE OR REPLACE FUNCTION transition_to_rh_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_unapproved_docs text[];
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user is RH (or the service role booking on behalf of the candidate)
+  IF NOT (is_rh_user() OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'RevisionDeDocumentos' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate every NECESARIO document is uploaded and its latest version approved
+  SELECT array_agg(vrd.doc::text ORDER BY vrd.doc)
+  INTO v_unapproved_docs
+  FROM vacancy_required_docs vrd
+  LEFT JOIN LATERAL (
+    SELECT ad.review_status
+    FROM application_docs ad
+    WHERE ad.application_id = p_application_id
+      AND ad.doc = vrd.doc
+      AND ad.phase = 'NECESARIO'
+    ORDER BY ad.version DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE vrd.vacancy_id = app_record.vacancy_id
+    AND vrd.phase = 'NECESARIO'
+    AND latest.review_status IS DISTINCT FROM 'APROBADO';
+
+  IF v_unapproved_docs IS NOT NULL THEN
+    RAISE EXCEPTION 'All required documents must be approved first. Pending: %',
+      array_to_string(v_unapproved_docs, ', ');
+  END IF;
+
+  -- Book the interviewer (the slot owner, or the current RH user)
+  v_booking := book_interview_slot(
+    p_application_id,
+    'RH',
+    CASE WHEN p_slot_id IS NULL THEN auth.uid() END,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConRH',
+    scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_rh_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'RevisionDeDocumentos',
+    'EntrevistaConRH',
+    'RH interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULE',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConRH',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- EntrevistaConRH → EntrevistaConManager, booking the vacancy manager's calendar
+CREATE OR REPLACE FUNCTION transition_to_manager_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user has access (RH, Manager of the vacancy or the service role booking on behalf of the candidate)
+  IF NOT (is_rh_user() OR is_rh_or_manager_of_application(p_application_id) OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate RH interview is finished
+  IF NOT EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview must be completed first';
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Vacancy has no manager assigned';
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConManager',
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'EntrevistaConRH',
+    'EntrevistaConManager',
+    'Manager interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'MANAGER_SCHEDULE_SET',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConManager',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- Function to list the current booking and the bookable slots of an application
+CREATE OR REPLACE FUNCTION get_self_booking_options(
+  p_folio text,
+  p_email text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record record;
+  v_kind text;
+  v_policy jsonb := self_booking_policy();
+  v_current_at timestamptz;
+  v_current_location text;
+  v_changes integer;
+  v_slots jsonb;
+BEGIN
+  SELECT a.*, v.manager_id
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = lower(trim(p_email));
+
+  -- Same generic error as the status query (avoid enumeration)
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No se encontró una aplicación con esa combinación de folio y correo electrónico.';
+  END IF;
+
+  v_kind := self_booking_kind(app_record.id);
+
+  IF v_kind IS NULL THEN
+    RETURN jsonb_build_object('kind', NULL, 'policy', v_policy, 'booking', NULL, 'slots', '[]'::jsonb);
+  END IF;
+
+  IF v_kind = 'RH' THEN
+    v_current_at := app_record.scheduled_rh_at;
+    v_current_location := app_record.scheduled_rh_location;
+  ELSE
+    v_current_at := app_record.scheduled_manager_at;
+    v_current_location := app_record.scheduled_manager_location;
+  END IF;
+
+  SELECT COUNT(*) INTO v_changes
+  FROM audit_log
+  WHERE application_id = app_record.id
+    AND action IN ('CANDIDATE_INTERVIEW_REBOOKED', 'CANDIDATE_INTERVIEW_CANCELLED')
+    AND note::jsonb->>'kind' = v_kind;
+
+  -- Free published slots with enough notice that don't overlap the candidate's other interviews
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'starts_at', s.starts_at,
+    'ends_at', s.ends_at,
+    'location', s.location
+  ) ORDER BY s.starts_at), '[]'::jsonb)
+  INTO v_slots
+  FROM (
+    SELECT s.*
+    FROM interview_slots s
+    JOIN staff_users st ON st.id = s.staff_id AND st.active = true
+    WHERE s.kind = v_kind
+      AND s.origin = 'PUBLISHED'
+      AND s.application_id IS NULL
+      AND s.starts_at >= now() + make_interval(hours => (v_policy->>'min_notice_hours')::int)
+      AND (v_kind = 'RH' OR s.staff_id = app_record.manager_id)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM interview_slots b
+        JOIN applications ba ON ba.id = b.application_id
+        WHERE ba.candidate_id = app_record.candidate_id
+          AND NOT (b.application_id = app_record.id AND b.kind = v_kind)
+          AND b.starts_at < s.ends_at
+          AND b.ends_at > s.starts_at
+      )
+    ORDER BY s.starts_at
+    LIMIT 50
+  ) s;
+
+  RETURN jsonb_build_object(
+    'kind', v_kind,
+    'policy', v_policy,
+    'booking', CASE WHEN v_current_at IS NOT NULL THEN jsonb_build_object(
+      'at', v_current_at,
+      'location', v_current_location,
+      'change_deadline', v_current_at - make_interval(hours => (v_policy->>'change_deadline_hours')::int),
+      'changes_left', GREATEST((v_policy->>'max_changes')::int - v_changes, 0),
+      'can_change', v_current_at - make_interval(hours => (v_policy->>'change_deadline_hours')::int) > now()
+        AND v_changes < (v_policy->>'max_changes')::int
+    ) END,
+    'slots', v_slots
+  );
+END;
+$$;
+
+-- Function to book (or rebook) an interview slot as the candidate
+CREATE OR REPLACE FUNCTION candidate_book_interview_slot(
+  p_folio text,
+  p_email text,
+  p_slot_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record record;
+  v_slot interview_slots%ROWTYPE;
+  v_kind text;
+  v_policy jsonb := self_booking_policy();
+  v_current_at timestamptz;
+  v_changes integer;
+  v_booking jsonb;
+  v_status application_status;
+  normalized_email text;
+BEGIN
+  normalized_email := lower(trim(p_email));
+
+  SELECT a.*, v.manager_id
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = normalized_email
+  FOR UPDATE OF a;
+
+  -- Same generic error as the status query (avoid enumeration)
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No se encontró una aplicación con esa combinación de folio y correo electrónico.';
+  END IF;
+
+  v_kind := self_booking_kind(app_record.id);
+
+  IF v_kind IS NULL THEN
+    RAISE EXCEPTION 'La reservación de entrevistas no está disponible para esta aplicación.';
+  END IF;
+
+  SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id;
+
+  IF NOT FOUND
+     OR v_slot.kind != v_kind
+     OR v_slot.origin != 'PUBLISHED'
+     OR v_slot.application_id IS NOT NULL
+     OR (v_kind = 'MANAGER' AND v_slot.staff_id IS DISTINCT FROM app_record.manager_id) THEN
+    RAISE EXCEPTION 'El horario seleccionado ya no está disponible. Elige otro.';
+  END IF;
+
+  IF v_slot.starts_at < now() + make_interval(hours => (v_policy->>'min_notice_hours')::int) THEN
+    RAISE EXCEPTION 'Los horarios deben reservarse con al menos % horas de anticipación.',
+      v_policy->>'min_notice_hours';
+  END IF;
+
+  v_current_at := CASE v_kind WHEN 'RH' THEN app_record.scheduled_rh_at ELSE app_record.scheduled_manager_at END;
+
+  -- Changing an existing booking is subject to the deadline and the maximum number of changes
+  IF v_current_at IS NOT NULL THEN
+    IF v_current_at - make_interval(hours => (v_policy->>'change_deadline_hours')::int) <= now() THEN
+      RAISE EXCEPTION 'Los cambios deben hacerse con al menos % horas de anticipación. Contacta a Recursos Humanos.',
+        v_policy->>'change_deadline_hours';
+    END IF;
+
+    SELECT COUNT(*) INTO v_changes
+    FROM audit_log
+    WHERE application_id = app_record.id
+      AND action IN ('CANDIDATE_INTERVIEW_REBOOKED', 'CANDIDATE_INTERVIEW_CANCELLED')
+      AND note::jsonb->>'kind' = v_kind;
+
+    IF v_changes >= (v_policy->>'max_changes')::int THEN
+      RAISE EXCEPTION 'Alcanzaste el máximo de % cambios para esta entrevista. Contacta a Recursos Humanos.',
+        v_policy->>'max_changes';
+    END IF;
+  END IF;
+
+  -- The first booking of a stage runs its transition; later ones only reschedule
+  IF v_kind = 'RH' AND app_record.status = 'RevisionDeDocumentos' THEN
+    v_booking := transition_to_rh_interview(app_record.id, NULL, NULL, p_slot_id);
+  ELSIF v_kind = 'MANAGER' AND app_record.status = 'EntrevistaConRH' THEN
+    v_booking := transition_to_manager_interview(app_record.id, NULL, NULL, p_slot_id);
+  ELSE
+    v_booking := book_interview_slot(
+      app_record.id,
+      v_kind,
+      CASE WHEN v_kind = 'MANAGER' THEN app_record.manager_id END,
+      NULL,
+      NULL,
+      p_slot_id
+    );
+
+    IF v_kind = 'RH' THEN
+      UPDATE applications
+      SET
+        scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+        scheduled_rh_location = v_booking->>'location'
+      WHERE id = app_record.id;
+    ELSE
+      UPDATE applications
+      SET
+        scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+        scheduled_manager_location = v_booking->>'location'
+      WHERE id = app_record.id;
+    END IF;
+  END IF;
+
+  -- Log audit with the candidate as actor
+  INSERT INTO audit_log (actor_candidate_id, application_id, action, note)
+  VALUES (
+    app_record.candidate_id,
+    app_record.id,
+    CASE WHEN v_current_at IS NULL THEN 'CANDIDATE_INTERVIEW_BOOKED' ELSE 'CANDIDATE_INTERVIEW_REBOOKED' END,
+    jsonb_build_object(
+      'kind', v_kind,
+      'slot_id', p_slot_id,
+      'scheduled_at', v_slot.starts_at,
+      'previous_at', v_current_at,
+      'email_hash', encode(digest(normalized_email, 'sha256'), 'hex'),
+      'source', 'public_status_page'
+    )::text
+  );
+
+  SELECT status INTO v_status FROM applications WHERE id = app_record.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'kind', v_kind,
+    'status', v_status,
+    'scheduled_at', v_slot.starts_at,
+    'location', COALESCE(v_booking->>'location', v_slot.location)
+  );
+END;
+$$;
+
+-- Function to cancel the booked interview as the candidate
+CREATE OR REPLACE FUNCTION candidate_cancel_interview(
+  p_folio text,
+  p_email text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record record;
+  v_kind text;
+  v_policy jsonb := self_booking_policy();
+  v_current_at timestamptz;
+  v_changes integer;
+  normalized_email text;
+BEGIN
+  normalized_email := lower(trim(p_email));
+
+  SELECT a.id, a.candidate_id, a.scheduled_rh_at, a.scheduled_manager_at
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = normalized_email
+  FOR UPDATE OF a;
+
+  -- Same generic error as the status query (avoid enumeration)
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No se encontró una aplicación con esa combinación de folio y correo electrónico.';
+  END IF;
+
+  v_kind := self_booking_kind(app_record.id);
+  v_current_at := CASE v_kind WHEN 'RH' THEN app_record.scheduled_rh_at WHEN 'MANAGER' THEN app_record.scheduled_manager_at END;
+
+  IF v_current_at IS NULL THEN
+    RAISE EXCEPTION 'No tienes una entrevista agendada que puedas cancelar.';
+  END IF;
+
+  IF v_current_at - make_interval(hours => (v_policy->>'change_deadline_hours')::int) <= now() THEN
+    RAISE EXCEPTION 'Las cancelaciones deben hacerse con al menos % horas de anticipación. Contacta a Recursos Humanos.',
+      v_policy->>'change_deadline_hours';
+  END IF;
+
+  SELECT COUNT(*) INTO v_changes
+  FROM audit_log
+  WHERE application_id = app_record.id
+    AND action IN ('CANDIDATE_INTERVIEW_REBOOKED', 'CANDIDATE_INTERVIEW_CANCELLED')
+    AND note::jsonb->>'kind' = v_kind;
+
+  IF v_changes >= (v_policy->>'max_changes')::int THEN
+    RAISE EXCEPTION 'Alcanzaste el máximo de % cambios para esta entrevista. Contacta a Recursos Humanos.',
+      v_policy->>'max_changes';
+  END IF;
+
+  -- Release the booked slot
+  DELETE FROM interview_slots
+  WHERE application_id = app_record.id
+    AND kind = v_kind
+    AND origin = 'ADHOC';
+
+  UPDATE interview_slots
+  SET application_id = NULL, booked_at = NULL
+  WHERE application_id = app_record.id
+    AND kind = v_kind;
+
+  IF v_kind = 'RH' THEN
+    UPDATE applications
+    SET scheduled_rh_at = NULL, scheduled_rh_location = NULL
+    WHERE id = app_record.id;
+  ELSE
+    UPDATE applications
+    SET scheduled_manager_at = NULL, scheduled_manager_location = NULL
+    WHERE id = app_record.id;
+  END IF;
+
+  PERFORM enqueue_staff_notification(app_record.id, 'INTERVIEW_CANCELLED_BY_CANDIDATE');
+
+  -- Log audit with the candidate as actor
+  INSERT INTO audit_log (actor_candidate_id, application_id, action, note)
+  VALUES (
+    app_record.candidate_id,
+    app_record.id,
+    'CANDIDATE_INTERVIEW_CANCELLED',
+    jsonb_build_object(
+      'kind', v_kind,
+      'previous_at', v_current_at,
+      'email_hash', encode(digest(normalized_email, 'sha256'), 'hex'),
+      'source', 'public_status_page'
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'kind', v_kind
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION self_booking_kind(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_self_booking_options(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION candidate_book_interview_slot(text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION candidate_cancel_interview(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION self_booking_kind(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION get_self_booking_options(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION candidate_book_interview_slot(text, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION candidate_cancel_interview(text, text) TO service_role;
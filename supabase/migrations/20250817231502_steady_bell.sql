@@ -0,0 +1,259 @@
+/*
+  # iCalendar invites for scheduled interviews
+
+  1. Changes
+    - `applications.rh_ics_sequence`, `manager_ics_sequence` - SEQUENCE of the interview event,
+      bumped on every reschedule so calendars update the event in place
+    - `staff_ics_feeds` - Per-user ICS feed token, only the SHA-256 hash is stored
+
+  2. Functions
+    - `bump_ics_sequence` - Trigger that bumps the SEQUENCE when a schedule changes
+    - `interview_ics_event` - Event data (UID, SEQUENCE, times, location, folio, position) of an interview
+    - `get_candidate_interview_event` - Candidate download, authenticated by folio + email
+    - `rotate_staff_ics_feed` - Create or replace the caller's feed token
+    - `get_staff_ics_feed` - Every interview booked in the calendar of the feed's owner
+
+  3. Security
+    - RLS on `staff_ics_feeds` without policies; the token is only returned once
+    - Candidate and feed functions are service role only (interview-ics)
+
+  4. Auditing
+    - STAFF_ICS_FEED_ROTATE with the staff actor
+*/
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS rh_ics_sequence integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS manager_ics_sequence integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS staff_ics_feeds (
+  staff_id uuid PRIMARY KEY REFERENCES staff_users(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_accessed_at timestamptz
+);
+
+ALTER TABLE staff_ics_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Trigger function to bump the SEQUENCE of rescheduled interviews
+CREATE OR REPLACE FUNCTION bump_ics_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.scheduled_rh_at IS NOT NULL AND (
+    NEW.scheduled_rh_at IS DISTINCT FROM OLD.scheduled_rh_at
+    OR NEW.scheduled_rh_location IS DISTINCT FROM OLD.scheduled_rh_location
+  ) THEN
+    NEW.rh_ics_sequence := OLD.rh_ics_sequence + 1;
+  END IF;
+
+  IF OLD.scheduled_manager_at IS NOT NULL AND (
+    NEW.scheduled_manager_at IS DISTINCT FROM OLD.scheduled_manager_at
+    OR NEW.scheduled_manager_location IS DISTINCT FROM OLD.scheduled_manager_location
+  ) THEN
+    NEW.manager_ics_sequence := OLD.manager_ics_sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_ics_sequence_trigger ON applications;
+CREATE TRIGGER bump_ics_sequence_trigger
+  BEFORE UPDATE OF scheduled_rh_at, scheduled_rh_location, scheduled_manager_at, scheduled_manager_location
+  ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_ics_sequence();
+
+-- Function to build the event data of a scheduled interview (internal)
+CREATE OR REPLACE FUNCTION interview_ics_event(
+  p_application_id uuid,
+  p_kind text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  app_record record;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_location text;
+  v_sequence integer;
+  v_interviewer text;
+BEGIN
+  SELECT a.*, c.full_name AS candidate_name, v.position
+  INTO app_record
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE a.id = p_application_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_kind = 'RH' THEN
+    v_starts_at := app_record.scheduled_rh_at;
+    v_location := app_record.scheduled_rh_location;
+    v_sequence := app_record.rh_ics_sequence;
+  ELSE
+    v_starts_at := app_record.scheduled_manager_at;
+    v_location := app_record.scheduled_manager_location;
+    v_sequence := app_record.manager_ics_sequence;
+  END IF;
+
+  IF v_starts_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The booked slot gives the duration; legacy schedules last one hour
+  SELECT s.ends_at, st.full_name INTO v_ends_at, v_interviewer
+  FROM interview_slots s
+  JOIN staff_users st ON st.id = s.staff_id
+  WHERE s.application_id = p_application_id
+    AND s.kind = p_kind
+    AND s.starts_at = v_starts_at;
+
+  RETURN jsonb_build_object(
+    -- Stable per interview so reschedules replace the event instead of duplicating it
+    'uid', 'interview-' || lower(p_kind) || '-' || p_application_id || '@binnibus',
+    'sequence', v_sequence,
+    'kind', p_kind,
+    'starts_at', v_starts_at,
+    'ends_at', COALESCE(v_ends_at, v_starts_at + interval '1 hour'),
+    'location', v_location,
+    'folio', app_record.folio,
+    'position', app_record.position,
+    'candidate_name', app_record.candidate_name,
+    'interviewer_name', v_interviewer
+  );
+END;
+$$;
+
+-- Function to get an interview event for the candidate
+CREATE OR REPLACE FUNCTION get_candidate_interview_event(
+  p_folio text,
+  p_email text,
+  p_kind text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_application_id uuid;
+  v_event jsonb;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  SELECT a.id INTO v_application_id
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  WHERE a.folio = p_folio
+    AND lower(trim(c.email)) = lower(trim(p_email));
+
+  -- Same generic error as the status query (avoid enumeration)
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No se encontró una aplicación con esa combinación de folio y correo electrónico.';
+  END IF;
+
+  v_event := interview_ics_event(v_application_id, p_kind);
+
+  IF v_event IS NULL THEN
+    RAISE EXCEPTION 'No hay una entrevista agendada.';
+  END IF;
+
+  -- Candidates don't see the interviewer's name
+  RETURN v_event - 'interviewer_name';
+END;
+$$;
+
+-- Function to create or replace the caller's ICS feed token
+CREATE OR REPLACE FUNCTION rotate_staff_ics_feed()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF NOT can_manage_calendar(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied. RH or Manager role required.';
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO staff_ics_feeds (staff_id, token_hash)
+  VALUES (auth.uid(), encode(digest(v_token, 'sha256'), 'hex'))
+  ON CONFLICT (staff_id) DO UPDATE
+  SET token_hash = EXCLUDED.token_hash,
+      created_at = now(),
+      last_accessed_at = NULL;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'STAFF_ICS_FEED_ROTATE',
+    jsonb_build_object('staff_id', auth.uid())::text
+  );
+
+  RETURN jsonb_build_object('token', v_token);
+END;
+$$;
+
+-- Function to list the interviews of a feed's owner
+CREATE OR REPLACE FUNCTION get_staff_ics_feed(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_feed staff_ics_feeds%ROWTYPE;
+  v_staff staff_users%ROWTYPE;
+  v_events jsonb;
+BEGIN
+  SELECT * INTO v_feed
+  FROM staff_ics_feeds
+  WHERE token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid calendar feed';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = v_feed.staff_id;
+
+  IF NOT v_staff.active THEN
+    RAISE EXCEPTION 'Invalid calendar feed';
+  END IF;
+
+  UPDATE staff_ics_feeds SET last_accessed_at = now() WHERE staff_id = v_feed.staff_id;
+
+  -- Interviews of the last 30 days and every upcoming one
+  SELECT COALESCE(jsonb_agg(e.event ORDER BY e.starts_at), '[]'::jsonb)
+  INTO v_events
+  FROM (
+    SELECT s.starts_at, interview_ics_event(s.application_id, s.kind) AS event
+    FROM interview_slots s
+    WHERE s.staff_id = v_feed.staff_id
+      AND s.application_id IS NOT NULL
+      AND s.starts_at > now() - interval '30 days'
+  ) e
+  WHERE e.event IS NOT NULL;
+
+  RETURN jsonb_build_object(
+    'staff_name', v_staff.full_name,
+    'events', v_events
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION interview_ics_event(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_candidate_interview_event(text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_staff_ics_feed(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION interview_ics_event(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_candidate_interview_event(text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_staff_ics_feed(text) TO service_role;
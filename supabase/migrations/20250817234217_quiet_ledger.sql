@@ -0,0 +1,470 @@
+/*
+  # Interview appointment history with no-show tracking
+
+  1. New Tables
+    - `interview_appointments` - Every RH and manager appointment of an application
+      - `kind` (RH or MANAGER), `scheduled_at`, `location`, `interviewer_id`
+      - `booked_by` (STAFF or CANDIDATE)
+      - `outcome` - NULL while pending; ATTENDED, NO_SHOW, RESCHEDULED_BY_CANDIDATE,
+        RESCHEDULED_BY_STAFF or CANCELLED_BY_CANDIDATE once closed
+
+  2. Materialized Views
+    - `mv_no_show_by_vacancy` - Attended and no-show appointments per vacancy
+
+  3. Functions
+    - `record_interview_appointment` - Trigger on the schedule columns: closes the pending appointment
+      as rescheduled (or cancelled) and opens the new one. Covers `schedule_rh_interview`,
+      `set_manager_schedule`, the stage transitions and candidate self-booking
+    - `mark_interview_attended` - Starting the RH interview or saving the manager result marks it attended
+    - `set_interview_outcome` - RH (any interview) or the vacancy manager (manager interview) records
+      attendance or a no-show
+    - `get_interview_appointments` - History of an application
+    - `get_rh_dashboard_summary` - Adds `no_show_rate_by_vacancy`
+    - `refresh_dashboard_views` - Also refreshes `mv_no_show_by_vacancy`
+
+  4. Security
+    - RH reads every appointment, managers only those of their vacancies
+
+  5. Auditing
+    - INTERVIEW_OUTCOME with kind, appointment and outcome
+*/
+
+CREATE TABLE IF NOT EXISTS interview_appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('RH', 'MANAGER')),
+  scheduled_at timestamptz NOT NULL,
+  location text,
+  interviewer_id uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  booked_by text NOT NULL CHECK (booked_by IN ('STAFF', 'CANDIDATE')),
+  outcome text CHECK (outcome IN (
+    'ATTENDED',
+    'NO_SHOW',
+    'RESCHEDULED_BY_CANDIDATE',
+    'RESCHEDULED_BY_STAFF',
+    'CANCELLED_BY_CANDIDATE'
+  )),
+  outcome_at timestamptz,
+  outcome_by uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_appointments_application
+  ON interview_appointments (application_id, kind, created_at);
+
+-- At most one pending appointment per interview
+CREATE UNIQUE INDEX IF NOT EXISTS idx_interview_appointments_pending
+  ON interview_appointments (application_id, kind)
+  WHERE outcome IS NULL;
+
+ALTER TABLE interview_appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "staff_read_interview_appointments" ON interview_appointments
+  FOR SELECT TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+-- Backfill the current schedules (already started interviews count as attended)
+INSERT INTO interview_appointments (application_id, kind, scheduled_at, location, interviewer_id, booked_by, outcome, outcome_at, created_at)
+SELECT
+  a.id,
+  'RH',
+  a.scheduled_rh_at,
+  a.scheduled_rh_location,
+  s.staff_id,
+  'STAFF',
+  CASE WHEN ir.started_at IS NOT NULL THEN 'ATTENDED' END,
+  ir.started_at,
+  COALESCE(s.booked_at, a.created_at)
+FROM applications a
+LEFT JOIN interview_slots s ON s.application_id = a.id AND s.kind = 'RH'
+LEFT JOIN interview_rh ir ON ir.application_id = a.id
+WHERE a.scheduled_rh_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM interview_appointments ia WHERE ia.application_id = a.id AND ia.kind = 'RH');
+
+INSERT INTO interview_appointments (application_id, kind, scheduled_at, location, interviewer_id, booked_by, outcome, outcome_at, created_at)
+SELECT
+  a.id,
+  'MANAGER',
+  a.scheduled_manager_at,
+  a.scheduled_manager_location,
+  s.staff_id,
+  'STAFF',
+  CASE WHEN im.application_id IS NOT NULL THEN 'ATTENDED' END,
+  im.created_at,
+  COALESCE(s.booked_at, a.created_at)
+FROM applications a
+LEFT JOIN interview_slots s ON s.application_id = a.id AND s.kind = 'MANAGER'
+LEFT JOIN interview_manager im ON im.application_id = a.id
+WHERE a.scheduled_manager_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM interview_appointments ia WHERE ia.application_id = a.id AND ia.kind = 'MANAGER');
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS mv_no_show_by_vacancy AS
+SELECT
+  v.id as vacancy_id,
+  v.position,
+  COUNT(*) FILTER (WHERE ia.outcome = 'ATTENDED') as attended,
+  COUNT(*) FILTER (WHERE ia.outcome = 'NO_SHOW') as no_show,
+  COUNT(*) FILTER (WHERE ia.outcome IN ('RESCHEDULED_BY_CANDIDATE', 'CANCELLED_BY_CANDIDATE')) as changed_by_candidate,
+  COUNT(*) FILTER (WHERE ia.outcome = 'RESCHEDULED_BY_STAFF') as changed_by_staff
+FROM interview_appointments ia
+JOIN applications a ON a.id = ia.application_id
+JOIN vacancies v ON v.id = a.vacancy_id
+GROUP BY v.id, v.position;
+
+-- Trigger function to keep the appointment history of the schedule columns
+CREATE OR REPLACE FUNCTION record_interview_appointment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_by_staff boolean;
+  v_kind text;
+  v_old_at timestamptz;
+  v_new_at timestamptz;
+  v_old_location text;
+  v_new_location text;
+BEGIN
+  -- Candidate self-booking runs without a staff session
+  v_by_staff := EXISTS (SELECT 1 FROM staff_users WHERE id = auth.uid());
+
+  FOREACH v_kind IN ARRAY ARRAY['RH', 'MANAGER'] LOOP
+    IF v_kind = 'RH' THEN
+      v_old_at := OLD.scheduled_rh_at;
+      v_new_at := NEW.scheduled_rh_at;
+      v_old_location := OLD.scheduled_rh_location;
+      v_new_location := NEW.scheduled_rh_location;
+    ELSE
+      v_old_at := OLD.scheduled_manager_at;
+      v_new_at := NEW.scheduled_manager_at;
+      v_old_location := OLD.scheduled_manager_location;
+      v_new_location := NEW.scheduled_manager_location;
+    END IF;
+
+    CONTINUE WHEN v_new_at IS NOT DISTINCT FROM v_old_at
+      AND v_new_location IS NOT DISTINCT FROM v_old_location;
+
+    UPDATE interview_appointments
+    SET
+      outcome = CASE
+        WHEN v_by_staff THEN 'RESCHEDULED_BY_STAFF'
+        WHEN v_new_at IS NULL THEN 'CANCELLED_BY_CANDIDATE'
+        ELSE 'RESCHEDULED_BY_CANDIDATE'
+      END,
+      outcome_at = now(),
+      outcome_by = CASE WHEN v_by_staff THEN auth.uid() END
+    WHERE application_id = NEW.id
+      AND kind = v_kind
+      AND outcome IS NULL;
+
+    IF v_new_at IS NOT NULL THEN
+      INSERT INTO interview_appointments (
+        application_id, kind, scheduled_at, location, interviewer_id, booked_by, created_by
+      )
+      SELECT
+        NEW.id,
+        v_kind,
+        v_new_at,
+        v_new_location,
+        (SELECT staff_id FROM interview_slots WHERE application_id = NEW.id AND kind = v_kind),
+        CASE WHEN v_by_staff THEN 'STAFF' ELSE 'CANDIDATE' END,
+        CASE WHEN v_by_staff THEN auth.uid() END;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_interview_appointment_trigger ON applications;
+CREATE TRIGGER record_interview_appointment_trigger
+  AFTER UPDATE OF scheduled_rh_at, scheduled_rh_location, scheduled_manager_at, scheduled_manager_location
+  ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION record_interview_appointment();
+
+-- Trigger function to mark the pending appointment as attended once the interview happens
+CREATE OR REPLACE FUNCTION mark_interview_attended()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text := TG_ARGV[0];
+BEGIN
+  -- interview_rh rows are created before the interview starts
+  IF v_kind = 'RH' THEN
+    IF NEW.started_at IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+      IF OLD.started_at IS NOT NULL THEN
+        RETURN NEW;
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE interview_appointments
+  SET outcome = 'ATTENDED', outcome_at = now(), outcome_by = auth.uid()
+  WHERE application_id = NEW.application_id
+    AND kind = v_kind
+    AND outcome IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mark_rh_interview_attended_trigger ON interview_rh;
+CREATE TRIGGER mark_rh_interview_attended_trigger
+  AFTER INSERT OR UPDATE OF started_at ON interview_rh
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_interview_attended('RH');
+
+DROP TRIGGER IF EXISTS mark_manager_interview_attended_trigger ON interview_manager;
+CREATE TRIGGER mark_manager_interview_attended_trigger
+  AFTER INSERT ON interview_manager
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_interview_attended('MANAGER');
+
+-- Function to record whether the candidate attended the pending appointment
+CREATE OR REPLACE FUNCTION set_interview_outcome(
+  p_application_id uuid,
+  p_kind text,
+  p_outcome text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_appointment interview_appointments%ROWTYPE;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  IF p_outcome NOT IN ('ATTENDED', 'NO_SHOW') THEN
+    RAISE EXCEPTION 'Invalid outcome: %', p_outcome;
+  END IF;
+
+  -- RH records any interview, the vacancy manager only the manager interview
+  IF NOT (is_rh_user() OR (p_kind = 'MANAGER' AND is_rh_or_manager_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO v_appointment
+  FROM interview_appointments
+  WHERE application_id = p_application_id
+    AND kind = p_kind
+    AND outcome IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending % appointment for this application', p_kind;
+  END IF;
+
+  IF p_outcome = 'NO_SHOW' AND v_appointment.scheduled_at > now() THEN
+    RAISE EXCEPTION 'The appointment has not happened yet';
+  END IF;
+
+  UPDATE interview_appointments
+  SET outcome = p_outcome, outcome_at = now(), outcome_by = auth.uid()
+  WHERE id = v_appointment.id;
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_OUTCOME',
+    jsonb_build_object(
+      'kind', p_kind,
+      'appointment_id', v_appointment.id,
+      'scheduled_at', v_appointment.scheduled_at,
+      'outcome', p_outcome
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'appointment_id', v_appointment.id,
+    'outcome', p_outcome
+  );
+END;
+$$;
+
+-- Function to get the appointment history of an application
+CREATE OR REPLACE FUNCTION get_interview_appointments(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', ia.id,
+      'kind', ia.kind,
+      'scheduled_at', ia.scheduled_at,
+      'location', ia.location,
+      'interviewer_name', i.full_name,
+      'booked_by', ia.booked_by,
+      'outcome', ia.outcome,
+      'outcome_at', ia.outcome_at,
+      'outcome_by_name', o.full_name,
+      'created_at', ia.created_at
+    ) ORDER BY ia.created_at DESC)
+    FROM interview_appointments ia
+    LEFT JOIN staff_users i ON i.id = ia.interviewer_id
+    LEFT JOIN staff_users o ON o.id = ia.outcome_by
+    WHERE ia.application_id = p_application_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- Dashboard summary with no-show rates
+CREATE OR REPLACE FUNCTION get_rh_dashboard_summary(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  active_vacancies_count int;
+  applications_total_count int;
+  applications_by_status_data jsonb;
+  avg_time_data jsonb;
+  accept_reject_data jsonb;
+  rejections_by_reason_data jsonb;
+  no_show_data jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Get active vacancies count
+  SELECT COUNT(*) INTO active_vacancies_count
+  FROM vacancies
+  WHERE is_active = true;
+
+  -- Get applications total (with date filter if provided)
+  SELECT COUNT(*) INTO applications_total_count
+  FROM applications a
+  WHERE (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to);
+
+  -- Get applications by status (with date filter if provided)
+  SELECT jsonb_object_agg(status, count) INTO applications_by_status_data
+  FROM (
+    SELECT
+      a.status,
+      COUNT(*) as count
+    FROM applications a
+    WHERE (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at <= p_to)
+    GROUP BY a.status
+  ) t;
+
+  -- Get average time by stage from materialized view
+  SELECT jsonb_object_agg(transition, ROUND(avg_hours::numeric, 1)) INTO avg_time_data
+  FROM mv_avg_time_by_stage
+  WHERE avg_hours IS NOT NULL;
+
+  -- Get accept/reject rates by vacancy
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', vacancy_id,
+      'position', position,
+      'accepted', accepted,
+      'rejected', rejected,
+      'total', total
+    )
+  ) INTO accept_reject_data
+  FROM mv_accept_reject_by_vacancy
+  WHERE total > 0;
+
+  -- Get rejections by reason per vacancy (rejections before the catalog have no reason)
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', m.vacancy_id,
+      'position', m.position,
+      'reason_code', m.reason_code,
+      'reason_label', COALESCE(r.label, 'Sin motivo registrado'),
+      'rejected', m.rejected
+    ) ORDER BY m.position, m.rejected DESC
+  ) INTO rejections_by_reason_data
+  FROM mv_rejections_by_reason m
+  LEFT JOIN rejection_reasons r ON r.code = m.reason_code;
+
+  -- Get no-show rate by vacancy (over appointments with a known attendance)
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', vacancy_id,
+      'position', position,
+      'attended', attended,
+      'no_show', no_show,
+      'changed_by_candidate', changed_by_candidate,
+      'changed_by_staff', changed_by_staff,
+      'no_show_rate', CASE WHEN attended + no_show > 0
+        THEN ROUND(no_show::numeric * 100 / (attended + no_show), 1)
+        ELSE 0
+      END
+    ) ORDER BY position
+  ) INTO no_show_data
+  FROM mv_no_show_by_vacancy
+  WHERE attended + no_show > 0;
+
+  -- Build result
+  result := jsonb_build_object(
+    'active_vacancies', active_vacancies_count,
+    'applications_total', applications_total_count,
+    'applications_by_status', COALESCE(applications_by_status_data, '{}'::jsonb),
+    'avg_time_by_stage_hours', COALESCE(avg_time_data, '{}'::jsonb),
+    'accept_reject_rate_by_vacancy', COALESCE(accept_reject_data, '[]'::jsonb),
+    'rejections_by_reason', COALESCE(rejections_by_reason_data, '[]'::jsonb),
+    'no_show_rate_by_vacancy', COALESCE(no_show_data, '[]'::jsonb)
+  );
+
+  -- Log dashboard view
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_VIEW', 'Dashboard summary accessed');
+
+  RETURN result;
+END;
+$$;
+
+-- Function to refresh dashboard materialized views
+CREATE OR REPLACE FUNCTION refresh_dashboard_views()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Refresh all materialized views
+  REFRESH MATERIALIZED VIEW mv_applications_by_status;
+  REFRESH MATERIALIZED VIEW mv_avg_time_by_stage;
+  REFRESH MATERIALIZED VIEW mv_accept_reject_by_vacancy;
+  REFRESH MATERIALIZED VIEW mv_rejections_by_reason;
+  REFRESH MATERIALIZED VIEW mv_no_show_by_vacancy;
+
+  -- Log refresh action
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_REFRESH', 'Dashboard views refreshed');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_interview_outcome(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_interview_appointments(uuid) TO authenticated;
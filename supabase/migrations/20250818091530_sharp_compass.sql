@@ -0,0 +1,737 @@
+/*
+  # Manager interview scorecard
+
+  1. New Tables
+    - `manager_scorecard_competencies` - Weighted competencies per vacancy type
+      - `weight` (relative weight, 1-100)
+      - `anchors` (five descriptions, one per rating 1-5)
+      - `is_active` (inactive competencies are no longer asked; saved scorecards keep them)
+
+  2. Changes
+    - `interview_manager.ratings` - Snapshot of the rated competencies
+      (competency_id, name, weight, rating, comment)
+
+  3. Functions
+    - `save_manager_scorecard` - Validate ratings and comments, store the composite in `score`
+    - `save_manager_result` - Rejected for vacancy types with an active scorecard
+    - `get_manager_interview_context` - Now returns the scorecard and saved ratings
+    - `get_evaluation_context` - Manager interview now includes the rating breakdown
+    - `list_scorecard_competencies` / `save_scorecard_competency` - RH configuration
+
+  4. Auditing
+    - MANAGER_SCORECARD_SAVE and SCORECARD_COMPETENCY_SAVE
+*/
+
+CREATE TABLE IF NOT EXISTS manager_scorecard_competencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vacancy_type vacancy_type NOT NULL,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  weight integer NOT NULL CHECK (weight BETWEEN 1 AND 100),
+  anchors text[] NOT NULL CHECK (array_length(anchors, 1) = 5),
+  ord integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_scorecard_competencies_type
+  ON manager_scorecard_competencies (vacancy_type, ord) WHERE is_active;
+
+ALTER TABLE manager_scorecard_competencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_read_scorecard_competencies" ON manager_scorecard_competencies
+  FOR SELECT TO authenticated
+  USING (is_rh_user());
+
+ALTER TABLE interview_manager
+  ADD COLUMN IF NOT EXISTS ratings jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Initial scorecards
+INSERT INTO manager_scorecard_competencies (vacancy_type, name, description, weight, anchors, ord) VALUES
+(
+  'ADMINISTRATIVO', 'Conocimiento técnico', 'Dominio de las herramientas y procesos del puesto', 30,
+  ARRAY[
+    'Desconoce las herramientas básicas del puesto',
+    'Conoce lo básico pero requiere capacitación amplia',
+    'Cumple con lo necesario para iniciar',
+    'Domina las herramientas y propone mejoras',
+    'Experto; podría capacitar al equipo'
+  ], 1
+),
+(
+  'ADMINISTRATIVO', 'Comunicación', 'Claridad oral y escrita, escucha activa', 20,
+  ARRAY[
+    'Respuestas confusas o incompletas',
+    'Se expresa con dificultad',
+    'Se expresa con claridad',
+    'Comunica con claridad y estructura',
+    'Comunicación sobresaliente y persuasiva'
+  ], 2
+),
+(
+  'ADMINISTRATIVO', 'Organización y atención al detalle', 'Manejo de prioridades, seguimiento y precisión', 20,
+  ARRAY[
+    'Sin evidencia de organización',
+    'Organización limitada',
+    'Organiza su trabajo adecuadamente',
+    'Planifica y da seguimiento consistente',
+    'Referente en orden y precisión'
+  ], 3
+),
+(
+  'ADMINISTRATIVO', 'Trabajo en equipo', 'Colaboración con otras áreas', 15,
+  ARRAY[
+    'Prefiere trabajar aislado',
+    'Colabora sólo cuando se le pide',
+    'Colabora de forma adecuada',
+    'Busca activamente colaborar',
+    'Impulsa la colaboración del equipo'
+  ], 4
+),
+(
+  'ADMINISTRATIVO', 'Ajuste al puesto', 'Motivación, expectativas y disponibilidad', 15,
+  ARRAY[
+    'Expectativas incompatibles con el puesto',
+    'Ajuste dudoso',
+    'Ajuste aceptable',
+    'Buen ajuste y motivación clara',
+    'Ajuste ideal al puesto y la empresa'
+  ], 5
+),
+(
+  'OPERATIVO', 'Experiencia operativa', 'Experiencia previa en operación y manejo de unidades', 30,
+  ARRAY[
+    'Sin experiencia relevante',
+    'Experiencia mínima',
+    'Experiencia suficiente para el puesto',
+    'Amplia experiencia comprobable',
+    'Experiencia sobresaliente y diversa'
+  ], 1
+),
+(
+  'OPERATIVO', 'Seguridad y apego a normas', 'Conocimiento de reglamentos y prácticas seguras', 25,
+  ARRAY[
+    'Desconoce o minimiza las normas',
+    'Conocimiento limitado de las normas',
+    'Conoce y respeta las normas',
+    'Aplica las normas con criterio propio',
+    'Promueve activamente la cultura de seguridad'
+  ], 2
+),
+(
+  'OPERATIVO', 'Puntualidad y responsabilidad', 'Cumplimiento de horarios y compromisos', 20,
+  ARRAY[
+    'Antecedentes de incumplimiento',
+    'Cumplimiento irregular',
+    'Cumplimiento adecuado',
+    'Cumplimiento constante y comprobable',
+    'Ejemplar en responsabilidad'
+  ], 3
+),
+(
+  'OPERATIVO', 'Trabajo en equipo', 'Relación con compañeros y supervisores', 15,
+  ARRAY[
+    'Conflictos frecuentes',
+    'Relación distante con el equipo',
+    'Relación adecuada',
+    'Apoya a sus compañeros',
+    'Líder natural del equipo'
+  ], 4
+),
+(
+  'OPERATIVO', 'Actitud de servicio', 'Trato con pasajeros y usuarios', 10,
+  ARRAY[
+    'Trato inadecuado',
+    'Trato indiferente',
+    'Trato cordial',
+    'Trato amable y resolutivo',
+    'Servicio excepcional'
+  ], 5
+);
+
+-- Function to list scorecard competencies (active and inactive) for RH configuration
+CREATE OR REPLACE FUNCTION list_scorecard_competencies()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', c.id,
+      'vacancy_type', c.vacancy_type,
+      'name', c.name,
+      'description', c.description,
+      'weight', c.weight,
+      'anchors', to_jsonb(c.anchors),
+      'ord', c.ord,
+      'is_active', c.is_active
+    ) ORDER BY c.vacancy_type, c.ord, c.name
+  ), '[]'::jsonb) INTO v_result
+  FROM manager_scorecard_competencies c;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to create or update a scorecard competency
+CREATE OR REPLACE FUNCTION save_scorecard_competency(
+  p_id uuid,
+  p_vacancy_type vacancy_type,
+  p_name text,
+  p_description text,
+  p_weight integer,
+  p_anchors text[],
+  p_ord integer,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Competency name is required';
+  END IF;
+
+  IF p_weight IS NULL OR p_weight < 1 OR p_weight > 100 THEN
+    RAISE EXCEPTION 'Weight must be between 1 and 100';
+  END IF;
+
+  IF COALESCE(array_length(p_anchors, 1), 0) <> 5
+     OR EXISTS (SELECT 1 FROM unnest(p_anchors) a WHERE COALESCE(trim(a), '') = '') THEN
+    RAISE EXCEPTION 'Five rating anchors (1-5) are required';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO manager_scorecard_competencies (
+      vacancy_type, name, description, weight, anchors, ord, is_active
+    ) VALUES (
+      p_vacancy_type, trim(p_name), COALESCE(trim(p_description), ''), p_weight,
+      p_anchors, COALESCE(p_ord, 0), COALESCE(p_is_active, true)
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE manager_scorecard_competencies SET
+      vacancy_type = p_vacancy_type,
+      name = trim(p_name),
+      description = COALESCE(trim(p_description), ''),
+      weight = p_weight,
+      anchors = p_anchors,
+      ord = COALESCE(p_ord, 0),
+      is_active = COALESCE(p_is_active, true)
+    WHERE id = p_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'Competency not found';
+    END IF;
+  END IF;
+
+  PERFORM log_staff_action(
+    'SCORECARD_COMPETENCY_SAVE',
+    jsonb_build_object(
+      'competency_id', v_id,
+      'vacancy_type', p_vacancy_type,
+      'name', trim(p_name),
+      'weight', p_weight,
+      'is_active', COALESCE(p_is_active, true)
+    )::text
+  );
+
+  RETURN jsonb_build_object('id', v_id);
+END;
+$$;
+
+-- Function to save the manager scorecard; the weighted composite (0-100) goes into score
+CREATE OR REPLACE FUNCTION save_manager_scorecard(
+  p_application_id uuid,
+  p_ratings jsonb,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_current_user_id uuid := auth.uid();
+  v_missing text;
+  v_snapshot jsonb;
+  v_score integer;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, v.type INTO v_manager_id, v_vacancy_type
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (is_rh_user() OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF jsonb_typeof(p_ratings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Ratings must be an array';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'No scorecard configured for vacancy type %', v_vacancy_type;
+  END IF;
+
+  -- Every active competency needs a 1-5 rating and a comment
+  SELECT string_agg(c.name, ', ' ORDER BY c.ord) INTO v_missing
+  FROM manager_scorecard_competencies c
+  LEFT JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active
+    AND (
+      r.rating IS NULL
+      OR COALESCE(r.rating->>'rating', '') !~ '^[1-5]$'
+      OR COALESCE(trim(r.rating->>'comment'), '') = ''
+    );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Rating (1-5) and comment required for: %', v_missing;
+  END IF;
+
+  -- Rating 1 counts as 0 and rating 5 as 100, weighted by competency
+  SELECT
+    jsonb_agg(
+      jsonb_build_object(
+        'competency_id', c.id,
+        'name', c.name,
+        'weight', c.weight,
+        'rating', (r.rating->>'rating')::integer,
+        'comment', trim(r.rating->>'comment')
+      ) ORDER BY c.ord
+    ),
+    round(sum(c.weight * ((r.rating->>'rating')::integer - 1)) * 25.0 / sum(c.weight))
+  INTO v_snapshot, v_score
+  FROM manager_scorecard_competencies c
+  JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active;
+
+  -- Insert or update manager interview
+  INSERT INTO interview_manager (application_id, score, notes, ratings, created_at)
+  VALUES (p_application_id, v_score, COALESCE(p_notes, ''), v_snapshot, now())
+  ON CONFLICT (application_id)
+  DO UPDATE SET
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    created_at = now();
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORECARD_SAVE',
+    json_build_object(
+      'score', v_score,
+      'ratings', jsonb_array_length(v_snapshot),
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true, 'score', v_score);
+END;
+$$;
+
+-- Function to save manager result (only for vacancy types without a scorecard)
+CREATE OR REPLACE FUNCTION save_manager_result(
+  p_application_id uuid,
+  p_score integer,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_score IS NULL OR p_score < 0 OR p_score > 100 THEN
+    RAISE EXCEPTION 'Score must be between 0 and 100';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, v.type INTO v_manager_id, v_vacancy_type
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (is_rh_user() OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This vacancy type uses a scorecard; save it with save_manager_scorecard';
+  END IF;
+
+  -- Insert or update manager interview
+  INSERT INTO interview_manager (application_id, score, notes, ratings, created_at)
+  VALUES (p_application_id, p_score, COALESCE(p_notes, ''), '[]'::jsonb, now())
+  ON CONFLICT (application_id)
+  DO UPDATE SET
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    created_at = now();
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORE_SAVE',
+    json_build_object(
+      'score', p_score,
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true);
+END;
+$$;
+
+-- Function to get manager interview context (now with the scorecard for the vacancy type)
+CREATE OR REPLACE FUNCTION get_manager_interview_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id INTO v_manager_id
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if current user is RH or the assigned manager
+  IF NOT (is_rh_user() OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  -- Build the response
+  SELECT json_build_object(
+    'application', json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'schedules', json_build_object(
+        'rh', CASE 
+          WHEN a.scheduled_rh_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_rh_at,
+              'location', a.scheduled_rh_location
+            )
+          ELSE NULL
+        END,
+        'manager', CASE 
+          WHEN a.scheduled_manager_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_manager_at,
+              'location', a.scheduled_manager_location
+            )
+          ELSE NULL
+        END
+      )
+    ),
+    'interview_rh', CASE 
+      WHEN ir.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ir.bank_version_id,
+          'started_at', ir.started_at,
+          'finished_at', ir.finished_at,
+          'questions', (
+            SELECT json_agg(
+              json_build_object(
+                'id', q.id,
+                'ord', q.ord,
+                'text', q.text,
+                'is_required', q.is_required
+              ) ORDER BY q.ord
+            )
+            FROM questions q
+            WHERE q.bank_version_id = ir.bank_version_id
+          ),
+          'answers', ir.answers,
+          'extra_questions', ir.extra_questions
+        )
+      ELSE NULL
+    END,
+    'interview_manager', CASE 
+      WHEN im.application_id IS NOT NULL THEN
+        json_build_object(
+          'score', im.score,
+          'notes', im.notes,
+          'ratings', im.ratings,
+          'created_at', im.created_at,
+          'exists', true
+        )
+      ELSE
+        json_build_object('exists', false)
+    END,
+    'scorecard', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', sc.id,
+          'name', sc.name,
+          'description', sc.description,
+          'weight', sc.weight,
+          'anchors', sc.anchors,
+          'ord', sc.ord
+        ) ORDER BY sc.ord
+      ), '[]'::json)
+      FROM manager_scorecard_competencies sc
+      WHERE sc.vacancy_type = v.type
+      AND sc.is_active
+    )
+  ) INTO v_result
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id
+  WHERE a.id = p_application_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Evaluation context now includes the manager scorecard breakdown
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'ratings', im.ratings,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_scorecard_competencies() TO authenticated;
+GRANT EXECUTE ON FUNCTION save_scorecard_competency(uuid, vacancy_type, text, text, integer, text[], integer, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_manager_scorecard(uuid, jsonb, text) TO authenticated;
@@ -0,0 +1,776 @@
+/*
+  # Manager question banks
+
+  1. Changes
+    - `question_banks.stage` (RH | MANAGER) - A kind can now have one bank per interview stage
+    - Unique key moves from `kind` to (`kind`, `stage`)
+    - Initial manager banks for technicians, unit operators and security guards
+
+  2. New Tables
+    - `interview_manager_answers` - Guided manager interview (bank version, answers, extra questions)
+
+  3. Functions
+    - `import_question_bank_csv` - Takes the target stage (defaults to RH)
+    - `start_rh_interview` - Only resolves RH-stage banks
+    - `start_manager_interview` / `save_manager_interview_draft` - Guided manager interview
+    - `check_manager_interview_answers` - Required answers must be filled before the manager result is saved
+    - `get_manager_interview_context` / `get_evaluation_context` - Now include the guided interview
+
+  4. Security
+    - Managers read guided interviews of their vacancies; writes go through the functions
+
+  5. Auditing
+    - INTERVIEW_MANAGER_START and INTERVIEW_MANAGER_SAVE_DRAFT
+*/
+
+ALTER TABLE question_banks
+  ADD COLUMN IF NOT EXISTS stage text NOT NULL DEFAULT 'RH'
+  CHECK (stage IN ('RH', 'MANAGER'));
+
+ALTER TABLE question_banks DROP CONSTRAINT IF EXISTS question_banks_kind_key;
+ALTER TABLE question_banks ADD CONSTRAINT question_banks_kind_stage_key UNIQUE (kind, stage);
+
+CREATE TABLE IF NOT EXISTS interview_manager_answers (
+  application_id uuid PRIMARY KEY REFERENCES applications(id) ON DELETE CASCADE,
+  bank_version_id uuid NOT NULL REFERENCES question_bank_versions(id),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz,
+  answers jsonb NOT NULL DEFAULT '[]'::jsonb,        -- [{question_id, answer_text}]
+  extra_questions jsonb NOT NULL DEFAULT '[]'::jsonb -- [{text, answer_text}]
+);
+
+ALTER TABLE interview_manager_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_or_manager_read_interview_manager_answers" ON interview_manager_answers
+  FOR SELECT TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+-- Initial manager banks
+WITH banks AS (
+  INSERT INTO question_banks (kind, stage, name) VALUES
+    ('TECNICOS', 'MANAGER', 'Entrevista técnica - Técnicos'),
+    ('OPERADOR_UNIDADES', 'MANAGER', 'Entrevista técnica - Operador de Unidades'),
+    ('GUARDIA_SEGURIDAD', 'MANAGER', 'Entrevista técnica - Guardia de Seguridad')
+  ON CONFLICT (kind, stage) DO NOTHING
+  RETURNING id, kind
+), versions AS (
+  INSERT INTO question_bank_versions (bank_id, version, is_active)
+  SELECT id, 1, true FROM banks
+  RETURNING id, bank_id
+)
+INSERT INTO questions (bank_version_id, ord, text, is_required)
+SELECT v.id, q.ord, q.text, q.is_required
+FROM versions v
+JOIN banks b ON b.id = v.bank_id
+JOIN (VALUES
+  ('TECNICOS', 1, '¿Qué tipo de unidades y sistemas has diagnosticado o reparado?', true),
+  ('TECNICOS', 2, 'Describe el procedimiento para diagnosticar una falla eléctrica intermitente.', true),
+  ('TECNICOS', 3, '¿Qué herramientas y equipo de diagnóstico sabes utilizar?', true),
+  ('TECNICOS', 4, '¿Cómo registras el mantenimiento preventivo y correctivo realizado?', false),
+  ('TECNICOS', 5, '¿Qué medidas de seguridad aplicas al trabajar bajo una unidad?', true),
+  ('OPERADOR_UNIDADES', 1, '¿Qué tipo de licencia tienes y qué unidades has operado?', true),
+  ('OPERADOR_UNIDADES', 2, '¿Qué revisas en la unidad antes de iniciar tu ruta?', true),
+  ('OPERADOR_UNIDADES', 3, '¿Cómo actúas ante una falla mecánica en carretera?', true),
+  ('OPERADOR_UNIDADES', 4, '¿Cómo manejas a un pasajero conflictivo?', true),
+  ('OPERADOR_UNIDADES', 5, '¿Has tenido incidentes viales? Descríbelos.', false),
+  ('GUARDIA_SEGURIDAD', 1, '¿En qué instalaciones has trabajado como guardia?', true),
+  ('GUARDIA_SEGURIDAD', 2, '¿Cómo realizas un rondín y qué registras?', true),
+  ('GUARDIA_SEGURIDAD', 3, '¿Qué haces si detectas a una persona no autorizada en el patio?', true),
+  ('GUARDIA_SEGURIDAD', 4, '¿Cómo controlas la entrada y salida de unidades y personal?', true),
+  ('GUARDIA_SEGURIDAD', 5, '¿Cuentas con capacitación en primeros auxilios o uso de extintores?', false)
+) AS q(kind, ord, text, is_required) ON q.kind = b.kind::text;
+
+-- Function to import question bank from CSV data (now per stage)
+DROP FUNCTION IF EXISTS import_question_bank_csv(question_bank_kind, jsonb, integer, boolean);
+
+CREATE OR REPLACE FUNCTION import_question_bank_csv(
+  p_kind question_bank_kind,
+  p_csv_data jsonb,
+  p_version integer DEFAULT NULL,
+  p_activate boolean DEFAULT true,
+  p_stage text DEFAULT 'RH'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank_id uuid;
+  v_bank_version_id uuid;
+  v_version integer;
+  v_question jsonb;
+  v_questions_imported integer := 0;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can import question banks';
+  END IF;
+
+  IF p_stage NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid stage: %', p_stage;
+  END IF;
+  
+  -- Get or create question bank
+  SELECT id INTO v_bank_id
+  FROM question_banks
+  WHERE kind = p_kind AND stage = p_stage;
+  
+  IF NOT FOUND THEN
+    INSERT INTO question_banks (kind, stage, name)
+    VALUES (p_kind, p_stage, CASE WHEN p_stage = 'MANAGER' THEN p_kind::text || ' (Manager)' ELSE p_kind::text END)
+    RETURNING id INTO v_bank_id;
+  END IF;
+  
+  -- Determine version number
+  IF p_version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+    FROM question_bank_versions
+    WHERE bank_id = v_bank_id;
+  ELSE
+    v_version := p_version;
+  END IF;
+  
+  -- Create new version
+  INSERT INTO question_bank_versions (bank_id, version, is_active)
+  VALUES (v_bank_id, v_version, p_activate)
+  RETURNING id INTO v_bank_version_id;
+  
+  -- Deactivate other versions if activating this one
+  IF p_activate THEN
+    UPDATE question_bank_versions 
+    SET is_active = false 
+    WHERE bank_id = v_bank_id AND id != v_bank_version_id;
+  END IF;
+  
+  -- Insert questions
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_csv_data)
+  LOOP
+    INSERT INTO questions (bank_version_id, ord, text, is_required)
+    VALUES (
+      v_bank_version_id,
+      (v_question->>'ord')::integer,
+      v_question->>'text',
+      (v_question->>'is_required')::boolean
+    );
+    
+    v_questions_imported := v_questions_imported + 1;
+  END LOOP;
+  
+  -- Log the import
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT',
+    format('Imported %s questions for %s (%s) v%s', v_questions_imported, p_kind, p_stage, v_version)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_id', v_bank_id,
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'stage', p_stage,
+    'questions_imported', v_questions_imported,
+    'activated', p_activate
+  );
+END;
+$$;
+
+-- Questions of a bank version in interview order
+CREATE OR REPLACE FUNCTION bank_version_questions(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', q.id,
+      'ord', q.ord,
+      'text', q.text,
+      'is_required', q.is_required
+    ) ORDER BY q.ord
+  ), '[]'::jsonb)
+  FROM questions q
+  WHERE q.bank_version_id = p_bank_version_id;
+$$;
+
+-- Function to start RH interview (only RH-stage banks)
+CREATE OR REPLACE FUNCTION start_rh_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_kind question_bank_kind;
+  v_bank_version_id uuid;
+  v_questions jsonb;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can start interviews';
+  END IF;
+  
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  -- Validate status
+  IF v_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConRH status to start interview';
+  END IF;
+  
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+  
+  IF FOUND THEN
+    -- Return existing interview data
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', q.id,
+        'ord', q.ord,
+        'text', q.text,
+        'is_required', q.is_required
+      ) ORDER BY q.ord
+    ) INTO v_questions
+    FROM questions q
+    WHERE q.bank_version_id = v_existing_interview.bank_version_id;
+    
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', v_questions,
+      'started_at', v_existing_interview.started_at,
+      'existing', true
+    );
+  END IF;
+  
+  -- Resolve question bank kind
+  v_bank_kind := resolve_question_bank_kind(v_vacancy_id);
+  
+  -- Get active bank version
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  JOIN question_banks qb ON qb.id = qbv.bank_id
+  WHERE qb.kind = v_bank_kind AND qb.stage = 'RH' AND qbv.is_active = true;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active question bank found for kind: %', v_bank_kind;
+  END IF;
+  
+  -- Create interview record
+  INSERT INTO interview_rh (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+  
+  -- Get questions
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', q.id,
+      'ord', q.ord,
+      'text', q.text,
+      'is_required', q.is_required
+    ) ORDER BY q.ord
+  ) INTO v_questions
+  FROM questions q
+  WHERE q.bank_version_id = v_bank_version_id;
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_START',
+    format('Started with bank kind: %s', v_bank_kind)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', v_questions,
+    'started_at', now(),
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to start (or resume) the guided manager interview
+CREATE OR REPLACE FUNCTION start_manager_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_kind question_bank_kind;
+  v_bank_version_id uuid;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_manager_answers
+  WHERE application_id = p_application_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', bank_version_questions(v_existing_interview.bank_version_id),
+      'answers', v_existing_interview.answers,
+      'extra_questions', v_existing_interview.extra_questions,
+      'started_at', v_existing_interview.started_at,
+      'updated_at', v_existing_interview.updated_at,
+      'existing', true
+    );
+  END IF;
+
+  -- Validate status
+  IF v_status != 'EntrevistaConManager' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConManager status to start interview';
+  END IF;
+
+  -- Resolve question bank kind and its active manager version
+  v_bank_kind := resolve_question_bank_kind(v_vacancy_id);
+
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  JOIN question_banks qb ON qb.id = qbv.bank_id
+  WHERE qb.kind = v_bank_kind AND qb.stage = 'MANAGER' AND qbv.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active manager question bank found for kind: %', v_bank_kind;
+  END IF;
+
+  INSERT INTO interview_manager_answers (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_MANAGER_START',
+    format('Started with bank kind: %s', v_bank_kind)
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', bank_version_questions(v_bank_version_id),
+    'answers', '[]'::jsonb,
+    'extra_questions', '[]'::jsonb,
+    'started_at', now(),
+    'updated_at', NULL,
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to save guided manager interview draft
+CREATE OR REPLACE FUNCTION save_manager_interview_draft(
+  p_application_id uuid,
+  p_answers jsonb,
+  p_extra_questions jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  UPDATE interview_manager_answers
+  SET
+    answers = p_answers,
+    extra_questions = p_extra_questions,
+    updated_at = now()
+  WHERE application_id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview not found or not started';
+  END IF;
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_MANAGER_SAVE_DRAFT',
+    'Draft saved'
+  );
+
+  RETURN jsonb_build_object('ok', true, 'saved_at', now());
+END;
+$$;
+
+-- Trigger: a started guided interview needs its required answers before the manager result is saved
+CREATE OR REPLACE FUNCTION check_manager_interview_answers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_missing text;
+BEGIN
+  SELECT string_agg(q.ord::text, ', ' ORDER BY q.ord) INTO v_missing
+  FROM interview_manager_answers ima
+  JOIN questions q ON q.bank_version_id = ima.bank_version_id
+  WHERE ima.application_id = NEW.application_id
+    AND q.is_required
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(ima.answers) answer
+      WHERE answer->>'question_id' = q.id::text
+        AND trim(COALESCE(answer->>'answer_text', '')) != ''
+    );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Missing answers for required manager interview questions: %', v_missing;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_manager_require_answers ON interview_manager;
+CREATE TRIGGER interview_manager_require_answers
+  BEFORE INSERT OR UPDATE ON interview_manager
+  FOR EACH ROW EXECUTE FUNCTION check_manager_interview_answers();
+
+-- Function to get manager interview context (now with the guided interview)
+CREATE OR REPLACE FUNCTION get_manager_interview_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id INTO v_manager_id
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if current user is RH or the assigned manager
+  IF NOT (is_rh_user() OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  -- Build the response
+  SELECT json_build_object(
+    'application', json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'schedules', json_build_object(
+        'rh', CASE 
+          WHEN a.scheduled_rh_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_rh_at,
+              'location', a.scheduled_rh_location
+            )
+          ELSE NULL
+        END,
+        'manager', CASE 
+          WHEN a.scheduled_manager_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_manager_at,
+              'location', a.scheduled_manager_location
+            )
+          ELSE NULL
+        END
+      )
+    ),
+    'interview_rh', CASE 
+      WHEN ir.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ir.bank_version_id,
+          'started_at', ir.started_at,
+          'finished_at', ir.finished_at,
+          'questions', (
+            SELECT json_agg(
+              json_build_object(
+                'id', q.id,
+                'ord', q.ord,
+                'text', q.text,
+                'is_required', q.is_required
+              ) ORDER BY q.ord
+            )
+            FROM questions q
+            WHERE q.bank_version_id = ir.bank_version_id
+          ),
+          'answers', ir.answers,
+          'extra_questions', ir.extra_questions
+        )
+      ELSE NULL
+    END,
+    'interview_manager', CASE 
+      WHEN im.application_id IS NOT NULL THEN
+        json_build_object(
+          'score', im.score,
+          'notes', im.notes,
+          'ratings', im.ratings,
+          'created_at', im.created_at,
+          'exists', true
+        )
+      ELSE
+        json_build_object('exists', false)
+    END,
+    'guided_interview', CASE
+      WHEN ima.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ima.bank_version_id,
+          'started_at', ima.started_at,
+          'updated_at', ima.updated_at,
+          'questions', bank_version_questions(ima.bank_version_id),
+          'answers', ima.answers,
+          'extra_questions', ima.extra_questions
+        )
+      ELSE NULL
+    END,
+    'has_question_bank', EXISTS (
+      SELECT 1
+      FROM question_banks qb
+      JOIN question_bank_versions qbv ON qbv.bank_id = qb.id
+      WHERE qb.kind = resolve_question_bank_kind(v.id)
+      AND qb.stage = 'MANAGER'
+      AND qbv.is_active
+    ),
+    'scorecard', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', sc.id,
+          'name', sc.name,
+          'description', sc.description,
+          'weight', sc.weight,
+          'anchors', sc.anchors,
+          'ord', sc.ord
+        ) ORDER BY sc.ord
+      ), '[]'::json)
+      FROM manager_scorecard_competencies sc
+      WHERE sc.vacancy_type = v.type
+      AND sc.is_active
+    )
+  ) INTO v_result
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id
+  LEFT JOIN interview_manager_answers ima ON a.id = ima.application_id
+  WHERE a.id = p_application_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Evaluation context now includes the guided manager interview answers
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_guided_interview json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'ratings', im.ratings,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get guided manager interview answers
+  SELECT json_build_object(
+    'bank_version_id', ima.bank_version_id,
+    'started_at', ima.started_at,
+    'updated_at', ima.updated_at,
+    'questions', bank_version_questions(ima.bank_version_id),
+    'answers', ima.answers,
+    'extra_questions', ima.extra_questions
+  ) INTO v_guided_interview
+  FROM interview_manager_answers ima
+  WHERE ima.application_id = p_application_id;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'guided_interview', v_guided_interview,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bank_version_questions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_manager_interview_answers() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION bank_version_questions(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION import_question_bank_csv(question_bank_kind, jsonb, integer, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_manager_interview(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_manager_interview_draft(uuid, jsonb, jsonb) TO authenticated;
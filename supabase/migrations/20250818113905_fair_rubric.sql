@@ -0,0 +1,555 @@
+/*
+  # RH interview rubric points
+
+  1. Changes
+    - `questions.max_points` (optional, 1-100) and `questions.rubric` (scoring guide)
+    - `interview_rh.score_total` / `interview_rh.score_max` - Points earned over points available
+    - Answers may carry `points` for questions with `max_points`
+
+  2. Functions
+    - `compute_rh_interview_score` - Trigger validating points and keeping the totals current;
+      finalizing requires points for every scored question
+    - `import_question_bank_csv` - Reads optional `max_points` and `rubric` columns
+    - `bank_version_questions` / `start_rh_interview` - Questions include rubric points
+    - `get_evaluation_context` - RH interview includes the score
+    - `list_applications_admin` - Returns the RH score and filters by a minimum percentage
+*/
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS max_points integer CHECK (max_points IS NULL OR max_points BETWEEN 1 AND 100),
+  ADD COLUMN IF NOT EXISTS rubric text;
+
+ALTER TABLE interview_rh
+  ADD COLUMN IF NOT EXISTS score_total integer,
+  ADD COLUMN IF NOT EXISTS score_max integer;
+
+-- Trigger: validate answer points against the rubric and keep the interview total current
+CREATE OR REPLACE FUNCTION compute_rh_interview_score()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_invalid text;
+  v_unscored text;
+BEGIN
+  -- Points must be within 0..max_points of a scored question
+  SELECT string_agg(q.ord::text, ', ' ORDER BY q.ord) INTO v_invalid
+  FROM jsonb_array_elements(NEW.answers) answer
+  JOIN questions q ON q.id::text = answer->>'question_id'
+  WHERE q.bank_version_id = NEW.bank_version_id
+    AND answer ? 'points'
+    AND jsonb_typeof(answer->'points') != 'null'
+    AND (
+      q.max_points IS NULL
+      OR jsonb_typeof(answer->'points') != 'number'
+      OR (answer->>'points')::numeric NOT BETWEEN 0 AND q.max_points
+      OR (answer->>'points')::numeric != trunc((answer->>'points')::numeric)
+    );
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid points for questions: %', v_invalid;
+  END IF;
+
+  SELECT
+    SUM((
+      SELECT (answer->>'points')::integer
+      FROM jsonb_array_elements(NEW.answers) answer
+      WHERE answer->>'question_id' = q.id::text
+        AND jsonb_typeof(answer->'points') = 'number'
+      LIMIT 1
+    )),
+    SUM(q.max_points)
+  INTO NEW.score_total, NEW.score_max
+  FROM questions q
+  WHERE q.bank_version_id = NEW.bank_version_id
+    AND q.max_points IS NOT NULL;
+
+  IF NEW.score_max IS NOT NULL THEN
+    NEW.score_total := COALESCE(NEW.score_total, 0);
+  END IF;
+
+  -- Finalizing requires every scored question to have points
+  IF NEW.finished_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.finished_at IS NULL) THEN
+    SELECT string_agg(q.ord::text, ', ' ORDER BY q.ord) INTO v_unscored
+    FROM questions q
+    WHERE q.bank_version_id = NEW.bank_version_id
+      AND q.max_points IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(NEW.answers) answer
+        WHERE answer->>'question_id' = q.id::text
+          AND jsonb_typeof(answer->'points') = 'number'
+      );
+
+    IF v_unscored IS NOT NULL THEN
+      RAISE EXCEPTION 'Missing points for scored questions: %', v_unscored;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS interview_rh_compute_score ON interview_rh;
+CREATE TRIGGER interview_rh_compute_score
+  BEFORE INSERT OR UPDATE ON interview_rh
+  FOR EACH ROW EXECUTE FUNCTION compute_rh_interview_score();
+
+-- Function to import question bank from CSV data (now with rubric points)
+CREATE OR REPLACE FUNCTION import_question_bank_csv(
+  p_kind question_bank_kind,
+  p_csv_data jsonb,
+  p_version integer DEFAULT NULL,
+  p_activate boolean DEFAULT true,
+  p_stage text DEFAULT 'RH'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank_id uuid;
+  v_bank_version_id uuid;
+  v_version integer;
+  v_question jsonb;
+  v_questions_imported integer := 0;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can import question banks';
+  END IF;
+
+  IF p_stage NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid stage: %', p_stage;
+  END IF;
+  
+  -- Get or create question bank
+  SELECT id INTO v_bank_id
+  FROM question_banks
+  WHERE kind = p_kind AND stage = p_stage;
+  
+  IF NOT FOUND THEN
+    INSERT INTO question_banks (kind, stage, name)
+    VALUES (p_kind, p_stage, CASE WHEN p_stage = 'MANAGER' THEN p_kind::text || ' (Manager)' ELSE p_kind::text END)
+    RETURNING id INTO v_bank_id;
+  END IF;
+  
+  -- Determine version number
+  IF p_version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+    FROM question_bank_versions
+    WHERE bank_id = v_bank_id;
+  ELSE
+    v_version := p_version;
+  END IF;
+  
+  -- Create new version
+  INSERT INTO question_bank_versions (bank_id, version, is_active)
+  VALUES (v_bank_id, v_version, p_activate)
+  RETURNING id INTO v_bank_version_id;
+  
+  -- Deactivate other versions if activating this one
+  IF p_activate THEN
+    UPDATE question_bank_versions 
+    SET is_active = false 
+    WHERE bank_id = v_bank_id AND id != v_bank_version_id;
+  END IF;
+  
+  -- Insert questions
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_csv_data)
+  LOOP
+    INSERT INTO questions (bank_version_id, ord, text, is_required, max_points, rubric)
+    VALUES (
+      v_bank_version_id,
+      (v_question->>'ord')::integer,
+      v_question->>'text',
+      (v_question->>'is_required')::boolean,
+      NULLIF(v_question->>'max_points', '')::integer,
+      NULLIF(trim(v_question->>'rubric'), '')
+    );
+    
+    v_questions_imported := v_questions_imported + 1;
+  END LOOP;
+  
+  -- Log the import
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT',
+    format('Imported %s questions for %s (%s) v%s', v_questions_imported, p_kind, p_stage, v_version)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_id', v_bank_id,
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'stage', p_stage,
+    'questions_imported', v_questions_imported,
+    'activated', p_activate
+  );
+END;
+$$;
+
+-- Questions of a bank version in interview order (now with rubric points)
+CREATE OR REPLACE FUNCTION bank_version_questions(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', q.id,
+      'ord', q.ord,
+      'text', q.text,
+      'is_required', q.is_required,
+      'max_points', q.max_points,
+      'rubric', q.rubric
+    ) ORDER BY q.ord
+  ), '[]'::jsonb)
+  FROM questions q
+  WHERE q.bank_version_id = p_bank_version_id;
+$$;
+
+-- Function to start RH interview (questions now carry rubric points)
+CREATE OR REPLACE FUNCTION start_rh_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_kind question_bank_kind;
+  v_bank_version_id uuid;
+  v_questions jsonb;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can start interviews';
+  END IF;
+  
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  -- Validate status
+  IF v_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConRH status to start interview';
+  END IF;
+  
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+  
+  IF FOUND THEN
+    -- Return existing interview data
+    v_questions := bank_version_questions(v_existing_interview.bank_version_id);
+    
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', v_questions,
+      'started_at', v_existing_interview.started_at,
+      'existing', true
+    );
+  END IF;
+  
+  -- Resolve question bank kind
+  v_bank_kind := resolve_question_bank_kind(v_vacancy_id);
+  
+  -- Get active bank version
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  JOIN question_banks qb ON qb.id = qbv.bank_id
+  WHERE qb.kind = v_bank_kind AND qb.stage = 'RH' AND qbv.is_active = true;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active question bank found for kind: %', v_bank_kind;
+  END IF;
+  
+  -- Create interview record
+  INSERT INTO interview_rh (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+  
+  -- Get questions
+  v_questions := bank_version_questions(v_bank_version_id);
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_START',
+    format('Started with bank kind: %s', v_bank_kind)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', v_questions,
+    'started_at', now(),
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to list applications for the RH dashboard (now with the RH interview score)
+DROP FUNCTION IF EXISTS list_applications_admin(int, int, uuid, text, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION list_applications_admin(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_vacancy_id uuid DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_q text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_min_rh_score int DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Calculate offset
+  offset_val := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO total_count
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  JOIN staff_users s ON v.manager_id = s.id
+  LEFT JOIN interview_rh ir ON ir.application_id = a.id
+  WHERE (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id)
+    AND (p_status IS NULL OR a.status::text = p_status)
+    AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+    AND (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to)
+    AND (p_min_rh_score IS NULL OR (ir.score_max > 0 AND ir.score_total * 100 >= p_min_rh_score * ir.score_max));
+
+  -- Get paginated results
+  SELECT jsonb_build_object(
+    'items', COALESCE(jsonb_agg(t.item ORDER BY t.applied_at DESC), '[]'::jsonb),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT
+      a.created_at AS applied_at,
+      jsonb_build_object(
+        'application_id', a.id,
+        'folio', a.folio,
+        'status', a.status,
+        'candidate_full_name', c.full_name,
+        'candidate_email', c.email,
+        'candidate_phone', c.phone,
+        'vacancy_id', v.id,
+        'vacancy_position', v.position,
+        'vacancy_type', v.type,
+        'manager_full_name', s.full_name,
+        'applied_at', a.created_at,
+        'rh_score_total', ir.score_total,
+        'rh_score_max', ir.score_max
+      ) AS item
+    FROM applications a
+    JOIN candidates c ON a.candidate_id = c.id
+    JOIN vacancies v ON a.vacancy_id = v.id
+    JOIN staff_users s ON v.manager_id = s.id
+    LEFT JOIN interview_rh ir ON ir.application_id = a.id
+    WHERE (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id)
+      AND (p_status IS NULL OR a.status::text = p_status)
+      AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+      AND (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at <= p_to)
+      AND (p_min_rh_score IS NULL OR (ir.score_max > 0 AND ir.score_total * 100 >= p_min_rh_score * ir.score_max))
+    ORDER BY a.created_at DESC
+    LIMIT p_page_size OFFSET offset_val
+  ) t;
+
+  RETURN result;
+END;
+$$;
+
+-- Evaluation context now includes the RH interview score
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_guided_interview json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'score_total', ir.score_total,
+    'score_max', ir.score_max,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'ratings', im.ratings,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get guided manager interview answers
+  SELECT json_build_object(
+    'bank_version_id', ima.bank_version_id,
+    'started_at', ima.started_at,
+    'updated_at', ima.updated_at,
+    'questions', bank_version_questions(ima.bank_version_id),
+    'answers', ima.answers,
+    'extra_questions', ima.extra_questions
+  ) INTO v_guided_interview
+  FROM interview_manager_answers ima
+  WHERE ima.application_id = p_application_id;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'guided_interview', v_guided_interview,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION compute_rh_interview_score() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION list_applications_admin(int, int, uuid, text, text, timestamptz, timestamptz, int) TO authenticated;
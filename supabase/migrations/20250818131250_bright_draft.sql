@@ -0,0 +1,233 @@
+/*
+  # Question bank editor
+
+  1. Changes
+    - `question_bank_versions.created_by` - Staff user that saved the version
+
+  2. Functions
+    - `list_question_bank_versions` - All versions of a bank with questions and pinned interviews
+    - `save_question_bank_version` - Save edited questions as a new version (ord follows array order)
+    - `activate_question_bank_version` - Make a stored version the active one (also used to roll back)
+    - `protect_pinned_questions` - Questions of a version used by an interview can no longer change
+
+  3. Security
+    - Interviews keep their `bank_version_id`; only new interviews use the active version
+
+  4. Auditing
+    - QUESTION_BANK_VERSION_SAVE and QUESTION_BANK_VERSION_ACTIVATE
+*/
+
+ALTER TABLE question_bank_versions
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES staff_users(id);
+
+-- Trigger: versions used by an RH or manager interview are immutable
+CREATE OR REPLACE FUNCTION protect_pinned_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM interview_rh WHERE bank_version_id = OLD.bank_version_id)
+     OR EXISTS (SELECT 1 FROM interview_manager_answers WHERE bank_version_id = OLD.bank_version_id) THEN
+    RAISE EXCEPTION 'Question bank version is in use by interviews; save a new version instead';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS questions_protect_pinned ON questions;
+CREATE TRIGGER questions_protect_pinned
+  BEFORE UPDATE OR DELETE ON questions
+  FOR EACH ROW EXECUTE FUNCTION protect_pinned_questions();
+
+-- Function to list every version of a bank (newest first)
+CREATE OR REPLACE FUNCTION list_question_bank_versions(p_bank_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM question_banks WHERE id = p_bank_id) THEN
+    RAISE EXCEPTION 'Question bank not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', qbv.id,
+      'version', qbv.version,
+      'is_active', qbv.is_active,
+      'created_at', qbv.created_at,
+      'created_by_name', su.full_name,
+      'questions', bank_version_questions(qbv.id),
+      'interviews_count', (
+        (SELECT COUNT(*) FROM interview_rh ir WHERE ir.bank_version_id = qbv.id)
+        + (SELECT COUNT(*) FROM interview_manager_answers ima WHERE ima.bank_version_id = qbv.id)
+      ),
+      'in_progress_count', (
+        (SELECT COUNT(*) FROM interview_rh ir
+         WHERE ir.bank_version_id = qbv.id AND ir.finished_at IS NULL)
+        + (SELECT COUNT(*) FROM interview_manager_answers ima
+           WHERE ima.bank_version_id = qbv.id
+           AND NOT EXISTS (SELECT 1 FROM interview_manager im WHERE im.application_id = ima.application_id))
+      )
+    ) ORDER BY qbv.version DESC
+  ), '[]'::jsonb) INTO v_result
+  FROM question_bank_versions qbv
+  LEFT JOIN staff_users su ON su.id = qbv.created_by
+  WHERE qbv.bank_id = p_bank_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to save edited questions as a new version of a bank
+CREATE OR REPLACE FUNCTION save_question_bank_version(
+  p_bank_id uuid,
+  p_questions jsonb,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank question_banks%ROWTYPE;
+  v_version integer;
+  v_bank_version_id uuid;
+  v_invalid text;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = p_bank_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank not found';
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' OR jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'At least one question is required';
+  END IF;
+
+  SELECT string_agg(q.ord::text, ', ' ORDER BY q.ord) INTO v_invalid
+  FROM jsonb_array_elements(p_questions) WITH ORDINALITY AS q(question, ord)
+  WHERE COALESCE(trim(q.question->>'text'), '') = ''
+    OR (
+      NULLIF(q.question->>'max_points', '') IS NOT NULL
+      AND (q.question->>'max_points')::integer NOT BETWEEN 1 AND 100
+    );
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid questions (text required, max_points 1-100): %', v_invalid;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM question_bank_versions
+  WHERE bank_id = p_bank_id;
+
+  IF p_activate THEN
+    UPDATE question_bank_versions SET is_active = false
+    WHERE bank_id = p_bank_id AND is_active;
+  END IF;
+
+  INSERT INTO question_bank_versions (bank_id, version, is_active, created_by)
+  VALUES (p_bank_id, v_version, p_activate, auth.uid())
+  RETURNING id INTO v_bank_version_id;
+
+  INSERT INTO questions (bank_version_id, ord, text, is_required, max_points, rubric)
+  SELECT
+    v_bank_version_id,
+    q.ord,
+    trim(q.question->>'text'),
+    COALESCE((q.question->>'is_required')::boolean, true),
+    NULLIF(q.question->>'max_points', '')::integer,
+    NULLIF(trim(q.question->>'rubric'), '')
+  FROM jsonb_array_elements(p_questions) WITH ORDINALITY AS q(question, ord);
+
+  PERFORM log_staff_action(
+    'QUESTION_BANK_VERSION_SAVE',
+    format('Bank %s (%s) v%s saved with %s questions%s',
+      v_bank.kind, v_bank.stage, v_version, jsonb_array_length(p_questions),
+      CASE WHEN p_activate THEN ' and activated' ELSE '' END)
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'is_active', p_activate
+  );
+END;
+$$;
+
+-- Function to make a stored version the active one (also used to roll back)
+CREATE OR REPLACE FUNCTION activate_question_bank_version(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target question_bank_versions%ROWTYPE;
+  v_bank question_banks%ROWTYPE;
+  v_previous_version integer;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT * INTO v_target FROM question_bank_versions WHERE id = p_bank_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank version not found';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = v_target.bank_id;
+
+  SELECT version INTO v_previous_version
+  FROM question_bank_versions
+  WHERE bank_id = v_target.bank_id AND is_active AND id != p_bank_version_id;
+
+  UPDATE question_bank_versions SET is_active = false
+  WHERE bank_id = v_target.bank_id AND is_active AND id != p_bank_version_id;
+
+  UPDATE question_bank_versions SET is_active = true
+  WHERE id = p_bank_version_id;
+
+  PERFORM log_staff_action(
+    'QUESTION_BANK_VERSION_ACTIVATE',
+    jsonb_build_object(
+      'bank_id', v_bank.id,
+      'kind', v_bank.kind,
+      'stage', v_bank.stage,
+      'version', v_target.version,
+      'previous_version', v_previous_version,
+      'rollback', v_previous_version IS NOT NULL AND v_target.version < v_previous_version
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_target.id,
+    'version', v_target.version,
+    'is_active', true
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION protect_pinned_questions() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION list_question_bank_versions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_question_bank_version(uuid, jsonb, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_question_bank_version(uuid) TO authenticated;
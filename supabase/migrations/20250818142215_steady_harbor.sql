@@ -0,0 +1,166 @@
+/*
+  # Question bank export and transfer
+
+  1. Functions
+    - export_question_bank_version: Portable snapshot of any bank version (kind, stage, name, questions)
+    - ensure_question_bank_kind: Adds a missing value to question_bank_kind so a bank can be promoted from another environment
+    - import_question_bank_json: Imports an exported snapshot as a new version, creating the bank when needed
+
+  2. Security
+    - All functions require the RH role
+
+  3. Auditing
+    - QUESTION_BANK_EXPORT, QUESTION_BANK_KIND_CREATE and QUESTION_BANK_IMPORT_JSON entries in audit_log
+*/
+
+-- Portable snapshot of a bank version, readable by import_question_bank_json in any environment
+CREATE OR REPLACE FUNCTION export_question_bank_version(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank question_banks%ROWTYPE;
+  v_version question_bank_versions%ROWTYPE;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT * INTO v_version FROM question_bank_versions WHERE id = p_bank_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank version not found';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = v_version.bank_id;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_EXPORT',
+    format('Exported %s (%s) v%s', v_bank.kind, v_bank.stage, v_version.version)
+  );
+
+  RETURN jsonb_build_object(
+    'format', 'question_bank',
+    'format_version', 1,
+    'kind', v_bank.kind,
+    'stage', v_bank.stage,
+    'name', v_bank.name,
+    'version', v_version.version,
+    'exported_at', now(),
+    'questions', (
+      SELECT COALESCE(jsonb_agg(q - 'id' ORDER BY (q->>'ord')::integer), '[]'::jsonb)
+      FROM jsonb_array_elements(bank_version_questions(v_version.id)) q
+    )
+  );
+END;
+$$;
+
+-- Adds a kind to question_bank_kind. Must run in its own transaction: a new enum
+-- value cannot be used before the transaction that added it commits.
+CREATE OR REPLACE FUNCTION ensure_question_bank_kind(p_kind text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF p_kind IS NULL OR p_kind !~ '^[A-Z][A-Z0-9_]{1,62}$' THEN
+    RAISE EXCEPTION 'Invalid question bank kind: % (use uppercase letters, digits and underscores)', p_kind;
+  END IF;
+
+  IF p_kind = ANY(enum_range(NULL::question_bank_kind)::text[]) THEN
+    RETURN false;
+  END IF;
+
+  EXECUTE format('ALTER TYPE question_bank_kind ADD VALUE IF NOT EXISTS %L', p_kind);
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'QUESTION_BANK_KIND_CREATE', format('Created question bank kind %s', p_kind));
+
+  RETURN true;
+END;
+$$;
+
+-- Imports an exported snapshot as the next version of its bank; the source version number is only recorded in the audit note
+CREATE OR REPLACE FUNCTION import_question_bank_json(
+  p_bank jsonb,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text := p_bank->>'kind';
+  v_stage text := COALESCE(p_bank->>'stage', 'RH');
+  v_question jsonb;
+  v_bank_existed boolean;
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF p_bank->>'format' IS DISTINCT FROM 'question_bank' THEN
+    RAISE EXCEPTION 'Not a question bank export';
+  END IF;
+
+  IF v_kind IS NULL OR NOT (v_kind = ANY(enum_range(NULL::question_bank_kind)::text[])) THEN
+    RAISE EXCEPTION 'Unknown question bank kind: %', v_kind;
+  END IF;
+
+  IF jsonb_typeof(p_bank->'questions') IS DISTINCT FROM 'array' OR jsonb_array_length(p_bank->'questions') = 0 THEN
+    RAISE EXCEPTION 'The export has no questions';
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_bank->'questions')
+  LOOP
+    IF NULLIF(trim(v_question->>'text'), '') IS NULL OR (v_question->>'ord') IS NULL THEN
+      RAISE EXCEPTION 'Every question needs ord and text';
+    END IF;
+
+    IF NULLIF(v_question->>'max_points', '') IS NOT NULL
+       AND (v_question->>'max_points')::integer NOT BETWEEN 1 AND 100 THEN
+      RAISE EXCEPTION 'max_points must be between 1 and 100 (question %)', v_question->>'ord';
+    END IF;
+  END LOOP;
+
+  SELECT EXISTS (
+    SELECT 1 FROM question_banks WHERE kind = v_kind::question_bank_kind AND stage = v_stage
+  ) INTO v_bank_existed;
+
+  v_result := import_question_bank_csv(
+    v_kind::question_bank_kind,
+    p_bank->'questions',
+    NULL,
+    p_activate,
+    v_stage
+  );
+
+  -- A bank created by this import takes the name it had in the source environment
+  IF NOT v_bank_existed AND NULLIF(trim(p_bank->>'name'), '') IS NOT NULL THEN
+    UPDATE question_banks SET name = trim(p_bank->>'name') WHERE id = (v_result->>'bank_id')::uuid;
+  END IF;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT_JSON',
+    format('Imported %s (%s) v%s from export of v%s', v_kind, v_stage, v_result->>'version', COALESCE(p_bank->>'version', '?'))
+  );
+
+  RETURN v_result || jsonb_build_object('bank_created', NOT v_bank_existed);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION export_question_bank_version(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION ensure_question_bank_kind(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION import_question_bank_json(jsonb, boolean) TO authenticated;
@@ -0,0 +1,748 @@
+/*
+  # Managed question bank kinds
+
+  1. New Tables
+    - `question_bank_kinds` - Catalog of role families (code, label, description), seeded from the former enum
+
+  2. Changes
+    - `question_banks.kind` is now text referencing `question_bank_kinds(code)`; the `question_bank_kind` enum is dropped
+    - `vacancies.rh_question_bank_id` - RH bank chosen for the vacancy, backfilled with the bank inferred from the position
+
+  3. Functions
+    - `list_question_bank_kinds` / `save_question_bank_kind` - Manage the catalog
+    - `set_vacancy_question_bank` - Choose the RH bank of a vacancy
+    - `resolve_question_bank_kind` - Kind of the vacancy's chosen bank (no more inference from the position)
+    - `start_rh_interview` - Uses the active version of the vacancy's chosen bank
+    - `start_manager_interview` - Uses the manager bank of the same kind
+    - `import_question_bank_csv` / `import_question_bank_json` / `export_question_bank_version` - Work with catalog codes;
+      the JSON import creates a missing kind
+    - `list_vacancies_admin` - Returns the chosen RH bank
+    - `ensure_question_bank_kind` is dropped
+
+  4. Security
+    - Catalog and vacancy bank changes require the RH role
+
+  5. Auditing
+    - QUESTION_BANK_KIND_SAVE and VACANCY_QUESTION_BANK_SET
+*/
+
+CREATE TABLE IF NOT EXISTS question_bank_kinds (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z][A-Z0-9_]{1,62}$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES staff_users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE question_bank_kinds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "rh_read_question_bank_kinds" ON question_bank_kinds
+  FOR SELECT TO authenticated
+  USING (is_rh_user());
+
+-- Seed with the former enum values
+INSERT INTO question_bank_kinds (code, label) VALUES
+  ('ADMINISTRATIVO', 'Administrativo'),
+  ('OPERATIVO', 'Operativo'),
+  ('OPERADOR_UNIDADES', 'Operador de Unidades'),
+  ('GUARDIA_SEGURIDAD', 'Guardia de Seguridad'),
+  ('AUX_LIMPIEZA_UNIDADES', 'Auxiliar de Limpieza de Unidades'),
+  ('JEFE_PATIO', 'Jefe de Patio'),
+  ('AUXILIAR_PATIO', 'Auxiliar de Patio'),
+  ('TECNICOS', 'Técnicos (Mecánico/Hojalatería/Pintura/Eléctrico)')
+ON CONFLICT (code) DO NOTHING;
+
+-- Kinds added by cross-environment imports
+INSERT INTO question_bank_kinds (code, label)
+SELECT kind_value::text, kind_value::text
+FROM unnest(enum_range(NULL::question_bank_kind)) AS kind_value
+ON CONFLICT (code) DO NOTHING;
+
+-- Each vacancy chooses its RH bank; existing vacancies keep the bank that was inferred for them
+ALTER TABLE vacancies
+  ADD COLUMN IF NOT EXISTS rh_question_bank_id uuid REFERENCES question_banks(id) ON DELETE SET NULL;
+
+UPDATE vacancies v
+SET rh_question_bank_id = qb.id
+FROM question_banks qb
+WHERE v.rh_question_bank_id IS NULL
+  AND qb.stage = 'RH'
+  AND qb.kind = resolve_question_bank_kind(v.id);
+
+-- Replace the enum with the catalog
+DROP FUNCTION IF EXISTS import_question_bank_csv(question_bank_kind, jsonb, integer, boolean, text);
+DROP FUNCTION IF EXISTS resolve_question_bank_kind(uuid);
+DROP FUNCTION IF EXISTS ensure_question_bank_kind(text);
+
+ALTER TABLE question_banks ALTER COLUMN kind TYPE text USING kind::text;
+ALTER TABLE question_banks
+  ADD CONSTRAINT question_banks_kind_fkey FOREIGN KEY (kind) REFERENCES question_bank_kinds(code);
+
+DROP TYPE IF EXISTS question_bank_kind;
+
+-- Kind of the RH bank chosen for the vacancy (NULL when none was chosen)
+CREATE OR REPLACE FUNCTION resolve_question_bank_kind(p_vacancy_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text;
+BEGIN
+  SELECT qb.kind INTO v_kind
+  FROM vacancies v
+  LEFT JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+  WHERE v.id = p_vacancy_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  RETURN v_kind;
+END;
+$$;
+
+-- Catalog of kinds with the bank configured for each stage
+CREATE OR REPLACE FUNCTION list_question_bank_kinds()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'code', k.code,
+      'label', k.label,
+      'description', k.description,
+      'is_active', k.is_active,
+      'created_at', k.created_at,
+      'vacancies_count', (
+        SELECT COUNT(*)
+        FROM vacancies v
+        JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+        WHERE qb.kind = k.code
+      )
+    ) ORDER BY k.label
+  ), '[]'::jsonb) INTO v_result
+  FROM question_bank_kinds k;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Create or update a kind; the code cannot change once created
+CREATE OR REPLACE FUNCTION save_question_bank_kind(
+  p_code text,
+  p_label text,
+  p_description text DEFAULT NULL,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code text := upper(trim(p_code));
+  v_created boolean;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF v_code IS NULL OR v_code !~ '^[A-Z][A-Z0-9_]{1,62}$' THEN
+    RAISE EXCEPTION 'Invalid question bank kind: % (use uppercase letters, digits and underscores)', p_code;
+  END IF;
+
+  IF NULLIF(trim(p_label), '') IS NULL THEN
+    RAISE EXCEPTION 'Label is required';
+  END IF;
+
+  SELECT NOT EXISTS (SELECT 1 FROM question_bank_kinds WHERE code = v_code) INTO v_created;
+
+  INSERT INTO question_bank_kinds (code, label, description, is_active, created_by)
+  VALUES (v_code, trim(p_label), NULLIF(trim(p_description), ''), p_is_active, auth.uid())
+  ON CONFLICT (code) DO UPDATE SET
+    label = EXCLUDED.label,
+    description = EXCLUDED.description,
+    is_active = EXCLUDED.is_active;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_KIND_SAVE',
+    format('%s question bank kind %s (%s)', CASE WHEN v_created THEN 'Created' ELSE 'Updated' END, v_code, trim(p_label))
+  );
+
+  RETURN jsonb_build_object('code', v_code, 'created', v_created);
+END;
+$$;
+
+-- Choose the RH question bank of a vacancy (NULL clears it)
+CREATE OR REPLACE FUNCTION set_vacancy_question_bank(
+  p_vacancy_id uuid,
+  p_bank_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_position text;
+  v_bank_name text;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT position INTO v_position FROM vacancies WHERE id = p_vacancy_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  IF p_bank_id IS NOT NULL THEN
+    SELECT name INTO v_bank_name
+    FROM question_banks
+    WHERE id = p_bank_id AND stage = 'RH';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'RH question bank not found';
+    END IF;
+  END IF;
+
+  UPDATE vacancies
+  SET rh_question_bank_id = p_bank_id
+  WHERE id = p_vacancy_id
+  AND rh_question_bank_id IS DISTINCT FROM p_bank_id;
+
+  IF FOUND THEN
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      auth.uid(),
+      'VACANCY_QUESTION_BANK_SET',
+      format('%s: %s', v_position, COALESCE(v_bank_name, 'sin banco'))
+    );
+  END IF;
+
+  RETURN jsonb_build_object('vacancy_id', p_vacancy_id, 'rh_question_bank_id', p_bank_id);
+END;
+$$;
+
+-- Function to start RH interview (uses the bank chosen for the vacancy)
+CREATE OR REPLACE FUNCTION start_rh_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_id uuid;
+  v_bank_name text;
+  v_bank_version_id uuid;
+  v_questions jsonb;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can start interviews';
+  END IF;
+  
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  -- Validate status
+  IF v_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConRH status to start interview';
+  END IF;
+  
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+  
+  IF FOUND THEN
+    -- Return existing interview data
+    v_questions := bank_version_questions(v_existing_interview.bank_version_id);
+    
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', v_questions,
+      'started_at', v_existing_interview.started_at,
+      'existing', true
+    );
+  END IF;
+  
+  -- Bank chosen for the vacancy
+  SELECT qb.id, qb.name INTO v_bank_id, v_bank_name
+  FROM vacancies v
+  JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+  WHERE v.id = v_vacancy_id;
+  
+  IF v_bank_id IS NULL THEN
+    RAISE EXCEPTION 'The vacancy has no RH question bank assigned';
+  END IF;
+  
+  -- Get active bank version
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  WHERE qbv.bank_id = v_bank_id AND qbv.is_active = true;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active version found for question bank: %', v_bank_name;
+  END IF;
+  
+  -- Create interview record
+  INSERT INTO interview_rh (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+  
+  -- Get questions
+  v_questions := bank_version_questions(v_bank_version_id);
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_START',
+    format('Started with bank: %s', v_bank_name)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', v_questions,
+    'started_at', now(),
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to start (or resume) the guided manager interview (kind is now a catalog code)
+CREATE OR REPLACE FUNCTION start_manager_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_kind text;
+  v_bank_version_id uuid;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT is_rh_or_manager_of_application(p_application_id) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_manager_answers
+  WHERE application_id = p_application_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', bank_version_questions(v_existing_interview.bank_version_id),
+      'answers', v_existing_interview.answers,
+      'extra_questions', v_existing_interview.extra_questions,
+      'started_at', v_existing_interview.started_at,
+      'updated_at', v_existing_interview.updated_at,
+      'existing', true
+    );
+  END IF;
+
+  -- Validate status
+  IF v_status != 'EntrevistaConManager' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConManager status to start interview';
+  END IF;
+
+  -- The manager bank shares the kind of the vacancy's RH bank
+  v_bank_kind := resolve_question_bank_kind(v_vacancy_id);
+
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  JOIN question_banks qb ON qb.id = qbv.bank_id
+  WHERE qb.kind = v_bank_kind AND qb.stage = 'MANAGER' AND qbv.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active manager question bank found for kind: %', v_bank_kind;
+  END IF;
+
+  INSERT INTO interview_manager_answers (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_MANAGER_START',
+    format('Started with bank kind: %s', v_bank_kind)
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', bank_version_questions(v_bank_version_id),
+    'answers', '[]'::jsonb,
+    'extra_questions', '[]'::jsonb,
+    'started_at', now(),
+    'updated_at', NULL,
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to import question bank from CSV data (kind is now a catalog code)
+CREATE OR REPLACE FUNCTION import_question_bank_csv(
+  p_kind text,
+  p_csv_data jsonb,
+  p_version integer DEFAULT NULL,
+  p_activate boolean DEFAULT true,
+  p_stage text DEFAULT 'RH'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank_id uuid;
+  v_bank_version_id uuid;
+  v_version integer;
+  v_question jsonb;
+  v_questions_imported integer := 0;
+  v_kind_label text;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Only RH users can import question banks';
+  END IF;
+
+  IF p_stage NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid stage: %', p_stage;
+  END IF;
+
+  SELECT label INTO v_kind_label
+  FROM question_bank_kinds
+  WHERE code = p_kind;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown question bank kind: %', p_kind;
+  END IF;
+  
+  -- Get or create question bank
+  SELECT id INTO v_bank_id
+  FROM question_banks
+  WHERE kind = p_kind AND stage = p_stage;
+  
+  IF NOT FOUND THEN
+    INSERT INTO question_banks (kind, stage, name)
+    VALUES (p_kind, p_stage, CASE WHEN p_stage = 'MANAGER' THEN v_kind_label || ' (Manager)' ELSE v_kind_label END)
+    RETURNING id INTO v_bank_id;
+  END IF;
+  
+  -- Determine version number
+  IF p_version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+    FROM question_bank_versions
+    WHERE bank_id = v_bank_id;
+  ELSE
+    v_version := p_version;
+  END IF;
+  
+  -- Create new version
+  INSERT INTO question_bank_versions (bank_id, version, is_active)
+  VALUES (v_bank_id, v_version, p_activate)
+  RETURNING id INTO v_bank_version_id;
+  
+  -- Deactivate other versions if activating this one
+  IF p_activate THEN
+    UPDATE question_bank_versions 
+    SET is_active = false 
+    WHERE bank_id = v_bank_id AND id != v_bank_version_id;
+  END IF;
+  
+  -- Insert questions
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_csv_data)
+  LOOP
+    INSERT INTO questions (bank_version_id, ord, text, is_required, max_points, rubric)
+    VALUES (
+      v_bank_version_id,
+      (v_question->>'ord')::integer,
+      v_question->>'text',
+      (v_question->>'is_required')::boolean,
+      NULLIF(v_question->>'max_points', '')::integer,
+      NULLIF(trim(v_question->>'rubric'), '')
+    );
+    
+    v_questions_imported := v_questions_imported + 1;
+  END LOOP;
+  
+  -- Log the import
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT',
+    format('Imported %s questions for %s (%s) v%s', v_questions_imported, p_kind, p_stage, v_version)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_id', v_bank_id,
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'stage', p_stage,
+    'questions_imported', v_questions_imported,
+    'activated', p_activate
+  );
+END;
+$$;
+
+-- Portable snapshot of a bank version (now with the kind label, so the target can create the kind)
+CREATE OR REPLACE FUNCTION export_question_bank_version(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank question_banks%ROWTYPE;
+  v_version question_bank_versions%ROWTYPE;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  SELECT * INTO v_version FROM question_bank_versions WHERE id = p_bank_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank version not found';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = v_version.bank_id;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_EXPORT',
+    format('Exported %s (%s) v%s', v_bank.kind, v_bank.stage, v_version.version)
+  );
+
+  RETURN jsonb_build_object(
+    'format', 'question_bank',
+    'format_version', 1,
+    'kind', v_bank.kind,
+    'kind_label', (SELECT label FROM question_bank_kinds WHERE code = v_bank.kind),
+    'stage', v_bank.stage,
+    'name', v_bank.name,
+    'version', v_version.version,
+    'exported_at', now(),
+    'questions', (
+      SELECT COALESCE(jsonb_agg(q - 'id' ORDER BY (q->>'ord')::integer), '[]'::jsonb)
+      FROM jsonb_array_elements(bank_version_questions(v_version.id)) q
+    )
+  );
+END;
+$$;
+
+-- Imports an exported snapshot as the next version of its bank, creating the kind and the bank when missing
+CREATE OR REPLACE FUNCTION import_question_bank_json(
+  p_bank jsonb,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text := p_bank->>'kind';
+  v_stage text := COALESCE(p_bank->>'stage', 'RH');
+  v_question jsonb;
+  v_bank_existed boolean;
+  v_kind_created boolean;
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+
+  IF p_bank->>'format' IS DISTINCT FROM 'question_bank' THEN
+    RAISE EXCEPTION 'Not a question bank export';
+  END IF;
+
+  IF v_kind IS NULL OR v_kind !~ '^[A-Z][A-Z0-9_]{1,62}$' THEN
+    RAISE EXCEPTION 'Invalid question bank kind: %', v_kind;
+  END IF;
+
+  IF jsonb_typeof(p_bank->'questions') IS DISTINCT FROM 'array' OR jsonb_array_length(p_bank->'questions') = 0 THEN
+    RAISE EXCEPTION 'The export has no questions';
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_bank->'questions')
+  LOOP
+    IF NULLIF(trim(v_question->>'text'), '') IS NULL OR (v_question->>'ord') IS NULL THEN
+      RAISE EXCEPTION 'Every question needs ord and text';
+    END IF;
+
+    IF NULLIF(v_question->>'max_points', '') IS NOT NULL
+       AND (v_question->>'max_points')::integer NOT BETWEEN 1 AND 100 THEN
+      RAISE EXCEPTION 'max_points must be between 1 and 100 (question %)', v_question->>'ord';
+    END IF;
+  END LOOP;
+
+  -- Kinds missing in this environment are created from the export
+  SELECT NOT EXISTS (SELECT 1 FROM question_bank_kinds WHERE code = v_kind) INTO v_kind_created;
+
+  IF v_kind_created THEN
+    INSERT INTO question_bank_kinds (code, label, created_by)
+    VALUES (v_kind, COALESCE(NULLIF(trim(p_bank->>'kind_label'), ''), NULLIF(trim(p_bank->>'name'), ''), v_kind), auth.uid());
+
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (auth.uid(), 'QUESTION_BANK_KIND_SAVE', format('Created question bank kind %s from import', v_kind));
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM question_banks WHERE kind = v_kind AND stage = v_stage
+  ) INTO v_bank_existed;
+
+  v_result := import_question_bank_csv(
+    v_kind,
+    p_bank->'questions',
+    NULL,
+    p_activate,
+    v_stage
+  );
+
+  -- A bank created by this import takes the name it had in the source environment
+  IF NOT v_bank_existed AND NULLIF(trim(p_bank->>'name'), '') IS NOT NULL THEN
+    UPDATE question_banks SET name = trim(p_bank->>'name') WHERE id = (v_result->>'bank_id')::uuid;
+  END IF;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT_JSON',
+    format('Imported %s (%s) v%s from export of v%s', v_kind, v_stage, v_result->>'version', COALESCE(p_bank->>'version', '?'))
+  );
+
+  RETURN v_result || jsonb_build_object('bank_created', NOT v_bank_existed, 'kind_created', v_kind_created);
+END;
+$$;
+
+-- Function to list vacancies for RH (now with the chosen RH question bank)
+CREATE OR REPLACE FUNCTION list_vacancies_admin(
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20,
+  p_type vacancy_type DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offset INTEGER := (p_page - 1) * p_page_size;
+  v_total  INTEGER;
+  v_items  JSON;
+BEGIN
+  -- Permisos
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied. RH role required.';
+  END IF;
+
+  -- Total
+  SELECT COUNT(*)
+  INTO v_total
+  FROM vacancies v
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE (p_type IS NULL OR v.type = p_type)
+    AND (p_is_active IS NULL OR v.is_active = p_is_active);
+
+  -- Items: ordenar y paginar en subconsulta; luego agregamos
+  WITH filtered AS (
+    SELECT
+      v.id,
+      v.type,
+      v.position,
+      v.objetivos,
+      v.funciones,
+      v.escolaridad,
+      v.experiencia_minima,
+      v.conocimientos_tecnicos,
+      v.habilidades,
+      v.manager_id,
+      s.full_name AS manager_name,
+      v.is_active,
+      v.created_by,
+      v.created_at,
+      v.rh_question_bank_id,
+      qb.name AS rh_question_bank_name
+    FROM vacancies v
+    JOIN staff_users s ON v.manager_id = s.id
+    LEFT JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+    WHERE (p_type IS NULL OR v.type = p_type)
+      AND (p_is_active IS NULL OR v.is_active = p_is_active)
+    ORDER BY v.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  )
+  SELECT COALESCE(
+           JSON_AGG(JSON_BUILD_OBJECT(
+             'id', id,
+             'type', type,
+             'position', position,
+             'objetivos', objetivos,
+             'funciones', funciones,
+             'escolaridad', escolaridad,
+             'experiencia_minima', experiencia_minima,
+             'conocimientos_tecnicos', conocimientos_tecnicos,
+             'habilidades', habilidades,
+             'manager_id', manager_id,
+             'manager_name', manager_name,
+             'is_active', is_active,
+             'created_by', created_by,
+             'created_at', created_at,
+             'rh_question_bank_id', rh_question_bank_id,
+             'rh_question_bank_name', rh_question_bank_name
+           )),
+           '[]'::JSON
+         )
+  INTO v_items
+  FROM filtered;
+
+  RETURN JSON_BUILD_OBJECT(
+    'items', v_items,
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::FLOAT / p_page_size)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_question_bank_kinds() TO authenticated;
+GRANT EXECUTE ON FUNCTION save_question_bank_kind(text, text, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_vacancy_question_bank(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION import_question_bank_csv(text, jsonb, integer, boolean, text) TO authenticated;
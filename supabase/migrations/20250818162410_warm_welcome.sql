@@ -0,0 +1,412 @@
+/*
+  # Staff invitations, password reset and forced password change
+
+  1. Changes
+    - `staff_users.must_change_password` - Set for new users until they choose their own password
+    - `staff_users.password_changed_at` - Last time the user set a password (NULL: invitation pending)
+    - Existing users are flagged so they replace the password RH gave them
+
+  2. New Tables
+    - `staff_password_tokens` - Single-use invite (72 hours) and reset (1 hour) links, only the SHA-256 hash is stored;
+      issuing a new link revokes the previous unused ones
+
+  3. Functions
+    - `issue_staff_password_token` - Queue an invite or reset link; the notification-worker delivers it.
+      Invitations are refused once the user set a password
+    - `request_staff_password_reset` - "Forgot password" for an active staff email
+    - `check_staff_password_token` - Who a link belongs to, without using it
+    - `get_staff_password_token_owner` - Staff user of a valid link, so the password is set before using it
+    - `consume_staff_password_token` - Use a link once the password is set; clears the forced change
+    - `mark_staff_password_changed` - Clears the forced change after the user changed the password
+    - `get_user_profile` / `list_staff_users` - Return the password state
+
+  4. Security
+    - No RLS policies on the new table; every new function is service role only (auth-staff, staff-password)
+    - Links are queued as sensitive notifications: RH cannot read them and they are redacted once sent
+    - Unknown emails get the same response as known ones (avoid enumeration)
+    - At most 3 reset links per user every 15 minutes
+
+  5. Auditing
+    - STAFF_INVITE_SENT, STAFF_PASSWORD_RESET_REQUEST, STAFF_PASSWORD_SET and STAFF_PASSWORD_CHANGE
+*/
+
+ALTER TABLE staff_users
+  ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS password_changed_at timestamptz;
+
+-- Existing accounts were created with a password chosen by RH; they pick their own on next login
+UPDATE staff_users SET must_change_password = true WHERE password_changed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS staff_password_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id uuid NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  purpose text NOT NULL CHECK (purpose IN ('INVITE', 'RESET')),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES staff_users(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_password_tokens_staff
+  ON staff_password_tokens (staff_id, created_at);
+
+ALTER TABLE staff_password_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Function to queue an invite or reset link for a staff user
+CREATE OR REPLACE FUNCTION issue_staff_password_token(
+  p_staff_id uuid,
+  p_purpose text,
+  p_app_url text,
+  p_actor_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_token text;
+  v_expires_at timestamptz;
+  v_link text;
+BEGIN
+  IF p_purpose NOT IN ('INVITE', 'RESET') THEN
+    RAISE EXCEPTION 'Invalid token purpose: %', p_purpose;
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_staff_id;
+
+  IF NOT FOUND OR NOT v_staff.active THEN
+    RAISE EXCEPTION 'Staff user not found or inactive';
+  END IF;
+
+  -- An invitation would let whoever holds it replace a password the user already chose
+  IF p_purpose = 'INVITE' AND v_staff.password_changed_at IS NOT NULL THEN
+    RAISE EXCEPTION '% already set a password; send a password reset instead', v_staff.email;
+  END IF;
+
+  -- Only the newest link works
+  UPDATE staff_password_tokens
+  SET revoked_at = now()
+  WHERE staff_id = p_staff_id
+    AND used_at IS NULL
+    AND revoked_at IS NULL;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  v_expires_at := now() + CASE WHEN p_purpose = 'INVITE' THEN interval '72 hours' ELSE interval '1 hour' END;
+  v_link := format('%s/#set-password?token=%s', rtrim(p_app_url, '/'), v_token);
+
+  INSERT INTO staff_password_tokens (staff_id, purpose, token_hash, expires_at, created_by)
+  VALUES (p_staff_id, p_purpose, encode(digest(v_token, 'sha256'), 'hex'), v_expires_at, p_actor_id);
+
+  IF p_purpose = 'INVITE' THEN
+    INSERT INTO notification_outbox (application_id, event, to_email, subject, body, sensitive)
+    VALUES (
+      NULL,
+      'STAFF_INVITE',
+      v_staff.email,
+      'Invitación al sistema de contrataciones',
+      format(
+        E'Hola %s,\n\nSe creó tu cuenta en el sistema de contrataciones. Para activarla, elige tu contraseña en el siguiente enlace:\n\n%s\n\nEl enlace es válido durante 72 horas y solo puede usarse una vez.\n\nAtentamente,\nRecursos Humanos',
+        v_staff.full_name,
+        v_link
+      ),
+      true
+    );
+  ELSE
+    INSERT INTO notification_outbox (application_id, event, to_email, subject, body, sensitive)
+    VALUES (
+      NULL,
+      'STAFF_PASSWORD_RESET',
+      v_staff.email,
+      'Restablecer tu contraseña',
+      format(
+        E'Hola %s,\n\nRecibimos una solicitud para restablecer tu contraseña. Puedes elegir una nueva en el siguiente enlace:\n\n%s\n\nEl enlace es válido durante 1 hora y solo puede usarse una vez. Si no solicitaste el cambio puedes ignorar este correo.\n\nAtentamente,\nRecursos Humanos',
+        v_staff.full_name,
+        v_link
+      ),
+      true
+    );
+  END IF;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    COALESCE(p_actor_id, p_staff_id),
+    CASE WHEN p_purpose = 'INVITE' THEN 'STAFF_INVITE_SENT' ELSE 'STAFF_PASSWORD_RESET_REQUEST' END,
+    format('%s (expires %s)', v_staff.email, v_expires_at)
+  );
+
+  RETURN jsonb_build_object('ok', true, 'expires_at', v_expires_at);
+END;
+$$;
+
+-- Function to request a password reset link ("forgot password")
+CREATE OR REPLACE FUNCTION request_staff_password_reset(
+  p_email text,
+  p_app_url text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_recent int;
+BEGIN
+  SELECT * INTO v_staff
+  FROM staff_users
+  WHERE lower(email) = lower(trim(p_email))
+    AND active = true;
+
+  -- Same response for unknown emails (avoid enumeration)
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', true);
+  END IF;
+
+  -- Rate limit
+  SELECT COUNT(*) INTO v_recent
+  FROM staff_password_tokens
+  WHERE staff_id = v_staff.id
+    AND purpose = 'RESET'
+    AND created_at > now() - interval '15 minutes';
+
+  IF v_recent >= 3 THEN
+    RETURN jsonb_build_object('ok', true);
+  END IF;
+
+  PERFORM issue_staff_password_token(v_staff.id, 'RESET', p_app_url);
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+-- Function to describe a link without using it (set-password page)
+CREATE OR REPLACE FUNCTION check_staff_password_token(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token staff_password_tokens%ROWTYPE;
+  v_staff staff_users%ROWTYPE;
+BEGIN
+  SELECT * INTO v_token
+  FROM staff_password_tokens
+  WHERE token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex');
+
+  IF NOT FOUND OR v_token.used_at IS NOT NULL OR v_token.revoked_at IS NOT NULL OR v_token.expires_at < now() THEN
+    RAISE EXCEPTION 'El enlace no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = v_token.staff_id AND active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'El enlace no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'purpose', v_token.purpose,
+    'full_name', v_staff.full_name,
+    'email', v_staff.email,
+    'expires_at', v_token.expires_at
+  );
+END;
+$$;
+
+-- Function to get the staff user of a valid link without using it; the caller sets the password first
+CREATE OR REPLACE FUNCTION get_staff_password_token_owner(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff_id uuid;
+BEGIN
+  SELECT t.staff_id INTO v_staff_id
+  FROM staff_password_tokens t
+  JOIN staff_users s ON s.id = t.staff_id AND s.active = true
+  WHERE t.token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex')
+    AND t.used_at IS NULL
+    AND t.revoked_at IS NULL
+    AND t.expires_at >= now();
+
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'El enlace no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  RETURN v_staff_id;
+END;
+$$;
+
+-- Function to use a link once, after the caller set the password of its staff user
+CREATE OR REPLACE FUNCTION consume_staff_password_token(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token staff_password_tokens%ROWTYPE;
+BEGIN
+  SELECT * INTO v_token
+  FROM staff_password_tokens
+  WHERE token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_token.used_at IS NOT NULL OR v_token.revoked_at IS NOT NULL OR v_token.expires_at < now() THEN
+    RAISE EXCEPTION 'El enlace no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM staff_users WHERE id = v_token.staff_id AND active = true) THEN
+    RAISE EXCEPTION 'El enlace no es válido o ya expiró. Solicita uno nuevo.';
+  END IF;
+
+  UPDATE staff_password_tokens SET used_at = now() WHERE id = v_token.id;
+
+  UPDATE staff_users
+  SET must_change_password = false,
+      password_changed_at = now()
+  WHERE id = v_token.staff_id;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (v_token.staff_id, 'STAFF_PASSWORD_SET', format('Password set with %s link', lower(v_token.purpose)));
+
+  RETURN jsonb_build_object('staff_id', v_token.staff_id, 'purpose', v_token.purpose);
+END;
+$$;
+
+-- Function to clear the forced change once the user changed the password
+CREATE OR REPLACE FUNCTION mark_staff_password_changed(p_staff_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE staff_users
+  SET must_change_password = false,
+      password_changed_at = now()
+  WHERE id = p_staff_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff user not found';
+  END IF;
+
+  -- Links issued before the change are no longer needed
+  UPDATE staff_password_tokens
+  SET revoked_at = now()
+  WHERE staff_id = p_staff_id
+    AND used_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (p_staff_id, 'STAFF_PASSWORD_CHANGE', 'Password changed by the user');
+END;
+$$;
+
+-- Profile of the current user (now with the forced password change flag)
+CREATE OR REPLACE FUNCTION get_user_profile()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_profile json;
+BEGIN
+  -- Registrar login
+  PERFORM log_staff_action('LOGIN', 'User logged in');
+  
+  SELECT json_build_object(
+    'id', id,
+    'full_name', full_name,
+    'email', email,
+    'role', role,
+    'active', active,
+    'must_change_password', must_change_password
+  ) INTO user_profile
+  FROM staff_users
+  WHERE id = auth.uid() AND active = true;
+  
+  IF user_profile IS NULL THEN
+    RAISE EXCEPTION 'Access denied: User not found or inactive';
+  END IF;
+  
+  RETURN user_profile;
+END;
+$$;
+
+-- Función RPC para listar usuarios (solo RH, ahora con el estado de la contraseña)
+CREATE OR REPLACE FUNCTION list_staff_users(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_role role_type DEFAULT NULL,
+  p_active boolean DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result json;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Validar permisos
+  IF NOT is_rh_user() THEN
+    RAISE EXCEPTION 'Access denied: RH role required';
+  END IF;
+  
+  -- Calcular offset
+  offset_val := (p_page - 1) * p_page_size;
+  
+  -- Contar total
+  SELECT COUNT(*) INTO total_count
+  FROM staff_users
+  WHERE (p_role IS NULL OR role = p_role)
+    AND (p_active IS NULL OR active = p_active);
+  
+  -- Obtener datos paginados
+  SELECT json_build_object(
+    'items', json_agg(
+      json_build_object(
+        'id', id,
+        'full_name', full_name,
+        'email', email,
+        'role', role,
+        'active', active,
+        'created_at', created_at,
+        'created_by', created_by,
+        'must_change_password', must_change_password,
+        'password_changed_at', password_changed_at
+      ) ORDER BY created_at DESC
+    ),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT *
+    FROM staff_users
+    WHERE (p_role IS NULL OR role = p_role)
+      AND (p_active IS NULL OR active = p_active)
+    ORDER BY created_at DESC
+    LIMIT p_page_size
+    OFFSET offset_val
+  ) s;
+  
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_staff_password_token(uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_staff_password_reset(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_staff_password_token(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_staff_password_token_owner(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_staff_password_token(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_staff_password_changed(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_staff_password_token(uuid, text, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION request_staff_password_reset(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION check_staff_password_token(text) TO service_role;
+GRANT EXECUTE ON FUNCTION get_staff_password_token_owner(text) TO service_role;
+GRANT EXECUTE ON FUNCTION consume_staff_password_token(text) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_staff_password_changed(uuid) TO service_role;
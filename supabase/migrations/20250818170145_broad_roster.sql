@@ -0,0 +1,15 @@
+/*
+  # Additional staff roles
+
+  1. Changes
+    - `role_type` gains RH_ADMIN, RH_RECRUITER, AUDITOR and HIRING_DIRECTOR
+
+  2. Notes
+    - Added in their own migration: a new enum value cannot be used in the transaction that adds it.
+      What each role may do is defined by the permission matrix in the next migration.
+*/
+
+ALTER TYPE role_type ADD VALUE IF NOT EXISTS 'RH_ADMIN';
+ALTER TYPE role_type ADD VALUE IF NOT EXISTS 'RH_RECRUITER';
+ALTER TYPE role_type ADD VALUE IF NOT EXISTS 'AUDITOR';
+ALTER TYPE role_type ADD VALUE IF NOT EXISTS 'HIRING_DIRECTOR';
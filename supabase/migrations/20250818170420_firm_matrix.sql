@@ -0,0 +1,5127 @@
+/*
+  # Permission matrix for staff roles
+
+  1. New Tables
+    - `staff_permissions` - Catalog of capabilities (`vacancy.create`, `evaluation.finalize`, `export.csv`, ...)
+    - `role_permissions` - Which role holds which capability; seeded for every role:
+      - RH_ADMIN: everything RH can do plus editing this matrix
+      - RH: the RH back office as before
+      - RH_RECRUITER: read only
+      - AUDITOR: read only plus users, audit log and CSV export
+      - HIRING_DIRECTOR: read only plus the final hiring decision and CSV export
+      - MANAGER: interviews for their own vacancies
+
+  2. Functions
+    - `role_has_permission`, `staff_has_permission`, `has_permission` - Matrix lookups
+    - `is_rh_user` - Now "may manage applications" (used by the remaining read policies)
+    - `is_manager_user`, `is_manager_of_vacancy`, `is_rh_or_manager_of_application`, `can_manage_calendar` - Matrix based
+    - `ensure_permission_admin_exists` - Someone active must always be able to edit the matrix
+    - `list_role_permissions`, `set_role_permission` - Read and edit the matrix
+    - `list_active_managers` - Active staff whose role holds `manager.interview` (vacancy managers and panels)
+    - `get_user_profile` - Returns the permissions of the current user
+    - Every RH RPC checks one capability instead of the RH role; manager RPCs check `manager.interview`
+    - Staff notifications go to users who can manage applications
+
+  3. Security
+    - Read policies for the view capabilities on the RH tables
+    - The RH write-all policies are dropped: every write goes through an RPC that checks its capability
+    - Roles holding `permission.manage` can only be assigned by users holding it
+    - Users holding it can only be edited, deactivated or offboarded by users holding it
+
+  4. Auditing
+    - ROLE_PERMISSION_GRANT and ROLE_PERMISSION_REVOKE entries in audit_log
+*/
+
+CREATE TABLE IF NOT EXISTS staff_permissions (
+  code text PRIMARY KEY CHECK (code ~ '^[a-z_]+\.[a-z_]+$'),
+  label text NOT NULL,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role role_type NOT NULL,
+  permission text NOT NULL REFERENCES staff_permissions(code) ON DELETE CASCADE ON UPDATE CASCADE,
+  granted_by uuid REFERENCES staff_users(id) ON DELETE SET NULL ON UPDATE CASCADE,
+  granted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE staff_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "staff_read_staff_permissions" ON staff_permissions
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM staff_users WHERE id = auth.uid() AND active = true));
+
+CREATE POLICY "staff_read_role_permissions" ON role_permissions
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM staff_users WHERE id = auth.uid() AND active = true));
+
+INSERT INTO staff_permissions (code, label, description) VALUES
+  ('dashboard.view', 'Ver el tablero de RH', 'Indicadores y embudo de contratación'),
+  ('vacancy.view', 'Ver vacantes', 'Listado y detalle de vacantes'),
+  ('vacancy.create', 'Crear vacantes', NULL),
+  ('vacancy.update', 'Editar vacantes', 'Datos, documentos requeridos, banco de preguntas y publicación'),
+  ('application.view', 'Ver postulaciones', 'Expedientes, documentos y entrevistas'),
+  ('application.manage', 'Gestionar postulaciones', 'Revisar documentos, mover de etapa, reasignar y rechazar'),
+  ('interview.schedule', 'Agendar entrevistas', 'Citas, calendarios y autoagenda de candidatos'),
+  ('interview.conduct', 'Realizar entrevistas RH', NULL),
+  ('evaluation.view', 'Ver evaluaciones', NULL),
+  ('evaluation.manage', 'Capturar evaluaciones', 'Iniciar la evaluación y registrar calificaciones'),
+  ('evaluation.finalize', 'Decidir contratación', 'Aceptar, rechazar o enviar a bolsa de talento'),
+  ('talent_pool.view', 'Ver bolsa de talento', NULL),
+  ('question_bank.view', 'Ver bancos de preguntas', 'Incluye versiones y exportación'),
+  ('question_bank.manage', 'Editar bancos de preguntas', 'Versiones, importación y tipos'),
+  ('scorecard.manage', 'Configurar scorecards', NULL),
+  ('notification_template.manage', 'Configurar notificaciones', NULL),
+  ('staff.view', 'Ver usuarios', NULL),
+  ('staff.manage', 'Gestionar usuarios', 'Alta, edición, invitaciones y baja'),
+  ('permission.manage', 'Editar la matriz de permisos', 'También permite asignar roles con este permiso'),
+  ('audit.view', 'Ver bitácora de auditoría', NULL),
+  ('export.csv', 'Exportar CSV', 'Descarga de postulaciones por vacante'),
+  ('manager.interview', 'Entrevistar como manager', 'Postulaciones de sus vacantes')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('RH_ADMIN', 'dashboard.view'),
+  ('RH_ADMIN', 'vacancy.view'),
+  ('RH_ADMIN', 'vacancy.create'),
+  ('RH_ADMIN', 'vacancy.update'),
+  ('RH_ADMIN', 'application.view'),
+  ('RH_ADMIN', 'application.manage'),
+  ('RH_ADMIN', 'interview.schedule'),
+  ('RH_ADMIN', 'interview.conduct'),
+  ('RH_ADMIN', 'evaluation.view'),
+  ('RH_ADMIN', 'evaluation.manage'),
+  ('RH_ADMIN', 'evaluation.finalize'),
+  ('RH_ADMIN', 'talent_pool.view'),
+  ('RH_ADMIN', 'question_bank.view'),
+  ('RH_ADMIN', 'question_bank.manage'),
+  ('RH_ADMIN', 'scorecard.manage'),
+  ('RH_ADMIN', 'notification_template.manage'),
+  ('RH_ADMIN', 'staff.view'),
+  ('RH_ADMIN', 'staff.manage'),
+  ('RH_ADMIN', 'permission.manage'),
+  ('RH_ADMIN', 'audit.view'),
+  ('RH_ADMIN', 'export.csv'),
+  ('RH', 'dashboard.view'),
+  ('RH', 'vacancy.view'),
+  ('RH', 'vacancy.create'),
+  ('RH', 'vacancy.update'),
+  ('RH', 'application.view'),
+  ('RH', 'application.manage'),
+  ('RH', 'interview.schedule'),
+  ('RH', 'interview.conduct'),
+  ('RH', 'evaluation.view'),
+  ('RH', 'evaluation.manage'),
+  ('RH', 'evaluation.finalize'),
+  ('RH', 'talent_pool.view'),
+  ('RH', 'question_bank.view'),
+  ('RH', 'question_bank.manage'),
+  ('RH', 'scorecard.manage'),
+  ('RH', 'notification_template.manage'),
+  ('RH', 'staff.view'),
+  ('RH', 'staff.manage'),
+  ('RH', 'audit.view'),
+  ('RH', 'export.csv'),
+  ('RH_RECRUITER', 'dashboard.view'),
+  ('RH_RECRUITER', 'vacancy.view'),
+  ('RH_RECRUITER', 'application.view'),
+  ('RH_RECRUITER', 'evaluation.view'),
+  ('RH_RECRUITER', 'talent_pool.view'),
+  ('RH_RECRUITER', 'question_bank.view'),
+  ('AUDITOR', 'dashboard.view'),
+  ('AUDITOR', 'vacancy.view'),
+  ('AUDITOR', 'application.view'),
+  ('AUDITOR', 'evaluation.view'),
+  ('AUDITOR', 'talent_pool.view'),
+  ('AUDITOR', 'question_bank.view'),
+  ('AUDITOR', 'staff.view'),
+  ('AUDITOR', 'audit.view'),
+  ('AUDITOR', 'export.csv'),
+  ('HIRING_DIRECTOR', 'dashboard.view'),
+  ('HIRING_DIRECTOR', 'vacancy.view'),
+  ('HIRING_DIRECTOR', 'application.view'),
+  ('HIRING_DIRECTOR', 'evaluation.view'),
+  ('HIRING_DIRECTOR', 'talent_pool.view'),
+  ('HIRING_DIRECTOR', 'question_bank.view'),
+  ('HIRING_DIRECTOR', 'evaluation.finalize'),
+  ('HIRING_DIRECTOR', 'export.csv'),
+  ('MANAGER', 'manager.interview')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Whether a role holds a capability
+CREATE OR REPLACE FUNCTION role_has_permission(p_role role_type, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM role_permissions
+    WHERE role = p_role
+    AND permission = p_permission
+  );
+$$;
+
+-- Whether an active staff user holds a capability through their role
+CREATE OR REPLACE FUNCTION staff_has_permission(p_staff_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM staff_users s
+    JOIN role_permissions rp ON rp.role = s.role
+    WHERE s.id = p_staff_id
+    AND s.active = true
+    AND rp.permission = p_permission
+  );
+$$;
+
+-- Whether the current user holds a capability
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT staff_has_permission(auth.uid(), p_permission);
+$$;
+
+-- Kept for the read policies written against it
+CREATE OR REPLACE FUNCTION is_rh_user()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT has_permission('application.manage');
+$$;
+
+CREATE OR REPLACE FUNCTION is_manager_user()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT has_permission('manager.interview');
+$$;
+
+CREATE OR REPLACE FUNCTION is_manager_of_vacancy(vacancy_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT has_permission('manager.interview')
+    AND EXISTS (
+      SELECT 1 FROM vacancies v
+      WHERE v.id = vacancy_id
+      AND v.manager_id = auth.uid()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION is_rh_or_manager_of_application(application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT is_rh_user()
+    OR EXISTS (
+      SELECT 1 FROM applications a
+      JOIN vacancies v ON a.vacancy_id = v.id
+      WHERE a.id = application_id
+      AND v.manager_id = auth.uid()
+      AND staff_has_permission(auth.uid(), 'manager.interview')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION can_manage_calendar(p_staff_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND (staff_has_permission(p_staff_id, 'interview.conduct') OR staff_has_permission(p_staff_id, 'manager.interview'))
+    AND (has_permission('interview.schedule') OR p_staff_id = auth.uid());
+$$;
+
+-- Raises when no active user could edit the matrix anymore
+CREATE OR REPLACE FUNCTION ensure_permission_admin_exists()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM staff_users s
+    WHERE staff_has_permission(s.id, 'permission.manage')
+  ) THEN
+    RAISE EXCEPTION 'At least one active user must keep the permission.manage permission';
+  END IF;
+END;
+$$;
+
+-- Full matrix: every capability with the roles that hold it
+CREATE OR REPLACE FUNCTION list_role_permissions()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check the staff.view permission
+  IF NOT (has_permission('staff.view') OR has_permission('permission.manage')) THEN
+    RAISE EXCEPTION 'Access denied: staff.view permission required';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'roles', (
+      SELECT jsonb_agg(r ORDER BY ord)
+      FROM unnest(enum_range(NULL::role_type)::text[]) WITH ORDINALITY AS t(r, ord)
+    ),
+    'permissions', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'code', p.code,
+          'label', p.label,
+          'description', p.description,
+          'roles', (
+            SELECT COALESCE(jsonb_agg(rp.role ORDER BY rp.role), '[]'::jsonb)
+            FROM role_permissions rp
+            WHERE rp.permission = p.code
+          )
+        ) ORDER BY p.code
+      ), '[]'::jsonb)
+      FROM staff_permissions p
+    )
+  );
+END;
+$$;
+
+-- Grants or revokes one capability for one role
+CREATE OR REPLACE FUNCTION set_role_permission(
+  p_role text,
+  p_permission text,
+  p_granted boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_role role_type;
+BEGIN
+  -- Check the permission.manage permission
+  IF NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required';
+  END IF;
+
+  IF p_role IS NULL OR NOT (p_role = ANY(enum_range(NULL::role_type)::text[])) THEN
+    RAISE EXCEPTION 'Unknown role: %', p_role;
+  END IF;
+  v_role := p_role::role_type;
+
+  IF NOT EXISTS (SELECT 1 FROM staff_permissions WHERE code = p_permission) THEN
+    RAISE EXCEPTION 'Unknown permission: %', p_permission;
+  END IF;
+
+  IF p_granted THEN
+    INSERT INTO role_permissions (role, permission, granted_by)
+    VALUES (v_role, p_permission, auth.uid())
+    ON CONFLICT (role, permission) DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO audit_log (actor_staff_id, action, note)
+      VALUES (auth.uid(), 'ROLE_PERMISSION_GRANT', format('%s: %s', p_role, p_permission));
+    END IF;
+  ELSE
+    DELETE FROM role_permissions
+    WHERE role = v_role AND permission = p_permission;
+
+    IF FOUND THEN
+      PERFORM ensure_permission_admin_exists();
+
+      INSERT INTO audit_log (actor_staff_id, action, note)
+      VALUES (auth.uid(), 'ROLE_PERMISSION_REVOKE', format('%s: %s', p_role, p_permission));
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'role', p_role, 'permission', p_permission, 'granted', p_granted);
+END;
+$$;
+
+-- Profile of the current user (now with their permissions)
+CREATE OR REPLACE FUNCTION get_user_profile()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_profile json;
+BEGIN
+  -- Registrar login
+  PERFORM log_staff_action('LOGIN', 'User logged in');
+  
+  SELECT json_build_object(
+    'id', id,
+    'full_name', full_name,
+    'email', email,
+    'role', role,
+    'active', active,
+    'must_change_password', must_change_password,
+    'permissions', (
+      SELECT COALESCE(jsonb_agg(rp.permission ORDER BY rp.permission), '[]'::jsonb)
+      FROM role_permissions rp
+      WHERE rp.role = staff_users.role
+    )
+  ) INTO user_profile
+  FROM staff_users
+  WHERE id = auth.uid() AND active = true;
+  
+  IF user_profile IS NULL THEN
+    RAISE EXCEPTION 'Access denied: User not found or inactive';
+  END IF;
+  
+  RETURN user_profile;
+END;
+$$;
+
+-- Manager RPCs check the manager.interview permission instead of the MANAGER role
+CREATE OR REPLACE FUNCTION list_my_vacancies(
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20,
+  p_type vacancy_type DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offset  INTEGER := (p_page - 1) * p_page_size;
+  v_total   INTEGER;
+  v_items   JSON;
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT has_permission('manager.interview') THEN
+    RAISE EXCEPTION 'Access denied: manager.interview permission required';
+  END IF;
+
+  -- Total
+  SELECT COUNT(*)
+  INTO v_total
+  FROM vacancies v
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE v.manager_id = v_user_id
+    AND (p_type IS NULL OR v.type = p_type)
+    AND (p_is_active IS NULL OR v.is_active = p_is_active);
+
+  -- Items: ordenar y paginar en subconsulta; luego agregamos
+  WITH filtered AS (
+    SELECT
+      v.id,
+      v.type,
+      v.position,
+      v.objetivos,
+      v.funciones,
+      v.escolaridad,
+      v.experiencia_minima,
+      v.conocimientos_tecnicos,
+      v.habilidades,
+      v.manager_id,
+      s.full_name AS manager_name,
+      v.is_active,
+      v.created_by,
+      v.created_at
+    FROM vacancies v
+    JOIN staff_users s ON v.manager_id = s.id
+    WHERE v.manager_id = v_user_id
+      AND (p_type IS NULL OR v.type = p_type)
+      AND (p_is_active IS NULL OR v.is_active = p_is_active)
+    ORDER BY v.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  )
+  SELECT COALESCE(
+           JSON_AGG(JSON_BUILD_OBJECT(
+             'id', id,
+             'type', type,
+             'position', position,
+             'objetivos', objetivos,
+             'funciones', funciones,
+             'escolaridad', escolaridad,
+             'experiencia_minima', experiencia_minima,
+             'conocimientos_tecnicos', conocimientos_tecnicos,
+             'habilidades', habilidades,
+             'manager_id', manager_id,
+             'manager_name', manager_name,
+             'is_active', is_active,
+             'created_by', created_by,
+             'created_at', created_at
+           )),
+           '[]'::JSON
+         )
+  INTO v_items
+  FROM filtered;
+
+  RETURN JSON_BUILD_OBJECT(
+    'items', v_items,
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::FLOAT / p_page_size)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_manager_applications(
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 20,
+  p_status text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_current_user_id uuid := auth.uid();
+  v_offset integer;
+  v_total integer;
+  v_items json;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check the manager.interview permission
+  IF NOT has_permission('manager.interview') THEN
+    RAISE EXCEPTION 'Access denied: manager.interview permission required';
+  END IF;
+
+  -- Calculate offset
+  v_offset := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO v_total
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE v.manager_id = v_current_user_id
+  AND (p_status IS NULL OR a.status::text = p_status);
+
+  -- Get items
+  SELECT json_agg(
+    json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'scheduled_rh_at', a.scheduled_rh_at,
+      'scheduled_rh_location', a.scheduled_rh_location,
+      'scheduled_manager_at', a.scheduled_manager_at,
+      'scheduled_manager_location', a.scheduled_manager_location,
+      'created_at', a.created_at,
+      'has_rh_interview', ir.application_id IS NOT NULL,
+      'rh_interview_finished', ir.finished_at IS NOT NULL,
+      'has_manager_interview', im.application_id IS NOT NULL
+    )
+  ) INTO v_items
+  FROM (
+    SELECT a.*
+    FROM applications a
+    JOIN vacancies v ON a.vacancy_id = v.id
+    WHERE v.manager_id = v_current_user_id
+    AND (p_status IS NULL OR a.status::text = p_status)
+    ORDER BY a.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  ) a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id;
+
+  RETURN json_build_object(
+    'items', COALESCE(v_items, '[]'::json),
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::float / p_page_size)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_interview_slots(
+  p_staff_id uuid,
+  p_from date,
+  p_to date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text;
+  v_window staff_availability%ROWTYPE;
+  v_day date;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_window_end timestamptz;
+  v_created integer := 0;
+  v_skipped integer := 0;
+BEGIN
+  IF NOT can_manage_calendar(p_staff_id) THEN
+    RAISE EXCEPTION 'Access denied: cannot edit this calendar';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  IF p_to - p_from > 62 THEN
+    RAISE EXCEPTION 'Slots can be published for at most 62 days at a time';
+  END IF;
+
+  v_kind := CASE WHEN staff_has_permission(p_staff_id, 'interview.conduct') THEN 'RH' ELSE 'MANAGER' END;
+
+  FOR v_day IN SELECT generate_series(p_from, p_to, interval '1 day')::date
+  LOOP
+    FOR v_window IN
+      SELECT * FROM staff_availability
+      WHERE staff_id = p_staff_id
+      AND weekday = extract(dow FROM v_day)
+      ORDER BY start_time
+    LOOP
+      v_start := (v_day + v_window.start_time) AT TIME ZONE v_window.timezone;
+      v_window_end := (v_day + v_window.end_time) AT TIME ZONE v_window.timezone;
+
+      WHILE v_start + make_interval(mins => v_window.slot_minutes) <= v_window_end
+      LOOP
+        v_end := v_start + make_interval(mins => v_window.slot_minutes);
+
+        IF v_start <= now() OR EXISTS (
+          SELECT 1 FROM interview_slots
+          WHERE staff_id = p_staff_id
+          AND starts_at < v_end
+          AND ends_at > v_start
+        ) THEN
+          v_skipped := v_skipped + 1;
+        ELSE
+          INSERT INTO interview_slots (staff_id, kind, starts_at, ends_at, location, origin, created_by)
+          VALUES (p_staff_id, v_kind, v_start, v_end, v_window.location, 'PUBLISHED', auth.uid());
+          v_created := v_created + 1;
+        END IF;
+
+        v_start := v_end;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'INTERVIEW_SLOTS_PUBLISH',
+    jsonb_build_object(
+      'staff_id', p_staff_id,
+      'from', p_from,
+      'to', p_to,
+      'created', v_created,
+      'skipped', v_skipped
+    )::text
+  );
+
+  RETURN jsonb_build_object('ok', true, 'created', v_created, 'skipped', v_skipped);
+END;
+$$;
+
+-- Staff notifications go to everyone who manages applications
+CREATE OR REPLACE FUNCTION enqueue_staff_notification(
+  p_application_id uuid,
+  p_event text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_content jsonb;
+  v_count integer;
+BEGIN
+  v_content := build_notification_content(p_event, p_application_id);
+
+  INSERT INTO notification_outbox (application_id, event, to_email, subject, body)
+  SELECT
+    p_application_id,
+    p_event,
+    s.email,
+    v_content->>'subject',
+    v_content->>'body'
+  FROM staff_users s
+  WHERE staff_has_permission(s.id, 'application.manage');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- RH RPCs: each one checks a single capability instead of the RH role. The definitions are otherwise unchanged.
+CREATE OR REPLACE FUNCTION create_staff_user(
+  p_full_name text,
+  p_email text,
+  p_role role_type,
+  p_active boolean DEFAULT true,
+  p_password text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_user_id uuid;
+  result json;
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+
+  -- Roles that can edit the permission matrix are only handed out by someone who can
+  IF p_role IS NOT NULL AND role_has_permission(p_role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to assign role %', p_role;
+  END IF;
+  
+  -- Validar email único
+  IF EXISTS (SELECT 1 FROM staff_users WHERE email = p_email) THEN
+    RAISE EXCEPTION 'Email already exists: %', p_email;
+  END IF;
+  
+  -- Generar ID para el nuevo usuario
+  new_user_id := gen_random_uuid();
+  
+  -- Crear entrada en staff_users
+  INSERT INTO staff_users (
+    id,
+    role,
+    full_name,
+    email,
+    active,
+    created_by
+  ) VALUES (
+    new_user_id,
+    p_role,
+    p_full_name,
+    p_email,
+    p_active,
+    auth.uid()
+  );
+  
+  -- Registrar acción
+  PERFORM log_staff_action(
+    'USER_CREATE',
+    format('Created user: %s (%s) with role %s', p_full_name, p_email, p_role)
+  );
+  
+  SELECT json_build_object(
+    'id', new_user_id,
+    'message', 'User created successfully. Auth user must be created separately.'
+  ) INTO result;
+  
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_staff_user(p_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_record staff_users%ROWTYPE;
+  ref_count int;
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+  
+  -- Obtener registro
+  SELECT * INTO user_record FROM staff_users WHERE id = p_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_id;
+  END IF;
+  
+  -- Verificar referencias
+  SELECT COUNT(*) INTO ref_count FROM (
+    SELECT 1 FROM vacancies WHERE manager_id = p_id OR created_by = p_id
+    UNION ALL
+    SELECT 1 FROM staff_users WHERE created_by = p_id
+    UNION ALL
+    SELECT 1 FROM audit_log WHERE actor_staff_id = p_id
+  ) refs;
+  
+  IF ref_count > 0 THEN
+    RAISE EXCEPTION 'Cannot delete user: % references exist. Please reassign or deactivate instead.', ref_count;
+  END IF;
+  
+  -- Eliminar usuario
+  DELETE FROM staff_users WHERE id = p_id;
+
+  PERFORM ensure_permission_admin_exists();
+  
+  -- Registrar acción
+  PERFORM log_staff_action(
+    'USER_DELETE',
+    format('Deleted user: %s (%s)', user_record.full_name, user_record.email)
+  );
+  
+  RETURN json_build_object('ok', true, 'message', 'User deleted successfully');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_staff_user(
+  p_id uuid,
+  p_full_name text DEFAULT NULL,
+  p_email text DEFAULT NULL,
+  p_role role_type DEFAULT NULL,
+  p_active boolean DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  old_record staff_users%ROWTYPE;
+  changes text[] := '{}';
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+  
+  -- Obtener registro actual
+  SELECT * INTO old_record FROM staff_users WHERE id = p_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_id;
+  END IF;
+
+  -- Accounts that can edit the permission matrix (email, activation, role) are only managed by someone who can
+  IF role_has_permission(old_record.role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to edit %', old_record.full_name;
+  END IF;
+
+  -- Roles that can edit the permission matrix are only handed out by someone who can
+  IF p_role IS NOT NULL AND p_role != old_record.role
+     AND role_has_permission(p_role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to assign role %', p_role;
+  END IF;
+  
+  -- Validar email único si se está cambiando
+  IF p_email IS NOT NULL AND p_email != old_record.email THEN
+    IF EXISTS (SELECT 1 FROM staff_users WHERE email = p_email AND id != p_id) THEN
+      RAISE EXCEPTION 'Email already exists: %', p_email;
+    END IF;
+  END IF;
+  
+  -- Actualizar campos
+  UPDATE staff_users SET
+    full_name = COALESCE(p_full_name, full_name),
+    email = COALESCE(p_email, email),
+    role = COALESCE(p_role, role),
+    active = COALESCE(p_active, active)
+  WHERE id = p_id;
+  
+  PERFORM ensure_permission_admin_exists();
+
+  -- Construir log de cambios
+  IF p_full_name IS NOT NULL AND p_full_name != old_record.full_name THEN
+    changes := changes || format('full_name: %s → %s', old_record.full_name, p_full_name);
+  END IF;
+  
+  IF p_email IS NOT NULL AND p_email != old_record.email THEN
+    changes := changes || format('email: %s → %s', old_record.email, p_email);
+  END IF;
+  
+  IF p_role IS NOT NULL AND p_role != old_record.role THEN
+    changes := changes || format('role: %s → %s', old_record.role, p_role);
+  END IF;
+  
+  IF p_active IS NOT NULL AND p_active != old_record.active THEN
+    changes := changes || format('active: %s → %s', old_record.active, p_active);
+  END IF;
+  
+  -- Registrar acción
+  PERFORM log_staff_action(
+    'USER_UPDATE',
+    format('Updated user %s: %s', old_record.full_name, array_to_string(changes, ', '))
+  );
+  
+  RETURN json_build_object('ok', true, 'message', 'User updated successfully');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_vacancy_with_docs(
+  p_type vacancy_type,
+  p_position TEXT,
+  p_manager_id UUID,
+  p_objetivos TEXT DEFAULT NULL,
+  p_funciones TEXT DEFAULT NULL,
+  p_escolaridad TEXT DEFAULT NULL,
+  p_experiencia_minima TEXT DEFAULT NULL,
+  p_conocimientos_tecnicos TEXT DEFAULT NULL,
+  p_habilidades TEXT DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT true,
+  p_required_docs JSON DEFAULT '[]'::JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id UUID;
+  v_user_id UUID;
+  v_doc JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Check the vacancy.create permission
+  IF NOT has_permission('vacancy.create') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.create permission required';
+  END IF;
+
+  -- Validate manager exists and is active
+  IF NOT EXISTS (
+    SELECT 1 FROM staff_users 
+    WHERE id = p_manager_id AND active = true AND staff_has_permission(id, 'manager.interview')
+  ) THEN
+    RAISE EXCEPTION 'Invalid manager_id. Manager must exist and be active.';
+  END IF;
+
+  -- Create vacancy
+  INSERT INTO vacancies (
+    type, position, objetivos, funciones, escolaridad, 
+    experiencia_minima, conocimientos_tecnicos, habilidades,
+    manager_id, is_active, created_by
+  )
+  VALUES (
+    p_type, p_position, p_objetivos, p_funciones, p_escolaridad,
+    p_experiencia_minima, p_conocimientos_tecnicos, p_habilidades,
+    p_manager_id, p_is_active, v_user_id
+  )
+  RETURNING id INTO v_vacancy_id;
+
+  -- Add required documents
+  FOR v_doc IN SELECT * FROM JSON_ARRAY_ELEMENTS(p_required_docs)
+  LOOP
+    INSERT INTO vacancy_required_docs (vacancy_id, doc, phase)
+    VALUES (
+      v_vacancy_id,
+      (v_doc->>'doc')::doc_type,
+      (v_doc->>'phase')::doc_phase
+    )
+    ON CONFLICT (vacancy_id, doc, phase) DO NOTHING;
+  END LOOP;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (v_user_id, 'VACANCY_CREATE', 'Created vacancy: ' || p_position);
+
+  RETURN JSON_BUILD_OBJECT('id', v_vacancy_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_vacancy_with_docs(p_vacancy_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy JSON;
+  v_docs JSON;
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Get vacancy data
+  SELECT JSON_BUILD_OBJECT(
+    'id', v.id,
+    'type', v.type,
+    'position', v.position,
+    'objetivos', v.objetivos,
+    'funciones', v.funciones,
+    'escolaridad', v.escolaridad,
+    'experiencia_minima', v.experiencia_minima,
+    'conocimientos_tecnicos', v.conocimientos_tecnicos,
+    'habilidades', v.habilidades,
+    'manager_id', v.manager_id,
+    'manager_name', s.full_name,
+    'is_active', v.is_active,
+    'created_by', v.created_by,
+    'created_at', v.created_at
+  )
+  INTO v_vacancy
+  FROM vacancies v
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE v.id = p_vacancy_id
+    AND (
+      v.is_active = true OR -- Public access to active vacancies
+      v.manager_id = v_user_id OR -- Manager access to assigned vacancies
+      has_permission('vacancy.view') -- RH access to all vacancies
+    );
+
+  IF v_vacancy IS NULL THEN
+    RAISE EXCEPTION 'Vacancy not found or access denied';
+  END IF;
+
+  -- Get required documents
+  SELECT JSON_AGG(
+    JSON_BUILD_OBJECT(
+      'doc', vrd.doc,
+      'phase', vrd.phase
+    )
+  )
+  INTO v_docs
+  FROM vacancy_required_docs vrd
+  WHERE vrd.vacancy_id = p_vacancy_id;
+
+  -- Add documents to vacancy object
+  SELECT JSON_BUILD_OBJECT(
+    'id', (v_vacancy->>'id')::UUID,
+    'type', v_vacancy->>'type',
+    'position', v_vacancy->>'position',
+    'objetivos', v_vacancy->>'objetivos',
+    'funciones', v_vacancy->>'funciones',
+    'escolaridad', v_vacancy->>'escolaridad',
+    'experiencia_minima', v_vacancy->>'experiencia_minima',
+    'conocimientos_tecnicos', v_vacancy->>'conocimientos_tecnicos',
+    'habilidades', v_vacancy->>'habilidades',
+    'manager_id', (v_vacancy->>'manager_id')::UUID,
+    'manager_name', v_vacancy->>'manager_name',
+    'is_active', (v_vacancy->>'is_active')::BOOLEAN,
+    'created_by', (v_vacancy->>'created_by')::UUID,
+    'created_at', v_vacancy->>'created_at',
+    'required_docs', COALESCE(v_docs, '[]'::JSON)
+  )
+  INTO v_vacancy;
+
+  RETURN v_vacancy;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_vacancy_required_docs(
+  p_vacancy_id UUID,
+  p_items JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_doc JSON;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Check the vacancy.update permission
+  IF NOT has_permission('vacancy.update') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.update permission required';
+  END IF;
+
+  -- Check if vacancy exists
+  IF NOT EXISTS (SELECT 1 FROM vacancies WHERE id = p_vacancy_id) THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  -- Delete existing documents
+  DELETE FROM vacancy_required_docs WHERE vacancy_id = p_vacancy_id;
+
+  -- Add new documents
+  FOR v_doc IN SELECT * FROM JSON_ARRAY_ELEMENTS(p_items)
+  LOOP
+    INSERT INTO vacancy_required_docs (vacancy_id, doc, phase)
+    VALUES (
+      p_vacancy_id,
+      (v_doc->>'doc')::doc_type,
+      (v_doc->>'phase')::doc_phase
+    );
+  END LOOP;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (v_user_id, 'VACANCY_SET_DOCS', 'Updated required documents for vacancy: ' || p_vacancy_id);
+
+  RETURN JSON_BUILD_OBJECT('ok', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_vacancy_with_docs(
+  p_vacancy_id UUID,
+  p_type vacancy_type DEFAULT NULL,
+  p_position TEXT DEFAULT NULL,
+  p_objetivos TEXT DEFAULT NULL,
+  p_funciones TEXT DEFAULT NULL,
+  p_escolaridad TEXT DEFAULT NULL,
+  p_experiencia_minima TEXT DEFAULT NULL,
+  p_conocimientos_tecnicos TEXT DEFAULT NULL,
+  p_habilidades TEXT DEFAULT NULL,
+  p_manager_id UUID DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_old_active BOOLEAN;
+  v_new_active BOOLEAN;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Check the vacancy.update permission
+  IF NOT has_permission('vacancy.update') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.update permission required';
+  END IF;
+
+  -- Check if vacancy exists
+  SELECT is_active INTO v_old_active
+  FROM vacancies 
+  WHERE id = p_vacancy_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  -- Validate manager if provided
+  IF p_manager_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM staff_users 
+    WHERE id = p_manager_id AND active = true AND staff_has_permission(id, 'manager.interview')
+  ) THEN
+    RAISE EXCEPTION 'Invalid manager_id. Manager must exist and be active.';
+  END IF;
+
+  -- Update vacancy
+  UPDATE vacancies SET
+    type = COALESCE(p_type, type),
+    position = COALESCE(p_position, position),
+    objetivos = COALESCE(p_objetivos, objetivos),
+    funciones = COALESCE(p_funciones, funciones),
+    escolaridad = COALESCE(p_escolaridad, escolaridad),
+    experiencia_minima = COALESCE(p_experiencia_minima, experiencia_minima),
+    conocimientos_tecnicos = COALESCE(p_conocimientos_tecnicos, conocimientos_tecnicos),
+    habilidades = COALESCE(p_habilidades, habilidades),
+    manager_id = COALESCE(p_manager_id, manager_id),
+    is_active = COALESCE(p_is_active, is_active)
+  WHERE id = p_vacancy_id
+  RETURNING is_active INTO v_new_active;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (v_user_id, 'VACANCY_UPDATE', 'Updated vacancy: ' || p_vacancy_id);
+
+  -- Log activation/deactivation if changed
+  IF v_old_active != v_new_active THEN
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      v_user_id, 
+      CASE WHEN v_new_active THEN 'VACANCY_ACTIVATE' ELSE 'VACANCY_DEACTIVATE' END,
+      'Vacancy ' || p_vacancy_id || ' ' || CASE WHEN v_new_active THEN 'activated' ELSE 'deactivated' END
+    );
+  END IF;
+
+  RETURN JSON_BUILD_OBJECT('ok', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finalize_rh_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_interview record;
+  v_required_questions uuid[];
+  v_answered_questions uuid[];
+  v_missing_questions uuid[];
+BEGIN
+  -- Check the interview.conduct permission
+  IF NOT has_permission('interview.conduct') THEN
+    RAISE EXCEPTION 'Only RH users can finalize interviews';
+  END IF;
+  
+  -- Get interview
+  SELECT * INTO v_interview
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+  
+  -- Check if already finalized
+  IF v_interview.finished_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Interview already finalized';
+  END IF;
+  
+  -- Get required questions
+  SELECT array_agg(id) INTO v_required_questions
+  FROM questions
+  WHERE bank_version_id = v_interview.bank_version_id
+    AND is_required = true;
+  
+  -- Get answered questions
+  SELECT array_agg((answer->>'question_id')::uuid) INTO v_answered_questions
+  FROM jsonb_array_elements(v_interview.answers) AS answer
+  WHERE answer->>'answer_text' IS NOT NULL 
+    AND trim(answer->>'answer_text') != '';
+  
+  -- Find missing required answers
+  SELECT array_agg(q) INTO v_missing_questions
+  FROM unnest(v_required_questions) AS q
+  WHERE q != ALL(COALESCE(v_answered_questions, ARRAY[]::uuid[]));
+  
+  -- Validate all required questions are answered
+  IF array_length(v_missing_questions, 1) > 0 THEN
+    RAISE EXCEPTION 'Missing answers for required questions: %', v_missing_questions;
+  END IF;
+  
+  -- Finalize interview
+  UPDATE interview_rh
+  SET finished_at = now()
+  WHERE application_id = p_application_id;
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_FINALIZE',
+    'Interview finalized'
+  );
+  
+  RETURN jsonb_build_object('ok', true, 'finished_at', now());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_rh_interview_draft(
+  p_application_id uuid,
+  p_answers jsonb,
+  p_extra_questions jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check the interview.conduct permission
+  IF NOT has_permission('interview.conduct') THEN
+    RAISE EXCEPTION 'Only RH users can save interview drafts';
+  END IF;
+  
+  -- Update interview
+  UPDATE interview_rh
+  SET 
+    answers = p_answers,
+    extra_questions = p_extra_questions
+  WHERE application_id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview not found or not started';
+  END IF;
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SAVE_DRAFT',
+    'Draft saved'
+  );
+  
+  RETURN jsonb_build_object('ok', true, 'saved_at', now());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_application_details(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check if user is RH or manager of the vacancy
+  IF NOT (has_permission('application.view') OR EXISTS (
+    SELECT 1 FROM applications a
+    JOIN vacancies v ON v.id = a.vacancy_id
+    WHERE a.id = p_application_id AND v.manager_id = auth.uid()
+  )) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+  
+  SELECT jsonb_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'candidate_id', a.candidate_id,
+    'vacancy_id', a.vacancy_id,
+    'status', a.status,
+    'scheduled_rh_at', a.scheduled_rh_at,
+    'scheduled_rh_location', a.scheduled_rh_location,
+    'scheduled_manager_at', a.scheduled_manager_at,
+    'scheduled_manager_location', a.scheduled_manager_location,
+    'created_at', a.created_at,
+    'candidate', jsonb_build_object(
+      'id', c.id,
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone,
+      'created_at', c.created_at
+    ),
+    'vacancy', jsonb_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type,
+      'objetivos', v.objetivos,
+      'funciones', v.funciones,
+      'escolaridad', v.escolaridad,
+      'experiencia_minima', v.experiencia_minima,
+      'conocimientos_tecnicos', v.conocimientos_tecnicos,
+      'habilidades', v.habilidades,
+      'manager_id', v.manager_id,
+      'manager_name', s.full_name,
+      'is_active', v.is_active,
+      'created_at', v.created_at
+    ),
+    'documents', COALESCE(docs.docs, '[]'::jsonb)
+  ) INTO v_result
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  JOIN staff_users s ON s.id = v.manager_id
+  LEFT JOIN (
+    SELECT 
+      ad.application_id,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', ad.id,
+          'doc', ad.doc,
+          'phase', ad.phase,
+          'url', ad.url,
+          'version', ad.version,
+          'uploaded_at', ad.uploaded_at
+        )
+        ORDER BY ad.uploaded_at DESC
+      ) as docs
+    FROM application_docs ad
+    GROUP BY ad.application_id
+  ) docs ON docs.application_id = a.id
+  WHERE a.id = p_application_id;
+  
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_applications_for_rh(
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 20,
+  p_status text DEFAULT NULL,
+  p_vacancy_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offset integer;
+  v_total integer;
+  v_items jsonb;
+BEGIN
+  -- Check the application.view permission
+  IF NOT has_permission('application.view') THEN
+    RAISE EXCEPTION 'Access denied: application.view permission required';
+  END IF;
+  
+  -- Calculate offset
+  v_offset := (p_page - 1) * p_page_size;
+  
+  -- Get total count
+  SELECT COUNT(*) INTO v_total
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  JOIN staff_users s ON s.id = v.manager_id
+  WHERE (p_status IS NULL OR a.status::text = p_status)
+    AND (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id);
+  
+  -- Get items
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'candidate_id', a.candidate_id,
+      'vacancy_id', a.vacancy_id,
+      'status', a.status,
+      'scheduled_rh_at', a.scheduled_rh_at,
+      'scheduled_rh_location', a.scheduled_rh_location,
+      'scheduled_manager_at', a.scheduled_manager_at,
+      'scheduled_manager_location', a.scheduled_manager_location,
+      'created_at', a.created_at,
+      'candidate', jsonb_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', jsonb_build_object(
+        'position', v.position,
+        'type', v.type,
+        'manager_name', s.full_name
+      )
+    )
+    ORDER BY a.created_at DESC
+  ) INTO v_items
+  FROM applications a
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  JOIN staff_users s ON s.id = v.manager_id
+  WHERE (p_status IS NULL OR a.status::text = p_status)
+    AND (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id)
+  LIMIT p_page_size OFFSET v_offset;
+  
+  RETURN jsonb_build_object(
+    'items', COALESCE(v_items, '[]'::jsonb),
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::float / p_page_size)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_evaluation_scores(
+  p_application_id uuid,
+  p_scores json
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_total smallint := 0;
+  v_score_item json;
+  v_criterion_id integer;
+  v_score smallint;
+  v_status application_status;
+BEGIN
+  -- Check the evaluation.manage permission
+  IF NOT has_permission('evaluation.manage') THEN
+    RAISE EXCEPTION 'Only RH users can save evaluation scores';
+  END IF;
+  
+  -- Check if application is in Evaluando status
+  SELECT status INTO v_status
+  FROM applications 
+  WHERE id = p_application_id;
+  
+  IF v_status != 'Evaluando' THEN
+    RAISE EXCEPTION 'Application must be in Evaluando status to save scores';
+  END IF;
+  
+  -- Validate we have exactly 16 scores
+  IF json_array_length(p_scores) != 16 THEN
+    RAISE EXCEPTION 'Must provide exactly 16 criterion scores';
+  END IF;
+  
+  -- Clear existing scores
+  DELETE FROM evaluation_scores WHERE application_id = p_application_id;
+  
+  -- Insert new scores
+  FOR i IN 0..15 LOOP
+    v_score_item := p_scores->i;
+    v_criterion_id := (v_score_item->>'criterion_id')::integer;
+    v_score := (v_score_item->>'score')::smallint;
+    
+    -- Validate score range
+    IF v_score < 1 OR v_score > 5 THEN
+      RAISE EXCEPTION 'Score must be between 1 and 5';
+    END IF;
+    
+    -- Insert score
+    INSERT INTO evaluation_scores (application_id, criterion_id, score)
+    VALUES (p_application_id, v_criterion_id, v_score);
+    
+    v_total := v_total + v_score;
+  END LOOP;
+  
+  -- Update or insert summary with total
+  INSERT INTO evaluation_summary (application_id, total)
+  VALUES (p_application_id, v_total)
+  ON CONFLICT (application_id) 
+  DO UPDATE SET total = v_total;
+  
+  -- Log audit event
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    uid(), 
+    p_application_id, 
+    'EVALUATION_SAVE', 
+    'Evaluation scores saved, total: ' || v_total
+  );
+  
+  v_result := json_build_object(
+    'ok', true,
+    'total', v_total
+  );
+  
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_evaluation_summary(
+  p_application_id uuid,
+  p_factors_for text,
+  p_factors_against text,
+  p_conclusion text,
+  p_references_laborales text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_status application_status;
+BEGIN
+  -- Check the evaluation.manage permission
+  IF NOT has_permission('evaluation.manage') THEN
+    RAISE EXCEPTION 'Only RH users can save evaluation summary';
+  END IF;
+  
+  -- Check if application is in Evaluando status
+  SELECT status INTO v_status
+  FROM applications 
+  WHERE id = p_application_id;
+  
+  IF v_status != 'Evaluando' THEN
+    RAISE EXCEPTION 'Application must be in Evaluando status to save summary';
+  END IF;
+  
+  -- Validate required fields
+  IF p_factors_for IS NULL OR trim(p_factors_for) = '' THEN
+    RAISE EXCEPTION 'Factors for is required';
+  END IF;
+  
+  IF p_factors_against IS NULL OR trim(p_factors_against) = '' THEN
+    RAISE EXCEPTION 'Factors against is required';
+  END IF;
+  
+  IF p_conclusion IS NULL OR trim(p_conclusion) = '' THEN
+    RAISE EXCEPTION 'Conclusion is required';
+  END IF;
+  
+  -- Update summary
+  UPDATE evaluation_summary 
+  SET 
+    factors_for = p_factors_for,
+    factors_against = p_factors_against,
+    conclusion = p_conclusion,
+    references_laborales = p_references_laborales
+  WHERE application_id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Evaluation summary not found. Save scores first.';
+  END IF;
+  
+  v_result := json_build_object('ok', true);
+  
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_evaluation(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_current_status application_status;
+BEGIN
+  -- Check the evaluation.manage permission
+  IF NOT has_permission('evaluation.manage') THEN
+    RAISE EXCEPTION 'Only RH users can start evaluation';
+  END IF;
+  
+  -- Check preconditions
+  IF NOT can_start_evaluation(p_application_id) THEN
+    RAISE EXCEPTION 'Cannot start evaluation: missing RH interview completion or manager score';
+  END IF;
+  
+  -- Get current status
+  SELECT status INTO v_current_status
+  FROM applications 
+  WHERE id = p_application_id;
+  
+  IF v_current_status IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  -- Update status to Evaluando if not already
+  IF v_current_status != 'Evaluando' THEN
+    UPDATE applications 
+    SET status = 'Evaluando'
+    WHERE id = p_application_id;
+  END IF;
+  
+  -- Log audit event
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    uid(), 
+    p_application_id, 
+    'EVALUATION_START', 
+    v_current_status, 
+    'Evaluando',
+    'Evaluation started by RH'
+  );
+  
+  v_result := json_build_object(
+    'ok', true,
+    'status', 'Evaluando'
+  );
+  
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION export_applications_by_vacancy_csv(
+  p_vacancy_id uuid,
+  p_status text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  export_id uuid;
+  csv_content text;
+  filename text;
+  vacancy_position text;
+BEGIN
+  -- Check the export.csv permission
+  IF NOT has_permission('export.csv') THEN
+    RAISE EXCEPTION 'Access denied: export.csv permission required';
+  END IF;
+
+  -- Generate export ID
+  export_id := gen_random_uuid();
+
+  -- Get vacancy position for filename
+  SELECT position INTO vacancy_position
+  FROM vacancies 
+  WHERE id = p_vacancy_id;
+
+  IF vacancy_position IS NULL THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  -- Generate filename
+  filename := 'vacancy_' || REPLACE(vacancy_position, ' ', '_') || '_' || TO_CHAR(NOW(), 'YYYYMMDD') || '.csv';
+
+  -- Build CSV content
+  csv_content := 'Folio,Nombre Completo,Email,Teléfono,Estado,Puesto,Tipo,Manager,Fecha Aplicación' || E'\n';
+
+  -- Add data rows
+  SELECT csv_content || STRING_AGG(
+    a.folio || ',' ||
+    '"' || c.full_name || '",' ||
+    c.email || ',' ||
+    c.phone || ',' ||
+    a.status || ',' ||
+    '"' || v.position || '",' ||
+    v.type || ',' ||
+    '"' || s.full_name || '",' ||
+    TO_CHAR(a.created_at, 'YYYY-MM-DD HH24:MI:SS'),
+    E'\n'
+  ) INTO csv_content
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE a.vacancy_id = p_vacancy_id
+    AND (p_status IS NULL OR a.status = p_status)
+    AND (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to)
+  ORDER BY a.created_at DESC;
+
+  -- Log export action
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(), 
+    'RH_EXPORT_CSV', 
+    'CSV export for vacancy: ' || vacancy_position || ' (ID: ' || p_vacancy_id || ')'
+  );
+
+  -- Return result
+  result := jsonb_build_object(
+    'export_id', export_id,
+    'filename', filename,
+    'csv_content', csv_content
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finalize_accept(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  result jsonb;
+  criteria_count int;
+  scores_count int;
+BEGIN
+  -- Check the evaluation.finalize permission
+  IF NOT has_permission('evaluation.finalize') THEN
+    RAISE EXCEPTION 'Access denied: evaluation.finalize permission required';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'Evaluando' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate all 16 criteria are scored
+  SELECT COUNT(*) INTO criteria_count FROM evaluation_criteria;
+  SELECT COUNT(*) INTO scores_count 
+  FROM evaluation_scores 
+  WHERE application_id = p_application_id;
+
+  IF scores_count != criteria_count THEN
+    RAISE EXCEPTION 'All evaluation criteria must be scored. Expected: %, Found: %', criteria_count, scores_count;
+  END IF;
+
+  -- Validate evaluation summary exists
+  IF NOT EXISTS (
+    SELECT 1 FROM evaluation_summary 
+    WHERE application_id = p_application_id 
+    AND factors_for IS NOT NULL 
+    AND factors_against IS NOT NULL 
+    AND conclusion IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Complete evaluation summary required';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications 
+  SET 
+    status = 'Aceptado',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'Evaluando',
+    'Aceptado',
+    'Candidate accepted after evaluation'
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_FINALIZE_ACCEPT',
+    'Candidate accepted'
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'Aceptado'
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_to_evaluating(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  result jsonb;
+BEGIN
+  -- Check the evaluation.manage permission
+  IF NOT has_permission('evaluation.manage') THEN
+    RAISE EXCEPTION 'Access denied: evaluation.manage permission required';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'EntrevistaConManager' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate manager interview exists
+  IF NOT EXISTS (
+    SELECT 1 FROM interview_manager 
+    WHERE application_id = p_application_id 
+    AND score IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Manager interview must be completed first';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications 
+  SET 
+    status = 'Evaluando',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'EntrevistaConManager',
+    'Evaluando',
+    'Moved to evaluation phase'
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_START',
+    'Evaluation phase started'
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'Evaluando'
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_application_doc(
+  p_document_id uuid,
+  p_status doc_review_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_doc application_docs%ROWTYPE;
+  v_app_status application_status;
+BEGIN
+  -- Check the application.manage permission
+  IF NOT has_permission('application.manage') THEN
+    RAISE EXCEPTION 'Access denied: application.manage permission required';
+  END IF;
+
+  IF p_status = 'PENDIENTE' THEN
+    RAISE EXCEPTION 'Review status must be APROBADO or RECHAZADO';
+  END IF;
+
+  IF p_status = 'RECHAZADO' AND COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a document';
+  END IF;
+
+  SELECT * INTO v_doc FROM application_docs WHERE id = p_document_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  SELECT status INTO v_app_status FROM applications WHERE id = v_doc.application_id;
+
+  IF v_app_status IN ('Aceptado', 'Rechazado') AND v_doc.phase = 'NECESARIO' THEN
+    RAISE EXCEPTION 'Cannot review documents of a finalized application';
+  END IF;
+
+  -- Only the latest version of a document can be reviewed
+  IF EXISTS (
+    SELECT 1 FROM application_docs
+    WHERE application_id = v_doc.application_id
+      AND doc = v_doc.doc
+      AND version > v_doc.version
+  ) THEN
+    RAISE EXCEPTION 'Only the latest version of a document can be reviewed';
+  END IF;
+
+  UPDATE application_docs
+  SET
+    review_status = p_status,
+    review_reason = CASE WHEN p_status = 'RECHAZADO' THEN trim(p_reason) ELSE NULL END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = p_document_id;
+
+  PERFORM log_staff_action(
+    'DOC_REVIEW',
+    format('Document %s version %s %s%s',
+      v_doc.doc,
+      v_doc.version,
+      p_status,
+      CASE WHEN p_status = 'RECHAZADO' THEN ': ' || trim(p_reason) ELSE '' END
+    ),
+    v_doc.application_id
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'id', p_document_id,
+    'doc', v_doc.doc,
+    'version', v_doc.version,
+    'review_status', p_status
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION activate_notification_template(
+  p_template_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template notification_templates%ROWTYPE;
+BEGIN
+  -- Check the notification_template.manage permission
+  IF NOT has_permission('notification_template.manage') THEN
+    RAISE EXCEPTION 'Access denied: notification_template.manage permission required';
+  END IF;
+
+  SELECT * INTO v_template FROM notification_templates WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  UPDATE notification_templates SET is_active = false
+  WHERE event = v_template.event AND is_active AND id != p_template_id;
+
+  UPDATE notification_templates SET is_active = true
+  WHERE id = p_template_id;
+
+  PERFORM log_staff_action(
+    'NOTIFICATION_TEMPLATE_ACTIVATE',
+    format('Template %s v%s activated', v_template.event, v_template.version)
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_template.id,
+    'event', v_template.event,
+    'version', v_template.version,
+    'is_active', true
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_after_docs_reminders(
+  p_min_interval interval DEFAULT interval '3 days'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_application_id uuid;
+  v_count integer := 0;
+BEGIN
+  -- Scheduler (service role) or RH only
+  IF auth.uid() IS NOT NULL AND NOT has_permission('application.manage') THEN
+    RAISE EXCEPTION 'Access denied: application.manage permission required';
+  END IF;
+
+  FOR v_application_id IN
+    SELECT a.id
+    FROM applications a
+    WHERE a.status = 'Aceptado'
+      AND EXISTS (
+        SELECT 1 FROM vacancy_required_docs vrd
+        WHERE vrd.vacancy_id = a.vacancy_id
+          AND vrd.phase = 'DESPUES'
+          AND NOT EXISTS (
+            SELECT 1 FROM application_docs ad
+            WHERE ad.application_id = a.id
+              AND ad.phase = 'DESPUES'
+              AND ad.doc = vrd.doc
+          )
+      )
+      -- Give the candidate time since the acceptance email or the last reminder
+      AND NOT EXISTS (
+        SELECT 1 FROM notification_outbox o
+        WHERE o.application_id = a.id
+          AND o.event IN ('APPLICATION_ACCEPTED', 'AFTER_DOCS_REMINDER')
+          AND o.created_at > now() - p_min_interval
+      )
+  LOOP
+    PERFORM enqueue_notification(v_application_id, 'AFTER_DOCS_REMINDER');
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_notification_templates()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check the notification_template.manage permission
+  IF NOT has_permission('notification_template.manage') THEN
+    RAISE EXCEPTION 'Access denied: notification_template.manage permission required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'event', e.event,
+      'versions', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', nt.id,
+            'event', nt.event,
+            'version', nt.version,
+            'subject', nt.subject,
+            'body', nt.body,
+            'is_active', nt.is_active,
+            'created_by_name', su.full_name,
+            'created_at', nt.created_at
+          ) ORDER BY nt.version DESC
+        )
+        FROM notification_templates nt
+        LEFT JOIN staff_users su ON su.id = nt.created_by
+        WHERE nt.event = e.event
+      )
+    ) ORDER BY e.event
+  ), '[]'::jsonb) INTO v_result
+  FROM (SELECT DISTINCT event FROM notification_templates) e;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION preview_notification_template(
+  p_event text,
+  p_subject text,
+  p_body text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vars jsonb;
+BEGIN
+  -- Check the notification_template.manage permission
+  IF NOT has_permission('notification_template.manage') THEN
+    RAISE EXCEPTION 'Access denied: notification_template.manage permission required';
+  END IF;
+
+  v_vars := jsonb_build_object(
+    'candidate_name', 'María Fernanda López',
+    'folio', 'VAC-2025-000123',
+    'position', 'Operador de Almacén',
+    'scheduled_rh_at', '25/08/2025 10:00',
+    'scheduled_manager_at', '28/08/2025 12:30',
+    'location', CASE WHEN p_event = 'MANAGER_INTERVIEW_SCHEDULED'
+      THEN 'Planta Norte, oficina de Operaciones'
+      ELSE 'Oficinas Centrales, Sala de Recursos Humanos'
+    END,
+    'pending_docs', E'- ACTA_NACIMIENTO\n- COMPROBANTE_DOMICILIO'
+  );
+
+  RETURN jsonb_build_object(
+    'subject', render_notification_template(COALESCE(p_subject, ''), v_vars),
+    'body', render_notification_template(COALESCE(p_body, ''), v_vars),
+    'sample', v_vars
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_notification_template(
+  p_event text,
+  p_subject text,
+  p_body text,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_version integer;
+  v_template_id uuid;
+  v_unknown text;
+BEGIN
+  -- Check the notification_template.manage permission
+  IF NOT has_permission('notification_template.manage') THEN
+    RAISE EXCEPTION 'Access denied: notification_template.manage permission required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM notification_templates WHERE event = p_event) THEN
+    RAISE EXCEPTION 'Unknown notification event: %', p_event;
+  END IF;
+
+  IF COALESCE(trim(p_subject), '') = '' OR COALESCE(trim(p_body), '') = '' THEN
+    RAISE EXCEPTION 'Subject and body are required';
+  END IF;
+
+  -- Reject placeholders that would be sent to candidates unreplaced
+  SELECT string_agg(DISTINCT m[1], ', ') INTO v_unknown
+  FROM regexp_matches(p_subject || ' ' || p_body, '\{\{\s*([^}]*?)\s*\}\}', 'g') AS m
+  WHERE m[1] NOT IN (
+    'candidate_name', 'folio', 'position', 'scheduled_rh_at',
+    'scheduled_manager_at', 'location', 'pending_docs'
+  );
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown placeholders: %', v_unknown;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM notification_templates
+  WHERE event = p_event;
+
+  IF p_activate THEN
+    UPDATE notification_templates SET is_active = false
+    WHERE event = p_event AND is_active;
+  END IF;
+
+  INSERT INTO notification_templates (event, version, subject, body, is_active, created_by)
+  VALUES (p_event, v_version, p_subject, p_body, p_activate, auth.uid())
+  RETURNING id INTO v_template_id;
+
+  PERFORM log_staff_action(
+    'NOTIFICATION_TEMPLATE_SAVE',
+    format('Template %s v%s saved%s', p_event, v_version, CASE WHEN p_activate THEN ' and activated' ELSE '' END)
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_template_id,
+    'event', p_event,
+    'version', v_version,
+    'is_active', p_activate
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finalize_reject(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  result jsonb;
+  old_status text;
+BEGIN
+  -- Check the evaluation.finalize permission
+  IF NOT has_permission('evaluation.finalize') THEN
+    RAISE EXCEPTION 'Access denied: evaluation.finalize permission required';
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Store old status for audit
+  old_status := app_record.status;
+
+  -- Validate not already finalized
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  -- Perform transition (allowed from any non-final state)
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    old_status::application_status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_FINALIZE_REJECT',
+    p_reason_code,
+    'Candidate rejected from status: ' || old_status
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'reason_code', p_reason_code
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_rejection_reason(
+  p_code text,
+  p_label text,
+  p_description text DEFAULT NULL,
+  p_ord integer DEFAULT NULL,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code text;
+  v_reason rejection_reasons%ROWTYPE;
+BEGIN
+  -- Check the application.manage permission
+  IF NOT has_permission('application.manage') THEN
+    RAISE EXCEPTION 'Access denied: application.manage permission required';
+  END IF;
+
+  v_code := upper(trim(p_code));
+
+  IF v_code IS NULL OR v_code !~ '^[A-Z0-9_]+$' THEN
+    RAISE EXCEPTION 'Reason code must contain only letters, numbers and underscores';
+  END IF;
+
+  IF COALESCE(trim(p_label), '') = '' THEN
+    RAISE EXCEPTION 'Reason label is required';
+  END IF;
+
+  INSERT INTO rejection_reasons (code, label, description, ord, is_active)
+  VALUES (
+    v_code,
+    trim(p_label),
+    NULLIF(trim(p_description), ''),
+    COALESCE(p_ord, (SELECT COALESCE(MAX(ord), 0) + 1 FROM rejection_reasons WHERE code != 'OTRO')),
+    p_is_active
+  )
+  ON CONFLICT (code) DO UPDATE SET
+    label = EXCLUDED.label,
+    description = EXCLUDED.description,
+    ord = COALESCE(p_ord, rejection_reasons.ord),
+    is_active = EXCLUDED.is_active
+  RETURNING * INTO v_reason;
+
+  PERFORM log_staff_action(
+    'REJECTION_REASON_SAVE',
+    format('Rejection reason %s saved (%s)', v_code, CASE WHEN p_is_active THEN 'active' ELSE 'inactive' END)
+  );
+
+  RETURN to_jsonb(v_reason);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finalize_talent_pool(
+  p_application_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  criteria_count int;
+  scores_count int;
+BEGIN
+  -- Check the evaluation.finalize permission
+  IF NOT has_permission('evaluation.finalize') THEN
+    RAISE EXCEPTION 'Access denied: evaluation.finalize permission required';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'Evaluando' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- The pool is searched by evaluation total, so the evaluation must be complete
+  SELECT COUNT(*) INTO criteria_count FROM evaluation_criteria;
+  SELECT COUNT(*) INTO scores_count
+  FROM evaluation_scores
+  WHERE application_id = p_application_id;
+
+  IF scores_count != criteria_count THEN
+    RAISE EXCEPTION 'All evaluation criteria must be scored. Expected: %, Found: %', criteria_count, scores_count;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM evaluation_summary
+    WHERE application_id = p_application_id
+    AND factors_for IS NOT NULL
+    AND factors_against IS NOT NULL
+    AND conclusion IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Complete evaluation summary required';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'BolsaDeTalento',
+    pooled_at = now(),
+    pool_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'Evaluando',
+    'BolsaDeTalento',
+    'Candidate kept in talent pool' || COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'EVALUATION_FINALIZE_POOL',
+    'Candidate kept in talent pool'
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'BolsaDeTalento'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_application(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  v_is_rh boolean;
+  v_actor_role text;
+BEGIN
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if user is RH or the manager of the vacancy
+  v_is_rh := has_permission('application.manage');
+
+  IF NOT v_is_rh AND NOT is_manager_of_vacancy(app_record.vacancy_id) THEN
+    RAISE EXCEPTION 'Access denied. RH role or vacancy manager required.';
+  END IF;
+
+  v_actor_role := CASE WHEN v_is_rh THEN 'RH' ELSE 'MANAGER' END;
+
+  -- Validate current status
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  IF app_record.status IN ('Evaluando', 'BolsaDeTalento') AND NOT v_is_rh THEN
+    RAISE EXCEPTION 'Only RH can reject applications with status: %', app_record.status;
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    app_record.status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'APPLICATION_EARLY_REJECT',
+    p_reason_code,
+    format('Rejected by %s from status: %s', v_actor_role, app_record.status)
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'from_status', app_record.status,
+    'reason_code', p_reason_code
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reroute_application(
+  p_application_id uuid,
+  p_target_vacancy_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  source_vacancy vacancies%ROWTYPE;
+  target_vacancy vacancies%ROWTYPE;
+  v_new_id uuid;
+  v_new_folio text;
+  v_docs_count int;
+BEGIN
+  -- Check the application.manage permission
+  IF NOT has_permission('application.manage') THEN
+    RAISE EXCEPTION 'Access denied: application.manage permission required';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF app_record.status != 'BolsaDeTalento' THEN
+    RAISE EXCEPTION 'Only talent pool applications can be re-routed. Current status: %', app_record.status;
+  END IF;
+
+  SELECT * INTO source_vacancy FROM vacancies WHERE id = app_record.vacancy_id;
+
+  -- Validate target vacancy
+  SELECT * INTO target_vacancy FROM vacancies WHERE id = p_target_vacancy_id;
+
+  IF NOT FOUND OR NOT target_vacancy.is_active THEN
+    RAISE EXCEPTION 'Target vacancy not found or inactive';
+  END IF;
+
+  IF target_vacancy.id = app_record.vacancy_id THEN
+    RAISE EXCEPTION 'Target vacancy must be different from the original one';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM applications
+    WHERE vacancy_id = p_target_vacancy_id
+    AND candidate_id = app_record.candidate_id
+  ) THEN
+    RAISE EXCEPTION 'Candidate already has an application for the target vacancy';
+  END IF;
+
+  -- Create the new application (starts at document review for the new vacancy)
+  INSERT INTO applications (candidate_id, vacancy_id, rerouted_from_application_id)
+  VALUES (app_record.candidate_id, p_target_vacancy_id, app_record.id)
+  RETURNING id, folio INTO v_new_id, v_new_folio;
+
+  -- Copy every document version, keeping its review
+  INSERT INTO application_docs (
+    application_id, doc, phase, url, version, uploaded_at,
+    review_status, review_reason, reviewed_by, reviewed_at
+  )
+  SELECT
+    v_new_id, doc, phase, url, version, uploaded_at,
+    review_status, review_reason, reviewed_by, reviewed_at
+  FROM application_docs
+  WHERE application_id = app_record.id;
+
+  GET DIAGNOSTICS v_docs_count = ROW_COUNT;
+
+  -- Carry over the history the pooled application itself carried
+  INSERT INTO carried_evaluations (
+    application_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total, carried_at
+  )
+  SELECT
+    v_new_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total, carried_at
+  FROM carried_evaluations
+  WHERE application_id = app_record.id;
+
+  -- Snapshot of the pooled application's interviews and evaluation
+  INSERT INTO carried_evaluations (
+    application_id, source_application_id, source_folio, source_position, source_status,
+    interview_rh, interview_manager, scores, summary, evaluation_total
+  )
+  SELECT
+    v_new_id,
+    app_record.id,
+    app_record.folio,
+    source_vacancy.position,
+    app_record.status,
+    (
+      SELECT jsonb_build_object(
+        'finished_at', ir.finished_at,
+        'answers', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'question', q.text,
+              'answer_text', ans->>'answer_text'
+            ) ORDER BY q.ord
+          )
+          FROM jsonb_array_elements(ir.answers) ans
+          JOIN questions q ON q.id = (ans->>'question_id')::uuid
+        ), '[]'::jsonb),
+        'extra_questions', ir.extra_questions
+      )
+      FROM interview_rh ir
+      WHERE ir.application_id = app_record.id
+    ),
+    (
+      SELECT jsonb_build_object(
+        'score', im.score,
+        'notes', im.notes,
+        'created_at', im.created_at
+      )
+      FROM interview_manager im
+      WHERE im.application_id = app_record.id
+    ),
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'criterion', ec.name,
+          'grp', ec.grp,
+          'score', sc.score
+        ) ORDER BY ec.grp, ec.ord
+      )
+      FROM evaluation_scores sc
+      JOIN evaluation_criteria ec ON ec.id = sc.criterion_id
+      WHERE sc.application_id = app_record.id
+    ), '[]'::jsonb),
+    (
+      SELECT jsonb_build_object(
+        'total', es.total,
+        'factors_for', es.factors_for,
+        'factors_against', es.factors_against,
+        'conclusion', es.conclusion,
+        'references_laborales', es.references_laborales,
+        'created_at', es.created_at
+      )
+      FROM evaluation_summary es
+      WHERE es.application_id = app_record.id
+    ),
+    (SELECT es.total FROM evaluation_summary es WHERE es.application_id = app_record.id);
+
+  -- Log audit on both applications
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES
+  (
+    auth.uid(),
+    app_record.id,
+    'APPLICATION_REROUTE',
+    format('Re-routed to vacancy %s (folio %s)', target_vacancy.position, v_new_folio) ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  ),
+  (
+    auth.uid(),
+    v_new_id,
+    'APPLICATION_REROUTE',
+    format('Created from talent pool application %s (%s documents copied)', app_record.folio, v_docs_count) ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  -- Let the candidate know the new folio
+  PERFORM enqueue_notification(v_new_id, 'APPLICATION_RECEIVED');
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'application_id', v_new_id,
+    'folio', v_new_folio,
+    'vacancy_id', target_vacancy.id,
+    'vacancy_position', target_vacancy.position,
+    'documents_copied', v_docs_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_talent_pool(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_vacancy_type vacancy_type DEFAULT NULL,
+  p_min_total int DEFAULT NULL,
+  p_max_total int DEFAULT NULL,
+  p_q text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Check the talent_pool.view permission
+  IF NOT has_permission('talent_pool.view') THEN
+    RAISE EXCEPTION 'Access denied: talent_pool.view permission required';
+  END IF;
+
+  -- Calculate offset
+  offset_val := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO total_count
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN evaluation_summary es ON es.application_id = a.id
+  WHERE a.status = 'BolsaDeTalento'
+    AND (p_vacancy_type IS NULL OR v.type = p_vacancy_type)
+    AND (p_min_total IS NULL OR es.total >= p_min_total)
+    AND (p_max_total IS NULL OR es.total <= p_max_total)
+    AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%');
+
+  -- Get paginated results, best evaluated first
+  SELECT jsonb_build_object(
+    'items', COALESCE(jsonb_agg(item ORDER BY item_total DESC NULLS LAST, item_pooled_at DESC), '[]'::jsonb),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT
+      es.total AS item_total,
+      a.pooled_at AS item_pooled_at,
+      jsonb_build_object(
+        'application_id', a.id,
+        'folio', a.folio,
+        'candidate_full_name', c.full_name,
+        'candidate_email', c.email,
+        'candidate_phone', c.phone,
+        'vacancy_id', v.id,
+        'vacancy_position', v.position,
+        'vacancy_type', v.type,
+        'evaluation_total', es.total,
+        'manager_score', im.score,
+        'pooled_at', a.pooled_at,
+        'pool_note', a.pool_note,
+        'rerouted_to', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'application_id', ra.id,
+              'folio', ra.folio,
+              'vacancy_position', rv.position,
+              'status', ra.status
+            ) ORDER BY ra.created_at
+          )
+          FROM applications ra
+          JOIN vacancies rv ON ra.vacancy_id = rv.id
+          WHERE ra.rerouted_from_application_id = a.id
+        ), '[]'::jsonb)
+      ) AS item
+    FROM applications a
+    JOIN candidates c ON a.candidate_id = c.id
+    JOIN vacancies v ON a.vacancy_id = v.id
+    LEFT JOIN evaluation_summary es ON es.application_id = a.id
+    LEFT JOIN interview_manager im ON im.application_id = a.id
+    WHERE a.status = 'BolsaDeTalento'
+      AND (p_vacancy_type IS NULL OR v.type = p_vacancy_type)
+      AND (p_min_total IS NULL OR es.total >= p_min_total)
+      AND (p_max_total IS NULL OR es.total <= p_max_total)
+      AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+    ORDER BY es.total DESC NULLS LAST, a.pooled_at DESC
+    LIMIT p_page_size OFFSET offset_val
+  ) page;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_interview_calendar(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_staff_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_rh boolean := has_permission('interview.schedule');
+  v_staff jsonb;
+  v_slots jsonb;
+BEGIN
+  IF NOT (v_is_rh OR is_manager_user()) THEN
+    RAISE EXCEPTION 'Access denied. RH or Manager role required.';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid date range';
+  END IF;
+
+  -- Calendars the caller can see: every RH user and manager for RH, their own for managers
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', s.id,
+      'full_name', s.full_name,
+      'role', s.role
+    ) ORDER BY s.role DESC, s.full_name
+  ), '[]'::jsonb)
+  INTO v_staff
+  FROM staff_users s
+  WHERE s.active = true
+    AND (staff_has_permission(s.id, 'interview.conduct') OR staff_has_permission(s.id, 'manager.interview'))
+    AND (v_is_rh OR s.id = auth.uid());
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', sl.id,
+      'staff_id', sl.staff_id,
+      'staff_name', s.full_name,
+      'kind', sl.kind,
+      'starts_at', sl.starts_at,
+      'ends_at', sl.ends_at,
+      'location', sl.location,
+      'origin', sl.origin,
+      'booked', sl.application_id IS NOT NULL,
+      'application', CASE WHEN a.id IS NOT NULL THEN
+        jsonb_build_object(
+          'id', a.id,
+          'folio', a.folio,
+          'status', a.status,
+          'candidate_name', c.full_name,
+          'vacancy_position', v.position
+        )
+      END
+    ) ORDER BY sl.starts_at
+  ), '[]'::jsonb)
+  INTO v_slots
+  FROM interview_slots sl
+  JOIN staff_users s ON s.id = sl.staff_id
+  LEFT JOIN applications a ON a.id = sl.application_id
+  LEFT JOIN candidates c ON c.id = a.candidate_id
+  LEFT JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE sl.starts_at < p_to
+    AND sl.ends_at > p_from
+    AND (v_is_rh OR sl.staff_id = auth.uid())
+    AND (p_staff_id IS NULL OR sl.staff_id = p_staff_id);
+
+  RETURN jsonb_build_object('staff', v_staff, 'slots', v_slots);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION schedule_rh_interview(
+  p_application_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_current_status application_status;
+  v_interviewer_id uuid;
+  v_booking jsonb;
+BEGIN
+  -- Check the interview.schedule permission
+  IF NOT has_permission('interview.schedule') THEN
+    RAISE EXCEPTION 'Only RH users can schedule interviews';
+  END IF;
+
+  -- Get current status
+  SELECT status INTO v_current_status
+  FROM applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- First scheduling is the document review transition
+  IF v_current_status = 'RevisionDeDocumentos' THEN
+    RETURN transition_to_rh_interview(p_application_id, p_at, p_location, p_slot_id);
+  END IF;
+
+  -- Validate status
+  IF v_current_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Cannot schedule RH interview for status: %', v_current_status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview is already finished';
+  END IF;
+
+  -- Rescheduling keeps the current interviewer unless a slot is chosen
+  IF p_slot_id IS NULL THEN
+    SELECT staff_id INTO v_interviewer_id
+    FROM interview_slots
+    WHERE application_id = p_application_id AND kind = 'RH';
+
+    v_interviewer_id := COALESCE(v_interviewer_id, auth.uid());
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'RH',
+    v_interviewer_id,
+    p_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Update application
+  UPDATE applications
+  SET
+    scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_rh_location = v_booking->>'location'
+  WHERE id = p_application_id;
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULED',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', v_current_status,
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_manager_schedule(
+  p_application_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+  v_current_status application_status;
+  v_rh_finished_at timestamptz;
+  v_was_scheduled boolean := false;
+  v_booking jsonb;
+  v_result jsonb;
+  v_action text;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_slot_id IS NULL AND (p_at IS NULL OR p_location IS NULL OR trim(p_location) = '') THEN
+    RAISE EXCEPTION 'Date/time and location are required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, a.status, a.scheduled_manager_at IS NOT NULL
+  INTO v_manager_id, v_current_status, v_was_scheduled
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (has_permission('interview.schedule') OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF v_current_status NOT IN ('RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager') THEN
+    RAISE EXCEPTION 'Cannot schedule manager interview for status: %', v_current_status;
+  END IF;
+
+  -- Check if RH interview is finished
+  SELECT finished_at INTO v_rh_finished_at
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+
+  -- Finished RH interview: scheduling moves the application to the manager stage
+  IF v_rh_finished_at IS NOT NULL AND v_current_status = 'EntrevistaConRH' THEN
+    v_result := transition_to_manager_interview(p_application_id, p_at, p_location, p_slot_id);
+
+    RETURN json_build_object(
+      'ok', true,
+      'status_may_change_to', 'EntrevistaConManager',
+      'scheduled_at', v_result->'scheduled_at',
+      'location', v_result->'location',
+      'slot_id', v_result->'slot_id',
+      'outside_availability', v_result->'outside_availability'
+    );
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Update the schedule
+  UPDATE applications
+  SET
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location'
+  WHERE id = p_application_id;
+
+  -- Determine action for audit
+  v_action := CASE
+    WHEN v_was_scheduled THEN 'MANAGER_SCHEDULE_UPDATE'
+    ELSE 'MANAGER_SCHEDULE_SET'
+  END;
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    v_action,
+    json_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id',
+      'status_changed', false
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object(
+    'ok', true,
+    'status_may_change_to', NULL,
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION open_self_booking(
+  p_application_id uuid,
+  p_kind text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_available integer;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  -- RH invites to any interview, the vacancy manager only to the manager interview
+  IF NOT (has_permission('interview.schedule') OR (p_kind = 'MANAGER' AND is_rh_or_manager_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF p_kind = 'RH' THEN
+    UPDATE applications SET rh_self_booking_opened_at = now() WHERE id = p_application_id;
+  ELSE
+    UPDATE applications SET manager_self_booking_opened_at = now() WHERE id = p_application_id;
+  END IF;
+
+  IF self_booking_kind(p_application_id) IS DISTINCT FROM p_kind THEN
+    RAISE EXCEPTION 'Self-booking of the % interview is not available for status: %', p_kind, app_record.status;
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  SELECT COUNT(*) INTO v_available
+  FROM interview_slots s
+  WHERE s.kind = p_kind
+    AND s.origin = 'PUBLISHED'
+    AND s.application_id IS NULL
+    AND s.starts_at >= now() + make_interval(hours => (self_booking_policy()->>'min_notice_hours')::int)
+    AND (p_kind = 'RH' OR s.staff_id = v_manager_id);
+
+  PERFORM enqueue_notification(p_application_id, 'SELF_BOOKING_INVITE');
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'SELF_BOOKING_OPENED',
+    jsonb_build_object('kind', p_kind, 'available_slots', v_available)::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'kind', p_kind,
+    'available_slots', v_available
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_to_manager_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user has access (RH, Manager of the vacancy or the service role booking on behalf of the candidate)
+  IF NOT (has_permission('interview.schedule') OR is_rh_or_manager_of_application(p_application_id) OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate RH interview is finished
+  IF NOT EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview must be completed first';
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Vacancy has no manager assigned';
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConManager',
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'EntrevistaConRH',
+    'EntrevistaConManager',
+    'Manager interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'MANAGER_SCHEDULE_SET',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConManager',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_to_rh_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_unapproved_docs text[];
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user is RH (or the service role booking on behalf of the candidate)
+  IF NOT (has_permission('interview.schedule') OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Access denied: interview.schedule permission required';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'RevisionDeDocumentos' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate every NECESARIO document is uploaded and its latest version approved
+  SELECT array_agg(vrd.doc::text ORDER BY vrd.doc)
+  INTO v_unapproved_docs
+  FROM vacancy_required_docs vrd
+  LEFT JOIN LATERAL (
+    SELECT ad.review_status
+    FROM application_docs ad
+    WHERE ad.application_id = p_application_id
+      AND ad.doc = vrd.doc
+      AND ad.phase = 'NECESARIO'
+    ORDER BY ad.version DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE vrd.vacancy_id = app_record.vacancy_id
+    AND vrd.phase = 'NECESARIO'
+    AND latest.review_status IS DISTINCT FROM 'APROBADO';
+
+  IF v_unapproved_docs IS NOT NULL THEN
+    RAISE EXCEPTION 'All required documents must be approved first. Pending: %',
+      array_to_string(v_unapproved_docs, ', ');
+  END IF;
+
+  -- Book the interviewer (the slot owner, or the current RH user)
+  v_booking := book_interview_slot(
+    p_application_id,
+    'RH',
+    CASE WHEN p_slot_id IS NULL THEN auth.uid() END,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConRH',
+    scheduled_rh_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_rh_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'RevisionDeDocumentos',
+    'EntrevistaConRH',
+    'RH interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_SCHEDULE',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConRH',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_rh_dashboard_summary(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  active_vacancies_count int;
+  applications_total_count int;
+  applications_by_status_data jsonb;
+  avg_time_data jsonb;
+  accept_reject_data jsonb;
+  rejections_by_reason_data jsonb;
+  no_show_data jsonb;
+BEGIN
+  -- Check the dashboard.view permission
+  IF NOT has_permission('dashboard.view') THEN
+    RAISE EXCEPTION 'Access denied: dashboard.view permission required';
+  END IF;
+
+  -- Get active vacancies count
+  SELECT COUNT(*) INTO active_vacancies_count
+  FROM vacancies
+  WHERE is_active = true;
+
+  -- Get applications total (with date filter if provided)
+  SELECT COUNT(*) INTO applications_total_count
+  FROM applications a
+  WHERE (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to);
+
+  -- Get applications by status (with date filter if provided)
+  SELECT jsonb_object_agg(status, count) INTO applications_by_status_data
+  FROM (
+    SELECT
+      a.status,
+      COUNT(*) as count
+    FROM applications a
+    WHERE (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at <= p_to)
+    GROUP BY a.status
+  ) t;
+
+  -- Get average time by stage from materialized view
+  SELECT jsonb_object_agg(transition, ROUND(avg_hours::numeric, 1)) INTO avg_time_data
+  FROM mv_avg_time_by_stage
+  WHERE avg_hours IS NOT NULL;
+
+  -- Get accept/reject rates by vacancy
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', vacancy_id,
+      'position', position,
+      'accepted', accepted,
+      'rejected', rejected,
+      'total', total
+    )
+  ) INTO accept_reject_data
+  FROM mv_accept_reject_by_vacancy
+  WHERE total > 0;
+
+  -- Get rejections by reason per vacancy (rejections before the catalog have no reason)
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', m.vacancy_id,
+      'position', m.position,
+      'reason_code', m.reason_code,
+      'reason_label', COALESCE(r.label, 'Sin motivo registrado'),
+      'rejected', m.rejected
+    ) ORDER BY m.position, m.rejected DESC
+  ) INTO rejections_by_reason_data
+  FROM mv_rejections_by_reason m
+  LEFT JOIN rejection_reasons r ON r.code = m.reason_code;
+
+  -- Get no-show rate by vacancy (over appointments with a known attendance)
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'vacancy_id', vacancy_id,
+      'position', position,
+      'attended', attended,
+      'no_show', no_show,
+      'changed_by_candidate', changed_by_candidate,
+      'changed_by_staff', changed_by_staff,
+      'no_show_rate', CASE WHEN attended + no_show > 0
+        THEN ROUND(no_show::numeric * 100 / (attended + no_show), 1)
+        ELSE 0
+      END
+    ) ORDER BY position
+  ) INTO no_show_data
+  FROM mv_no_show_by_vacancy
+  WHERE attended + no_show > 0;
+
+  -- Build result
+  result := jsonb_build_object(
+    'active_vacancies', active_vacancies_count,
+    'applications_total', applications_total_count,
+    'applications_by_status', COALESCE(applications_by_status_data, '{}'::jsonb),
+    'avg_time_by_stage_hours', COALESCE(avg_time_data, '{}'::jsonb),
+    'accept_reject_rate_by_vacancy', COALESCE(accept_reject_data, '[]'::jsonb),
+    'rejections_by_reason', COALESCE(rejections_by_reason_data, '[]'::jsonb),
+    'no_show_rate_by_vacancy', COALESCE(no_show_data, '[]'::jsonb)
+  );
+
+  -- Log dashboard view
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_VIEW', 'Dashboard summary accessed');
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_dashboard_views()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check the dashboard.view permission
+  IF NOT has_permission('dashboard.view') THEN
+    RAISE EXCEPTION 'Access denied: dashboard.view permission required';
+  END IF;
+
+  -- Refresh all materialized views
+  REFRESH MATERIALIZED VIEW mv_applications_by_status;
+  REFRESH MATERIALIZED VIEW mv_avg_time_by_stage;
+  REFRESH MATERIALIZED VIEW mv_accept_reject_by_vacancy;
+  REFRESH MATERIALIZED VIEW mv_rejections_by_reason;
+  REFRESH MATERIALIZED VIEW mv_no_show_by_vacancy;
+
+  -- Log refresh action
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (auth.uid(), 'RH_DASHBOARD_REFRESH', 'Dashboard views refreshed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_interview_outcome(
+  p_application_id uuid,
+  p_kind text,
+  p_outcome text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_appointment interview_appointments%ROWTYPE;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  IF p_outcome NOT IN ('ATTENDED', 'NO_SHOW') THEN
+    RAISE EXCEPTION 'Invalid outcome: %', p_outcome;
+  END IF;
+
+  -- RH records any interview, the vacancy manager only the manager interview
+  IF NOT (has_permission('interview.schedule') OR (p_kind = 'MANAGER' AND is_rh_or_manager_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO v_appointment
+  FROM interview_appointments
+  WHERE application_id = p_application_id
+    AND kind = p_kind
+    AND outcome IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending % appointment for this application', p_kind;
+  END IF;
+
+  IF p_outcome = 'NO_SHOW' AND v_appointment.scheduled_at > now() THEN
+    RAISE EXCEPTION 'The appointment has not happened yet';
+  END IF;
+
+  UPDATE interview_appointments
+  SET outcome = p_outcome, outcome_at = now(), outcome_by = auth.uid()
+  WHERE id = v_appointment.id;
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_OUTCOME',
+    jsonb_build_object(
+      'kind', p_kind,
+      'appointment_id', v_appointment.id,
+      'scheduled_at', v_appointment.scheduled_at,
+      'outcome', p_outcome
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'appointment_id', v_appointment.id,
+    'outcome', p_outcome
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_scorecard_competencies()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check the scorecard.manage permission
+  IF NOT has_permission('scorecard.manage') THEN
+    RAISE EXCEPTION 'Access denied: scorecard.manage permission required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', c.id,
+      'vacancy_type', c.vacancy_type,
+      'name', c.name,
+      'description', c.description,
+      'weight', c.weight,
+      'anchors', to_jsonb(c.anchors),
+      'ord', c.ord,
+      'is_active', c.is_active
+    ) ORDER BY c.vacancy_type, c.ord, c.name
+  ), '[]'::jsonb) INTO v_result
+  FROM manager_scorecard_competencies c;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_manager_result(
+  p_application_id uuid,
+  p_score integer,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_score IS NULL OR p_score < 0 OR p_score > 100 THEN
+    RAISE EXCEPTION 'Score must be between 0 and 100';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, v.type INTO v_manager_id, v_vacancy_type
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (has_permission('application.manage') OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This vacancy type uses a scorecard; save it with save_manager_scorecard';
+  END IF;
+
+  -- Insert or update manager interview
+  INSERT INTO interview_manager (application_id, score, notes, ratings, created_at)
+  VALUES (p_application_id, p_score, COALESCE(p_notes, ''), '[]'::jsonb, now())
+  ON CONFLICT (application_id)
+  DO UPDATE SET
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    created_at = now();
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORE_SAVE',
+    json_build_object(
+      'score', p_score,
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_manager_scorecard(
+  p_application_id uuid,
+  p_ratings jsonb,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_current_user_id uuid := auth.uid();
+  v_missing text;
+  v_snapshot jsonb;
+  v_score integer;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id, v.type INTO v_manager_id, v_vacancy_type
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (has_permission('application.manage') OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  IF jsonb_typeof(p_ratings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Ratings must be an array';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'No scorecard configured for vacancy type %', v_vacancy_type;
+  END IF;
+
+  -- Every active competency needs a 1-5 rating and a comment
+  SELECT string_agg(c.name, ', ' ORDER BY c.ord) INTO v_missing
+  FROM manager_scorecard_competencies c
+  LEFT JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active
+    AND (
+      r.rating IS NULL
+      OR COALESCE(r.rating->>'rating', '') !~ '^[1-5]$'
+      OR COALESCE(trim(r.rating->>'comment'), '') = ''
+    );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Rating (1-5) and comment required for: %', v_missing;
+  END IF;
+
+  -- Rating 1 counts as 0 and rating 5 as 100, weighted by competency
+  SELECT
+    jsonb_agg(
+      jsonb_build_object(
+        'competency_id', c.id,
+        'name', c.name,
+        'weight', c.weight,
+        'rating', (r.rating->>'rating')::integer,
+        'comment', trim(r.rating->>'comment')
+      ) ORDER BY c.ord
+    ),
+    round(sum(c.weight * ((r.rating->>'rating')::integer - 1)) * 25.0 / sum(c.weight))
+  INTO v_snapshot, v_score
+  FROM manager_scorecard_competencies c
+  JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active;
+
+  -- Insert or update manager interview
+  INSERT INTO interview_manager (application_id, score, notes, ratings, created_at)
+  VALUES (p_application_id, v_score, COALESCE(p_notes, ''), v_snapshot, now())
+  ON CONFLICT (application_id)
+  DO UPDATE SET
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    created_at = now();
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORECARD_SAVE',
+    json_build_object(
+      'score', v_score,
+      'ratings', jsonb_array_length(v_snapshot),
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true, 'score', v_score);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_scorecard_competency(
+  p_id uuid,
+  p_vacancy_type vacancy_type,
+  p_name text,
+  p_description text,
+  p_weight integer,
+  p_anchors text[],
+  p_ord integer,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  -- Check the scorecard.manage permission
+  IF NOT has_permission('scorecard.manage') THEN
+    RAISE EXCEPTION 'Access denied: scorecard.manage permission required';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Competency name is required';
+  END IF;
+
+  IF p_weight IS NULL OR p_weight < 1 OR p_weight > 100 THEN
+    RAISE EXCEPTION 'Weight must be between 1 and 100';
+  END IF;
+
+  IF COALESCE(array_length(p_anchors, 1), 0) <> 5
+     OR EXISTS (SELECT 1 FROM unnest(p_anchors) a WHERE COALESCE(trim(a), '') = '') THEN
+    RAISE EXCEPTION 'Five rating anchors (1-5) are required';
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO manager_scorecard_competencies (
+      vacancy_type, name, description, weight, anchors, ord, is_active
+    ) VALUES (
+      p_vacancy_type, trim(p_name), COALESCE(trim(p_description), ''), p_weight,
+      p_anchors, COALESCE(p_ord, 0), COALESCE(p_is_active, true)
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE manager_scorecard_competencies SET
+      vacancy_type = p_vacancy_type,
+      name = trim(p_name),
+      description = COALESCE(trim(p_description), ''),
+      weight = p_weight,
+      anchors = p_anchors,
+      ord = COALESCE(p_ord, 0),
+      is_active = COALESCE(p_is_active, true)
+    WHERE id = p_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'Competency not found';
+    END IF;
+  END IF;
+
+  PERFORM log_staff_action(
+    'SCORECARD_COMPETENCY_SAVE',
+    jsonb_build_object(
+      'competency_id', v_id,
+      'vacancy_type', p_vacancy_type,
+      'name', trim(p_name),
+      'weight', p_weight,
+      'is_active', COALESCE(p_is_active, true)
+    )::text
+  );
+
+  RETURN jsonb_build_object('id', v_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_manager_interview_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is the assigned manager
+  SELECT v.manager_id INTO v_manager_id
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if current user is RH or the assigned manager
+  IF NOT (has_permission('application.view') OR v_current_user_id = v_manager_id) THEN
+    RAISE EXCEPTION 'Access denied: not assigned manager';
+  END IF;
+
+  -- Build the response
+  SELECT json_build_object(
+    'application', json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'schedules', json_build_object(
+        'rh', CASE 
+          WHEN a.scheduled_rh_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_rh_at,
+              'location', a.scheduled_rh_location
+            )
+          ELSE NULL
+        END,
+        'manager', CASE 
+          WHEN a.scheduled_manager_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_manager_at,
+              'location', a.scheduled_manager_location
+            )
+          ELSE NULL
+        END
+      )
+    ),
+    'interview_rh', CASE 
+      WHEN ir.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ir.bank_version_id,
+          'started_at', ir.started_at,
+          'finished_at', ir.finished_at,
+          'questions', (
+            SELECT json_agg(
+              json_build_object(
+                'id', q.id,
+                'ord', q.ord,
+                'text', q.text,
+                'is_required', q.is_required
+              ) ORDER BY q.ord
+            )
+            FROM questions q
+            WHERE q.bank_version_id = ir.bank_version_id
+          ),
+          'answers', ir.answers,
+          'extra_questions', ir.extra_questions
+        )
+      ELSE NULL
+    END,
+    'interview_manager', CASE 
+      WHEN im.application_id IS NOT NULL THEN
+        json_build_object(
+          'score', im.score,
+          'notes', im.notes,
+          'ratings', im.ratings,
+          'created_at', im.created_at,
+          'exists', true
+        )
+      ELSE
+        json_build_object('exists', false)
+    END,
+    'guided_interview', CASE
+      WHEN ima.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ima.bank_version_id,
+          'started_at', ima.started_at,
+          'updated_at', ima.updated_at,
+          'questions', bank_version_questions(ima.bank_version_id),
+          'answers', ima.answers,
+          'extra_questions', ima.extra_questions
+        )
+      ELSE NULL
+    END,
+    'has_question_bank', EXISTS (
+      SELECT 1
+      FROM question_banks qb
+      JOIN question_bank_versions qbv ON qbv.bank_id = qb.id
+      WHERE qb.kind = resolve_question_bank_kind(v.id)
+      AND qb.stage = 'MANAGER'
+      AND qbv.is_active
+    ),
+    'scorecard', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', sc.id,
+          'name', sc.name,
+          'description', sc.description,
+          'weight', sc.weight,
+          'anchors', sc.anchors,
+          'ord', sc.ord
+        ) ORDER BY sc.ord
+      ), '[]'::json)
+      FROM manager_scorecard_competencies sc
+      WHERE sc.vacancy_type = v.type
+      AND sc.is_active
+    )
+  ) INTO v_result
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id
+  LEFT JOIN interview_manager_answers ima ON a.id = ima.application_id
+  WHERE a.id = p_application_id;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_guided_interview json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check the evaluation.view permission
+  IF NOT has_permission('evaluation.view') THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'score_total', ir.score_total,
+    'score_max', ir.score_max,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'ratings', im.ratings,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get guided manager interview answers
+  SELECT json_build_object(
+    'bank_version_id', ima.bank_version_id,
+    'started_at', ima.started_at,
+    'updated_at', ima.updated_at,
+    'questions', bank_version_questions(ima.bank_version_id),
+    'answers', ima.answers,
+    'extra_questions', ima.extra_questions
+  ) INTO v_guided_interview
+  FROM interview_manager_answers ima
+  WHERE ima.application_id = p_application_id;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'guided_interview', v_guided_interview,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_applications_admin(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_vacancy_id uuid DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_q text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_min_rh_score int DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result jsonb;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Check the application.view permission
+  IF NOT has_permission('application.view') THEN
+    RAISE EXCEPTION 'Access denied: application.view permission required';
+  END IF;
+
+  -- Calculate offset
+  offset_val := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO total_count
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  JOIN staff_users s ON v.manager_id = s.id
+  LEFT JOIN interview_rh ir ON ir.application_id = a.id
+  WHERE (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id)
+    AND (p_status IS NULL OR a.status::text = p_status)
+    AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+    AND (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at <= p_to)
+    AND (p_min_rh_score IS NULL OR (ir.score_max > 0 AND ir.score_total * 100 >= p_min_rh_score * ir.score_max));
+
+  -- Get paginated results
+  SELECT jsonb_build_object(
+    'items', COALESCE(jsonb_agg(t.item ORDER BY t.applied_at DESC), '[]'::jsonb),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT
+      a.created_at AS applied_at,
+      jsonb_build_object(
+        'application_id', a.id,
+        'folio', a.folio,
+        'status', a.status,
+        'candidate_full_name', c.full_name,
+        'candidate_email', c.email,
+        'candidate_phone', c.phone,
+        'vacancy_id', v.id,
+        'vacancy_position', v.position,
+        'vacancy_type', v.type,
+        'manager_full_name', s.full_name,
+        'applied_at', a.created_at,
+        'rh_score_total', ir.score_total,
+        'rh_score_max', ir.score_max
+      ) AS item
+    FROM applications a
+    JOIN candidates c ON a.candidate_id = c.id
+    JOIN vacancies v ON a.vacancy_id = v.id
+    JOIN staff_users s ON v.manager_id = s.id
+    LEFT JOIN interview_rh ir ON ir.application_id = a.id
+    WHERE (p_vacancy_id IS NULL OR a.vacancy_id = p_vacancy_id)
+      AND (p_status IS NULL OR a.status::text = p_status)
+      AND (p_q IS NULL OR c.full_name ILIKE '%' || p_q || '%' OR a.folio ILIKE '%' || p_q || '%')
+      AND (p_from IS NULL OR a.created_at >= p_from)
+      AND (p_to IS NULL OR a.created_at <= p_to)
+      AND (p_min_rh_score IS NULL OR (ir.score_max > 0 AND ir.score_total * 100 >= p_min_rh_score * ir.score_max))
+    ORDER BY a.created_at DESC
+    LIMIT p_page_size OFFSET offset_val
+  ) t;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION activate_question_bank_version(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target question_bank_versions%ROWTYPE;
+  v_bank question_banks%ROWTYPE;
+  v_previous_version integer;
+BEGIN
+  -- Check the question_bank.manage permission
+  IF NOT has_permission('question_bank.manage') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.manage permission required';
+  END IF;
+
+  SELECT * INTO v_target FROM question_bank_versions WHERE id = p_bank_version_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank version not found';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = v_target.bank_id;
+
+  SELECT version INTO v_previous_version
+  FROM question_bank_versions
+  WHERE bank_id = v_target.bank_id AND is_active AND id != p_bank_version_id;
+
+  UPDATE question_bank_versions SET is_active = false
+  WHERE bank_id = v_target.bank_id AND is_active AND id != p_bank_version_id;
+
+  UPDATE question_bank_versions SET is_active = true
+  WHERE id = p_bank_version_id;
+
+  PERFORM log_staff_action(
+    'QUESTION_BANK_VERSION_ACTIVATE',
+    jsonb_build_object(
+      'bank_id', v_bank.id,
+      'kind', v_bank.kind,
+      'stage', v_bank.stage,
+      'version', v_target.version,
+      'previous_version', v_previous_version,
+      'rollback', v_previous_version IS NOT NULL AND v_target.version < v_previous_version
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_target.id,
+    'version', v_target.version,
+    'is_active', true
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_question_bank_versions(p_bank_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check the question_bank.view permission
+  IF NOT has_permission('question_bank.view') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.view permission required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM question_banks WHERE id = p_bank_id) THEN
+    RAISE EXCEPTION 'Question bank not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'id', qbv.id,
+      'version', qbv.version,
+      'is_active', qbv.is_active,
+      'created_at', qbv.created_at,
+      'created_by_name', su.full_name,
+      'questions', bank_version_questions(qbv.id),
+      'interviews_count', (
+        (SELECT COUNT(*) FROM interview_rh ir WHERE ir.bank_version_id = qbv.id)
+        + (SELECT COUNT(*) FROM interview_manager_answers ima WHERE ima.bank_version_id = qbv.id)
+      ),
+      'in_progress_count', (
+        (SELECT COUNT(*) FROM interview_rh ir
+         WHERE ir.bank_version_id = qbv.id AND ir.finished_at IS NULL)
+        + (SELECT COUNT(*) FROM interview_manager_answers ima
+           WHERE ima.bank_version_id = qbv.id
+           AND NOT EXISTS (SELECT 1 FROM interview_manager im WHERE im.application_id = ima.application_id))
+      )
+    ) ORDER BY qbv.version DESC
+  ), '[]'::jsonb) INTO v_result
+  FROM question_bank_versions qbv
+  LEFT JOIN staff_users su ON su.id = qbv.created_by
+  WHERE qbv.bank_id = p_bank_id;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_question_bank_version(
+  p_bank_id uuid,
+  p_questions jsonb,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank question_banks%ROWTYPE;
+  v_version integer;
+  v_bank_version_id uuid;
+  v_invalid text;
+BEGIN
+  -- Check the question_bank.manage permission
+  IF NOT has_permission('question_bank.manage') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.manage permission required';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = p_bank_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank not found';
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' OR jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'At least one question is required';
+  END IF;
+
+  SELECT string_agg(q.ord::text, ', ' ORDER BY q.ord) INTO v_invalid
+  FROM jsonb_array_elements(p_questions) WITH ORDINALITY AS q(question, ord)
+  WHERE COALESCE(trim(q.question->>'text'), '') = ''
+    OR (
+      NULLIF(q.question->>'max_points', '') IS NOT NULL
+      AND (q.question->>'max_points')::integer NOT BETWEEN 1 AND 100
+    );
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Invalid questions (text required, max_points 1-100): %', v_invalid;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM question_bank_versions
+  WHERE bank_id = p_bank_id;
+
+  IF p_activate THEN
+    UPDATE question_bank_versions SET is_active = false
+    WHERE bank_id = p_bank_id AND is_active;
+  END IF;
+
+  INSERT INTO question_bank_versions (bank_id, version, is_active, created_by)
+  VALUES (p_bank_id, v_version, p_activate, auth.uid())
+  RETURNING id INTO v_bank_version_id;
+
+  INSERT INTO questions (bank_version_id, ord, text, is_required, max_points, rubric)
+  SELECT
+    v_bank_version_id,
+    q.ord,
+    trim(q.question->>'text'),
+    COALESCE((q.question->>'is_required')::boolean, true),
+    NULLIF(q.question->>'max_points', '')::integer,
+    NULLIF(trim(q.question->>'rubric'), '')
+  FROM jsonb_array_elements(p_questions) WITH ORDINALITY AS q(question, ord);
+
+  PERFORM log_staff_action(
+    'QUESTION_BANK_VERSION_SAVE',
+    format('Bank %s (%s) v%s saved with %s questions%s',
+      v_bank.kind, v_bank.stage, v_version, jsonb_array_length(p_questions),
+      CASE WHEN p_activate THEN ' and activated' ELSE '' END)
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'is_active', p_activate
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION export_question_bank_version(p_bank_version_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank question_banks%ROWTYPE;
+  v_version question_bank_versions%ROWTYPE;
+BEGIN
+  -- Check the question_bank.view permission
+  IF NOT has_permission('question_bank.view') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.view permission required';
+  END IF;
+
+  SELECT * INTO v_version FROM question_bank_versions WHERE id = p_bank_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question bank version not found';
+  END IF;
+
+  SELECT * INTO v_bank FROM question_banks WHERE id = v_version.bank_id;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_EXPORT',
+    format('Exported %s (%s) v%s', v_bank.kind, v_bank.stage, v_version.version)
+  );
+
+  RETURN jsonb_build_object(
+    'format', 'question_bank',
+    'format_version', 1,
+    'kind', v_bank.kind,
+    'kind_label', (SELECT label FROM question_bank_kinds WHERE code = v_bank.kind),
+    'stage', v_bank.stage,
+    'name', v_bank.name,
+    'version', v_version.version,
+    'exported_at', now(),
+    'questions', (
+      SELECT COALESCE(jsonb_agg(q - 'id' ORDER BY (q->>'ord')::integer), '[]'::jsonb)
+      FROM jsonb_array_elements(bank_version_questions(v_version.id)) q
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_question_bank_csv(
+  p_kind text,
+  p_csv_data jsonb,
+  p_version integer DEFAULT NULL,
+  p_activate boolean DEFAULT true,
+  p_stage text DEFAULT 'RH'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bank_id uuid;
+  v_bank_version_id uuid;
+  v_version integer;
+  v_question jsonb;
+  v_questions_imported integer := 0;
+  v_kind_label text;
+BEGIN
+  -- Check the question_bank.manage permission
+  IF NOT has_permission('question_bank.manage') THEN
+    RAISE EXCEPTION 'Only RH users can import question banks';
+  END IF;
+
+  IF p_stage NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid stage: %', p_stage;
+  END IF;
+
+  SELECT label INTO v_kind_label
+  FROM question_bank_kinds
+  WHERE code = p_kind;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown question bank kind: %', p_kind;
+  END IF;
+  
+  -- Get or create question bank
+  SELECT id INTO v_bank_id
+  FROM question_banks
+  WHERE kind = p_kind AND stage = p_stage;
+  
+  IF NOT FOUND THEN
+    INSERT INTO question_banks (kind, stage, name)
+    VALUES (p_kind, p_stage, CASE WHEN p_stage = 'MANAGER' THEN v_kind_label || ' (Manager)' ELSE v_kind_label END)
+    RETURNING id INTO v_bank_id;
+  END IF;
+  
+  -- Determine version number
+  IF p_version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+    FROM question_bank_versions
+    WHERE bank_id = v_bank_id;
+  ELSE
+    v_version := p_version;
+  END IF;
+  
+  -- Create new version
+  INSERT INTO question_bank_versions (bank_id, version, is_active)
+  VALUES (v_bank_id, v_version, p_activate)
+  RETURNING id INTO v_bank_version_id;
+  
+  -- Deactivate other versions if activating this one
+  IF p_activate THEN
+    UPDATE question_bank_versions 
+    SET is_active = false 
+    WHERE bank_id = v_bank_id AND id != v_bank_version_id;
+  END IF;
+  
+  -- Insert questions
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_csv_data)
+  LOOP
+    INSERT INTO questions (bank_version_id, ord, text, is_required, max_points, rubric)
+    VALUES (
+      v_bank_version_id,
+      (v_question->>'ord')::integer,
+      v_question->>'text',
+      (v_question->>'is_required')::boolean,
+      NULLIF(v_question->>'max_points', '')::integer,
+      NULLIF(trim(v_question->>'rubric'), '')
+    );
+    
+    v_questions_imported := v_questions_imported + 1;
+  END LOOP;
+  
+  -- Log the import
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT',
+    format('Imported %s questions for %s (%s) v%s', v_questions_imported, p_kind, p_stage, v_version)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_id', v_bank_id,
+    'bank_version_id', v_bank_version_id,
+    'version', v_version,
+    'stage', p_stage,
+    'questions_imported', v_questions_imported,
+    'activated', p_activate
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_question_bank_json(
+  p_bank jsonb,
+  p_activate boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_kind text := p_bank->>'kind';
+  v_stage text := COALESCE(p_bank->>'stage', 'RH');
+  v_question jsonb;
+  v_bank_existed boolean;
+  v_kind_created boolean;
+  v_result jsonb;
+BEGIN
+  -- Check the question_bank.manage permission
+  IF NOT has_permission('question_bank.manage') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.manage permission required';
+  END IF;
+
+  IF p_bank->>'format' IS DISTINCT FROM 'question_bank' THEN
+    RAISE EXCEPTION 'Not a question bank export';
+  END IF;
+
+  IF v_kind IS NULL OR v_kind !~ '^[A-Z][A-Z0-9_]{1,62}$' THEN
+    RAISE EXCEPTION 'Invalid question bank kind: %', v_kind;
+  END IF;
+
+  IF jsonb_typeof(p_bank->'questions') IS DISTINCT FROM 'array' OR jsonb_array_length(p_bank->'questions') = 0 THEN
+    RAISE EXCEPTION 'The export has no questions';
+  END IF;
+
+  FOR v_question IN SELECT * FROM jsonb_array_elements(p_bank->'questions')
+  LOOP
+    IF NULLIF(trim(v_question->>'text'), '') IS NULL OR (v_question->>'ord') IS NULL THEN
+      RAISE EXCEPTION 'Every question needs ord and text';
+    END IF;
+
+    IF NULLIF(v_question->>'max_points', '') IS NOT NULL
+       AND (v_question->>'max_points')::integer NOT BETWEEN 1 AND 100 THEN
+      RAISE EXCEPTION 'max_points must be between 1 and 100 (question %)', v_question->>'ord';
+    END IF;
+  END LOOP;
+
+  -- Kinds missing in this environment are created from the export
+  SELECT NOT EXISTS (SELECT 1 FROM question_bank_kinds WHERE code = v_kind) INTO v_kind_created;
+
+  IF v_kind_created THEN
+    INSERT INTO question_bank_kinds (code, label, created_by)
+    VALUES (v_kind, COALESCE(NULLIF(trim(p_bank->>'kind_label'), ''), NULLIF(trim(p_bank->>'name'), ''), v_kind), auth.uid());
+
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (auth.uid(), 'QUESTION_BANK_KIND_SAVE', format('Created question bank kind %s from import', v_kind));
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM question_banks WHERE kind = v_kind AND stage = v_stage
+  ) INTO v_bank_existed;
+
+  v_result := import_question_bank_csv(
+    v_kind,
+    p_bank->'questions',
+    NULL,
+    p_activate,
+    v_stage
+  );
+
+  -- A bank created by this import takes the name it had in the source environment
+  IF NOT v_bank_existed AND NULLIF(trim(p_bank->>'name'), '') IS NOT NULL THEN
+    UPDATE question_banks SET name = trim(p_bank->>'name') WHERE id = (v_result->>'bank_id')::uuid;
+  END IF;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_IMPORT_JSON',
+    format('Imported %s (%s) v%s from export of v%s', v_kind, v_stage, v_result->>'version', COALESCE(p_bank->>'version', '?'))
+  );
+
+  RETURN v_result || jsonb_build_object('bank_created', NOT v_bank_existed, 'kind_created', v_kind_created);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_question_bank_kinds()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Check the question_bank.view permission
+  IF NOT has_permission('question_bank.view') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.view permission required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'code', k.code,
+      'label', k.label,
+      'description', k.description,
+      'is_active', k.is_active,
+      'created_at', k.created_at,
+      'vacancies_count', (
+        SELECT COUNT(*)
+        FROM vacancies v
+        JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+        WHERE qb.kind = k.code
+      )
+    ) ORDER BY k.label
+  ), '[]'::jsonb) INTO v_result
+  FROM question_bank_kinds k;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_vacancies_admin(
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20,
+  p_type vacancy_type DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offset INTEGER := (p_page - 1) * p_page_size;
+  v_total  INTEGER;
+  v_items  JSON;
+BEGIN
+  -- Permisos
+  IF NOT has_permission('vacancy.view') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.view permission required';
+  END IF;
+
+  -- Total
+  SELECT COUNT(*)
+  INTO v_total
+  FROM vacancies v
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE (p_type IS NULL OR v.type = p_type)
+    AND (p_is_active IS NULL OR v.is_active = p_is_active);
+
+  -- Items: ordenar y paginar en subconsulta; luego agregamos
+  WITH filtered AS (
+    SELECT
+      v.id,
+      v.type,
+      v.position,
+      v.objetivos,
+      v.funciones,
+      v.escolaridad,
+      v.experiencia_minima,
+      v.conocimientos_tecnicos,
+      v.habilidades,
+      v.manager_id,
+      s.full_name AS manager_name,
+      v.is_active,
+      v.created_by,
+      v.created_at,
+      v.rh_question_bank_id,
+      qb.name AS rh_question_bank_name
+    FROM vacancies v
+    JOIN staff_users s ON v.manager_id = s.id
+    LEFT JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+    WHERE (p_type IS NULL OR v.type = p_type)
+      AND (p_is_active IS NULL OR v.is_active = p_is_active)
+    ORDER BY v.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  )
+  SELECT COALESCE(
+           JSON_AGG(JSON_BUILD_OBJECT(
+             'id', id,
+             'type', type,
+             'position', position,
+             'objetivos', objetivos,
+             'funciones', funciones,
+             'escolaridad', escolaridad,
+             'experiencia_minima', experiencia_minima,
+             'conocimientos_tecnicos', conocimientos_tecnicos,
+             'habilidades', habilidades,
+             'manager_id', manager_id,
+             'manager_name', manager_name,
+             'is_active', is_active,
+             'created_by', created_by,
+             'created_at', created_at,
+             'rh_question_bank_id', rh_question_bank_id,
+             'rh_question_bank_name', rh_question_bank_name
+           )),
+           '[]'::JSON
+         )
+  INTO v_items
+  FROM filtered;
+
+  RETURN JSON_BUILD_OBJECT(
+    'items', v_items,
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::FLOAT / p_page_size)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_question_bank_kind(
+  p_code text,
+  p_label text,
+  p_description text DEFAULT NULL,
+  p_is_active boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code text := upper(trim(p_code));
+  v_created boolean;
+BEGIN
+  -- Check the question_bank.manage permission
+  IF NOT has_permission('question_bank.manage') THEN
+    RAISE EXCEPTION 'Access denied: question_bank.manage permission required';
+  END IF;
+
+  IF v_code IS NULL OR v_code !~ '^[A-Z][A-Z0-9_]{1,62}$' THEN
+    RAISE EXCEPTION 'Invalid question bank kind: % (use uppercase letters, digits and underscores)', p_code;
+  END IF;
+
+  IF NULLIF(trim(p_label), '') IS NULL THEN
+    RAISE EXCEPTION 'Label is required';
+  END IF;
+
+  SELECT NOT EXISTS (SELECT 1 FROM question_bank_kinds WHERE code = v_code) INTO v_created;
+
+  INSERT INTO question_bank_kinds (code, label, description, is_active, created_by)
+  VALUES (v_code, trim(p_label), NULLIF(trim(p_description), ''), p_is_active, auth.uid())
+  ON CONFLICT (code) DO UPDATE SET
+    label = EXCLUDED.label,
+    description = EXCLUDED.description,
+    is_active = EXCLUDED.is_active;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    auth.uid(),
+    'QUESTION_BANK_KIND_SAVE',
+    format('%s question bank kind %s (%s)', CASE WHEN v_created THEN 'Created' ELSE 'Updated' END, v_code, trim(p_label))
+  );
+
+  RETURN jsonb_build_object('code', v_code, 'created', v_created);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_vacancy_question_bank(
+  p_vacancy_id uuid,
+  p_bank_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_position text;
+  v_bank_name text;
+BEGIN
+  -- Check the vacancy.update permission
+  IF NOT has_permission('vacancy.update') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.update permission required';
+  END IF;
+
+  SELECT position INTO v_position FROM vacancies WHERE id = p_vacancy_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  IF p_bank_id IS NOT NULL THEN
+    SELECT name INTO v_bank_name
+    FROM question_banks
+    WHERE id = p_bank_id AND stage = 'RH';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'RH question bank not found';
+    END IF;
+  END IF;
+
+  UPDATE vacancies
+  SET rh_question_bank_id = p_bank_id
+  WHERE id = p_vacancy_id
+  AND rh_question_bank_id IS DISTINCT FROM p_bank_id;
+
+  IF FOUND THEN
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      auth.uid(),
+      'VACANCY_QUESTION_BANK_SET',
+      format('%s: %s', v_position, COALESCE(v_bank_name, 'sin banco'))
+    );
+  END IF;
+
+  RETURN jsonb_build_object('vacancy_id', p_vacancy_id, 'rh_question_bank_id', p_bank_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_rh_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_id uuid;
+  v_bank_name text;
+  v_bank_version_id uuid;
+  v_questions jsonb;
+  v_existing_interview record;
+BEGIN
+  -- Check the interview.conduct permission
+  IF NOT has_permission('interview.conduct') THEN
+    RAISE EXCEPTION 'Only RH users can start interviews';
+  END IF;
+  
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+  
+  -- Validate status
+  IF v_status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConRH status to start interview';
+  END IF;
+  
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+  
+  IF FOUND THEN
+    -- Return existing interview data
+    v_questions := bank_version_questions(v_existing_interview.bank_version_id);
+    
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', v_questions,
+      'started_at', v_existing_interview.started_at,
+      'existing', true
+    );
+  END IF;
+  
+  -- Bank chosen for the vacancy
+  SELECT qb.id, qb.name INTO v_bank_id, v_bank_name
+  FROM vacancies v
+  JOIN question_banks qb ON qb.id = v.rh_question_bank_id
+  WHERE v.id = v_vacancy_id;
+  
+  IF v_bank_id IS NULL THEN
+    RAISE EXCEPTION 'The vacancy has no RH question bank assigned';
+  END IF;
+  
+  -- Get active bank version
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  WHERE qbv.bank_id = v_bank_id AND qbv.is_active = true;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active version found for question bank: %', v_bank_name;
+  END IF;
+  
+  -- Create interview record
+  INSERT INTO interview_rh (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+  
+  -- Get questions
+  v_questions := bank_version_questions(v_bank_version_id);
+  
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_RH_START',
+    format('Started with bank: %s', v_bank_name)
+  );
+  
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', v_questions,
+    'started_at', now(),
+    'existing', false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_staff_users(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_role role_type DEFAULT NULL,
+  p_active boolean DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result json;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.view') THEN
+    RAISE EXCEPTION 'Access denied: staff.view permission required';
+  END IF;
+  
+  -- Calcular offset
+  offset_val := (p_page - 1) * p_page_size;
+  
+  -- Contar total
+  SELECT COUNT(*) INTO total_count
+  FROM staff_users
+  WHERE (p_role IS NULL OR role = p_role)
+    AND (p_active IS NULL OR active = p_active);
+  
+  -- Obtener datos paginados
+  SELECT json_build_object(
+    'items', json_agg(
+      json_build_object(
+        'id', id,
+        'full_name', full_name,
+        'email', email,
+        'role', role,
+        'active', active,
+        'created_at', created_at,
+        'created_by', created_by,
+        'must_change_password', must_change_password,
+        'password_changed_at', password_changed_at
+      ) ORDER BY created_at DESC
+    ),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT *
+    FROM staff_users
+    WHERE (p_role IS NULL OR role = p_role)
+      AND (p_active IS NULL OR active = p_active)
+    ORDER BY created_at DESC
+    LIMIT p_page_size
+    OFFSET offset_val
+  ) s;
+  
+  RETURN result;
+END;
+$$;
+
+-- Function to list the staff who can be assigned to a vacancy panel
+CREATE OR REPLACE FUNCTION list_active_managers()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT (has_permission('vacancy.view') OR has_permission('application.manage')) THEN
+    RAISE EXCEPTION 'Access denied: vacancy.view permission required';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(json_agg(
+      json_build_object(
+        'id', s.id,
+        'full_name', s.full_name,
+        'email', s.email,
+        'role', s.role
+      ) ORDER BY s.full_name
+    ), '[]'::json)
+    FROM staff_users s
+    WHERE s.active = true
+    AND role_has_permission(s.role, 'manager.interview')
+  );
+END;
+$$;
+
+-- Direct writes would skip the capability checks of the RPCs (e.g. an RH user promoting themselves)
+DROP POLICY IF EXISTS "rh_full_access_staff" ON staff_users;
+DROP POLICY IF EXISTS "rh_full_access_vacancies" ON vacancies;
+DROP POLICY IF EXISTS "rh_full_access_vacancy_docs" ON vacancy_required_docs;
+DROP POLICY IF EXISTS "RH can manage all vacancy docs" ON vacancy_required_docs;
+DROP POLICY IF EXISTS "rh_full_access_applications" ON applications;
+DROP POLICY IF EXISTS "rh_manage_rh_interviews" ON interview_rh;
+DROP POLICY IF EXISTS "RH can manage RH interviews" ON interview_rh;
+DROP POLICY IF EXISTS "rh_manage_question_banks" ON question_banks;
+DROP POLICY IF EXISTS "RH can manage question banks" ON question_banks;
+DROP POLICY IF EXISTS "rh_manage_question_bank_versions" ON question_bank_versions;
+DROP POLICY IF EXISTS "RH can manage question bank versions" ON question_bank_versions;
+DROP POLICY IF EXISTS "rh_manage_questions" ON questions;
+DROP POLICY IF EXISTS "RH can manage questions" ON questions;
+DROP POLICY IF EXISTS "rh_manage_evaluation_scores_during_evaluation" ON evaluation_scores;
+DROP POLICY IF EXISTS "RH can manage evaluation scores during evaluation" ON evaluation_scores;
+DROP POLICY IF EXISTS "rh_manage_evaluation_summary_during_evaluation" ON evaluation_summary;
+DROP POLICY IF EXISTS "RH can manage evaluation summary during evaluation" ON evaluation_summary;
+
+-- Read access for the view capabilities
+CREATE POLICY "permission_read_vacancies" ON vacancies
+  FOR SELECT TO authenticated
+  USING (has_permission('vacancy.view'));
+
+CREATE POLICY "permission_read_vacancy_required_docs" ON vacancy_required_docs
+  FOR SELECT TO authenticated
+  USING (has_permission('vacancy.view'));
+
+CREATE POLICY "permission_read_candidates" ON candidates
+  FOR SELECT TO authenticated
+  USING (has_permission('application.view'));
+
+CREATE POLICY "permission_read_applications" ON applications
+  FOR SELECT TO authenticated
+  USING (has_permission('application.view'));
+
+CREATE POLICY "permission_read_application_docs" ON application_docs
+  FOR SELECT TO authenticated
+  USING (has_permission('application.view'));
+
+CREATE POLICY "permission_read_interview_rh" ON interview_rh
+  FOR SELECT TO authenticated
+  USING (has_permission('application.view'));
+
+CREATE POLICY "permission_read_interview_manager" ON interview_manager
+  FOR SELECT TO authenticated
+  USING (has_permission('application.view'));
+
+CREATE POLICY "permission_read_evaluation_scores" ON evaluation_scores
+  FOR SELECT TO authenticated
+  USING (has_permission('evaluation.view'));
+
+CREATE POLICY "permission_read_evaluation_summary" ON evaluation_summary
+  FOR SELECT TO authenticated
+  USING (has_permission('evaluation.view'));
+
+CREATE POLICY "permission_read_question_banks" ON question_banks
+  FOR SELECT TO authenticated
+  USING (has_permission('question_bank.view'));
+
+CREATE POLICY "permission_read_question_bank_versions" ON question_bank_versions
+  FOR SELECT TO authenticated
+  USING (has_permission('question_bank.view'));
+
+CREATE POLICY "permission_read_questions" ON questions
+  FOR SELECT TO authenticated
+  USING (has_permission('question_bank.view'));
+
+CREATE POLICY "permission_read_question_bank_kinds" ON question_bank_kinds
+  FOR SELECT TO authenticated
+  USING (has_permission('question_bank.view'));
+
+CREATE POLICY "permission_read_staff_users" ON staff_users
+  FOR SELECT TO authenticated
+  USING (has_permission('staff.view'));
+
+CREATE POLICY "permission_read_audit_log" ON audit_log
+  FOR SELECT TO authenticated
+  USING (has_permission('audit.view'));
+
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_role_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION list_active_managers() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_role_permission(text, text, boolean) TO authenticated;
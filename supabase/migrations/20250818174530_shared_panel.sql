@@ -0,0 +1,1878 @@
+/*
+  # Interview panels per vacancy
+
+  1. New Tables
+    - `vacancy_panel_members` - Staff assigned to a vacancy with a panel role:
+      PRIMARY (the vacancy manager), CO_INTERVIEWER or OBSERVER
+    - `interview_manager_scores` - One manager interview score per interviewer;
+      `interview_manager` now holds the panel result aggregated from these rows
+
+  2. Changes
+    - `vacancies.manager_id` stays as the primary manager and is mirrored into the panel
+    - Existing managers and manager scores are carried into the new tables
+
+  3. Functions
+    - `is_manager_of_vacancy` / `is_rh_or_manager_of_application` - Any panel member
+    - `is_interviewer_of_vacancy` / `is_interviewer_of_application` - Primary manager or co-interviewer
+    - `list_vacancy_panel` / `set_vacancy_panel` - Read and replace the panel of a vacancy
+    - `refresh_manager_interview_score` - Averages the panel scores and scorecard ratings into `interview_manager`
+    - `save_manager_result` / `save_manager_scorecard` - Store the caller's own score
+    - `start_manager_interview` / `save_manager_interview_draft` / `set_manager_schedule` - Open to co-interviewers
+    - `list_manager_applications` / `list_my_vacancies` - Every vacancy whose panel the user is on
+    - `get_manager_interview_context` - The caller's own score plus who on the panel has submitted
+    - `get_evaluation_context` - Individual panel scores next to the aggregate
+
+  4. Security
+    - Panel members read the applications, candidates, documents and interviews of their vacancies
+    - Writes to `interview_manager` only go through the functions; observers cannot score
+    - Each interviewer reads only their own score; evaluators read all of them
+
+  5. Auditing
+    - VACANCY_PANEL_UPDATE entries in audit_log; manager score entries record the panel role
+*/
+
+CREATE TABLE IF NOT EXISTS vacancy_panel_members (
+  vacancy_id uuid NOT NULL REFERENCES vacancies(id) ON DELETE CASCADE,
+  staff_id uuid NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('PRIMARY', 'CO_INTERVIEWER', 'OBSERVER')),
+  assigned_by uuid REFERENCES staff_users(id) ON DELETE SET NULL,
+  assigned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (vacancy_id, staff_id)
+);
+
+-- A vacancy has exactly one primary manager (vacancies.manager_id)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vacancy_panel_members_primary
+  ON vacancy_panel_members (vacancy_id) WHERE role = 'PRIMARY';
+
+CREATE INDEX IF NOT EXISTS idx_vacancy_panel_members_staff
+  ON vacancy_panel_members (staff_id);
+
+CREATE TABLE IF NOT EXISTS interview_manager_scores (
+  application_id uuid NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  staff_id uuid NOT NULL REFERENCES staff_users(id),
+  panel_role text,                                  -- role held when submitted; NULL when RH captured it
+  score integer NOT NULL CHECK (score >= 0 AND score <= 100),
+  notes text NOT NULL DEFAULT '',
+  ratings jsonb NOT NULL DEFAULT '[]'::jsonb,        -- same snapshot as interview_manager.ratings
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (application_id, staff_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_manager_scores_staff
+  ON interview_manager_scores (staff_id);
+
+ALTER TABLE vacancy_panel_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_manager_scores ENABLE ROW LEVEL SECURITY;
+
+-- Current managers become the primary member of their vacancy panel
+INSERT INTO vacancy_panel_members (vacancy_id, staff_id, role, assigned_by, assigned_at)
+SELECT v.id, v.manager_id, 'PRIMARY', v.created_by, v.created_at
+FROM vacancies v
+WHERE v.manager_id IS NOT NULL
+ON CONFLICT (vacancy_id, staff_id) DO NOTHING;
+
+-- Scores saved so far were the primary manager's
+INSERT INTO interview_manager_scores (application_id, staff_id, panel_role, score, notes, ratings, submitted_at)
+SELECT im.application_id, v.manager_id, 'PRIMARY', im.score, COALESCE(im.notes, ''), im.ratings, im.created_at
+FROM interview_manager im
+JOIN applications a ON a.id = im.application_id
+JOIN vacancies v ON v.id = a.vacancy_id
+ON CONFLICT (application_id, staff_id) DO NOTHING;
+
+-- Keeps the PRIMARY panel member in step with vacancies.manager_id
+CREATE OR REPLACE FUNCTION sync_vacancy_primary_manager()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM vacancy_panel_members
+  WHERE vacancy_id = NEW.id
+    AND role = 'PRIMARY'
+    AND staff_id <> NEW.manager_id;
+
+  INSERT INTO vacancy_panel_members (vacancy_id, staff_id, role, assigned_by)
+  VALUES (NEW.id, NEW.manager_id, 'PRIMARY', auth.uid())
+  ON CONFLICT (vacancy_id, staff_id)
+  DO UPDATE SET
+    role = 'PRIMARY',
+    assigned_by = EXCLUDED.assigned_by,
+    assigned_at = now()
+  WHERE vacancy_panel_members.role <> 'PRIMARY';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_vacancy_primary_manager_trigger ON vacancies;
+CREATE TRIGGER sync_vacancy_primary_manager_trigger
+  AFTER INSERT OR UPDATE OF manager_id ON vacancies
+  FOR EACH ROW EXECUTE FUNCTION sync_vacancy_primary_manager();
+
+
+-- Helper function to check if user is on the interview panel of a vacancy (any panel role)
+CREATE OR REPLACE FUNCTION is_manager_of_vacancy(vacancy_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT has_permission('manager.interview')
+    AND EXISTS (
+      SELECT 1 FROM vacancy_panel_members vp
+      WHERE vp.vacancy_id = is_manager_of_vacancy.vacancy_id
+      AND vp.staff_id = auth.uid()
+    );
+$$;
+
+-- Helper function to check if user interviews for a vacancy (primary manager or co-interviewer; observers excluded)
+CREATE OR REPLACE FUNCTION is_interviewer_of_vacancy(vacancy_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT has_permission('manager.interview')
+    AND EXISTS (
+      SELECT 1 FROM vacancy_panel_members vp
+      WHERE vp.vacancy_id = is_interviewer_of_vacancy.vacancy_id
+      AND vp.staff_id = auth.uid()
+      AND vp.role IN ('PRIMARY', 'CO_INTERVIEWER')
+    );
+$$;
+
+-- Helper function to check access to application (RH or any panel member of its vacancy)
+CREATE OR REPLACE FUNCTION is_rh_or_manager_of_application(application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT is_rh_user()
+    OR EXISTS (
+      SELECT 1 FROM applications a
+      JOIN vacancy_panel_members vp ON vp.vacancy_id = a.vacancy_id
+      WHERE a.id = is_rh_or_manager_of_application.application_id
+      AND vp.staff_id = auth.uid()
+      AND staff_has_permission(auth.uid(), 'manager.interview')
+    );
+$$;
+
+-- Helper function to check if user interviews for the vacancy of an application
+CREATE OR REPLACE FUNCTION is_interviewer_of_application(application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.id = is_interviewer_of_application.application_id
+    AND is_interviewer_of_vacancy(a.vacancy_id)
+  );
+$$;
+
+-- Sort order of panel roles in listings (RH captures without a panel role go last)
+CREATE OR REPLACE FUNCTION panel_role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'PRIMARY' THEN 1
+    WHEN 'CO_INTERVIEWER' THEN 2
+    WHEN 'OBSERVER' THEN 3
+    ELSE 4
+  END;
+$$;
+
+-- Function to list the interview panel of a vacancy
+CREATE OR REPLACE FUNCTION list_vacancy_panel(p_vacancy_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+BEGIN
+  IF NOT (has_permission('vacancy.view') OR is_manager_of_vacancy(p_vacancy_id)) THEN
+    RAISE EXCEPTION 'Access denied: vacancy.view permission required';
+  END IF;
+
+  SELECT COALESCE(json_agg(
+    json_build_object(
+      'staff_id', vp.staff_id,
+      'full_name', s.full_name,
+      'email', s.email,
+      'active', s.active,
+      'role', vp.role,
+      'assigned_at', vp.assigned_at
+    ) ORDER BY panel_role_rank(vp.role), s.full_name
+  ), '[]'::json) INTO v_result
+  FROM vacancy_panel_members vp
+  JOIN staff_users s ON s.id = vp.staff_id
+  WHERE vp.vacancy_id = p_vacancy_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to replace the interview panel of a vacancy; the PRIMARY member becomes vacancies.manager_id
+CREATE OR REPLACE FUNCTION set_vacancy_panel(
+  p_vacancy_id uuid,
+  p_members jsonb
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy vacancies%ROWTYPE;
+  v_member jsonb;
+  v_staff staff_users%ROWTYPE;
+  v_primary_id uuid;
+  v_staff_ids uuid[] := ARRAY[]::uuid[];
+  v_before text;
+  v_after text;
+BEGIN
+  -- Check the vacancy.update permission
+  IF NOT has_permission('vacancy.update') THEN
+    RAISE EXCEPTION 'Access denied: vacancy.update permission required';
+  END IF;
+
+  SELECT * INTO v_vacancy FROM vacancies WHERE id = p_vacancy_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vacancy not found';
+  END IF;
+
+  IF jsonb_typeof(p_members) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Panel members must be an array';
+  END IF;
+
+  FOR v_member IN SELECT * FROM jsonb_array_elements(p_members)
+  LOOP
+    IF COALESCE(v_member->>'role', '') NOT IN ('PRIMARY', 'CO_INTERVIEWER', 'OBSERVER') THEN
+      RAISE EXCEPTION 'Invalid panel role: %', v_member->>'role';
+    END IF;
+
+    SELECT * INTO v_staff FROM staff_users WHERE id = (v_member->>'staff_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Staff user not found: %', v_member->>'staff_id';
+    END IF;
+
+    IF v_staff.id = ANY(v_staff_ids) THEN
+      RAISE EXCEPTION '% is listed more than once', v_staff.full_name;
+    END IF;
+
+    IF NOT v_staff.active THEN
+      RAISE EXCEPTION '% is inactive and cannot join the panel', v_staff.full_name;
+    END IF;
+
+    IF NOT staff_has_permission(v_staff.id, 'manager.interview') THEN
+      RAISE EXCEPTION '% does not hold the manager.interview permission', v_staff.full_name;
+    END IF;
+
+    IF v_member->>'role' = 'PRIMARY' THEN
+      IF v_primary_id IS NOT NULL THEN
+        RAISE EXCEPTION 'A vacancy has exactly one primary manager';
+      END IF;
+      v_primary_id := v_staff.id;
+    END IF;
+
+    v_staff_ids := v_staff_ids || v_staff.id;
+  END LOOP;
+
+  IF v_primary_id IS NULL THEN
+    RAISE EXCEPTION 'A vacancy has exactly one primary manager';
+  END IF;
+
+  SELECT string_agg(s.full_name || ' (' || vp.role || ')', ', ' ORDER BY panel_role_rank(vp.role), s.full_name)
+  INTO v_before
+  FROM vacancy_panel_members vp
+  JOIN staff_users s ON s.id = vp.staff_id
+  WHERE vp.vacancy_id = p_vacancy_id;
+
+  -- The primary change goes through vacancies.manager_id; the trigger moves the PRIMARY row
+  IF v_vacancy.manager_id IS DISTINCT FROM v_primary_id THEN
+    UPDATE vacancies SET manager_id = v_primary_id WHERE id = p_vacancy_id;
+  END IF;
+
+  DELETE FROM vacancy_panel_members
+  WHERE vacancy_id = p_vacancy_id
+    AND staff_id <> ALL(v_staff_ids);
+
+  INSERT INTO vacancy_panel_members (vacancy_id, staff_id, role, assigned_by)
+  SELECT p_vacancy_id, (m->>'staff_id')::uuid, m->>'role', auth.uid()
+  FROM jsonb_array_elements(p_members) m
+  WHERE m->>'role' <> 'PRIMARY'
+  ON CONFLICT (vacancy_id, staff_id)
+  DO UPDATE SET
+    role = EXCLUDED.role,
+    assigned_by = EXCLUDED.assigned_by,
+    assigned_at = now()
+  WHERE vacancy_panel_members.role IS DISTINCT FROM EXCLUDED.role;
+
+  SELECT string_agg(s.full_name || ' (' || vp.role || ')', ', ' ORDER BY panel_role_rank(vp.role), s.full_name)
+  INTO v_after
+  FROM vacancy_panel_members vp
+  JOIN staff_users s ON s.id = vp.staff_id
+  WHERE vp.vacancy_id = p_vacancy_id;
+
+  IF v_before IS DISTINCT FROM v_after THEN
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      auth.uid(),
+      'VACANCY_PANEL_UPDATE',
+      format('%s: %s -> %s', v_vacancy.position, COALESCE(v_before, '-'), v_after)
+    );
+  END IF;
+
+  RETURN list_vacancy_panel(p_vacancy_id);
+END;
+$$;
+
+-- Averages the individual panel scores into interview_manager. Scorecard ratings are averaged per
+-- competency; with more than one interviewer, comments and notes are prefixed with who wrote them.
+CREATE OR REPLACE FUNCTION refresh_manager_interview_score(p_application_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+  v_score integer;
+  v_notes text;
+  v_ratings jsonb;
+BEGIN
+  SELECT count(*), round(avg(score))
+  INTO v_count, v_score
+  FROM interview_manager_scores
+  WHERE application_id = p_application_id;
+
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT string_agg(
+    CASE WHEN v_count > 1 THEN s.full_name || ': ' ELSE '' END || trim(ims.notes),
+    E'\n\n' ORDER BY panel_role_rank(ims.panel_role), s.full_name
+  ) INTO v_notes
+  FROM interview_manager_scores ims
+  JOIN staff_users s ON s.id = ims.staff_id
+  WHERE ims.application_id = p_application_id
+    AND trim(ims.notes) <> '';
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'competency_id', competency_id,
+      'name', name,
+      'weight', weight,
+      'rating', rating,
+      'comment', comment
+    ) ORDER BY ord
+  ) INTO v_ratings
+  FROM (
+    SELECT
+      r.rating->>'competency_id' AS competency_id,
+      min(r.rating->>'name') AS name,
+      min((r.rating->>'weight')::integer) AS weight,
+      round(avg((r.rating->>'rating')::numeric), 1) AS rating,
+      string_agg(
+        CASE WHEN v_count > 1 THEN s.full_name || ': ' ELSE '' END || (r.rating->>'comment'),
+        E'\n' ORDER BY panel_role_rank(ims.panel_role), s.full_name
+      ) AS comment,
+      min(r.ord) AS ord
+    FROM interview_manager_scores ims
+    JOIN staff_users s ON s.id = ims.staff_id
+    CROSS JOIN LATERAL jsonb_array_elements(ims.ratings) WITH ORDINALITY AS r(rating, ord)
+    WHERE ims.application_id = p_application_id
+    GROUP BY r.rating->>'competency_id'
+  ) competencies;
+
+  INSERT INTO interview_manager (application_id, score, notes, ratings, created_at)
+  VALUES (p_application_id, v_score, COALESCE(v_notes, ''), COALESCE(v_ratings, '[]'::jsonb), now())
+  ON CONFLICT (application_id)
+  DO UPDATE SET
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    created_at = now();
+
+  RETURN v_score;
+END;
+$$;
+
+
+-- Function to save a manager interview score (now one score per panel interviewer)
+CREATE OR REPLACE FUNCTION save_manager_result(
+  p_application_id uuid,
+  p_score integer,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_panel_role text;
+  v_panel_score integer;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_score IS NULL OR p_score < 0 OR p_score > 100 THEN
+    RAISE EXCEPTION 'Score must be between 0 and 100';
+  END IF;
+
+  -- Check if user interviews for the vacancy; observers cannot score
+  SELECT v.manager_id, v.type, vp.role INTO v_manager_id, v_vacancy_type, v_panel_role
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN vacancy_panel_members vp ON vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_panel_role = 'OBSERVER' THEN
+    RAISE EXCEPTION 'Observers cannot submit interview scores';
+  END IF;
+
+  IF NOT (has_permission('application.manage') OR is_interviewer_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied: not an interviewer of this vacancy';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This vacancy type uses a scorecard; save it with save_manager_scorecard';
+  END IF;
+
+  -- Insert or update this interviewer's score, then refresh the panel result
+  INSERT INTO interview_manager_scores (application_id, staff_id, panel_role, score, notes, ratings, submitted_at)
+  VALUES (p_application_id, v_current_user_id, v_panel_role, p_score, COALESCE(p_notes, ''), '[]'::jsonb, now())
+  ON CONFLICT (application_id, staff_id)
+  DO UPDATE SET
+    panel_role = EXCLUDED.panel_role,
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    submitted_at = now();
+
+  v_panel_score := refresh_manager_interview_score(p_application_id);
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORE_SAVE',
+    json_build_object(
+      'score', p_score,
+      'panel_role', v_panel_role,
+      'panel_score', v_panel_score,
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true, 'panel_score', v_panel_score);
+END;
+$$;
+
+-- Function to save a manager scorecard (now one scorecard per panel interviewer)
+CREATE OR REPLACE FUNCTION save_manager_scorecard(
+  p_application_id uuid,
+  p_ratings jsonb,
+  p_notes text DEFAULT ''
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_vacancy_type vacancy_type;
+  v_current_user_id uuid := auth.uid();
+  v_missing text;
+  v_snapshot jsonb;
+  v_score integer;
+  v_panel_role text;
+  v_panel_score integer;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user interviews for the vacancy; observers cannot score
+  SELECT v.manager_id, v.type, vp.role INTO v_manager_id, v_vacancy_type, v_panel_role
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN vacancy_panel_members vp ON vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_panel_role = 'OBSERVER' THEN
+    RAISE EXCEPTION 'Observers cannot submit interview scores';
+  END IF;
+
+  IF NOT (has_permission('application.manage') OR is_interviewer_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied: not an interviewer of this vacancy';
+  END IF;
+
+  IF jsonb_typeof(p_ratings) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Ratings must be an array';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM manager_scorecard_competencies
+    WHERE vacancy_type = v_vacancy_type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'No scorecard configured for vacancy type %', v_vacancy_type;
+  END IF;
+
+  -- Every active competency needs a 1-5 rating and a comment
+  SELECT string_agg(c.name, ', ' ORDER BY c.ord) INTO v_missing
+  FROM manager_scorecard_competencies c
+  LEFT JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active
+    AND (
+      r.rating IS NULL
+      OR COALESCE(r.rating->>'rating', '') !~ '^[1-5]$'
+      OR COALESCE(trim(r.rating->>'comment'), '') = ''
+    );
+
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Rating (1-5) and comment required for: %', v_missing;
+  END IF;
+
+  -- Rating 1 counts as 0 and rating 5 as 100, weighted by competency
+  SELECT
+    jsonb_agg(
+      jsonb_build_object(
+        'competency_id', c.id,
+        'name', c.name,
+        'weight', c.weight,
+        'rating', (r.rating->>'rating')::integer,
+        'comment', trim(r.rating->>'comment')
+      ) ORDER BY c.ord
+    ),
+    round(sum(c.weight * ((r.rating->>'rating')::integer - 1)) * 25.0 / sum(c.weight))
+  INTO v_snapshot, v_score
+  FROM manager_scorecard_competencies c
+  JOIN LATERAL (
+    SELECT x FROM jsonb_array_elements(p_ratings) x
+    WHERE x->>'competency_id' = c.id::text
+    LIMIT 1
+  ) r(rating) ON true
+  WHERE c.vacancy_type = v_vacancy_type
+    AND c.is_active;
+
+  -- Insert or update this interviewer's score, then refresh the panel result
+  INSERT INTO interview_manager_scores (application_id, staff_id, panel_role, score, notes, ratings, submitted_at)
+  VALUES (p_application_id, v_current_user_id, v_panel_role, v_score, COALESCE(p_notes, ''), v_snapshot, now())
+  ON CONFLICT (application_id, staff_id)
+  DO UPDATE SET
+    panel_role = EXCLUDED.panel_role,
+    score = EXCLUDED.score,
+    notes = EXCLUDED.notes,
+    ratings = EXCLUDED.ratings,
+    submitted_at = now();
+
+  v_panel_score := refresh_manager_interview_score(p_application_id);
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    'MANAGER_SCORECARD_SAVE',
+    json_build_object(
+      'score', v_score,
+      'panel_role', v_panel_role,
+      'panel_score', v_panel_score,
+      'ratings', jsonb_array_length(v_snapshot),
+      'notes_length', length(COALESCE(p_notes, ''))
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object('ok', true, 'score', v_score, 'panel_score', v_panel_score);
+END;
+$$;
+
+-- Function to start the guided manager interview (primary manager or co-interviewer)
+CREATE OR REPLACE FUNCTION start_manager_interview(p_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vacancy_id uuid;
+  v_status application_status;
+  v_bank_kind text;
+  v_bank_version_id uuid;
+  v_existing_interview record;
+BEGIN
+  -- Check if user is RH or interviews for the vacancy (observers only read)
+  IF NOT (is_rh_user() OR is_interviewer_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned interviewer role required.';
+  END IF;
+
+  -- Get application details
+  SELECT vacancy_id, status INTO v_vacancy_id, v_status
+  FROM applications
+  WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if interview already exists
+  SELECT * INTO v_existing_interview
+  FROM interview_manager_answers
+  WHERE application_id = p_application_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'bank_version_id', v_existing_interview.bank_version_id,
+      'questions', bank_version_questions(v_existing_interview.bank_version_id),
+      'answers', v_existing_interview.answers,
+      'extra_questions', v_existing_interview.extra_questions,
+      'started_at', v_existing_interview.started_at,
+      'updated_at', v_existing_interview.updated_at,
+      'existing', true
+    );
+  END IF;
+
+  -- Validate status
+  IF v_status != 'EntrevistaConManager' THEN
+    RAISE EXCEPTION 'Application must be in EntrevistaConManager status to start interview';
+  END IF;
+
+  -- The manager bank shares the kind of the vacancy's RH bank
+  v_bank_kind := resolve_question_bank_kind(v_vacancy_id);
+
+  SELECT qbv.id INTO v_bank_version_id
+  FROM question_bank_versions qbv
+  JOIN question_banks qb ON qb.id = qbv.bank_id
+  WHERE qb.kind = v_bank_kind AND qb.stage = 'MANAGER' AND qbv.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active manager question bank found for kind: %', v_bank_kind;
+  END IF;
+
+  INSERT INTO interview_manager_answers (application_id, bank_version_id, started_at)
+  VALUES (p_application_id, v_bank_version_id, now());
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_MANAGER_START',
+    format('Started with bank kind: %s', v_bank_kind)
+  );
+
+  RETURN jsonb_build_object(
+    'bank_version_id', v_bank_version_id,
+    'questions', bank_version_questions(v_bank_version_id),
+    'answers', '[]'::jsonb,
+    'extra_questions', '[]'::jsonb,
+    'started_at', now(),
+    'updated_at', NULL,
+    'existing', false
+  );
+END;
+$$;
+
+-- Function to save the guided manager interview draft (primary manager or co-interviewer)
+CREATE OR REPLACE FUNCTION save_manager_interview_draft(
+  p_application_id uuid,
+  p_answers jsonb,
+  p_extra_questions jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Check if user is RH or interviews for the vacancy (observers only read)
+  IF NOT (is_rh_user() OR is_interviewer_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned interviewer role required.';
+  END IF;
+
+  UPDATE interview_manager_answers
+  SET
+    answers = p_answers,
+    extra_questions = p_extra_questions,
+    updated_at = now()
+  WHERE application_id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Interview not found or not started';
+  END IF;
+
+  -- Log the action
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_MANAGER_SAVE_DRAFT',
+    'Draft saved'
+  );
+
+  RETURN jsonb_build_object('ok', true, 'saved_at', now());
+END;
+$$;
+
+-- Function to set the manager interview schedule (any interviewer of the panel)
+CREATE OR REPLACE FUNCTION set_manager_schedule(
+  p_application_id uuid,
+  p_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_manager_id uuid;
+  v_current_user_id uuid := auth.uid();
+  v_current_status application_status;
+  v_rh_finished_at timestamptz;
+  v_was_scheduled boolean := false;
+  v_booking jsonb;
+  v_result jsonb;
+  v_action text;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Validate inputs
+  IF p_slot_id IS NULL AND (p_at IS NULL OR p_location IS NULL OR trim(p_location) = '') THEN
+    RAISE EXCEPTION 'Date/time and location are required';
+  END IF;
+
+  -- The primary manager's calendar is booked; any interviewer of the panel may schedule
+  SELECT v.manager_id, a.status, a.scheduled_manager_at IS NOT NULL
+  INTO v_manager_id, v_current_status, v_was_scheduled
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF NOT (has_permission('interview.schedule') OR is_interviewer_of_application(p_application_id)) THEN
+    RAISE EXCEPTION 'Access denied: not an interviewer of this vacancy';
+  END IF;
+
+  IF v_current_status NOT IN ('RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager') THEN
+    RAISE EXCEPTION 'Cannot schedule manager interview for status: %', v_current_status;
+  END IF;
+
+  -- Check if RH interview is finished
+  SELECT finished_at INTO v_rh_finished_at
+  FROM interview_rh
+  WHERE application_id = p_application_id;
+
+  -- Finished RH interview: scheduling moves the application to the manager stage
+  IF v_rh_finished_at IS NOT NULL AND v_current_status = 'EntrevistaConRH' THEN
+    v_result := transition_to_manager_interview(p_application_id, p_at, p_location, p_slot_id);
+
+    RETURN json_build_object(
+      'ok', true,
+      'status_may_change_to', 'EntrevistaConManager',
+      'scheduled_at', v_result->'scheduled_at',
+      'location', v_result->'location',
+      'slot_id', v_result->'slot_id',
+      'outside_availability', v_result->'outside_availability'
+    );
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Update the schedule
+  UPDATE applications
+  SET
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location'
+  WHERE id = p_application_id;
+
+  -- Determine action for audit
+  v_action := CASE
+    WHEN v_was_scheduled THEN 'MANAGER_SCHEDULE_UPDATE'
+    ELSE 'MANAGER_SCHEDULE_SET'
+  END;
+
+  -- Audit log
+  INSERT INTO audit_log (
+    actor_staff_id,
+    application_id,
+    action,
+    note,
+    created_at
+  ) VALUES (
+    v_current_user_id,
+    p_application_id,
+    v_action,
+    json_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id',
+      'status_changed', false
+    )::text,
+    now()
+  );
+
+  RETURN json_build_object(
+    'ok', true,
+    'status_may_change_to', NULL,
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+END;
+$$;
+
+-- Function to get manager interview context (the caller's own score plus the panel's submission status)
+CREATE OR REPLACE FUNCTION get_manager_interview_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_manager_id uuid;
+  v_vacancy_id uuid;
+  v_current_user_id uuid := auth.uid();
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check if user is on the vacancy panel
+  SELECT v.manager_id, v.id INTO v_manager_id, v_vacancy_id
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE a.id = p_application_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if current user is RH or a panel member
+  IF NOT (has_permission('application.view') OR is_manager_of_vacancy(v_vacancy_id)) THEN
+    RAISE EXCEPTION 'Access denied: not on the vacancy panel';
+  END IF;
+
+  -- Build the response
+  SELECT json_build_object(
+    'application', json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'schedules', json_build_object(
+        'rh', CASE 
+          WHEN a.scheduled_rh_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_rh_at,
+              'location', a.scheduled_rh_location
+            )
+          ELSE NULL
+        END,
+        'manager', CASE 
+          WHEN a.scheduled_manager_at IS NOT NULL THEN
+            json_build_object(
+              'at', a.scheduled_manager_at,
+              'location', a.scheduled_manager_location
+            )
+          ELSE NULL
+        END
+      )
+    ),
+    'interview_rh', CASE 
+      WHEN ir.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ir.bank_version_id,
+          'started_at', ir.started_at,
+          'finished_at', ir.finished_at,
+          'questions', (
+            SELECT json_agg(
+              json_build_object(
+                'id', q.id,
+                'ord', q.ord,
+                'text', q.text,
+                'is_required', q.is_required
+              ) ORDER BY q.ord
+            )
+            FROM questions q
+            WHERE q.bank_version_id = ir.bank_version_id
+          ),
+          'answers', ir.answers,
+          'extra_questions', ir.extra_questions
+        )
+      ELSE NULL
+    END,
+    'interview_manager', CASE
+      WHEN ims.application_id IS NOT NULL THEN
+        json_build_object(
+          'score', ims.score,
+          'notes', ims.notes,
+          'ratings', ims.ratings,
+          'created_at', ims.submitted_at,
+          'exists', true
+        )
+      ELSE
+        json_build_object('exists', false)
+    END,
+    'has_panel_result', im.application_id IS NOT NULL,
+    'panel_role', vp.role,
+    'panel', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'staff_id', pm.staff_id,
+          'full_name', s.full_name,
+          'role', pm.role,
+          'submitted', EXISTS (
+            SELECT 1 FROM interview_manager_scores x
+            WHERE x.application_id = a.id AND x.staff_id = pm.staff_id
+          )
+        ) ORDER BY panel_role_rank(pm.role), s.full_name
+      ), '[]'::json)
+      FROM vacancy_panel_members pm
+      JOIN staff_users s ON s.id = pm.staff_id
+      WHERE pm.vacancy_id = v.id
+    ),
+    'guided_interview', CASE
+      WHEN ima.application_id IS NOT NULL THEN
+        json_build_object(
+          'bank_version_id', ima.bank_version_id,
+          'started_at', ima.started_at,
+          'updated_at', ima.updated_at,
+          'questions', bank_version_questions(ima.bank_version_id),
+          'answers', ima.answers,
+          'extra_questions', ima.extra_questions
+        )
+      ELSE NULL
+    END,
+    'has_question_bank', EXISTS (
+      SELECT 1
+      FROM question_banks qb
+      JOIN question_bank_versions qbv ON qbv.bank_id = qb.id
+      WHERE qb.kind = resolve_question_bank_kind(v.id)
+      AND qb.stage = 'MANAGER'
+      AND qbv.is_active
+    ),
+    'scorecard', (
+      SELECT COALESCE(json_agg(
+        json_build_object(
+          'id', sc.id,
+          'name', sc.name,
+          'description', sc.description,
+          'weight', sc.weight,
+          'anchors', sc.anchors,
+          'ord', sc.ord
+        ) ORDER BY sc.ord
+      ), '[]'::json)
+      FROM manager_scorecard_competencies sc
+      WHERE sc.vacancy_type = v.type
+      AND sc.is_active
+    )
+  ) INTO v_result
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id
+  LEFT JOIN interview_manager_scores ims ON a.id = ims.application_id AND ims.staff_id = v_current_user_id
+  LEFT JOIN vacancy_panel_members vp ON vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id
+  LEFT JOIN interview_manager_answers ima ON a.id = ima.application_id
+  WHERE a.id = p_application_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to get evaluation context (now with the individual panel scores)
+CREATE OR REPLACE FUNCTION get_evaluation_context(p_application_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+  v_application json;
+  v_interview_rh json;
+  v_interview_manager json;
+  v_panel_scores json;
+  v_guided_interview json;
+  v_evaluation json;
+  v_criteria json;
+  v_scores json;
+  v_carried json;
+BEGIN
+  -- Check the evaluation.view permission
+  IF NOT has_permission('evaluation.view') THEN
+    RAISE EXCEPTION 'Only RH users can view evaluation context';
+  END IF;
+
+  -- Get application data
+  SELECT json_build_object(
+    'id', a.id,
+    'folio', a.folio,
+    'status', a.status,
+    'candidate', json_build_object(
+      'full_name', c.full_name,
+      'email', c.email,
+      'phone', c.phone
+    ),
+    'vacancy', json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type
+    ),
+    'created_at', a.created_at,
+    'pool_note', a.pool_note,
+    'rerouted_from_folio', src.folio
+  ) INTO v_application
+  FROM applications a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN applications src ON src.id = a.rerouted_from_application_id
+  WHERE a.id = p_application_id;
+
+  IF v_application IS NULL THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Get RH interview data
+  SELECT json_build_object(
+    'bank_version_id', ir.bank_version_id,
+    'started_at', ir.started_at,
+    'finished_at', ir.finished_at,
+    'score_total', ir.score_total,
+    'score_max', ir.score_max,
+    'answers', ir.answers,
+    'extra_questions', ir.extra_questions
+  ) INTO v_interview_rh
+  FROM interview_rh ir
+  WHERE ir.application_id = p_application_id;
+
+  -- Get manager interview data
+  SELECT json_build_object(
+    'score', im.score,
+    'notes', im.notes,
+    'ratings', im.ratings,
+    'created_at', im.created_at,
+    'exists', true
+  ) INTO v_interview_manager
+  FROM interview_manager im
+  WHERE im.application_id = p_application_id;
+
+  IF v_interview_manager IS NULL THEN
+    v_interview_manager := json_build_object('exists', false);
+  END IF;
+
+  -- Get the individual scores behind the panel result
+  SELECT json_agg(
+    json_build_object(
+      'staff_id', ims.staff_id,
+      'full_name', s.full_name,
+      'panel_role', ims.panel_role,
+      'score', ims.score,
+      'notes', ims.notes,
+      'ratings', ims.ratings,
+      'submitted_at', ims.submitted_at
+    ) ORDER BY panel_role_rank(ims.panel_role), s.full_name
+  ) INTO v_panel_scores
+  FROM interview_manager_scores ims
+  JOIN staff_users s ON s.id = ims.staff_id
+  WHERE ims.application_id = p_application_id;
+
+  -- Get guided manager interview answers
+  SELECT json_build_object(
+    'bank_version_id', ima.bank_version_id,
+    'started_at', ima.started_at,
+    'updated_at', ima.updated_at,
+    'questions', bank_version_questions(ima.bank_version_id),
+    'answers', ima.answers,
+    'extra_questions', ima.extra_questions
+  ) INTO v_guided_interview
+  FROM interview_manager_answers ima
+  WHERE ima.application_id = p_application_id;
+
+  -- Get evaluation criteria
+  SELECT json_agg(
+    json_build_object(
+      'id', ec.id,
+      'name', ec.name,
+      'grp', ec.grp,
+      'ord', ec.ord
+    ) ORDER BY ec.grp, ec.ord
+  ) INTO v_criteria
+  FROM evaluation_criteria ec;
+
+  -- Get current scores
+  SELECT json_agg(
+    json_build_object(
+      'criterion_id', es.criterion_id,
+      'score', es.score
+    )
+  ) INTO v_scores
+  FROM evaluation_scores es
+  WHERE es.application_id = p_application_id;
+
+  -- Get evaluation summary
+  SELECT json_build_object(
+    'total', es.total,
+    'factors_for', es.factors_for,
+    'factors_against', es.factors_against,
+    'conclusion', es.conclusion,
+    'references_laborales', es.references_laborales,
+    'created_at', es.created_at,
+    'exists', true
+  ) INTO v_evaluation
+  FROM evaluation_summary es
+  WHERE es.application_id = p_application_id;
+
+  IF v_evaluation IS NULL THEN
+    v_evaluation := json_build_object('exists', false);
+  END IF;
+
+  -- Get evaluation history carried over from the talent pool
+  SELECT json_agg(
+    json_build_object(
+      'source_folio', ce.source_folio,
+      'source_position', ce.source_position,
+      'source_status', ce.source_status,
+      'interview_rh', ce.interview_rh,
+      'interview_manager', ce.interview_manager,
+      'scores', ce.scores,
+      'summary', ce.summary,
+      'evaluation_total', ce.evaluation_total,
+      'carried_at', ce.carried_at
+    ) ORDER BY ce.carried_at DESC
+  ) INTO v_carried
+  FROM carried_evaluations ce
+  WHERE ce.application_id = p_application_id;
+
+  v_result := json_build_object(
+    'application', v_application,
+    'interview_rh', v_interview_rh,
+    'interview_manager', v_interview_manager,
+    'panel_scores', COALESCE(v_panel_scores, '[]'::json),
+    'guided_interview', v_guided_interview,
+    'evaluation', v_evaluation,
+    'criteria', v_criteria,
+    'scores', COALESCE(v_scores, '[]'::json),
+    'carried_evaluations', COALESCE(v_carried, '[]'::json),
+    'can_start', can_start_evaluation(p_application_id)
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to list applications of the vacancies whose panel the user is on
+CREATE OR REPLACE FUNCTION list_manager_applications(
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 20,
+  p_status text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_current_user_id uuid := auth.uid();
+  v_offset integer;
+  v_total integer;
+  v_items json;
+BEGIN
+  -- Get current user ID
+  IF v_current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Check the manager.interview permission
+  IF NOT has_permission('manager.interview') THEN
+    RAISE EXCEPTION 'Access denied: manager.interview permission required';
+  END IF;
+
+  -- Calculate offset
+  v_offset := (p_page - 1) * p_page_size;
+
+  -- Get total count
+  SELECT COUNT(*) INTO v_total
+  FROM applications a
+  JOIN vacancies v ON a.vacancy_id = v.id
+  WHERE EXISTS (
+    SELECT 1 FROM vacancy_panel_members vp
+    WHERE vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id
+  )
+  AND (p_status IS NULL OR a.status::text = p_status);
+
+  -- Get items
+  SELECT json_agg(
+    json_build_object(
+      'id', a.id,
+      'folio', a.folio,
+      'status', a.status,
+      'candidate', json_build_object(
+        'full_name', c.full_name,
+        'email', c.email,
+        'phone', c.phone
+      ),
+      'vacancy', json_build_object(
+        'id', v.id,
+        'position', v.position,
+        'type', v.type
+      ),
+      'scheduled_rh_at', a.scheduled_rh_at,
+      'scheduled_rh_location', a.scheduled_rh_location,
+      'scheduled_manager_at', a.scheduled_manager_at,
+      'scheduled_manager_location', a.scheduled_manager_location,
+      'created_at', a.created_at,
+      'has_rh_interview', ir.application_id IS NOT NULL,
+      'rh_interview_finished', ir.finished_at IS NOT NULL,
+      'has_manager_interview', im.application_id IS NOT NULL,
+      'panel_role', vp.role,
+      'my_score_submitted', ims.application_id IS NOT NULL
+    )
+  ) INTO v_items
+  FROM (
+    SELECT a.*
+    FROM applications a
+    JOIN vacancies v ON a.vacancy_id = v.id
+    WHERE EXISTS (
+      SELECT 1 FROM vacancy_panel_members vp
+      WHERE vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id
+    )
+    AND (p_status IS NULL OR a.status::text = p_status)
+    ORDER BY a.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  ) a
+  JOIN candidates c ON a.candidate_id = c.id
+  JOIN vacancies v ON a.vacancy_id = v.id
+  LEFT JOIN interview_rh ir ON a.id = ir.application_id
+  LEFT JOIN interview_manager im ON a.id = im.application_id
+  LEFT JOIN interview_manager_scores ims ON a.id = ims.application_id AND ims.staff_id = v_current_user_id
+  LEFT JOIN vacancy_panel_members vp ON vp.vacancy_id = v.id AND vp.staff_id = v_current_user_id;
+
+  RETURN json_build_object(
+    'items', COALESCE(v_items, '[]'::json),
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::float / p_page_size)
+  );
+END;
+$$;
+
+-- Function to list the vacancies whose panel the user is on
+CREATE OR REPLACE FUNCTION list_my_vacancies(
+  p_page INTEGER DEFAULT 1,
+  p_page_size INTEGER DEFAULT 20,
+  p_type vacancy_type DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offset  INTEGER := (p_page - 1) * p_page_size;
+  v_total   INTEGER;
+  v_items   JSON;
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF NOT has_permission('manager.interview') THEN
+    RAISE EXCEPTION 'Access denied: manager.interview permission required';
+  END IF;
+
+  -- Total
+  SELECT COUNT(*)
+  INTO v_total
+  FROM vacancies v
+  JOIN staff_users s ON v.manager_id = s.id
+  WHERE EXISTS (
+    SELECT 1 FROM vacancy_panel_members vp
+    WHERE vp.vacancy_id = v.id AND vp.staff_id = v_user_id
+  )
+    AND (p_type IS NULL OR v.type = p_type)
+    AND (p_is_active IS NULL OR v.is_active = p_is_active);
+
+  -- Items: ordenar y paginar en subconsulta; luego agregamos
+  WITH filtered AS (
+    SELECT
+      v.id,
+      v.type,
+      v.position,
+      v.objetivos,
+      v.funciones,
+      v.escolaridad,
+      v.experiencia_minima,
+      v.conocimientos_tecnicos,
+      v.habilidades,
+      v.manager_id,
+      s.full_name AS manager_name,
+      (
+        SELECT vp.role FROM vacancy_panel_members vp
+        WHERE vp.vacancy_id = v.id AND vp.staff_id = v_user_id
+      ) AS panel_role,
+      v.is_active,
+      v.created_by,
+      v.created_at
+    FROM vacancies v
+    JOIN staff_users s ON v.manager_id = s.id
+    WHERE EXISTS (
+      SELECT 1 FROM vacancy_panel_members vp
+      WHERE vp.vacancy_id = v.id AND vp.staff_id = v_user_id
+    )
+      AND (p_type IS NULL OR v.type = p_type)
+      AND (p_is_active IS NULL OR v.is_active = p_is_active)
+    ORDER BY v.created_at DESC
+    LIMIT p_page_size OFFSET v_offset
+  )
+  SELECT COALESCE(
+           JSON_AGG(JSON_BUILD_OBJECT(
+             'id', id,
+             'type', type,
+             'position', position,
+             'objetivos', objetivos,
+             'funciones', funciones,
+             'escolaridad', escolaridad,
+             'experiencia_minima', experiencia_minima,
+             'conocimientos_tecnicos', conocimientos_tecnicos,
+             'habilidades', habilidades,
+             'manager_id', manager_id,
+             'manager_name', manager_name,
+             'panel_role', panel_role,
+             'is_active', is_active,
+             'created_by', created_by,
+             'created_at', created_at
+           )),
+           '[]'::JSON
+         )
+  INTO v_items
+  FROM filtered;
+
+  RETURN JSON_BUILD_OBJECT(
+    'items', v_items,
+    'total', v_total,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(v_total::FLOAT / p_page_size)
+  );
+END;
+$$;
+
+-- Function to move an application to the manager interview (interviewers of the panel)
+CREATE OR REPLACE FUNCTION transition_to_manager_interview(
+  p_application_id uuid,
+  p_scheduled_at timestamptz,
+  p_location text,
+  p_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_booking jsonb;
+  result jsonb;
+BEGIN
+  -- Check if user has access (RH, Manager of the vacancy or the service role booking on behalf of the candidate)
+  IF NOT (has_permission('interview.schedule') OR is_interviewer_of_application(p_application_id) OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Validate current status
+  IF app_record.status != 'EntrevistaConRH' THEN
+    RAISE EXCEPTION 'Invalid transition. Current status: %', app_record.status;
+  END IF;
+
+  -- Validate RH interview is finished
+  IF NOT EXISTS (
+    SELECT 1 FROM interview_rh
+    WHERE application_id = p_application_id
+    AND finished_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'RH interview must be completed first';
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  IF v_manager_id IS NULL THEN
+    RAISE EXCEPTION 'Vacancy has no manager assigned';
+  END IF;
+
+  v_booking := book_interview_slot(
+    p_application_id,
+    'MANAGER',
+    v_manager_id,
+    p_scheduled_at,
+    p_location,
+    p_slot_id
+  );
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'EntrevistaConManager',
+    scheduled_manager_at = (v_booking->>'starts_at')::timestamptz,
+    scheduled_manager_location = v_booking->>'location',
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    'EntrevistaConRH',
+    'EntrevistaConManager',
+    'Manager interview scheduled for ' || (v_booking->>'starts_at') || ' at ' || (v_booking->>'location')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'MANAGER_SCHEDULE_SET',
+    jsonb_build_object(
+      'scheduled_at', v_booking->'starts_at',
+      'location', v_booking->'location',
+      'slot_id', v_booking->'slot_id',
+      'interviewer_id', v_booking->'staff_id'
+    )::text
+  );
+
+  result := jsonb_build_object(
+    'ok', true,
+    'status', 'EntrevistaConManager',
+    'scheduled_at', v_booking->'starts_at',
+    'location', v_booking->'location',
+    'slot_id', v_booking->'slot_id',
+    'outside_availability', v_booking->'outside_availability'
+  );
+
+  RETURN result;
+END;
+$$;
+
+-- Function to reject an application (observers of the panel cannot reject)
+CREATE OR REPLACE FUNCTION reject_application(
+  p_application_id uuid,
+  p_reason_code text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  reason_record rejection_reasons%ROWTYPE;
+  v_is_rh boolean;
+  v_actor_role text;
+BEGIN
+  -- Get application
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  -- Check if user is RH or the manager of the vacancy
+  v_is_rh := has_permission('application.manage');
+
+  IF NOT v_is_rh AND NOT is_interviewer_of_vacancy(app_record.vacancy_id) THEN
+    RAISE EXCEPTION 'Access denied. RH role or vacancy manager required.';
+  END IF;
+
+  v_actor_role := CASE WHEN v_is_rh THEN 'RH' ELSE 'MANAGER' END;
+
+  -- Validate current status
+  IF app_record.status IN ('Aceptado', 'Rechazado') THEN
+    RAISE EXCEPTION 'Application already finalized with status: %', app_record.status;
+  END IF;
+
+  IF app_record.status IN ('Evaluando', 'BolsaDeTalento') AND NOT v_is_rh THEN
+    RAISE EXCEPTION 'Only RH can reject applications with status: %', app_record.status;
+  END IF;
+
+  -- Validate reason
+  SELECT * INTO reason_record FROM rejection_reasons WHERE code = p_reason_code;
+
+  IF NOT FOUND OR NOT reason_record.is_active THEN
+    RAISE EXCEPTION 'A valid rejection reason is required';
+  END IF;
+
+  IF p_reason_code = 'OTRO' AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for reason OTRO';
+  END IF;
+
+  -- Perform transition
+  UPDATE applications
+  SET
+    status = 'Rechazado',
+    rejection_reason_code = p_reason_code,
+    rejection_note = NULLIF(trim(p_note), ''),
+    in_transition = true
+  WHERE id = p_application_id;
+
+  -- Log audit
+  INSERT INTO audit_log (actor_staff_id, application_id, action, from_status, to_status, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'STATUS_CHANGE',
+    app_record.status,
+    'Rechazado',
+    p_reason_code,
+    'Candidate rejected: ' || reason_record.label ||
+      COALESCE(' - ' || NULLIF(trim(p_note), ''), '')
+  );
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, reason_code, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'APPLICATION_EARLY_REJECT',
+    p_reason_code,
+    format('Rejected by %s from status: %s', v_actor_role, app_record.status)
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'status', 'Rechazado',
+    'from_status', app_record.status,
+    'reason_code', p_reason_code
+  );
+END;
+$$;
+
+-- Function to invite the candidate to book a slot (interviewers of the panel for the manager stage)
+CREATE OR REPLACE FUNCTION open_self_booking(
+  p_application_id uuid,
+  p_kind text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  app_record applications%ROWTYPE;
+  v_manager_id uuid;
+  v_available integer;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  -- RH invites to any interview, the vacancy manager only to the manager interview
+  IF NOT (has_permission('interview.schedule') OR (p_kind = 'MANAGER' AND is_interviewer_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO app_record FROM applications WHERE id = p_application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF p_kind = 'RH' THEN
+    UPDATE applications SET rh_self_booking_opened_at = now() WHERE id = p_application_id;
+  ELSE
+    UPDATE applications SET manager_self_booking_opened_at = now() WHERE id = p_application_id;
+  END IF;
+
+  IF self_booking_kind(p_application_id) IS DISTINCT FROM p_kind THEN
+    RAISE EXCEPTION 'Self-booking of the % interview is not available for status: %', p_kind, app_record.status;
+  END IF;
+
+  SELECT manager_id INTO v_manager_id FROM vacancies WHERE id = app_record.vacancy_id;
+
+  SELECT COUNT(*) INTO v_available
+  FROM interview_slots s
+  WHERE s.kind = p_kind
+    AND s.origin = 'PUBLISHED'
+    AND s.application_id IS NULL
+    AND s.starts_at >= now() + make_interval(hours => (self_booking_policy()->>'min_notice_hours')::int)
+    AND (p_kind = 'RH' OR s.staff_id = v_manager_id);
+
+  PERFORM enqueue_notification(p_application_id, 'SELF_BOOKING_INVITE');
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'SELF_BOOKING_OPENED',
+    jsonb_build_object('kind', p_kind, 'available_slots', v_available)::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'kind', p_kind,
+    'available_slots', v_available
+  );
+END;
+$$;
+
+-- Function to record an interview outcome (interviewers of the panel for the manager stage)
+CREATE OR REPLACE FUNCTION set_interview_outcome(
+  p_application_id uuid,
+  p_kind text,
+  p_outcome text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_appointment interview_appointments%ROWTYPE;
+BEGIN
+  IF p_kind NOT IN ('RH', 'MANAGER') THEN
+    RAISE EXCEPTION 'Invalid interview kind: %', p_kind;
+  END IF;
+
+  IF p_outcome NOT IN ('ATTENDED', 'NO_SHOW') THEN
+    RAISE EXCEPTION 'Invalid outcome: %', p_outcome;
+  END IF;
+
+  -- RH records any interview, the vacancy manager only the manager interview
+  IF NOT (has_permission('interview.schedule') OR (p_kind = 'MANAGER' AND is_interviewer_of_application(p_application_id))) THEN
+    RAISE EXCEPTION 'Access denied. RH or assigned Manager role required.';
+  END IF;
+
+  SELECT * INTO v_appointment
+  FROM interview_appointments
+  WHERE application_id = p_application_id
+    AND kind = p_kind
+    AND outcome IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending % appointment for this application', p_kind;
+  END IF;
+
+  IF p_outcome = 'NO_SHOW' AND v_appointment.scheduled_at > now() THEN
+    RAISE EXCEPTION 'The appointment has not happened yet';
+  END IF;
+
+  UPDATE interview_appointments
+  SET outcome = p_outcome, outcome_at = now(), outcome_by = auth.uid()
+  WHERE id = v_appointment.id;
+
+  INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+  VALUES (
+    auth.uid(),
+    p_application_id,
+    'INTERVIEW_OUTCOME',
+    jsonb_build_object(
+      'kind', p_kind,
+      'appointment_id', v_appointment.id,
+      'scheduled_at', v_appointment.scheduled_at,
+      'outcome', p_outcome
+    )::text
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'appointment_id', v_appointment.id,
+    'outcome', p_outcome
+  );
+END;
+$$;
+
+-- Function to delete a staff user (interview scores also count as references)
+CREATE OR REPLACE FUNCTION delete_staff_user(p_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_record staff_users%ROWTYPE;
+  ref_count int;
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+  
+  -- Obtener registro
+  SELECT * INTO user_record FROM staff_users WHERE id = p_id;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_id;
+  END IF;
+  
+  -- Verificar referencias
+  SELECT COUNT(*) INTO ref_count FROM (
+    SELECT 1 FROM vacancies WHERE manager_id = p_id OR created_by = p_id
+    UNION ALL
+    SELECT 1 FROM interview_manager_scores WHERE staff_id = p_id
+    UNION ALL
+    SELECT 1 FROM staff_users WHERE created_by = p_id
+    UNION ALL
+    SELECT 1 FROM audit_log WHERE actor_staff_id = p_id
+  ) refs;
+  
+  IF ref_count > 0 THEN
+    RAISE EXCEPTION 'Cannot delete user: % references exist. Please reassign or deactivate instead.', ref_count;
+  END IF;
+  
+  -- Eliminar usuario
+  DELETE FROM staff_users WHERE id = p_id;
+
+  PERFORM ensure_permission_admin_exists();
+  
+  -- Registrar acción
+  PERFORM log_staff_action(
+    'USER_DELETE',
+    format('Deleted user: %s (%s)', user_record.full_name, user_record.email)
+  );
+  
+  RETURN json_build_object('ok', true, 'message', 'User deleted successfully');
+END;
+$$;
+
+-- RLS Policies for vacancy_panel_members
+CREATE POLICY "permission_read_vacancy_panel_members" ON vacancy_panel_members
+  FOR SELECT TO authenticated
+  USING (has_permission('vacancy.view'));
+
+CREATE POLICY "staff_read_own_panel_assignments" ON vacancy_panel_members
+  FOR SELECT TO authenticated
+  USING (staff_id = auth.uid());
+
+-- RLS Policies for interview_manager_scores
+CREATE POLICY "permission_read_interview_manager_scores" ON interview_manager_scores
+  FOR SELECT TO authenticated
+  USING (has_permission('evaluation.view'));
+
+CREATE POLICY "interviewer_read_own_scores" ON interview_manager_scores
+  FOR SELECT TO authenticated
+  USING (staff_id = auth.uid());
+
+-- RLS Policies for interview_manager: the panel reads the aggregate, writes go through the functions
+DROP POLICY IF EXISTS "Managers can manage interviews for their vacancies" ON interview_manager;
+DROP POLICY IF EXISTS "manager_own_interviews" ON interview_manager;
+
+CREATE POLICY "panel_read_manager_interviews" ON interview_manager
+  FOR SELECT TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+-- Policies that matched vacancies.manager_id now cover the whole panel
+DROP POLICY IF EXISTS "manager_assigned_vacancies" ON vacancies;
+CREATE POLICY "manager_assigned_vacancies" ON vacancies
+  FOR SELECT TO authenticated
+  USING (is_manager_of_vacancy(id));
+
+DROP POLICY IF EXISTS "manager_read_candidates_via_applications" ON candidates;
+CREATE POLICY "manager_read_candidates_via_applications" ON candidates
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM applications a
+    WHERE a.candidate_id = candidates.id
+    AND is_manager_of_vacancy(a.vacancy_id)
+  ));
+
+DROP POLICY IF EXISTS "manager_own_vacancy_applications" ON applications;
+CREATE POLICY "manager_own_vacancy_applications" ON applications
+  FOR SELECT TO authenticated
+  USING (is_manager_of_vacancy(vacancy_id));
+
+DROP POLICY IF EXISTS "manager_update_schedules" ON applications;
+CREATE POLICY "manager_update_schedules" ON applications
+  FOR UPDATE TO authenticated
+  USING (is_interviewer_of_vacancy(vacancy_id))
+  WITH CHECK (is_interviewer_of_vacancy(vacancy_id));
+
+DROP POLICY IF EXISTS "manager_read_own_application_docs" ON application_docs;
+CREATE POLICY "manager_read_own_application_docs" ON application_docs
+  FOR SELECT TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+DROP POLICY IF EXISTS "manager_read_rh_interviews" ON interview_rh;
+CREATE POLICY "manager_read_rh_interviews" ON interview_rh
+  FOR SELECT TO authenticated
+  USING (is_rh_or_manager_of_application(application_id));
+
+-- Internal helpers; callers reach them through the functions above
+REVOKE EXECUTE ON FUNCTION refresh_manager_interview_score(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_vacancy_primary_manager() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION is_interviewer_of_vacancy(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_interviewer_of_application(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION panel_role_rank(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_vacancy_panel(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_vacancy_panel(uuid, jsonb) TO authenticated;
@@ -0,0 +1,355 @@
+/*
+  # Staff offboarding
+
+  1. Functions
+    - `get_staff_offboarding_summary` - Vacancy panels, upcoming interviews and free calendar slots
+      of a staff member, plus the active staff who can take all of them over. Past interviews without
+      an outcome are listed apart: they stay with their interviewer so the outcome can be recorded
+    - `offboard_staff_user` - Hands every panel seat, upcoming interview and booked slot over to
+      another staff member, releases the remaining free slots and deactivates the user
+
+  2. Security
+    - Both functions require staff.manage; nobody can offboard themselves
+    - Users whose role holds permission.manage can only be offboarded by users holding it
+    - The new owner needs manager.interview for vacancy panels and manager interviews,
+      and interview.conduct for RH interviews
+
+  3. Auditing
+    - VACANCY_REASSIGN per panel seat, INTERVIEW_REASSIGN per appointment (linked to its
+      application) and a STAFF_OFFBOARD summary entry
+*/
+
+-- Function to list what a departing staff member still holds
+CREATE OR REPLACE FUNCTION get_staff_offboarding_summary(p_staff_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_vacancies json;
+  v_interviews json;
+  v_unresolved json;
+  v_needs_manager boolean;
+  v_needs_rh boolean;
+  v_targets json;
+BEGIN
+  -- Check the staff.manage permission
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_staff_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_staff_id;
+  END IF;
+
+  IF role_has_permission(v_staff.role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to offboard %', v_staff.full_name;
+  END IF;
+
+  SELECT json_agg(
+    json_build_object(
+      'id', v.id,
+      'position', v.position,
+      'type', v.type,
+      'is_active', v.is_active,
+      'panel_role', vp.role,
+      'open_applications', (
+        SELECT count(*) FROM applications a
+        WHERE a.vacancy_id = v.id
+        AND a.status IN ('RevisionDeDocumentos', 'EntrevistaConRH', 'EntrevistaConManager', 'Evaluando')
+      )
+    ) ORDER BY v.is_active DESC, v.position
+  ) INTO v_vacancies
+  FROM vacancy_panel_members vp
+  JOIN vacancies v ON v.id = vp.vacancy_id
+  WHERE vp.staff_id = p_staff_id;
+
+  SELECT json_agg(
+    json_build_object(
+      'appointment_id', ia.id,
+      'application_id', a.id,
+      'folio', a.folio,
+      'candidate_name', c.full_name,
+      'position', v.position,
+      'kind', ia.kind,
+      'scheduled_at', ia.scheduled_at,
+      'location', ia.location
+    ) ORDER BY ia.scheduled_at
+  ) INTO v_interviews
+  FROM interview_appointments ia
+  JOIN applications a ON a.id = ia.application_id
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE ia.interviewer_id = p_staff_id
+  AND ia.outcome IS NULL
+  AND ia.scheduled_at > now();
+
+  -- Already held but never closed: they are not handed over
+  SELECT json_agg(
+    json_build_object(
+      'appointment_id', ia.id,
+      'application_id', a.id,
+      'folio', a.folio,
+      'candidate_name', c.full_name,
+      'position', v.position,
+      'kind', ia.kind,
+      'scheduled_at', ia.scheduled_at,
+      'location', ia.location
+    ) ORDER BY ia.scheduled_at
+  ) INTO v_unresolved
+  FROM interview_appointments ia
+  JOIN applications a ON a.id = ia.application_id
+  JOIN candidates c ON c.id = a.candidate_id
+  JOIN vacancies v ON v.id = a.vacancy_id
+  WHERE ia.interviewer_id = p_staff_id
+  AND ia.outcome IS NULL
+  AND ia.scheduled_at <= now();
+
+  v_needs_manager := EXISTS (SELECT 1 FROM vacancy_panel_members WHERE staff_id = p_staff_id)
+    OR EXISTS (
+      SELECT 1 FROM interview_appointments
+      WHERE interviewer_id = p_staff_id AND outcome IS NULL AND scheduled_at > now() AND kind = 'MANAGER'
+    );
+  v_needs_rh := EXISTS (
+    SELECT 1 FROM interview_appointments
+    WHERE interviewer_id = p_staff_id AND outcome IS NULL AND scheduled_at > now() AND kind = 'RH'
+  );
+
+  SELECT json_agg(
+    json_build_object(
+      'id', s.id,
+      'full_name', s.full_name,
+      'email', s.email,
+      'role', s.role
+    ) ORDER BY s.full_name
+  ) INTO v_targets
+  FROM staff_users s
+  WHERE s.active
+  AND s.id <> p_staff_id
+  AND (NOT v_needs_manager OR staff_has_permission(s.id, 'manager.interview'))
+  AND (NOT v_needs_rh OR staff_has_permission(s.id, 'interview.conduct'));
+
+  RETURN json_build_object(
+    'staff', json_build_object(
+      'id', v_staff.id,
+      'full_name', v_staff.full_name,
+      'email', v_staff.email,
+      'role', v_staff.role,
+      'active', v_staff.active
+    ),
+    'vacancies', COALESCE(v_vacancies, '[]'::json),
+    'interviews', COALESCE(v_interviews, '[]'::json),
+    'unresolved_interviews', COALESCE(v_unresolved, '[]'::json),
+    'free_slots', (
+      SELECT count(*) FROM interview_slots
+      WHERE staff_id = p_staff_id AND application_id IS NULL AND starts_at > now()
+    ),
+    'targets', COALESCE(v_targets, '[]'::json)
+  );
+END;
+$$;
+
+-- Function to hand a departing staff member's work over to p_target_id and deactivate them
+CREATE OR REPLACE FUNCTION offboard_staff_user(
+  p_staff_id uuid,
+  p_target_id uuid,
+  p_deactivate boolean DEFAULT true
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_target staff_users%ROWTYPE;
+  v_seat record;
+  v_appointment record;
+  v_slot interview_slots%ROWTYPE;
+  v_vacancies integer := 0;
+  v_interviews integer := 0;
+  v_slots_moved integer := 0;
+  v_slots_released integer := 0;
+  v_unresolved integer;
+BEGIN
+  -- Check the staff.manage permission
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+
+  IF p_staff_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot offboard yourself';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_staff_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_staff_id;
+  END IF;
+
+  -- Same rule as editing the account: admins are only offboarded by admins
+  IF role_has_permission(v_staff.role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to offboard %', v_staff.full_name;
+  END IF;
+
+  SELECT * INTO v_target FROM staff_users WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_target_id;
+  END IF;
+
+  IF v_target.id = v_staff.id THEN
+    RAISE EXCEPTION 'Choose a different staff member to take over';
+  END IF;
+
+  IF NOT v_target.active THEN
+    RAISE EXCEPTION '% is inactive and cannot take over', v_target.full_name;
+  END IF;
+
+  IF (
+    EXISTS (SELECT 1 FROM vacancy_panel_members WHERE staff_id = p_staff_id)
+    OR EXISTS (
+      SELECT 1 FROM interview_appointments
+      WHERE interviewer_id = p_staff_id AND outcome IS NULL AND scheduled_at > now() AND kind = 'MANAGER'
+    )
+  ) AND NOT staff_has_permission(p_target_id, 'manager.interview') THEN
+    RAISE EXCEPTION '% does not hold the manager.interview permission', v_target.full_name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM interview_appointments
+    WHERE interviewer_id = p_staff_id AND outcome IS NULL AND scheduled_at > now() AND kind = 'RH'
+  ) AND NOT staff_has_permission(p_target_id, 'interview.conduct') THEN
+    RAISE EXCEPTION '% does not hold the interview.conduct permission', v_target.full_name;
+  END IF;
+
+  -- Vacancy panels: the primary seat moves through vacancies.manager_id, other seats directly
+  FOR v_seat IN
+    SELECT vp.vacancy_id, vp.role, v.position, target.role AS target_role
+    FROM vacancy_panel_members vp
+    JOIN vacancies v ON v.id = vp.vacancy_id
+    LEFT JOIN vacancy_panel_members target ON target.vacancy_id = vp.vacancy_id AND target.staff_id = p_target_id
+    WHERE vp.staff_id = p_staff_id
+    ORDER BY v.position
+  LOOP
+    IF v_seat.role = 'PRIMARY' THEN
+      UPDATE vacancies SET manager_id = p_target_id WHERE id = v_seat.vacancy_id;
+    ELSIF v_seat.target_role IS NULL THEN
+      UPDATE vacancy_panel_members
+      SET staff_id = p_target_id, assigned_by = auth.uid(), assigned_at = now()
+      WHERE vacancy_id = v_seat.vacancy_id AND staff_id = p_staff_id;
+    ELSE
+      -- The new owner already sits on this panel and keeps their seat
+      DELETE FROM vacancy_panel_members
+      WHERE vacancy_id = v_seat.vacancy_id AND staff_id = p_staff_id;
+    END IF;
+
+    v_vacancies := v_vacancies + 1;
+
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      auth.uid(),
+      'VACANCY_REASSIGN',
+      format('%s: %s -> %s (%s)', v_seat.position, v_staff.full_name, v_target.full_name, v_seat.role)
+    );
+  END LOOP;
+
+  -- Booked slots move to the new owner's calendar; a free slot of theirs at the same time gives way
+  FOR v_slot IN
+    SELECT * FROM interview_slots
+    WHERE staff_id = p_staff_id
+    AND application_id IS NOT NULL
+    AND starts_at > now()
+    ORDER BY starts_at
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM interview_slots
+      WHERE staff_id = p_target_id
+      AND application_id IS NOT NULL
+      AND starts_at < v_slot.ends_at
+      AND ends_at > v_slot.starts_at
+    ) THEN
+      RAISE EXCEPTION '% already has an interview at %', v_target.full_name, v_slot.starts_at;
+    END IF;
+
+    DELETE FROM interview_slots
+    WHERE staff_id = p_target_id
+    AND application_id IS NULL
+    AND starts_at < v_slot.ends_at
+    AND ends_at > v_slot.starts_at;
+
+    UPDATE interview_slots SET staff_id = p_target_id WHERE id = v_slot.id;
+    v_slots_moved := v_slots_moved + 1;
+  END LOOP;
+
+  -- Upcoming appointments; past ones without an outcome stay with the interviewer who held them
+  FOR v_appointment IN
+    SELECT ia.id, ia.application_id, ia.kind, ia.scheduled_at
+    FROM interview_appointments ia
+    WHERE ia.interviewer_id = p_staff_id
+    AND ia.outcome IS NULL
+    AND ia.scheduled_at > now()
+    ORDER BY ia.scheduled_at
+  LOOP
+    UPDATE interview_appointments SET interviewer_id = p_target_id WHERE id = v_appointment.id;
+    v_interviews := v_interviews + 1;
+
+    INSERT INTO audit_log (actor_staff_id, application_id, action, note)
+    VALUES (
+      auth.uid(),
+      v_appointment.application_id,
+      'INTERVIEW_REASSIGN',
+      json_build_object(
+        'appointment_id', v_appointment.id,
+        'kind', v_appointment.kind,
+        'scheduled_at', v_appointment.scheduled_at,
+        'from', v_staff.full_name,
+        'to', v_target.full_name
+      )::text
+    );
+  END LOOP;
+
+  -- Free slots cannot be booked with someone who is leaving
+  DELETE FROM interview_slots
+  WHERE staff_id = p_staff_id
+  AND application_id IS NULL
+  AND starts_at > now();
+  GET DIAGNOSTICS v_slots_released = ROW_COUNT;
+
+  SELECT count(*) INTO v_unresolved
+  FROM interview_appointments
+  WHERE interviewer_id = p_staff_id AND outcome IS NULL AND scheduled_at <= now();
+
+  IF p_deactivate AND v_staff.active THEN
+    UPDATE staff_users SET active = false WHERE id = p_staff_id;
+    PERFORM ensure_permission_admin_exists();
+  END IF;
+
+  PERFORM log_staff_action(
+    'STAFF_OFFBOARD',
+    format(
+      'Offboarded %s to %s: %s vacancies, %s interviews, %s booked slots moved, %s free slots released, %s past interviews without outcome kept%s',
+      v_staff.full_name,
+      v_target.full_name,
+      v_vacancies,
+      v_interviews,
+      v_slots_moved,
+      v_slots_released,
+      v_unresolved,
+      CASE WHEN p_deactivate AND v_staff.active THEN ', user deactivated' ELSE '' END
+    )
+  );
+
+  RETURN json_build_object(
+    'ok', true,
+    'vacancies_reassigned', v_vacancies,
+    'interviews_reassigned', v_interviews,
+    'slots_moved', v_slots_moved,
+    'slots_released', v_slots_released,
+    'unresolved_interviews', v_unresolved,
+    'deactivated', p_deactivate AND v_staff.active
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_staff_offboarding_summary(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION offboard_staff_user(uuid, uuid, boolean) TO authenticated;
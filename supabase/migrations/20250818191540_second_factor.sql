@@ -0,0 +1,586 @@
+/*
+  # Staff session security: MFA, lockout and session listing
+
+  1. New Tables
+    - `staff_login_attempts` - Every password and TOTP attempt (email, result, IP, user agent)
+
+  2. Changes
+    - `staff_users.locked_until` - Set after 5 failed attempts of the same factor within 15 minutes, counted
+      since that factor last succeeded; the lock lasts 15 minutes, during which both hooks refuse the user.
+      Live sessions are left alone, so failed attempts by someone else cannot sign the user out.
+      Failures before the last lock ended are not counted again.
+
+  3. Functions
+    - `role_requires_mfa` - RH roles (RH_ADMIN, RH, RH_RECRUITER) must sign in with a TOTP code
+    - `current_session_id` / `staff_session_is_valid` - The session of the request still exists and
+      reached aal2 when the role requires MFA
+    - `has_permission` - Also requires a valid session: revoked sessions and RH sessions without
+      the second factor lose every permission right away
+    - `record_staff_login_attempt` - Records an attempt and locks the user after repeated failures
+    - `hook_password_verification_attempt` / `hook_mfa_verification_attempt` - GoTrue auth hooks: every
+      password and TOTP check is recorded whichever client sent it, and locked users are refused
+    - `get_staff_login_lock` / `record_staff_login_origin` - Used by the staff-login function to report
+      the lock and to add the IP and user agent to the attempt (service role only)
+    - `list_my_sessions` / `revoke_my_session` - "My sessions" with remote sign-out
+    - `unlock_staff_user` / `reset_staff_mfa` - Admin actions for locked users and lost authenticators
+    - `get_user_profile` - Returns mfa_required; no longer logs a LOGIN entry on every page load
+    - `list_staff_users` - Returns locked_until and mfa_enabled
+
+  4. Security
+    - No RLS policies on the new table; it is only written through the functions above
+    - The two hooks must be enabled in the Auth settings (Hooks, Postgres function); only
+      supabase_auth_admin can call them
+    - Only users holding permission.manage can unlock or reset the second factor of a role that holds it
+    - Unknown emails are audited but never locked or reported differently
+
+  5. Auditing
+    - LOGIN_SUCCESS and LOGIN_FAILURE (password and TOTP), STAFF_LOCKOUT, STAFF_UNLOCK,
+      STAFF_MFA_RESET and SESSION_REVOKE entries in audit_log
+*/
+
+ALTER TABLE staff_users
+  ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS staff_login_attempts (
+  id bigserial PRIMARY KEY,
+  staff_id uuid REFERENCES staff_users(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  email text NOT NULL,
+  factor text NOT NULL CHECK (factor IN ('PASSWORD', 'TOTP')),
+  success boolean NOT NULL,
+  ip text,
+  user_agent text,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_login_attempts_staff
+  ON staff_login_attempts (staff_id, created_at);
+
+ALTER TABLE staff_login_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Roles that must use a second factor
+CREATE OR REPLACE FUNCTION role_requires_mfa(p_role role_type)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_role IN ('RH_ADMIN', 'RH', 'RH_RECRUITER');
+$$;
+
+-- Session of the current request (NULL for service role calls)
+CREATE OR REPLACE FUNCTION current_session_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(auth.jwt()->>'session_id', '')::uuid;
+$$;
+
+-- Function to check that the session of the request was not revoked and has the factors the role needs
+CREATE OR REPLACE FUNCTION staff_session_is_valid()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.sessions s
+    JOIN staff_users u ON u.id = s.user_id
+    WHERE s.id = current_session_id()
+    AND s.user_id = auth.uid()
+    AND (NOT role_requires_mfa(u.role) OR COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT staff_has_permission(auth.uid(), p_permission) AND staff_session_is_valid();
+$$;
+
+-- Function to tell the staff-login function whether an email is locked out
+CREATE OR REPLACE FUNCTION get_staff_login_lock(p_email text)
+RETURNS timestamptz
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT locked_until
+  FROM staff_users
+  WHERE lower(email) = lower(trim(p_email))
+  AND locked_until > now();
+$$;
+
+-- Function to record a sign-in attempt and lock the user after repeated failures
+CREATE OR REPLACE FUNCTION record_staff_login_attempt(
+  p_email text,
+  p_success boolean,
+  p_factor text DEFAULT 'PASSWORD',
+  p_ip text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_failures integer;
+  v_locked_until timestamptz;
+BEGIN
+  SELECT * INTO v_staff FROM staff_users WHERE lower(email) = lower(trim(p_email));
+
+  INSERT INTO staff_login_attempts (staff_id, email, factor, success, ip, user_agent, reason)
+  VALUES (v_staff.id, lower(trim(p_email)), p_factor, p_success, p_ip, p_user_agent, p_reason);
+
+  IF p_success THEN
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      v_staff.id,
+      'LOGIN_SUCCESS',
+      format('%s from %s (%s)', p_factor, COALESCE(p_ip, 'unknown IP'), COALESCE(p_user_agent, 'unknown agent'))
+    );
+
+    RETURN jsonb_build_object('ok', true);
+  END IF;
+
+  INSERT INTO audit_log (actor_staff_id, action, note)
+  VALUES (
+    v_staff.id,
+    'LOGIN_FAILURE',
+    format(
+      '%s for %s from %s (%s): %s',
+      p_factor,
+      lower(trim(p_email)),
+      COALESCE(p_ip, 'unknown IP'),
+      COALESCE(p_user_agent, 'unknown agent'),
+      COALESCE(p_reason, 'invalid credentials')
+    )
+  );
+
+  IF v_staff.id IS NULL THEN
+    RETURN jsonb_build_object('ok', false);
+  END IF;
+
+  IF v_staff.locked_until > now() THEN
+    RETURN jsonb_build_object('ok', false, 'locked_until', v_staff.locked_until);
+  END IF;
+
+  -- Failures of this factor in the last 15 minutes, since it last succeeded and since the previous lock
+  -- ended; a correct password does not give more guesses at the code
+  SELECT count(*) INTO v_failures
+  FROM staff_login_attempts
+  WHERE staff_id = v_staff.id
+    AND factor = p_factor
+    AND NOT success
+    AND created_at > now() - interval '15 minutes'
+    AND created_at > COALESCE(v_staff.locked_until, '-infinity')
+    AND created_at > COALESCE(
+      (
+        SELECT max(created_at) FROM staff_login_attempts
+        WHERE staff_id = v_staff.id AND factor = p_factor AND success
+      ),
+      '-infinity'
+    );
+
+  IF v_failures >= 5 THEN
+    v_locked_until := now() + interval '15 minutes';
+
+    UPDATE staff_users SET locked_until = v_locked_until WHERE id = v_staff.id;
+
+    INSERT INTO audit_log (actor_staff_id, action, note)
+    VALUES (
+      v_staff.id,
+      'STAFF_LOCKOUT',
+      format('Locked until %s after %s failed attempts', v_locked_until, v_failures)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', false,
+    'locked_until', v_locked_until,
+    'remaining_attempts', GREATEST(5 - v_failures, 0)
+  );
+END;
+$$;
+
+-- Function to record a password or TOTP check made by GoTrue and tell it whether to go on
+CREATE OR REPLACE FUNCTION staff_auth_hook_decision(p_user_id uuid, p_factor text, p_valid boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_result jsonb;
+  v_locked_until timestamptz;
+BEGIN
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  -- A locked user is refused even with the right password or code
+  IF v_staff.locked_until > now() THEN
+    PERFORM record_staff_login_attempt(v_staff.email, false, p_factor, NULL, NULL, 'locked');
+    v_locked_until := v_staff.locked_until;
+  ELSE
+    v_result := record_staff_login_attempt(
+      v_staff.email,
+      p_valid,
+      p_factor,
+      NULL,
+      NULL,
+      CASE WHEN NOT p_valid THEN CASE WHEN p_factor = 'TOTP' THEN 'invalid code' ELSE 'invalid password' END END
+    );
+    v_locked_until := (v_result->>'locked_until')::timestamptz;
+  END IF;
+
+  IF v_locked_until IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', format(
+        'Cuenta bloqueada por demasiados intentos fallidos. Intenta de nuevo en %s minuto(s) o pide a un administrador que la desbloquee.',
+        GREATEST(1, ceil(extract(epoch FROM v_locked_until - now()) / 60))::integer
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Auth hook: every password check, also sign-ins that skip staff-login
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN staff_auth_hook_decision((event->>'user_id')::uuid, 'PASSWORD', (event->>'valid')::boolean);
+END;
+$$;
+
+-- Auth hook: every TOTP check, so wrong codes are counted without relying on the client
+CREATE OR REPLACE FUNCTION hook_mfa_verification_attempt(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN staff_auth_hook_decision((event->>'user_id')::uuid, 'TOTP', (event->>'valid')::boolean);
+END;
+$$;
+
+-- Function to add the IP and user agent seen by staff-login to the attempt the password hook recorded
+CREATE OR REPLACE FUNCTION record_staff_login_origin(
+  p_email text,
+  p_ip text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Unknown emails never reach the hook; they are audited here
+  IF NOT EXISTS (SELECT 1 FROM staff_users WHERE lower(email) = lower(trim(p_email))) THEN
+    PERFORM record_staff_login_attempt(p_email, false, 'PASSWORD', p_ip, p_user_agent, 'unknown email');
+    RETURN;
+  END IF;
+
+  UPDATE staff_login_attempts
+  SET ip = p_ip, user_agent = p_user_agent
+  WHERE id = (
+    SELECT max(id) FROM staff_login_attempts
+    WHERE email = lower(trim(p_email))
+    AND factor = 'PASSWORD'
+    AND ip IS NULL
+    AND user_agent IS NULL
+    AND created_at > now() - interval '1 minute'
+  );
+END;
+$$;
+
+-- Function to list the open sessions of the current user
+CREATE OR REPLACE FUNCTION list_my_sessions()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result json;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM staff_users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: User not found';
+  END IF;
+
+  SELECT COALESCE(json_agg(
+    json_build_object(
+      'id', s.id,
+      'created_at', s.created_at,
+      'last_active_at', COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+      'user_agent', s.user_agent,
+      'ip', host(s.ip),
+      'aal', s.aal::text,
+      'current', s.id = current_session_id()
+    ) ORDER BY s.id = current_session_id() DESC, COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at) DESC
+  ), '[]'::json) INTO v_result
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+  AND (s.not_after IS NULL OR s.not_after > now());
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to sign out one of the current user's other sessions, or all of them when p_session_id is NULL
+CREATE OR REPLACE FUNCTION revoke_my_session(p_session_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM staff_users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: User not found';
+  END IF;
+
+  IF p_session_id = current_session_id() THEN
+    RAISE EXCEPTION 'Use sign out to end the current session';
+  END IF;
+
+  -- Refresh tokens go with the session; has_permission stops accepting its access token at once
+  DELETE FROM auth.sessions
+  WHERE user_id = auth.uid()
+    AND id IS DISTINCT FROM current_session_id()
+    AND (p_session_id IS NULL OR id = p_session_id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF p_session_id IS NOT NULL AND v_count = 0 THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_count > 0 THEN
+    PERFORM log_staff_action(
+      'SESSION_REVOKE',
+      CASE
+        WHEN p_session_id IS NULL THEN format('Signed out %s other session(s)', v_count)
+        ELSE format('Signed out session %s', p_session_id)
+      END
+    );
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'revoked', v_count);
+END;
+$$;
+
+-- Function to lift a lockout before it expires
+CREATE OR REPLACE FUNCTION unlock_staff_user(p_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+BEGIN
+  -- Check the staff.manage permission
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_id;
+  END IF;
+
+  -- A lock may be an attack on an admin account, so only admins lift it
+  IF role_has_permission(v_staff.role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to unlock %', v_staff.full_name;
+  END IF;
+
+  IF v_staff.locked_until IS NULL OR v_staff.locked_until <= now() THEN
+    RAISE EXCEPTION '% is not locked', v_staff.full_name;
+  END IF;
+
+  -- Ending the lock now also restarts the failure count
+  UPDATE staff_users SET locked_until = now() WHERE id = p_id;
+
+  PERFORM log_staff_action('STAFF_UNLOCK', format('Unlocked %s', v_staff.full_name));
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+-- Function to remove the authenticators of a user who lost them; they enroll again on next sign-in
+CREATE OR REPLACE FUNCTION reset_staff_mfa(p_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_staff staff_users%ROWTYPE;
+  v_count integer;
+BEGIN
+  -- Check the staff.manage permission
+  IF NOT has_permission('staff.manage') THEN
+    RAISE EXCEPTION 'Access denied: staff.manage permission required';
+  END IF;
+
+  IF p_id = auth.uid() THEN
+    RAISE EXCEPTION 'Ask another administrator to reset your second factor';
+  END IF;
+
+  SELECT * INTO v_staff FROM staff_users WHERE id = p_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_id;
+  END IF;
+
+  -- Whoever resets it enrolls the next authenticator, so only admins can do it for admins
+  IF role_has_permission(v_staff.role, 'permission.manage') AND NOT has_permission('permission.manage') THEN
+    RAISE EXCEPTION 'Access denied: permission.manage permission required to reset the second factor of %', v_staff.full_name;
+  END IF;
+
+  DELETE FROM auth.mfa_factors WHERE user_id = p_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION '% has no second factor', v_staff.full_name;
+  END IF;
+
+  -- Sessions verified with the removed factor end as well
+  DELETE FROM auth.sessions WHERE user_id = p_id;
+
+  PERFORM log_staff_action('STAFF_MFA_RESET', format('Removed %s authenticator(s) of %s', v_count, v_staff.full_name));
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+-- Profile of the current user (now with the MFA requirement); sign-ins are audited by staff-login
+CREATE OR REPLACE FUNCTION get_user_profile()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_profile json;
+BEGIN
+  SELECT json_build_object(
+    'id', id,
+    'full_name', full_name,
+    'email', email,
+    'role', role,
+    'active', active,
+    'must_change_password', must_change_password,
+    'mfa_required', role_requires_mfa(role),
+    'permissions', (
+      SELECT COALESCE(jsonb_agg(rp.permission ORDER BY rp.permission), '[]'::jsonb)
+      FROM role_permissions rp
+      WHERE rp.role = staff_users.role
+    )
+  ) INTO user_profile
+  FROM staff_users
+  WHERE id = auth.uid() AND active = true;
+
+  IF user_profile IS NULL THEN
+    RAISE EXCEPTION 'Access denied: User not found or inactive';
+  END IF;
+
+  RETURN user_profile;
+END;
+$$;
+
+-- Función RPC para listar usuarios (ahora con bloqueo y segundo factor)
+CREATE OR REPLACE FUNCTION list_staff_users(
+  p_page int DEFAULT 1,
+  p_page_size int DEFAULT 20,
+  p_role role_type DEFAULT NULL,
+  p_active boolean DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result json;
+  total_count int;
+  offset_val int;
+BEGIN
+  -- Validar permisos
+  IF NOT has_permission('staff.view') THEN
+    RAISE EXCEPTION 'Access denied: staff.view permission required';
+  END IF;
+
+  -- Calcular offset
+  offset_val := (p_page - 1) * p_page_size;
+
+  -- Contar total
+  SELECT COUNT(*) INTO total_count
+  FROM staff_users
+  WHERE (p_role IS NULL OR role = p_role)
+    AND (p_active IS NULL OR active = p_active);
+
+  -- Obtener datos paginados
+  SELECT json_build_object(
+    'items', json_agg(
+      json_build_object(
+        'id', id,
+        'full_name', full_name,
+        'email', email,
+        'role', role,
+        'active', active,
+        'created_at', created_at,
+        'created_by', created_by,
+        'must_change_password', must_change_password,
+        'password_changed_at', password_changed_at,
+        'locked_until', CASE WHEN locked_until > now() THEN locked_until END,
+        'mfa_enabled', EXISTS (
+          SELECT 1 FROM auth.mfa_factors f
+          WHERE f.user_id = s.id AND f.status = 'verified'
+        )
+      ) ORDER BY created_at DESC
+    ),
+    'total', total_count,
+    'page', p_page,
+    'page_size', p_page_size,
+    'total_pages', CEIL(total_count::float / p_page_size)
+  ) INTO result
+  FROM (
+    SELECT *
+    FROM staff_users
+    WHERE (p_role IS NULL OR role = p_role)
+      AND (p_active IS NULL OR active = p_active)
+    ORDER BY created_at DESC
+    LIMIT p_page_size
+    OFFSET offset_val
+  ) s;
+
+  RETURN result;
+END;
+$$;
+
+-- Internal helpers, the auth hooks and the staff-login entry points
+REVOKE EXECUTE ON FUNCTION record_staff_login_attempt(text, boolean, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION staff_auth_hook_decision(uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hook_mfa_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_staff_login_lock(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_staff_login_origin(text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION hook_mfa_verification_attempt(jsonb) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION get_staff_login_lock(text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_staff_login_origin(text, text, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION role_requires_mfa(role_type) TO authenticated;
+GRANT EXECUTE ON FUNCTION current_session_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION staff_session_is_valid() TO authenticated;
+GRANT EXECUTE ON FUNCTION list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_my_session(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_staff_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_staff_mfa(uuid) TO authenticated;